@@ -153,8 +153,8 @@ async function exampleExport() {
 		console.log("JSON export:", jsonString);
 
 		// Export schema
-		const schema = await agent.getSchema();
-		const schemaPath = await exportSchema(schema.tables, schema.columns);
+		const schema = await agent.getSchemaModel();
+		const schemaPath = await exportSchema(schema);
 		console.log("Schema exported to:", schemaPath);
 
 	} finally {
@@ -1,4 +1,4 @@
-import { Box, Text, useInput } from "ink";
+import { Box, Text, useApp, useInput } from "ink";
 import Spinner from "ink-spinner";
 import type React from "react";
 import { useCallback, useEffect, useRef } from "react";
@@ -7,14 +7,22 @@ import { ConnectionView } from "./components/ConnectionView.js";
 import { ContextOverviewView } from "./components/ContextOverviewView.js";
 import { DataPreviewView } from "./components/DataPreviewView.js";
 import { DBTypeView } from "./components/DBTypeView.js";
+import { DdlView } from "./components/DdlView.js";
+import { EditJournalView } from "./components/EditJournalView.js";
 import { IndexesView } from "./components/IndexesView.js";
+import { InsertRowView } from "./components/InsertRowView.js";
+import { ObjectsView } from "./components/ObjectsView.js";
+import { PendingChangesView } from "./components/PendingChangesView.js";
+import { ProfileView } from "./components/ProfileView.js";
 import { QueryHistoryView } from "./components/QueryHistoryView.js";
 import { QueryView } from "./components/QueryView.js";
 import { RelationshipsView } from "./components/RelationshipsView.js";
 import { RowDetailView } from "./components/RowDetailView.js";
 import { SavedConnectionsView } from "./components/SavedConnectionsView.js";
+import { SchemaDiffView } from "./components/SchemaDiffView.js";
 import { SearchView } from "./components/SearchView.js";
 import { TablesView } from "./components/TablesView.js";
+import { connectionManager } from "./database/manager.js";
 import { ActionType } from "./state/actions.js";
 import { AppProvider, useAppDispatch, useAppState } from "./state/context.js";
 import { initializeApp } from "./state/effects.js";
@@ -24,6 +32,7 @@ import { APP_VERSION } from "./version.js";
 const AppContent: React.FC = () => {
 	const state = useAppState();
 	const dispatch = useAppDispatch();
+	const { exit } = useApp();
 	const scheduledNotifications = useRef(new Set<string>());
 	const previousViewRef = useRef<ViewState | null>(null);
 
@@ -31,6 +40,24 @@ const AppContent: React.FC = () => {
 		void initializeApp(dispatch);
 	}, [dispatch]);
 
+	const sessionType = state.activeConnection?.type;
+	const sessionConnectionString = state.activeConnection?.connectionString;
+	const sessionTls = state.activeConnection?.tls;
+
+	// Close the shared session once the active connection is cleared or replaced
+	useEffect(() => {
+		if (!sessionType || !sessionConnectionString) {
+			return;
+		}
+		return () => {
+			void connectionManager.dispose({
+				type: sessionType,
+				connectionString: sessionConnectionString,
+				tls: sessionTls,
+			});
+		};
+	}, [sessionType, sessionConnectionString, sessionTls]);
+
 	const handleGoHome = useCallback(() => {
 		previousViewRef.current = null;
 		dispatch({ type: ActionType.ClearActiveConnection });
@@ -38,12 +65,25 @@ const AppContent: React.FC = () => {
 	}, [dispatch]);
 
 	useInput((input, key) => {
+		// Ctrl+C quits, except where a view binds it: copying in the data grid
+		// and cancelling a running statement in the query editor
+		if (key.ctrl && input === "c") {
+			const handledByView =
+				state.currentView === ViewState.DataPreview ||
+				(state.currentView === ViewState.Query && state.loading);
+			if (!handledByView) {
+				exit();
+			}
+			return;
+		}
+
 		// Handle Ctrl+S to navigate to saved connections from any view
 		if (
 			((key.ctrl && input.toLowerCase() === "s") ||
 				(!key.ctrl && key.meta && input.toLowerCase() === "s")) &&
 			state.currentView !== ViewState.SavedConnections &&
-			state.currentView !== ViewState.RowDetail
+			state.currentView !== ViewState.RowDetail &&
+			state.currentView !== ViewState.InsertRow
 		) {
 			previousViewRef.current = null;
 			dispatch({ type: ActionType.SetView, view: ViewState.SavedConnections });
@@ -151,6 +191,20 @@ const AppContent: React.FC = () => {
 				return <IndexesView />;
 			case ViewState.Context:
 				return <ContextOverviewView />;
+			case ViewState.SchemaDiff:
+				return <SchemaDiffView />;
+			case ViewState.Ddl:
+				return <DdlView />;
+			case ViewState.Objects:
+				return <ObjectsView />;
+			case ViewState.Profile:
+				return <ProfileView />;
+			case ViewState.InsertRow:
+				return <InsertRowView />;
+			case ViewState.PendingChanges:
+				return <PendingChangesView />;
+			case ViewState.EditJournal:
+				return <EditJournalView />;
 			default:
 				return (
 					<Box>
@@ -180,7 +234,10 @@ const AppContent: React.FC = () => {
 			{state.loading && (
 				<Box marginTop={1}>
 					<Text color="yellow">
-						<Spinner type="dots" /> Loading…
+						<Spinner type="dots" />{" "}
+						{state.reconnecting
+							? `Reconnecting… (attempt ${state.reconnecting.attempt} of ${state.reconnecting.maxAttempts})`
+							: "Loading…"}
 					</Text>
 				</Box>
 			)}
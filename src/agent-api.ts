@@ -1,5 +1,28 @@
 import { createDatabaseConnection } from "./database/connection.js";
+import {
+	type DatabaseObjectKind,
+	type DatabaseObjectsByKind,
+	type DatabaseSchema,
+	getSchemaIntrospector,
+	isSchemaChange,
+} from "./database/introspection/index.js";
+import { runScript } from "./database/script.js";
+import type {
+	QueryField,
+	RetryConfig,
+	TlsOptions,
+	Transaction,
+} from "./database/types.js";
+import type {
+	AgentDatabaseObjectsOptions,
+	AgentErDiagramOptions,
+	AgentQueryOptions,
+	AgentScriptOptions,
+	AgentScriptResult,
+	AgentTableDdlOptions,
+} from "./types/agent.js";
 import type { DBType } from "./types/state.js";
+import { renderErDiagram } from "./utils/er-diagram.js";
 
 export interface DatabaseConfig {
 	type: DBType;
@@ -9,12 +32,18 @@ export interface DatabaseConfig {
 	database?: string;
 	user?: string;
 	password?: string;
+	/** TLS mode and certificate paths (overrides sslmode etc. in the URL) */
+	tls?: TlsOptions;
+	/** Retry transient connection failures with backoff; `false` disables */
+	retry?: RetryConfig | false;
 }
 
 export interface QueryResult {
 	rows: any[];
 	rowCount: number;
 	columns?: string[];
+	/** Per-column type metadata reported by the driver */
+	fields?: QueryField[];
 	duration: number;
 }
 
@@ -72,6 +101,8 @@ export class MiradorAgent {
 			this.connection = createDatabaseConnection({
 				type: config.type,
 				connectionString: connectionString,
+				tls: config.tls,
+				pool: config.retry === undefined ? undefined : { retry: config.retry },
 			});
 			await this.connection.connect();
 			this.config = config;
@@ -98,8 +129,8 @@ export class MiradorAgent {
 	 */
 	async query(
 		sql: string,
-		paramsOrOptions?: unknown[] | { skipLimitWarning?: boolean },
-		options?: { skipLimitWarning?: boolean },
+		paramsOrOptions?: unknown[] | AgentQueryOptions,
+		options?: AgentQueryOptions,
 	): Promise<QueryResult> {
 		if (!this.connection) {
 			throw new Error("Not connected to database");
@@ -107,7 +138,7 @@ export class MiradorAgent {
 
 		// Handle parameter overloading
 		let params: unknown[] = [];
-		let queryOptions: { skipLimitWarning?: boolean } = {};
+		let queryOptions: AgentQueryOptions = {};
 
 		if (Array.isArray(paramsOrOptions)) {
 			params = paramsOrOptions;
@@ -150,8 +181,12 @@ export class MiradorAgent {
 
 		const startTime = Date.now();
 		try {
-			const result = await this.connection.query(sql, params);
+			const result = await this.connection.query(sql, params, {
+				timeoutMs: queryOptions.timeoutMs,
+				signal: queryOptions.signal,
+			});
 			const duration = Date.now() - startTime;
+			this.invalidateSchemaAfter([sql]);
 
 			// Warn about large result sets
 			if (result.rowCount > 1000) {
@@ -163,6 +198,8 @@ export class MiradorAgent {
 			return {
 				rows: result.rows,
 				rowCount: result.rowCount,
+				columns: result.fields?.map((field: QueryField) => field.name),
+				fields: result.fields,
 				duration,
 			};
 		} catch (error) {
@@ -176,67 +213,55 @@ export class MiradorAgent {
 	 * Get database schema information
 	 */
 	async getSchema(): Promise<SchemaInfo> {
-		if (!this.connection) {
+		const model = await this.getSchemaModel();
+		return {
+			tables: model.tables.map(({ name, schema, type }) => ({
+				name,
+				schema,
+				type,
+			})),
+			columns: Object.fromEntries(
+				model.tables.map((table) => {
+					const foreignKeyColumns = new Set(
+						table.foreignKeys.flatMap((foreignKey) => foreignKey.columns),
+					);
+					return [
+						table.schema ? `${table.schema}.${table.name}` : table.name,
+						table.columns.map((column) => ({
+							name: column.name,
+							dataType: column.dataType,
+							nullable: column.nullable,
+							isPrimaryKey: column.isPrimaryKey,
+							isForeignKey: foreignKeyColumns.has(column.name),
+							defaultValue: column.defaultValue ?? undefined,
+						})),
+					];
+				}),
+			),
+		};
+	}
+
+	/**
+	 * Get the full schema model: tables, columns, keys, indexes, unique and
+	 * check constraints, view definitions and comments. Results are cached
+	 * for the connection; pass `refresh` to read them again.
+	 */
+	async getSchemaModel(
+		options: { refresh?: boolean } = {},
+	): Promise<DatabaseSchema> {
+		if (!this.connection || !this.config) {
 			throw new Error("Not connected to database");
 		}
 
 		try {
-			let query: string;
-			switch (this.config?.type) {
-				case "postgresql":
-					query = `
-						SELECT
-							table_schema,
-							table_name,
-							table_type
-						FROM information_schema.tables
-						WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
-						ORDER BY table_schema, table_name
-					`;
-					break;
-				case "mysql":
-					query = `
-						SELECT
-							table_schema,
-							table_name,
-							table_type
-						FROM information_schema.tables
-						WHERE table_schema NOT IN ('information_schema', 'performance_schema', 'mysql', 'sys')
-						ORDER BY table_schema, table_name
-					`;
-					break;
-				case "sqlite":
-					query = `
-						SELECT
-							NULL AS table_schema,
-							name AS table_name,
-							type AS table_type
-						FROM sqlite_master
-						WHERE type IN ('table', 'view')
-						ORDER BY name
-					`;
-					break;
-				default:
-					throw new Error(
-						`Schema introspection not supported for database type: ${this.config?.type}`,
-					);
+			const introspector = getSchemaIntrospector(
+				this.connection,
+				this.config.type,
+			);
+			if (options.refresh) {
+				introspector.invalidate();
 			}
-
-			const result = await this.connection.query(query);
-
-			const tables: SchemaInfo["tables"] = result.rows.map((row: any) => ({
-				name: row.table_name,
-				schema: row.table_schema || undefined,
-				type: row.table_type as "table" | "view" | "materialized-view",
-			}));
-
-			// For now, return empty columns - we can implement column fetching later if needed
-			const columns: SchemaInfo["columns"] = {};
-
-			return {
-				tables,
-				columns,
-			};
+			return await introspector.getSchema();
 		} catch (error) {
 			throw new Error(
 				`Failed to get schema: ${error instanceof Error ? error.message : String(error)}`,
@@ -244,6 +269,71 @@ export class MiradorAgent {
 		}
 	}
 
+	/**
+	 * Draw the schema's tables and foreign keys as an ER diagram in Mermaid,
+	 * Graphviz DOT or PlantUML, optionally limited to some tables.
+	 */
+	async getErDiagram(options: AgentErDiagramOptions = {}): Promise<string> {
+		const schema = await this.getSchemaModel({ refresh: options.refresh });
+		return renderErDiagram(schema, options.format ?? "mermaid", {
+			tables: options.tables,
+		});
+	}
+
+	/**
+	 * CREATE statements for one table or view, with its indexes: SQLite's
+	 * stored SQL, MySQL's SHOW CREATE TABLE, or a definition rebuilt from
+	 * the Postgres catalogs. `tableName` may be schema-qualified.
+	 */
+	async getTableDdl(
+		tableName: string,
+		options: AgentTableDdlOptions = {},
+	): Promise<string> {
+		if (!this.connection || !this.config) {
+			throw new Error("Not connected to database");
+		}
+
+		const introspector = getSchemaIntrospector(
+			this.connection,
+			this.config.type,
+		);
+		if (options.refresh) {
+			introspector.invalidate();
+		}
+		const table = (await introspector.listTables()).find(
+			(candidate) =>
+				(candidate.name === tableName &&
+					(options.schema === undefined ||
+						candidate.schema === options.schema)) ||
+				`${candidate.schema}.${candidate.name}` === tableName,
+		);
+		if (!table) {
+			throw new Error(`Table not found: ${tableName}`);
+		}
+		return introspector.getDdl(table);
+	}
+
+	/**
+	 * Routines, triggers, sequences or enum types, with their definitions
+	 */
+	async getDatabaseObjects<K extends DatabaseObjectKind>(
+		kind: K,
+		options: AgentDatabaseObjectsOptions = {},
+	): Promise<DatabaseObjectsByKind[K][]> {
+		if (!this.connection || !this.config) {
+			throw new Error("Not connected to database");
+		}
+
+		const introspector = getSchemaIntrospector(
+			this.connection,
+			this.config.type,
+		);
+		if (options.refresh) {
+			introspector.invalidate();
+		}
+		return introspector.listObjects(kind);
+	}
+
 	/**
 	 * Get table data with optional filtering and pagination (with safety limits)
 	 */
@@ -297,7 +387,8 @@ export class MiradorAgent {
 	}
 
 	/**
-	 * Execute multiple queries in a transaction
+	 * Execute multiple queries in a transaction. Every statement runs on the
+	 * same pinned client; any failure rolls the whole batch back.
 	 */
 	async transaction(queries: string[]): Promise<QueryResult[]> {
 		if (!this.connection) {
@@ -305,24 +396,74 @@ export class MiradorAgent {
 		}
 
 		try {
-			const results: QueryResult[] = [];
-			await this.connection.beginTransaction();
-
-			for (const sql of queries) {
-				const result = await this.query(sql);
-				results.push(result);
-			}
-
-			await this.connection.commitTransaction();
-			return results;
+			return await this.connection.transaction(async (tx: Transaction) => {
+				const results: QueryResult[] = [];
+				for (const sql of queries) {
+					const startTime = Date.now();
+					const result = await tx.query(sql);
+					results.push({
+						rows: result.rows,
+						rowCount: result.rowCount,
+						columns: result.fields?.map((field) => field.name),
+						fields: result.fields,
+						duration: Date.now() - startTime,
+					});
+				}
+				this.invalidateSchemaAfter(queries);
+				return results;
+			});
 		} catch (error) {
-			await this.connection.rollbackTransaction();
 			throw new Error(
 				`Transaction failed: ${error instanceof Error ? error.message : String(error)}`,
 			);
 		}
 	}
 
+	/**
+	 * Split a script into statements for the connected dialect and run them
+	 * in order, outside any transaction. Stops at the first failing statement
+	 * unless `continueOnError` is set; failures are reported per statement
+	 * rather than thrown.
+	 */
+	async executeScript(
+		sql: string,
+		options: AgentScriptOptions = {},
+	): Promise<AgentScriptResult> {
+		if (!this.connection) {
+			throw new Error("Not connected to database");
+		}
+
+		const script = await runScript(this.connection, sql, {
+			continueOnError: options.continueOnError,
+			timeoutMs: options.timeoutMs,
+			signal: options.signal,
+		});
+		this.invalidateSchemaAfter(
+			script.statements
+				.filter((statement) => !statement.error)
+				.map((statement) => statement.sql),
+		);
+		return {
+			statements: script.statements.map((statement) => ({
+				sql: statement.sql,
+				rows: statement.rows,
+				rowCount: statement.rowCount,
+				duration: statement.durationMs,
+				error: statement.error?.message,
+			})),
+			skipped: script.skipped,
+			rolledBack: script.rolledBack,
+			duration: script.durationMs,
+		};
+	}
+
+	/** DDL leaves the cached schema model stale. */
+	private invalidateSchemaAfter(statements: string[]): void {
+		if (this.config && statements.some(isSchemaChange)) {
+			getSchemaIntrospector(this.connection, this.config.type).invalidate();
+		}
+	}
+
 	/**
 	 * Get connection status
 	 */
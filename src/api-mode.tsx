@@ -1,14 +1,35 @@
 import { render } from "ink";
 import React from "react";
-import { createDatabaseConnection } from "./database/connection.js";
+import {
+	type DatabaseObjectKind,
+	getSchemaIntrospector,
+} from "./database/introspection/index.js";
+import { connectionManager } from "./database/manager.js";
 import { ActionType } from "./state/actions.js";
 import { AppProvider, useAppDispatch, useAppState } from "./state/context.js";
 import { initializeApp } from "./state/effects.js";
 import { type DBType, ViewState } from "./types/state.js";
+import { isErDiagramFormat, renderErDiagram } from "./utils/er-diagram.js";
 import { createReadlineInterface } from "./utils/readline.js";
 
+const OBJECT_KINDS: DatabaseObjectKind[] = [
+	"routines",
+	"triggers",
+	"sequences",
+	"enums",
+];
+
 interface ApiCommand {
-	type: "get_state" | "dispatch" | "connect" | "query" | "exit";
+	type:
+		| "get_state"
+		| "dispatch"
+		| "connect"
+		| "query"
+		| "get_schema"
+		| "get_er_diagram"
+		| "get_ddl"
+		| "get_objects"
+		| "exit";
 	payload?: any;
 }
 
@@ -49,6 +70,18 @@ class ApiModeHandler {
 				case "query":
 					return await this.handleQuery(command.payload);
 
+				case "get_schema":
+					return await this.handleGetSchema(command.payload);
+
+				case "get_er_diagram":
+					return await this.handleGetErDiagram(command.payload);
+
+				case "get_ddl":
+					return await this.handleGetDdl(command.payload);
+
+				case "get_objects":
+					return await this.handleGetObjects(command.payload);
+
 				case "exit":
 					return { success: true, data: { message: "Exiting..." } };
 
@@ -101,11 +134,11 @@ class ApiModeHandler {
 				return { success: false, error: "No connection string provided" };
 			}
 
-			const connection = createDatabaseConnection({
+			const connection = await connectionManager.acquire({
 				type: type as DBType,
 				connectionString: connString,
 			});
-			await connection.connect();
+			connectionManager.release(connection);
 
 			if (this.dispatch) {
 				this.dispatch({
@@ -141,13 +174,14 @@ class ApiModeHandler {
 		}
 
 		try {
-			const connection = createDatabaseConnection({
-				type: this.state.activeConnection.type,
-				connectionString: this.state.activeConnection.connectionString,
-			});
-			await connection.connect();
-
-			const result = await connection.query(payload.sql);
+			const result = await connectionManager.withConnection(
+				{
+					type: this.state.activeConnection.type,
+					connectionString: this.state.activeConnection.connectionString,
+					tls: this.state.activeConnection.tls,
+				},
+				(connection) => connection.query(payload.sql),
+			);
 
 			// Add to query history
 			if (this.dispatch) {
@@ -172,6 +206,181 @@ class ApiModeHandler {
 			};
 		}
 	}
+
+	/**
+	 * Schema model for the whole database, or for one table when the payload
+	 * names it (`{ "table": "users", "schema": "public" }`).
+	 */
+	private async handleGetSchema(payload: any): Promise<ApiResponse> {
+		const active = this.state?.activeConnection;
+		if (!active) {
+			return { success: false, error: "No active database connection" };
+		}
+
+		try {
+			const data = await connectionManager.withConnection(
+				{
+					type: active.type,
+					connectionString: active.connectionString,
+					tls: active.tls,
+				},
+				async (connection) => {
+					const introspector = getSchemaIntrospector(connection, active.type);
+					if (payload?.refresh) {
+						introspector.invalidate();
+					}
+					if (!payload?.table) {
+						return introspector.getSchema();
+					}
+					const tables = await introspector.listTables();
+					const table = tables.find(
+						(candidate) =>
+							candidate.name === payload.table &&
+							(payload.schema === undefined ||
+								candidate.schema === payload.schema),
+					);
+					if (!table) {
+						throw new Error(`Table not found: ${payload.table}`);
+					}
+					return introspector.getTable(table);
+				},
+			);
+			return { success: true, data };
+		} catch (error) {
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : String(error),
+			};
+		}
+	}
+
+	/**
+	 * ER diagram of the schema as text
+	 * (`{ "format": "dot", "tables": ["orders", "customers"] }`).
+	 */
+	private async handleGetErDiagram(payload: any): Promise<ApiResponse> {
+		const active = this.state?.activeConnection;
+		if (!active) {
+			return { success: false, error: "No active database connection" };
+		}
+		const format = payload?.format ?? "mermaid";
+		if (!isErDiagramFormat(format)) {
+			return {
+				success: false,
+				error: `Unsupported ER diagram format: ${String(format)}`,
+			};
+		}
+
+		try {
+			const schema = await connectionManager.withConnection(
+				{
+					type: active.type,
+					connectionString: active.connectionString,
+					tls: active.tls,
+				},
+				async (connection) => {
+					const introspector = getSchemaIntrospector(connection, active.type);
+					if (payload?.refresh) {
+						introspector.invalidate();
+					}
+					return introspector.getSchema();
+				},
+			);
+			const tables = Array.isArray(payload?.tables)
+				? payload.tables.map(String)
+				: undefined;
+			return {
+				success: true,
+				data: { format, diagram: renderErDiagram(schema, format, { tables }) },
+			};
+		} catch (error) {
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : String(error),
+			};
+		}
+	}
+
+	/** CREATE statements of one table (`{ "table": "users", "schema": "public" }`). */
+	private async handleGetDdl(payload: any): Promise<ApiResponse> {
+		const active = this.state?.activeConnection;
+		if (!active) {
+			return { success: false, error: "No active database connection" };
+		}
+		if (!payload?.table) {
+			return { success: false, error: "Missing table name" };
+		}
+
+		try {
+			const ddl = await connectionManager.withConnection(
+				{
+					type: active.type,
+					connectionString: active.connectionString,
+					tls: active.tls,
+				},
+				async (connection) => {
+					const introspector = getSchemaIntrospector(connection, active.type);
+					if (payload.refresh) {
+						introspector.invalidate();
+					}
+					const tables = await introspector.listTables();
+					const table = tables.find(
+						(candidate) =>
+							candidate.name === payload.table &&
+							(payload.schema === undefined ||
+								candidate.schema === payload.schema),
+					);
+					if (!table) {
+						throw new Error(`Table not found: ${payload.table}`);
+					}
+					return introspector.getDdl(table);
+				},
+			);
+			return { success: true, data: { table: payload.table, ddl } };
+		} catch (error) {
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : String(error),
+			};
+		}
+	}
+
+	private async handleGetObjects(payload: any): Promise<ApiResponse> {
+		const active = this.state?.activeConnection;
+		if (!active) {
+			return { success: false, error: "No active database connection" };
+		}
+		const kind = payload?.kind;
+		if (!OBJECT_KINDS.includes(kind)) {
+			return {
+				success: false,
+				error: `Unknown object kind: ${kind}. Use one of ${OBJECT_KINDS.join(", ")}`,
+			};
+		}
+
+		try {
+			const objects = await connectionManager.withConnection(
+				{
+					type: active.type,
+					connectionString: active.connectionString,
+					tls: active.tls,
+				},
+				async (connection) => {
+					const introspector = getSchemaIntrospector(connection, active.type);
+					if (payload.refresh) {
+						introspector.invalidate();
+					}
+					return introspector.listObjects(kind as DatabaseObjectKind);
+				},
+			);
+			return { success: true, data: { kind, objects } };
+		} catch (error) {
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : String(error),
+			};
+		}
+	}
 }
 
 const apiHandler = new ApiModeHandler();
@@ -45,6 +45,7 @@ export const ColumnsView: React.FC = () => {
 				{
 					type: state.dbType,
 					connectionString: state.activeConnection.connectionString,
+					tls: state.activeConnection.tls,
 				},
 				table,
 			);
@@ -76,6 +77,14 @@ export const ColumnsView: React.FC = () => {
 		if (input === "s") {
 			dispatch({ type: ActionType.SetView, view: ViewState.Search });
 		}
+
+		if (input === "p") {
+			dispatch({ type: ActionType.SetView, view: ViewState.Profile });
+			return;
+		}
+		if (input === "t") {
+			dispatch({ type: ActionType.SetView, view: ViewState.Ddl });
+		}
 	});
 
 	if (!table) {
@@ -94,7 +103,7 @@ export const ColumnsView: React.FC = () => {
 	return (
 		<ViewBuilder
 			title={`Columns • ${table.schema ? `${table.schema}.` : ""}${table.name}`}
-			footer="Enter/o: Data preview | r: Relationships | i: Indexes | q: Query | s: Search • Esc back"
+			footer="Enter/o: Data preview | r: Relationships | i: Indexes | p: Profile | t: DDL | q: Query | s: Search • Esc back"
 		>
 			{state.columns.length === 0 ? (
 				<Text dimColor>No column metadata available.</Text>
@@ -106,7 +115,10 @@ export const ColumnsView: React.FC = () => {
 						nullable: column.nullable,
 						isPrimaryKey: column.isPrimaryKey,
 						isForeignKey: column.isForeignKey,
-						foreignTable: column.foreignTable,
+						foreignTable:
+							column.foreignSchema && column.foreignSchema !== table.schema
+								? `${column.foreignSchema}.${column.foreignTable}`
+								: column.foreignTable,
 						foreignColumn: column.foreignColumn,
 					}))}
 					terminalWidth={terminalWidth}
@@ -184,10 +196,11 @@ const ColumnSummary: React.FC<{ column: ColumnInfoLite }> = ({ column }) => {
 			<Text color="gray"> ({column.dataType})</Text>
 			{!column.nullable && <Text color="magenta"> NOT NULL</Text>}
 			{column.isPrimaryKey && <Text color="yellow"> [PK]</Text>}
-			{column.isForeignKey && column.foreignTable && column.foreignColumn && (
+			{column.isForeignKey && column.foreignTable && (
 				<Text color="green">
 					{" "}
-					[FK → {column.foreignTable}.{column.foreignColumn}]
+					[FK → {column.foreignTable}
+					{column.foreignColumn ? `.${column.foreignColumn}` : ""}]
 				</Text>
 			)}
 		</Text>
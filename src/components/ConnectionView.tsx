@@ -2,6 +2,9 @@ import { Box, Text, useInput } from "ink";
 import TextInput from "ink-text-input";
 import type React from "react";
 import { useEffect, useMemo, useState } from "react";
+import { ConnectionError } from "../database/errors.js";
+import { parseSslMode, SSL_MODES } from "../database/tls.js";
+import type { TlsOptions } from "../database/types.js";
 import { ActionType } from "../state/actions.js";
 import { useAppDispatch, useAppState } from "../state/context.js";
 import { connectToDatabase } from "../state/effects.js";
@@ -13,11 +16,53 @@ const PLACEHOLDERS: Record<DBType, string> = {
 	[DBType.SQLite]: "/path/to/database.sqlite",
 };
 
+type TlsField = keyof TlsOptions;
+
+/** Optional TLS settings below the connection string; blank keeps the string's. */
+const TLS_FIELDS: Array<{ key: TlsField; label: string; placeholder: string }> =
+	[
+		{ key: "mode", label: "SSL mode   ", placeholder: SSL_MODES.join(" | ") },
+		{ key: "caFile", label: "CA file    ", placeholder: "/path/to/root.crt" },
+		{
+			key: "certFile",
+			label: "Client cert",
+			placeholder: "/path/to/client.crt",
+		},
+		{
+			key: "keyFile",
+			label: "Client key ",
+			placeholder: "/path/to/client.key",
+		},
+	];
+
+function buildTlsOptions(
+	values: Partial<Record<TlsField, string>>,
+): TlsOptions | undefined {
+	const mode = values.mode?.trim();
+	const tls: TlsOptions = {
+		...(mode ? { mode: parseSslMode(mode) } : {}),
+	};
+	for (const key of ["caFile", "certFile", "keyFile"] as const) {
+		const path = values[key]?.trim();
+		if (path) {
+			tls[key] = path;
+		}
+	}
+	return Object.keys(tls).length > 0 ? tls : undefined;
+}
+
 export const ConnectionView: React.FC = () => {
 	const dispatch = useAppDispatch();
 	const state = useAppState();
 	const [connectionString, setConnectionString] = useState("");
+	const [tlsValues, setTlsValues] = useState<Partial<Record<TlsField, string>>>(
+		{},
+	);
+	// 0 is the connection string, then one per TLS field
+	const [focusedField, setFocusedField] = useState(0);
 	const [localError, setLocalError] = useState<string | null>(null);
+	const fieldCount =
+		state.dbType && state.dbType !== DBType.SQLite ? 1 + TLS_FIELDS.length : 1;
 
 	useEffect(() => {
 		if (!state.dbType) {
@@ -29,6 +74,10 @@ export const ConnectionView: React.FC = () => {
 		setLocalError(null);
 	}, [state.errorMessage]);
 
+	useEffect(() => {
+		setFocusedField(0);
+	}, [state.dbType]);
+
 	const placeholder = useMemo(() => {
 		return state.dbType ? PLACEHOLDERS[state.dbType] : "";
 	}, [state.dbType]);
@@ -36,24 +85,47 @@ export const ConnectionView: React.FC = () => {
 	useInput((input, key) => {
 		if (key.escape) {
 			dispatch({ type: ActionType.SetView, view: ViewState.DBType });
+			return;
+		}
+		if (key.upArrow || (key.tab && key.shift)) {
+			setFocusedField((index) => Math.max(0, index - 1));
+			return;
+		}
+		if (key.downArrow || key.tab) {
+			setFocusedField((index) => Math.min(fieldCount - 1, index + 1));
 		}
 	});
 
-	const handleSubmit = async (value: string) => {
+	const handleSubmit = async () => {
 		if (!state.dbType) {
 			setLocalError("Select a database type first.");
 			return;
 		}
-		if (!value.trim()) {
+		if (!connectionString.trim()) {
 			setLocalError("Connection string is required.");
+			setFocusedField(0);
 			return;
 		}
 
+		let tls: TlsOptions | undefined;
+		try {
+			tls =
+				state.dbType === DBType.SQLite ? undefined : buildTlsOptions(tlsValues);
+		} catch (error) {
+			if (error instanceof ConnectionError) {
+				setLocalError(error.message);
+				setFocusedField(1);
+				return;
+			}
+			throw error;
+		}
+
 		setLocalError(null);
 
 		await connectToDatabase(dispatch, state, {
 			type: state.dbType,
-			connectionString: value.trim(),
+			connectionString: connectionString.trim(),
+			tls,
 		});
 	};
 
@@ -70,10 +142,34 @@ export const ConnectionView: React.FC = () => {
 				<TextInput
 					value={connectionString}
 					placeholder={placeholder}
+					focus={focusedField === 0}
 					onChange={setConnectionString}
 					onSubmit={handleSubmit}
 				/>
 			</Box>
+			{fieldCount > 1 && (
+				<Box marginTop={1} flexDirection="column">
+					<Text dimColor>
+						TLS (optional, overrides sslmode etc. in the string):
+					</Text>
+					{TLS_FIELDS.map((field, index) => (
+						<Box key={field.key}>
+							<Text color={focusedField === index + 1 ? "cyan" : undefined}>
+								{field.label}{" "}
+							</Text>
+							<TextInput
+								value={tlsValues[field.key] ?? ""}
+								placeholder={field.placeholder}
+								focus={focusedField === index + 1}
+								onChange={(value) =>
+									setTlsValues((values) => ({ ...values, [field.key]: value }))
+								}
+								onSubmit={handleSubmit}
+							/>
+						</Box>
+					))}
+				</Box>
+			)}
 			<Box marginTop={1} flexDirection="column">
 				<Text dimColor>Example:</Text>
 				<Text dimColor>
@@ -81,7 +177,8 @@ export const ConnectionView: React.FC = () => {
 					{state.dbType ? PLACEHOLDERS[state.dbType] : ""}
 				</Text>
 				<Text dimColor>
-					Shortcuts: Ctrl+S saved connections
+					{fieldCount > 1 ? "Tab/↑↓ switch field • " : ""}Shortcuts: Ctrl+S
+					saved connections
 					{state.savedConnections.length === 0 ? " (none yet)" : ""} • Esc
 					change database
 				</Text>
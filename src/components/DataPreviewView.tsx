@@ -3,14 +3,27 @@ import React, { useEffect, useMemo, useState } from "react";
 import { ActionType } from "../state/actions.js";
 import { tableCacheKey } from "../state/cache.js";
 import { useAppDispatch, useAppState } from "../state/context.js";
+import {
+	overlayPendingChanges,
+	type StagedRowState,
+} from "../state/pending.js";
 import {
 	clearConnectionCache,
 	clearTableCacheEntry,
+	exportFullTable,
 	exportTableData,
 	fetchColumns,
 	fetchTableData,
+	followForeignKey,
+	undoLastEdit,
 } from "../state/effects.js";
-import type { ColumnInfo, DataRow, TableInfo } from "../types/state.js";
+import type {
+	ColumnInfo,
+	ConcurrencyCheck,
+	DataRow,
+	RowFilter,
+	TableInfo,
+} from "../types/state.js";
 import { ViewState } from "../types/state.js";
 import {
 	copyToClipboard,
@@ -29,6 +42,7 @@ import {
 } from "../utils/column-selection.js";
 import { processRows } from "../utils/data-processing.js";
 import { getFixedPKColumns, getNavigableColumns } from "../utils/pk-utils.js";
+import { DeleteRowsDialog } from "./DeleteRowsDialog.js";
 
 const PAGE_SIZE = 20;
 const FALLBACK_TOTAL_VISIBLE_COLUMNS = 5;
@@ -36,6 +50,27 @@ const TABLE_MARGIN = 4;
 const BORDER_WIDTH = 2;
 const INDICATOR_WIDTH = 2;
 
+const STAGED_MARKERS: Record<
+	StagedRowState["kind"],
+	{ symbol: string; color: string }
+> = {
+	insert: { symbol: "+", color: "green" },
+	update: { symbol: "~", color: "yellow" },
+	delete: { symbol: "-", color: "red" },
+};
+
+const NEXT_CONCURRENCY_CHECK: Record<ConcurrencyCheck, ConcurrencyCheck> = {
+	off: "cell",
+	cell: "row",
+	row: "off",
+};
+
+const CONCURRENCY_CHECK_MESSAGES: Record<ConcurrencyCheck, string> = {
+	off: "Edits overwrite the row by its primary key.",
+	cell: "Edits check the cell still holds the loaded value before writing.",
+	row: "Edits check the whole row still holds the loaded values before writing.",
+};
+
 const DataPreviewViewComponent: React.FC = () => {
 	const dispatch = useAppDispatch();
 	const state = useAppState();
@@ -44,6 +79,9 @@ const DataPreviewViewComponent: React.FC = () => {
 		stdout?.columns,
 	);
 	const [columnStartIndex, setColumnStartIndex] = useState(0);
+	// Indexes into the displayed rows, marked for deletion with Space
+	const [markedRows, setMarkedRows] = useState<Set<number>>(new Set());
+	const [rowsToDelete, setRowsToDelete] = useState<DataRow[] | null>(null);
 
 	useEffect(() => {
 		if (!stdout) {
@@ -70,21 +108,31 @@ const DataPreviewViewComponent: React.FC = () => {
 	// ALL HOOKS MUST BE CALLED BEFORE ANY CONDITIONAL LOGIC
 	// Data processing hooks
 	// NOTE: Sorting is done at the database level, so we only apply client-side filtering here
+	// Staged changes are shown in place of the stored rows until committed
+	const staged = useMemo(
+		() => overlayPendingChanges(state.dataRows, table, state.pendingChanges),
+		[state.dataRows, table, state.pendingChanges],
+	);
 	const processedRows = useMemo(() => {
 		// Only apply filtering, NOT sorting (sorting is done by the database)
 		return state.filterValue
 			? processRows(
-					state.dataRows,
+					staged.rows,
 					{ column: null, direction: "off" }, // Disable client-side sorting
 					state.filterValue,
 					state.columns,
 				)
-			: state.dataRows;
-	}, [state.dataRows, state.filterValue, state.columns]);
+			: staged.rows;
+	}, [staged, state.filterValue, state.columns]);
 
 	const rowsToDisplay = processedRows;
 	const cacheKey = tableCacheKey(table);
 
+	// Marks are positions, so they don't survive a change of rows
+	useEffect(() => {
+		setMarkedRows(new Set());
+	}, [processedRows]);
+
 	// Column processing hooks
 	const fixedPKColumns = useMemo(
 		() => getFixedPKColumns(state.columns),
@@ -147,6 +195,15 @@ const DataPreviewViewComponent: React.FC = () => {
 		return [...fixedPKColumns, ...visibleNavigableColumns];
 	}, [fixedPKColumns, visibleNavigableColumns]);
 
+	// The foreign key `o` follows: the leftmost scrolled-to one, then key columns
+	const foreignKeyColumn = useMemo(
+		() =>
+			[...visibleNavigableColumns, ...fixedPKColumns].find(
+				(column) => column.isForeignKey,
+			) ?? null,
+		[fixedPKColumns, visibleNavigableColumns],
+	);
+
 	const columnWidths = useMemo(() => {
 		return computeColumnWidths(visibleColumns, widthLimit);
 	}, [visibleColumns, widthLimit]);
@@ -188,9 +245,16 @@ const DataPreviewViewComponent: React.FC = () => {
 	const compactHeaderInfo = useMemo(() => {
 		const parts: string[] = [];
 
-		// Table name
+		// Table name, and where following foreign keys led here from
 		if (table) {
-			parts.push(renderTableName(table));
+			parts.push(
+				[...state.foreignKeyTrail.map((entry) => entry.table), table]
+					.map(renderTableName)
+					.join(" → "),
+			);
+		}
+		if (state.rowFilter) {
+			parts.push(`Where ${renderRowFilter(state.rowFilter)}`);
 		}
 
 		// Page info
@@ -208,6 +272,10 @@ const DataPreviewViewComponent: React.FC = () => {
 			parts.push(`PK(${fixedPKColumns.length})`);
 		}
 
+		if (foreignKeyColumn?.foreignTable) {
+			parts.push(`o→${foreignKeyColumn.foreignTable}`);
+		}
+
 		// Column navigation info
 		if (navigableColumns.length > 0) {
 			parts.push(
@@ -222,6 +290,9 @@ const DataPreviewViewComponent: React.FC = () => {
 		return parts.join(" • ");
 	}, [
 		table,
+		state.foreignKeyTrail,
+		state.rowFilter,
+		foreignKeyColumn,
 		state.currentOffset,
 		state.sortConfig,
 		state.loading,
@@ -247,9 +318,12 @@ const DataPreviewViewComponent: React.FC = () => {
 				{
 					type: state.dbType,
 					connectionString: state.activeConnection.connectionString,
+					tls: state.activeConnection.tls,
 				},
 				table,
 			);
+			// Rows load once the columns tell how to identify them
+			return;
 		}
 
 		if (state.dataRows.length === 0) {
@@ -259,6 +333,7 @@ const DataPreviewViewComponent: React.FC = () => {
 				{
 					type: state.dbType,
 					connectionString: state.activeConnection.connectionString,
+					tls: state.activeConnection.tls,
 				},
 				table,
 				{ offset: 0, limit: PAGE_SIZE },
@@ -318,7 +393,7 @@ const DataPreviewViewComponent: React.FC = () => {
 	// Input handling without early returns
 	useInput((input, key) => {
 		// Guard clause - but no early return, just continue
-		if (!table || !state.activeConnection || !state.dbType) {
+		if (!table || !state.activeConnection || !state.dbType || rowsToDelete) {
 			return;
 		}
 
@@ -330,8 +405,12 @@ const DataPreviewViewComponent: React.FC = () => {
 			return;
 		}
 
-		// Navigation between views
+		// Navigation between views, retracing followed foreign keys first
 		if (key.escape || input === "b") {
+			if (state.foreignKeyTrail.length > 0) {
+				dispatch({ type: ActionType.ReturnFromForeignKey });
+				return;
+			}
 			dispatch({ type: ActionType.ClearSelectedTable });
 			dispatch({ type: ActionType.SetView, view: ViewState.Tables });
 			return;
@@ -381,6 +460,40 @@ const DataPreviewViewComponent: React.FC = () => {
 			return;
 		}
 
+		if (
+			input === " " &&
+			state.selectedRowIndex !== null &&
+			rowsToDisplay[state.selectedRowIndex]
+		) {
+			const index = state.selectedRowIndex;
+			setMarkedRows((current) => {
+				const next = new Set(current);
+				if (!next.delete(index)) {
+					next.add(index);
+				}
+				return next;
+			});
+			return;
+		}
+
+		if (key.delete && !state.loading) {
+			if (table.type !== "table") {
+				dispatch({
+					type: ActionType.SetInfo,
+					message: "Rows can only be deleted from tables.",
+				});
+				return;
+			}
+			const rows =
+				markedRows.size > 0
+					? [...markedRows].sort((a, b) => a - b).map((i) => rowsToDisplay[i])
+					: [rowsToDisplay[state.selectedRowIndex ?? 0]];
+			if (rows.every(Boolean)) {
+				setRowsToDelete(rows);
+			}
+			return;
+		}
+
 		// Home key to jump to first page (if supported by terminal)
 		if (
 			"home" in key &&
@@ -394,6 +507,7 @@ const DataPreviewViewComponent: React.FC = () => {
 				{
 					type: state.dbType,
 					connectionString: state.activeConnection.connectionString,
+					tls: state.activeConnection.tls,
 				},
 				table,
 				{ offset: 0, limit: PAGE_SIZE },
@@ -414,6 +528,7 @@ const DataPreviewViewComponent: React.FC = () => {
 				{
 					type: state.dbType,
 					connectionString: state.activeConnection.connectionString,
+					tls: state.activeConnection.tls,
 				},
 				table,
 				{ offset: previousOffset, limit: PAGE_SIZE },
@@ -428,6 +543,7 @@ const DataPreviewViewComponent: React.FC = () => {
 				{
 					type: state.dbType,
 					connectionString: state.activeConnection.connectionString,
+					tls: state.activeConnection.tls,
 				},
 				table,
 				{ offset: state.currentOffset, limit: PAGE_SIZE },
@@ -442,6 +558,7 @@ const DataPreviewViewComponent: React.FC = () => {
 				{
 					type: state.dbType,
 					connectionString: state.activeConnection.connectionString,
+					tls: state.activeConnection.tls,
 				},
 				table,
 			);
@@ -460,6 +577,7 @@ const DataPreviewViewComponent: React.FC = () => {
 				{
 					type: state.dbType,
 					connectionString: state.activeConnection.connectionString,
+					tls: state.activeConnection.tls,
 				},
 				table,
 				{ offset: state.currentOffset + PAGE_SIZE, limit: PAGE_SIZE },
@@ -477,10 +595,97 @@ const DataPreviewViewComponent: React.FC = () => {
 			dispatch({ type: ActionType.SetView, view: ViewState.RowDetail });
 		}
 
+		if (input === "i" && !state.loading) {
+			if (table.type !== "table") {
+				dispatch({
+					type: ActionType.SetInfo,
+					message: "Rows can only be inserted into tables.",
+				});
+				return;
+			}
+			dispatch({ type: ActionType.SetView, view: ViewState.InsertRow });
+			return;
+		}
+
+		if (input === "t") {
+			if (!state.stagingEnabled) {
+				dispatch({ type: ActionType.SetStagingEnabled, enabled: true });
+				dispatch({
+					type: ActionType.SetInfo,
+					message:
+						"Staging: edits, inserts and deletes wait for review with v.",
+				});
+			} else if (state.pendingChanges.length > 0) {
+				dispatch({
+					type: ActionType.SetInfo,
+					message: `Commit or discard the ${state.pendingChanges.length} staged changes first (v).`,
+				});
+			} else {
+				dispatch({ type: ActionType.SetStagingEnabled, enabled: false });
+				dispatch({
+					type: ActionType.SetInfo,
+					message: "Staging off: changes run immediately.",
+				});
+			}
+			return;
+		}
+
+		if (input === "w") {
+			const check = NEXT_CONCURRENCY_CHECK[state.concurrencyCheck];
+			dispatch({ type: ActionType.SetConcurrencyCheck, check });
+			dispatch({
+				type: ActionType.SetInfo,
+				message: CONCURRENCY_CHECK_MESSAGES[check],
+			});
+			return;
+		}
+
+		if (input === "v") {
+			if (state.pendingChanges.length === 0) {
+				dispatch({ type: ActionType.SetInfo, message: "No staged changes." });
+				return;
+			}
+			dispatch({ type: ActionType.SetView, view: ViewState.PendingChanges });
+			return;
+		}
+
+		if (input === "u" && !state.loading) {
+			void undoLastEdit(dispatch, state);
+			return;
+		}
+
+		if (input === "U") {
+			dispatch({ type: ActionType.SetView, view: ViewState.EditJournal });
+			return;
+		}
+
 		if (input === "q") {
 			dispatch({ type: ActionType.SetView, view: ViewState.Query });
 		}
 
+		if (input === "o" && !state.sortPickerMode && !state.loading) {
+			const row = rowsToDisplay[state.selectedRowIndex ?? 0];
+			if (!foreignKeyColumn || !row) {
+				dispatch({
+					type: ActionType.SetInfo,
+					message: "No foreign key column in view to follow.",
+				});
+				return;
+			}
+			void followForeignKey(
+				dispatch,
+				state,
+				{
+					type: state.dbType,
+					connectionString: state.activeConnection.connectionString,
+					tls: state.activeConnection.tls,
+				},
+				foreignKeyColumn,
+				row,
+			);
+			return;
+		}
+
 		// Sorting shortcuts - Enter sort picker mode
 		if (input === "s" && state.columns.length > 0 && !state.sortPickerMode) {
 			dispatch({ type: ActionType.EnterSortPickerMode });
@@ -572,6 +777,7 @@ const DataPreviewViewComponent: React.FC = () => {
 					{
 						type: state.dbType,
 						connectionString: state.activeConnection.connectionString,
+						tls: state.activeConnection.tls,
 					},
 					table,
 					{ offset: 0, limit: PAGE_SIZE }, // Reset to page 1 when applying sort
@@ -593,6 +799,7 @@ const DataPreviewViewComponent: React.FC = () => {
 				{
 					type: state.dbType,
 					connectionString: state.activeConnection.connectionString,
+					tls: state.activeConnection.tls,
 				},
 				table,
 				{ offset: state.currentOffset, limit: PAGE_SIZE },
@@ -652,6 +859,22 @@ const DataPreviewViewComponent: React.FC = () => {
 			// Export as JSON
 			void exportTableData(dispatch, state, "json", true);
 		}
+		if ((input === "x" || input === "X") && !state.loading) {
+			// Stream the whole table to disk (x = CSV, X = JSON)
+			void exportFullTable(
+				dispatch,
+				state,
+				{
+					type: state.dbType,
+					connectionString: state.activeConnection.connectionString,
+					tls: state.activeConnection.tls,
+				},
+				table,
+				input === "x" ? "csv" : "json",
+				true,
+			);
+			return;
+		}
 
 		// Clipboard shortcuts
 		if (input === "c" && key.ctrl) {
@@ -687,6 +910,21 @@ const DataPreviewViewComponent: React.FC = () => {
 		);
 	}
 
+	if (rowsToDelete) {
+		return (
+			<DeleteRowsDialog
+				table={table}
+				rows={rowsToDelete}
+				onClose={(deleted) => {
+					setRowsToDelete(null);
+					if (deleted) {
+						setMarkedRows(new Set());
+					}
+				}}
+			/>
+		);
+	}
+
 	// Show expanded row view if a row is expanded
 	if (state.expandedRow && state.columns.length > 0) {
 		return (
@@ -714,6 +952,16 @@ const DataPreviewViewComponent: React.FC = () => {
 					{rowsToDisplay.length} rows
 					{state.hasMoreRows && " • more"}
 				</Text>
+				{state.concurrencyCheck !== "off" && (
+					<Text color="magenta">{` • checking ${state.concurrencyCheck}`}</Text>
+				)}
+				{state.stagingEnabled && (
+					<Text color="yellow">
+						{" • staging"}
+						{state.pendingChanges.length > 0 &&
+							` ${state.pendingChanges.length} ${state.pendingChanges.length === 1 ? "change" : "changes"}`}
+					</Text>
+				)}
 			</Box>
 
 			{/* Complete column information */}
@@ -773,6 +1021,8 @@ const DataPreviewViewComponent: React.FC = () => {
 								index === state.selectedRowIndex,
 								columnStartIndex,
 								fixedPKColumns.length,
+								markedRows.has(index),
+								staged.states.get(row),
 							)}
 						</Box>
 					))
@@ -784,7 +1034,7 @@ const DataPreviewViewComponent: React.FC = () => {
 				<Text color="gray" dimColor>
 					{state.sortPickerMode
 						? "Sort Mode: h/l Select Column • k Asc • j Desc • o Off • Enter/s Apply • Esc Cancel"
-						: "↑↓←→ Nav • Home/End • p/n Page • s Sort • f Filter • r Refresh • d Details • e Export • Ctrl+c Copy • Esc Back • ? Help"}
+						: "↑↓←→ Nav • Home/End • p/n Page • s Sort • f Filter • r Refresh • d Details • i Insert • Space Mark • Del Delete • t Stage • v Review • w Check • u Undo • U Journal • o Follow FK • e Export • x Export all • Ctrl+c Copy • Esc Back • ? Help"}
 				</Text>
 			</Box>
 		</Box>
@@ -795,6 +1045,12 @@ function renderTableName(table: TableInfo): string {
 	return table.schema ? `${table.schema}.${table.name}` : table.name;
 }
 
+function renderRowFilter(filter: RowFilter): string {
+	return Object.entries(filter)
+		.map(([column, value]) => `${column}=${String(value)}`)
+		.join(", ");
+}
+
 /**
  * Render a condensed row with colored values based on data types
  */
@@ -805,6 +1061,8 @@ function renderCondensedRow(
 	isSelected: boolean,
 	columnStartIndex: number,
 	fixedPKCount: number,
+	isMarked = false,
+	stagedState?: StagedRowState,
 ): React.ReactElement {
 	if (columns.length === 0) {
 		return <Text>{JSON.stringify(row)}</Text>;
@@ -813,18 +1071,41 @@ function renderCondensedRow(
 	const parts: React.ReactElement[] = [];
 	const rowBackgroundColor = isSelected ? ("#014f4f" as const) : undefined;
 
-	// Selection indicator
-	if (isSelected) {
+	// Selection indicator; rows marked for deletion keep theirs in red
+	if (isMarked) {
 		parts.push(
 			<Text
 				key="indicator"
-				color="cyan"
+				color="red"
+				bold
+				backgroundColor={rowBackgroundColor}
+			>
+				{isSelected ? "▶" : "✗"}{" "}
+			</Text>,
+		);
+	} else if (isSelected) {
+		parts.push(
+			<Text
+				key="indicator"
+				color={stagedState ? STAGED_MARKERS[stagedState.kind].color : "cyan"}
 				bold
 				backgroundColor={rowBackgroundColor}
 			>
 				▶{" "}
 			</Text>,
 		);
+	} else if (stagedState) {
+		const marker = STAGED_MARKERS[stagedState.kind];
+		parts.push(
+			<Text
+				key="indicator"
+				color={marker.color}
+				bold
+				backgroundColor={rowBackgroundColor}
+			>
+				{marker.symbol}{" "}
+			</Text>,
+		);
 	} else {
 		parts.push(
 			<Text key="indicator" backgroundColor={rowBackgroundColor}>
@@ -870,10 +1151,20 @@ function renderCondensedRow(
 			isSelectedColumn,
 		);
 
+		// Staged values take the marker's colour; rows to be deleted are struck
+		const isStagedValue =
+			stagedState?.kind !== "delete" &&
+			stagedState?.columns.has(column.name) === true;
+
 		parts.push(
 			<Text
 				key={`col-${idx}`}
-				color={finalColor}
+				color={
+					isStagedValue && stagedState
+						? STAGED_MARKERS[stagedState.kind].color
+						: finalColor
+				}
+				strikethrough={stagedState?.kind === "delete"}
 				bold={isSelectedColumn}
 				dimColor={value === null || (value === undefined && !isSelectedColumn)}
 				backgroundColor={rowBackgroundColor}
@@ -1111,6 +1402,9 @@ function formatHeaderCell(
 ): string {
 	let label = column.name;
 
+	if (column.isForeignKey) {
+		label = `🔗${label}`;
+	}
 	if (column.isPrimaryKey) {
 		label = `🔑${label}`;
 	}
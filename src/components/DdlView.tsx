@@ -0,0 +1,112 @@
+import { Text, useInput } from "ink";
+import type React from "react";
+import { useEffect, useState } from "react";
+import { ActionType } from "../state/actions.js";
+import { useAppDispatch, useAppState } from "../state/context.js";
+import { exportTableDdl, fetchTableDdl } from "../state/effects.js";
+import { ViewState } from "../types/state.js";
+import { copyToClipboard } from "../utils/clipboard.js";
+import { ViewBuilder } from "./ViewBuilder.js";
+
+const VISIBLE_LINES = 25;
+
+export const DdlView: React.FC = () => {
+	const state = useAppState();
+	const dispatch = useAppDispatch();
+	const [ddl, setDdl] = useState<string | null>(null);
+	const [scrollOffset, setScrollOffset] = useState(0);
+
+	const table = state.selectedTable;
+	const activeConnection = state.activeConnection;
+	const dbType = state.dbType;
+
+	useEffect(() => {
+		if (!activeConnection || !dbType || !table) {
+			setDdl(null);
+			return;
+		}
+
+		let isMounted = true;
+		void fetchTableDdl(
+			dispatch,
+			{
+				type: dbType,
+				connectionString: activeConnection.connectionString,
+				tls: activeConnection.tls,
+			},
+			table,
+		).then((result) => {
+			if (isMounted) {
+				setDdl(result);
+				setScrollOffset(0);
+			}
+		});
+
+		return () => {
+			isMounted = false;
+		};
+	}, [activeConnection, dbType, table, dispatch]);
+
+	const lines = ddl ? ddl.trimEnd().split("\n") : [];
+	const maxOffset = Math.max(0, lines.length - VISIBLE_LINES);
+
+	useInput((input, key) => {
+		if (key.escape || input === "b") {
+			dispatch({ type: ActionType.SetView, view: ViewState.Columns });
+			return;
+		}
+		if (key.upArrow || input === "k") {
+			setScrollOffset((offset) => Math.max(0, offset - 1));
+		} else if (key.downArrow || input === "j") {
+			setScrollOffset((offset) => Math.min(maxOffset, offset + 1));
+		} else if (key.pageUp) {
+			setScrollOffset((offset) => Math.max(0, offset - VISIBLE_LINES));
+		} else if (key.pageDown) {
+			setScrollOffset((offset) => Math.min(maxOffset, offset + VISIBLE_LINES));
+		} else if (input === "c" && ddl) {
+			void copyToClipboard(ddl).then((copied) =>
+				dispatch(
+					copied
+						? { type: ActionType.SetInfo, message: "Copied DDL" }
+						: {
+								type: ActionType.SetError,
+								error: "Could not copy to the clipboard",
+							},
+				),
+			);
+		} else if (input === "e" && ddl && table) {
+			void exportTableDdl(dispatch, table, ddl);
+		}
+	});
+
+	const tableName = table
+		? `${table.schema ? `${table.schema}.` : ""}${table.name}`
+		: "Unknown";
+
+	return (
+		<ViewBuilder
+			title="Table DDL"
+			subtitle={`Table: ${tableName}`}
+			footer="↑/↓: Scroll | PageUp/Down: Pages | c: Copy | e: Export to .sql | Esc: Back"
+		>
+			{ddl === null ? (
+				<Text color="yellow">Loading DDL...</Text>
+			) : (
+				<>
+					{lines
+						.slice(scrollOffset, scrollOffset + VISIBLE_LINES)
+						.map((line, index) => (
+							<Text key={scrollOffset + index}>{line || " "}</Text>
+						))}
+					{lines.length > VISIBLE_LINES && (
+						<Text dimColor>
+							Lines {scrollOffset + 1}-
+							{Math.min(scrollOffset + VISIBLE_LINES, lines.length)} of{" "}
+							{lines.length}
+						</Text>
+					)}
+				</>
+			)}
+		</ViewBuilder>
+	);
+};
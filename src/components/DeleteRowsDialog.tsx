@@ -0,0 +1,198 @@
+import { Box, Text, useInput } from "ink";
+import type React from "react";
+import { useEffect, useState } from "react";
+import type { ReferentialAction } from "../database/introspection/index.js";
+import { useAppDispatch, useAppState } from "../state/context.js";
+import {
+	deleteTableRows,
+	previewRowDeletion,
+	type RowDeletionPreview,
+} from "../state/effects.js";
+import type { DataRow, RowFilter, TableInfo } from "../types/state.js";
+import { formatValueForDisplay } from "../utils/data-processing.js";
+import { ViewBuilder } from "./ViewBuilder.js";
+
+const VISIBLE_KEYS = 10;
+
+interface DeleteRowsDialogProps {
+	table: TableInfo;
+	rows: DataRow[];
+	/** Called with whether the rows were deleted. */
+	onClose: (deleted: boolean) => void;
+}
+
+function describeKey(key: RowFilter): string {
+	return Object.entries(key)
+		.map(([column, value]) => `${column}=${formatValueForDisplay(value)}`)
+		.join(", ");
+}
+
+function describeEffect(action: ReferentialAction, columns: string[]): string {
+	switch (action) {
+		case "CASCADE":
+			return "deleted as well";
+		case "SET NULL":
+			return `${columns.join(", ")} set to NULL`;
+		case "SET DEFAULT":
+			return `${columns.join(", ")} set to the default`;
+		default:
+			return "block the delete";
+	}
+}
+
+/** Confirmation listing the keys and the dependent rows a delete touches. */
+export const DeleteRowsDialog: React.FC<DeleteRowsDialogProps> = ({
+	table,
+	rows,
+	onClose,
+}) => {
+	const state = useAppState();
+	const dispatch = useAppDispatch();
+	const [preview, setPreview] = useState<RowDeletionPreview | null>(null);
+	const [isDeleting, setIsDeleting] = useState(false);
+
+	const activeConnection = state.activeConnection;
+	const dbType = state.dbType;
+
+	// The preview is taken once, for the rows the dialog opened with
+	useEffect(() => {
+		if (!activeConnection || !dbType) {
+			return;
+		}
+
+		let isMounted = true;
+		void previewRowDeletion(
+			dispatch,
+			state,
+			{
+				type: dbType,
+				connectionString: activeConnection.connectionString,
+				tls: activeConnection.tls,
+			},
+			table,
+			rows,
+		).then((loaded) => {
+			if (!isMounted) {
+				return;
+			}
+			if (loaded) {
+				setPreview(loaded);
+			} else {
+				onClose(false);
+			}
+		});
+
+		return () => {
+			isMounted = false;
+		};
+	}, []);
+
+	useInput((input, key) => {
+		if (isDeleting) {
+			return;
+		}
+		if (key.escape || input === "n") {
+			onClose(false);
+			return;
+		}
+		if (input === "y" && preview) {
+			setIsDeleting(true);
+			void deleteTableRows(dispatch, state, table, rows).then((deleted) => {
+				setIsDeleting(false);
+				onClose(deleted !== null);
+			});
+		}
+	});
+
+	const tableName = table.schema ? `${table.schema}.${table.name}` : table.name;
+	const title = `Delete ${rows.length} ${rows.length === 1 ? "row" : "rows"}`;
+
+	if (!preview) {
+		return (
+			<ViewBuilder
+				title={title}
+				subtitle={`Table: ${tableName}`}
+				footer="Esc: Cancel"
+			>
+				<Text color="yellow">Checking rows that reference these...</Text>
+			</ViewBuilder>
+		);
+	}
+
+	const blocked = preview.dependents.some(
+		({ foreignKey }) =>
+			foreignKey.onDelete === "RESTRICT" || foreignKey.onDelete === "NO ACTION",
+	);
+
+	return (
+		<ViewBuilder
+			title={title}
+			subtitle={`Table: ${tableName}`}
+			footer={
+				isDeleting
+					? "Deleting…"
+					: state.stagingEnabled
+						? "y: Stage the delete | n/Esc: Cancel"
+						: "y: Delete in one transaction | n/Esc: Cancel"
+			}
+		>
+			<Text bold>Rows to delete:</Text>
+			{preview.keys.slice(0, VISIBLE_KEYS).map((key) => (
+				<Text key={describeKey(key)}>
+					{"  "}
+					{describeKey(key)}
+				</Text>
+			))}
+			{preview.keys.length > VISIBLE_KEYS && (
+				<Text dimColor>
+					{"  "}…and {preview.keys.length - VISIBLE_KEYS} more
+				</Text>
+			)}
+			<Box marginTop={1} flexDirection="column">
+				{preview.dependents.length === 0 ? (
+					<Text dimColor>No other rows reference these.</Text>
+				) : (
+					<>
+						<Text bold>Referencing rows:</Text>
+						{preview.dependents.map(({ foreignKey, count, depth }, index) => (
+							<Text
+								key={`${index}:${foreignKey.table.schema ?? ""}.${foreignKey.name}`}
+							>
+								{"  ".repeat(depth)}
+								{depth > 1 ? "↳ " : ""}
+								{foreignKey.table.name}.{foreignKey.columns.join(", ")}: {count}{" "}
+								{count === 1 ? "row" : "rows"} —{" "}
+								<Text
+									color={
+										foreignKey.onDelete === "CASCADE" ? "yellow" : undefined
+									}
+								>
+									{describeEffect(foreignKey.onDelete, foreignKey.columns)}
+								</Text>{" "}
+								<Text dimColor>(ON DELETE {foreignKey.onDelete})</Text>
+							</Text>
+						))}
+						{preview.truncated && (
+							<Text dimColor>
+								{"  "}Cascades go deeper than shown; those rows are not counted.
+							</Text>
+						)}
+					</>
+				)}
+			</Box>
+			{blocked && (
+				<Box marginTop={1}>
+					<Text color="red">
+						Rows above still reference these; where foreign keys are enforced
+						the database refuses the delete.
+					</Text>
+				</Box>
+			)}
+			{!isDeleting && state.errorMessage && (
+				<Box marginTop={1}>
+					<Text color="red">{state.errorMessage}</Text>
+				</Box>
+			)}
+		</ViewBuilder>
+	);
+};
@@ -0,0 +1,92 @@
+import { Box, Text } from "ink";
+import type React from "react";
+import type { EditConflict, TableInfo } from "../types/state.js";
+import {
+	formatValueForDisplay,
+	truncateString,
+} from "../utils/data-processing.js";
+import { ViewBuilder } from "./ViewBuilder.js";
+
+interface EditConflictPanelProps {
+	conflict: EditConflict;
+	isSaving: boolean;
+}
+
+function renderTableName(table: TableInfo): string {
+	return table.schema ? `${table.schema}.${table.name}` : table.name;
+}
+
+function formatPreviewValue(value: unknown, width: number): string {
+	const singleLine = formatValueForDisplay(value).replace(/\s+/g, " ").trim();
+	return truncateString(singleLine, width);
+}
+
+/** The edited cell as loaded, as stored now and as edited, side by side. */
+export const EditConflictPanel: React.FC<EditConflictPanelProps> = ({
+	conflict,
+	isSaving,
+}) => {
+	const { column, loaded, current, staged } = conflict;
+	const otherChanges = current
+		? Object.keys(current).filter(
+				(name) =>
+					name !== column.name &&
+					formatValueForDisplay(current[name]) !==
+						formatValueForDisplay(loaded[name]),
+			)
+		: [];
+	const since = staged ? "staged" : "loaded";
+
+	return (
+		<ViewBuilder
+			title="Edit Conflict"
+			subtitle={`${renderTableName(conflict.table)} • ${column.name}`}
+			footer={
+				isSaving
+					? "Saving…"
+					: staged
+						? current
+							? "r: Drop your edit | o: Stage yours over it | c/Esc: Keep it staged"
+							: "r: Drop the row's edits | c/Esc: Keep them staged"
+						: current
+							? "r: Reload the row | o: Overwrite with yours | c/Esc: Cancel"
+							: "r: Back to the grid | c/Esc: Cancel"
+			}
+		>
+			<Text color="yellow">
+				{staged ? "Nothing was committed" : "Nothing was saved"}
+				{current
+					? `: the row changed since it was ${since}.`
+					: `: the row was deleted since it was ${since}.`}
+			</Text>
+			<Box marginTop={1} flexDirection="column">
+				<Text>
+					<Text dimColor>{staged ? "Staged on " : "Loaded    "}</Text>
+					{formatPreviewValue(loaded[column.name], 60)}
+				</Text>
+				{current && (
+					<Text>
+						<Text color="red">{"Database  "}</Text>
+						{formatPreviewValue(current[column.name], 60)}
+					</Text>
+				)}
+				<Text>
+					<Text color="green">{"Yours     "}</Text>
+					{formatPreviewValue(conflict.value, 60)}
+				</Text>
+			</Box>
+			{otherChanges.length > 0 && (
+				<Box marginTop={1} flexDirection="column">
+					<Text bold>Also changed:</Text>
+					{otherChanges.map((name) => (
+						<Text key={name}>
+							{"  "}
+							{name}: {formatPreviewValue(loaded[name], 24)} →{" "}
+							{formatPreviewValue(current?.[name], 24)}
+						</Text>
+					))}
+				</Box>
+			)}
+		</ViewBuilder>
+	);
+};
@@ -0,0 +1,158 @@
+import { Box, Text, useInput } from "ink";
+import type React from "react";
+import { useMemo, useState } from "react";
+import { ActionType } from "../state/actions.js";
+import { useAppDispatch, useAppState } from "../state/context.js";
+import { exportEditJournal, undoEditJournalEntry } from "../state/effects.js";
+import type { EditJournalEntry } from "../types/state.js";
+import { ViewState } from "../types/state.js";
+import {
+	formatValueForDisplay,
+	truncateString,
+} from "../utils/data-processing.js";
+import {
+	getSelectionBackground,
+	getSelectionIndicator,
+} from "../utils/selection-theme.js";
+import { ViewBuilder } from "./ViewBuilder.js";
+
+const VISIBLE_ENTRIES = 12;
+const VALUE_WIDTH = 20;
+
+function describeEntry(entry: EditJournalEntry): string {
+	const table = entry.table.schema
+		? `${entry.table.schema}.${entry.table.name}`
+		: entry.table.name;
+	const key = Object.entries(entry.key)
+		.map(([column, value]) => `${column}=${formatValueForDisplay(value)}`)
+		.join(", ");
+	if (entry.kind === "insert" || entry.kind === "delete") {
+		return `${table} ${key}`;
+	}
+	return `${table} ${key} ${entry.column}`;
+}
+
+function formatTime(iso: string): string {
+	return iso.replace("T", " ").slice(0, 19);
+}
+
+/** Edits written on this connection, newest first, to audit and undo. */
+export const EditJournalView: React.FC = () => {
+	const state = useAppState();
+	const dispatch = useAppDispatch();
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const [isWorking, setIsWorking] = useState(false);
+
+	const connectionId = state.activeConnection?.id;
+	const entries = useMemo(
+		() =>
+			state.editJournal.filter((entry) => entry.connectionId === connectionId),
+		[state.editJournal, connectionId],
+	);
+	const selected = entries[selectedIndex] ?? null;
+
+	useInput((input, key) => {
+		if (isWorking) {
+			return;
+		}
+		if (key.escape) {
+			dispatch({
+				type: ActionType.SetView,
+				view: state.selectedTable ? ViewState.DataPreview : ViewState.Tables,
+			});
+			return;
+		}
+		if (key.upArrow) {
+			setSelectedIndex((index) => Math.max(0, index - 1));
+			return;
+		}
+		if (key.downArrow) {
+			setSelectedIndex((index) => Math.min(entries.length - 1, index + 1));
+			return;
+		}
+		if (input === "u" && selected) {
+			setIsWorking(true);
+			void undoEditJournalEntry(dispatch, state, selected).then((undone) => {
+				// The undo is journalled on top; keep the same edit selected
+				if (undone) {
+					setSelectedIndex((index) => index + 1);
+				}
+				setIsWorking(false);
+			});
+			return;
+		}
+		if (input === "e") {
+			setIsWorking(true);
+			void exportEditJournal(dispatch, state).then(() => {
+				setIsWorking(false);
+			});
+		}
+	});
+
+	const footer = isWorking
+		? "Working…"
+		: "↑/↓: Select | u: Undo selected edit | e: Export as SQL | Esc: Back";
+
+	if (entries.length === 0) {
+		return (
+			<ViewBuilder title="Edit Journal" footer="Esc: Back">
+				<Text dimColor>No edits journalled on this connection yet.</Text>
+			</ViewBuilder>
+		);
+	}
+
+	const firstVisible = Math.min(
+		Math.max(0, selectedIndex - Math.floor(VISIBLE_ENTRIES / 2)),
+		Math.max(0, entries.length - VISIBLE_ENTRIES),
+	);
+
+	return (
+		<ViewBuilder
+			title="Edit Journal"
+			subtitle={`${state.activeConnection?.name ?? "Connection"} • ${entries.length} ${entries.length === 1 ? "edit" : "edits"}`}
+			footer={footer}
+		>
+			{entries
+				.slice(firstVisible, firstVisible + VISIBLE_ENTRIES)
+				.map((entry, offset) => {
+					const isSelected = firstVisible + offset === selectedIndex;
+					const indicator = getSelectionIndicator(isSelected);
+					return (
+						<Box key={entry.id}>
+							<Text color={indicator.color}>{indicator.symbol} </Text>
+							<Text
+								backgroundColor={getSelectionBackground(isSelected)}
+								dimColor={Boolean(entry.undoneAt)}
+							>
+								<Text color="gray">{formatTime(entry.changedAt)} </Text>
+								{describeEntry(entry)}:{" "}
+								{entry.kind === "insert" ? (
+									<Text color="green">row inserted</Text>
+								) : entry.kind === "delete" ? (
+									<Text color="red">row deleted</Text>
+								) : (
+									<>
+										<Text color="red">
+											{truncateString(
+												formatValueForDisplay(entry.oldValue),
+												VALUE_WIDTH,
+											)}
+										</Text>
+										{" → "}
+										<Text color="green">
+											{truncateString(
+												formatValueForDisplay(entry.newValue),
+												VALUE_WIDTH,
+											)}
+										</Text>
+									</>
+								)}
+								{entry.undoes && <Text color="cyan"> (undo)</Text>}
+								{entry.undoneAt && <Text> (undone)</Text>}
+							</Text>
+						</Box>
+					);
+				})}
+		</ViewBuilder>
+	);
+};
@@ -1,26 +1,21 @@
 import { Box, Text } from "ink";
 import type React from "react";
 import { useEffect, useState } from "react";
-import { createDatabaseConnection } from "../database/connection.js";
+import { connectionManager } from "../database/manager.js";
+import {
+	getSchemaIntrospector,
+	type IndexSchema,
+} from "../database/introspection/index.js";
+import type { DatabaseConnection } from "../database/types.js";
 import { ActionType } from "../state/actions.js";
 import { useAppDispatch, useAppState } from "../state/context.js";
 import type { TableInfo } from "../types/state.js";
-import { DBType } from "../types/state.js";
 import { ViewBuilder } from "./ViewBuilder.js";
 
-interface Index {
-	name: string;
-	tableName: string;
-	columns: string[];
-	isUnique: boolean;
-	isPrimary: boolean;
-	type?: string;
-}
-
 export const IndexesView: React.FC = () => {
 	const state = useAppState();
 	const dispatch = useAppDispatch();
-	const [indexes, setIndexes] = useState<Index[]>([]);
+	const [indexes, setIndexes] = useState<IndexSchema[]>([]);
 	const [loading, setLoading] = useState(false);
 
 	const table = state.selectedTable;
@@ -37,126 +32,21 @@ export const IndexesView: React.FC = () => {
 
 		const fetchIndexes = async () => {
 			setLoading(true);
-			let connection: ReturnType<typeof createDatabaseConnection> | null = null;
+			let connection: DatabaseConnection | null = null;
 			try {
-				connection = createDatabaseConnection({
+				connection = await connectionManager.acquire({
 					type: dbType,
 					connectionString: activeConnection.connectionString,
+					tls: activeConnection.tls,
 				});
-				await connection.connect();
-
-				let query: string;
-				const params: unknown[] = [];
-
-				switch (dbType) {
-					case DBType.PostgreSQL: {
-						const schemaName = table.schema ?? "public";
-						const tableName = table.name;
-						query = `
-              SELECT
-                i.relname as index_name,
-                a.attname as column_name,
-                ix.indisunique as is_unique,
-                ix.indisprimary as is_primary,
-                am.amname as index_type
-              FROM pg_class t
-              JOIN pg_index ix ON t.oid = ix.indrelid
-              JOIN pg_class i ON i.oid = ix.indexrelid
-              JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey)
-              JOIN pg_am am ON i.relam = am.oid
-              JOIN pg_namespace n ON n.oid = t.relnamespace
-              WHERE t.relkind = 'r'
-                AND t.relname = $1
-                AND n.nspname = $2
-              ORDER BY i.relname, a.attnum
-
-            `;
-						params.push(tableName, schemaName);
-						break;
-					}
-
-					case DBType.MySQL:
-						query = `
-              SELECT
-                INDEX_NAME as index_name,
-                COLUMN_NAME as column_name,
-                NON_UNIQUE = 0 as is_unique,
-                INDEX_NAME = 'PRIMARY' as is_primary,
-                INDEX_TYPE as index_type
-              FROM information_schema.STATISTICS
-              WHERE TABLE_SCHEMA = DATABASE()
-                AND TABLE_NAME = ?
-              ORDER BY INDEX_NAME, SEQ_IN_INDEX
-
-            `;
-						params.push(table.name);
-						break;
-
-					case DBType.SQLite:
-						query = `PRAGMA index_list(?)`;
-						params.push(table.name);
-						break;
-
-					default:
-						throw new Error(`Unsupported database type: ${dbType}`);
-				}
-
-				const result = await connection.query(query, params);
-
-				let formattedIndexes: Index[] = [];
-
-				if (dbType === DBType.SQLite) {
-					// SQLite returns different format, need to get column info separately
-					const indexList = result.rows as Array<Record<string, unknown>>;
-					for (const indexRow of indexList) {
-						const columnsQuery = `PRAGMA index_info(?)`;
-						const columnsResult = await connection.query(columnsQuery, [
-							indexRow.name,
-						]);
-
-						const columnNames = columnsResult.rows.map(
-							(row: Record<string, unknown>) => String(row.name ?? ""),
-						);
-						formattedIndexes.push({
-							name: String(indexRow.name ?? ""),
-							tableName: renderTableName(table),
-							columns: columnNames,
-							isUnique: Boolean(indexRow.unique),
-							isPrimary: String(indexRow.name ?? "").startsWith(
-								`sqlite_autoindex_${table.name}`,
-							),
-						});
-					}
-				} else {
-					// Group by index name and collect columns
-					const indexMap = new Map<string, Index>();
 
-					for (const row of result.rows as Array<Record<string, unknown>>) {
-						const indexName = String(row.index_name ?? "");
-
-						if (!indexMap.has(indexName)) {
-							indexMap.set(indexName, {
-								name: indexName,
-								tableName: renderTableName(table),
-								columns: [],
-								isUnique: Boolean(row.is_unique),
-								isPrimary: Boolean(row.is_primary),
-								type: row.index_type ? String(row.index_type) : undefined,
-							});
-						}
-
-						const index = indexMap.get(indexName)!;
-						const columnName = String(row.column_name ?? "");
-						if (columnName && !index.columns.includes(columnName)) {
-							index.columns.push(columnName);
-						}
-					}
-
-					formattedIndexes = Array.from(indexMap.values());
-				}
+				const tableIndexes = await getSchemaIntrospector(
+					connection,
+					dbType,
+				).getIndexes(table);
 
 				if (isMounted) {
-					setIndexes(formattedIndexes);
+					setIndexes(tableIndexes);
 				}
 			} catch (error) {
 				dispatch({
@@ -166,11 +56,7 @@ export const IndexesView: React.FC = () => {
 				});
 			} finally {
 				if (connection) {
-					try {
-						await connection.close();
-					} catch {
-						// ignore close errors
-					}
+					connectionManager.release(connection);
 				}
 				if (isMounted) {
 					setLoading(false);
@@ -185,9 +71,9 @@ export const IndexesView: React.FC = () => {
 		};
 	}, [activeConnection, dbType, table, dispatch]);
 
-	const primaryKeys = indexes.filter((i) => i.isPrimary);
-	const uniqueIndexes = indexes.filter((i) => i.isUnique && !i.isPrimary);
-	const nonUniqueIndexes = indexes.filter((i) => !i.isUnique && !i.isPrimary);
+	const primaryKeys = indexes.filter((i) => i.primary);
+	const uniqueIndexes = indexes.filter((i) => i.unique && !i.primary);
+	const nonUniqueIndexes = indexes.filter((i) => !i.unique && !i.primary);
 
 	return (
 		<ViewBuilder
@@ -0,0 +1,392 @@
+import { Box, Text, useInput } from "ink";
+import type React from "react";
+import { useEffect, useMemo, useState } from "react";
+import {
+	allowedLabels,
+	type ColumnRules,
+	interpretEditedInput,
+	literalDefault,
+} from "../database/edit-validation.js";
+import { ActionType } from "../state/actions.js";
+import { useAppDispatch, useAppState } from "../state/context.js";
+import {
+	fetchColumnRules,
+	fetchForeignKeyChoices,
+	insertTableRow,
+} from "../state/effects.js";
+import { type ColumnInfo, type DBType, ViewState } from "../types/state.js";
+import {
+	formatValueForDisplay,
+	truncateString,
+} from "../utils/data-processing.js";
+import {
+	getSelectionBackground,
+	getSelectionIndicator,
+} from "../utils/selection-theme.js";
+import { ViewBuilder } from "./ViewBuilder.js";
+
+const VISIBLE_FIELDS = 12;
+const VISIBLE_CHOICES = 10;
+const VALUE_WIDTH = 50;
+
+/** A field either leaves the column to its DEFAULT or carries typed input. */
+interface FieldInput {
+	useDefault: boolean;
+	buffer: string;
+}
+
+interface Picker {
+	column: string;
+	/** null while the choices are loading */
+	choices: string[] | null;
+	index: number;
+}
+
+function initialInput(dbType: DBType, column: ColumnInfo): FieldInput {
+	const literal = literalDefault(dbType, column.defaultValue);
+	if (literal !== null) {
+		return { useDefault: false, buffer: literal };
+	}
+	// Expression defaults and NULL are the database's to fill in
+	if (column.defaultValue || column.nullable) {
+		return { useDefault: true, buffer: "" };
+	}
+	return { useDefault: false, buffer: "" };
+}
+
+function canUseDefault(column: ColumnInfo): boolean {
+	return Boolean(column.defaultValue) || column.nullable;
+}
+
+export const InsertRowView: React.FC = () => {
+	const state = useAppState();
+	const dispatch = useAppDispatch();
+	const [inputs, setInputs] = useState<Record<string, FieldInput>>({});
+	const [rules, setRules] = useState<Record<string, ColumnRules>>({});
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const [picker, setPicker] = useState<Picker | null>(null);
+	const [isSaving, setIsSaving] = useState(false);
+
+	const table = state.selectedTable;
+	const activeConnection = state.activeConnection;
+	const dbType = state.dbType;
+	const columns = state.columns;
+
+	const editable = useMemo(
+		() => columns.filter((column) => !column.isAutoIncrement),
+		[columns],
+	);
+	const generated = useMemo(
+		() => columns.filter((column) => column.isAutoIncrement),
+		[columns],
+	);
+
+	useEffect(() => {
+		if (!table || table.type !== "table" || !dbType) {
+			dispatch({ type: ActionType.SetView, view: ViewState.DataPreview });
+			return;
+		}
+		setInputs(
+			Object.fromEntries(
+				editable.map((column) => [column.name, initialInput(dbType, column)]),
+			),
+		);
+		setSelectedIndex(0);
+	}, [dispatch, table, dbType, editable]);
+
+	useEffect(() => {
+		if (!activeConnection || !dbType || !table) {
+			return;
+		}
+
+		let isMounted = true;
+		void fetchColumnRules(
+			dispatch,
+			{
+				type: dbType,
+				connectionString: activeConnection.connectionString,
+				tls: activeConnection.tls,
+			},
+			table,
+			editable,
+		).then((loaded) => {
+			if (isMounted) {
+				setRules(loaded);
+			}
+		});
+
+		return () => {
+			isMounted = false;
+		};
+	}, [activeConnection, dbType, table, editable, dispatch]);
+
+	const errors = useMemo(() => {
+		const found: Record<string, string> = {};
+		for (const column of editable) {
+			const input = inputs[column.name];
+			if (!input || input.useDefault) {
+				continue;
+			}
+			const result = interpretEditedInput(
+				input.buffer,
+				column,
+				rules[column.name],
+				dbType ?? undefined,
+			);
+			if (!result.ok) {
+				found[column.name] = result.error;
+			}
+		}
+		return found;
+	}, [editable, inputs, rules]);
+
+	const selected = editable[selectedIndex] ?? null;
+
+	const setInput = (name: string, input: FieldInput) => {
+		setInputs((current) => ({ ...current, [name]: input }));
+	};
+
+	const openPicker = (column: ColumnInfo) => {
+		const labels = allowedLabels(column, rules[column.name]);
+		if (labels) {
+			setPicker({ column: column.name, choices: labels, index: 0 });
+			return;
+		}
+		if (!column.isForeignKey || !activeConnection || !dbType) {
+			return;
+		}
+		setPicker({ column: column.name, choices: null, index: 0 });
+		void fetchForeignKeyChoices(
+			dispatch,
+			state,
+			{
+				type: dbType,
+				connectionString: activeConnection.connectionString,
+				tls: activeConnection.tls,
+			},
+			column,
+		).then((values) => {
+			setPicker((current) =>
+				current?.column === column.name
+					? { ...current, choices: values.map(formatValueForDisplay) }
+					: current,
+			);
+		});
+	};
+
+	const save = async () => {
+		if (!table) {
+			return;
+		}
+		const firstInvalid = editable.findIndex((column) => errors[column.name]);
+		if (firstInvalid !== -1) {
+			setSelectedIndex(firstInvalid);
+			return;
+		}
+		setIsSaving(true);
+		const row = await insertTableRow(
+			dispatch,
+			state,
+			table,
+			Object.fromEntries(
+				Object.entries(inputs)
+					.filter(([, input]) => !input.useDefault)
+					.map(([name, input]) => [name, input.buffer]),
+			),
+			rules,
+		);
+		setIsSaving(false);
+		if (row) {
+			// A staged row has no stored version to open yet
+			dispatch({
+				type: ActionType.SetView,
+				view: state.stagingEnabled
+					? ViewState.DataPreview
+					: ViewState.RowDetail,
+			});
+		}
+	};
+
+	useInput((input, key) => {
+		if (isSaving) {
+			return;
+		}
+
+		if (picker) {
+			const count = picker.choices?.length ?? 0;
+			if (key.escape) {
+				setPicker(null);
+			} else if (key.upArrow && picker.index > 0) {
+				setPicker({ ...picker, index: picker.index - 1 });
+			} else if (key.downArrow && picker.index < count - 1) {
+				setPicker({ ...picker, index: picker.index + 1 });
+			} else if (key.return && picker.choices?.[picker.index] !== undefined) {
+				setInput(picker.column, {
+					useDefault: false,
+					buffer: picker.choices[picker.index],
+				});
+				setPicker(null);
+			}
+			return;
+		}
+
+		if (key.escape) {
+			dispatch({ type: ActionType.SetView, view: ViewState.DataPreview });
+			return;
+		}
+		if (key.ctrl && input.toLowerCase() === "s") {
+			void save();
+			return;
+		}
+		if (key.upArrow) {
+			setSelectedIndex((index) => Math.max(0, index - 1));
+			return;
+		}
+		if (key.downArrow || key.tab) {
+			setSelectedIndex((index) => Math.min(editable.length - 1, index + 1));
+			return;
+		}
+		if (!selected) {
+			return;
+		}
+
+		const current = inputs[selected.name] ?? { useDefault: false, buffer: "" };
+		if (key.return) {
+			if (
+				allowedLabels(selected, rules[selected.name]) ||
+				selected.isForeignKey
+			) {
+				openPicker(selected);
+			} else {
+				setSelectedIndex((index) => Math.min(editable.length - 1, index + 1));
+			}
+			return;
+		}
+		if (key.ctrl && input.toLowerCase() === "d") {
+			if (canUseDefault(selected)) {
+				setInput(selected.name, { useDefault: true, buffer: "" });
+			}
+			return;
+		}
+		if (key.backspace || key.delete) {
+			setInput(selected.name, {
+				useDefault: false,
+				buffer: current.useDefault ? "" : current.buffer.slice(0, -1),
+			});
+			return;
+		}
+		if (input && !key.ctrl && !key.meta) {
+			setInput(selected.name, {
+				useDefault: false,
+				buffer: (current.useDefault ? "" : current.buffer) + input,
+			});
+		}
+	});
+
+	const tableName = table
+		? `${table.schema ? `${table.schema}.` : ""}${table.name}`
+		: "Unknown";
+
+	if (picker) {
+		const choices = picker.choices;
+		const firstVisible = Math.max(
+			0,
+			Math.min(
+				picker.index - Math.floor(VISIBLE_CHOICES / 2),
+				(choices?.length ?? 0) - VISIBLE_CHOICES,
+			),
+		);
+		return (
+			<ViewBuilder
+				title="Insert Row"
+				subtitle={`Table: ${tableName} • Choose a value for ${picker.column}`}
+				footer="↑/↓: Select | Enter: Use value | Esc: Back to the form"
+			>
+				{choices === null ? (
+					<Text color="yellow">Loading values...</Text>
+				) : choices.length === 0 ? (
+					<Text color="gray">Nothing to choose from.</Text>
+				) : (
+					choices
+						.slice(firstVisible, firstVisible + VISIBLE_CHOICES)
+						.map((choice, offset) => {
+							const isSelected = firstVisible + offset === picker.index;
+							const indicator = getSelectionIndicator(isSelected);
+							return (
+								<Box key={choice}>
+									<Text color={indicator.color}>{indicator.symbol} </Text>
+									<Text backgroundColor={getSelectionBackground(isSelected)}>
+										{truncateString(choice, VALUE_WIDTH)}
+									</Text>
+								</Box>
+							);
+						})
+				)}
+			</ViewBuilder>
+		);
+	}
+
+	const firstVisible = Math.min(
+		Math.max(0, selectedIndex - Math.floor(VISIBLE_FIELDS / 2)),
+		Math.max(0, editable.length - VISIBLE_FIELDS),
+	);
+	const labelWidth = Math.max(
+		...editable.map((column) => column.name.length),
+		4,
+	);
+
+	return (
+		<ViewBuilder
+			title="Insert Row"
+			subtitle={`Table: ${tableName}${generated.length > 0 ? ` • Generated by the database: ${generated.map((column) => column.name).join(", ")}` : ""}`}
+			footer={
+				isSaving
+					? "Inserting…"
+					: `↑/↓: Field | Type to edit | Enter: Pick enum/FK value | Ctrl+D: Use default | Ctrl+S: ${state.stagingEnabled ? "Stage insert" : "Insert"} | Esc: Cancel`
+			}
+		>
+			{editable
+				.slice(firstVisible, firstVisible + VISIBLE_FIELDS)
+				.map((column, offset) => {
+					const isSelected = firstVisible + offset === selectedIndex;
+					const indicator = getSelectionIndicator(isSelected);
+					const input = inputs[column.name];
+					const error = errors[column.name];
+					return (
+						<Box key={column.name}>
+							<Text color={indicator.color}>{indicator.symbol} </Text>
+							<Text backgroundColor={getSelectionBackground(isSelected)}>
+								{column.name.padEnd(labelWidth)}
+							</Text>
+							<Text> </Text>
+							{input?.useDefault ? (
+								<Text dimColor>DEFAULT ({column.defaultValue ?? "NULL"})</Text>
+							) : (
+								<Text color={error ? "red" : "white"}>
+									{truncateString(input?.buffer ?? "", VALUE_WIDTH)}
+									{isSelected ? "▏" : ""}
+								</Text>
+							)}
+							<Text dimColor>
+								{"  "}
+								{column.dataType}
+								{column.isForeignKey ? ` → ${column.foreignTable}` : ""}
+							</Text>
+						</Box>
+					);
+				})}
+			{selected && errors[selected.name] ? (
+				<Box marginTop={1}>
+					<Text color="red">✗ {errors[selected.name]}</Text>
+				</Box>
+			) : (
+				!isSaving &&
+				state.errorMessage && (
+					<Box marginTop={1}>
+						<Text color="red">{state.errorMessage}</Text>
+					</Box>
+				)
+			)}
+		</ViewBuilder>
+	);
+};
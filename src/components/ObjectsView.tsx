@@ -0,0 +1,268 @@
+import { Box, Text, useInput } from "ink";
+import type React from "react";
+import { useEffect, useMemo, useState } from "react";
+import type {
+	DatabaseObjectKind,
+	DatabaseObjectsByKind,
+	EnumSchema,
+	RoutineSchema,
+	SequenceSchema,
+	TriggerSchema,
+} from "../database/introspection/index.js";
+import { ActionType } from "../state/actions.js";
+import { useAppDispatch, useAppState } from "../state/context.js";
+import { fetchDatabaseObjects } from "../state/effects.js";
+import { ViewState } from "../types/state.js";
+import { copyToClipboard } from "../utils/clipboard.js";
+import {
+	getSelectionBackground,
+	getSelectionIndicator,
+} from "../utils/selection-theme.js";
+import { ViewBuilder } from "./ViewBuilder.js";
+
+const VISIBLE_LINES = 20;
+
+const KINDS: Array<{ kind: DatabaseObjectKind; label: string }> = [
+	{ kind: "routines", label: "Routines" },
+	{ kind: "triggers", label: "Triggers" },
+	{ kind: "sequences", label: "Sequences" },
+	{ kind: "enums", label: "Enum types" },
+];
+
+interface ObjectEntry {
+	key: string;
+	label: string;
+	detail: string[];
+	/** Source to copy, where the database keeps one. */
+	definition?: string;
+}
+
+function qualified(object: { schema?: string; name: string }): string {
+	return object.schema ? `${object.schema}.${object.name}` : object.name;
+}
+
+function withDefinition(lines: string[], definition?: string): string[] {
+	return definition ? [...lines, "", ...definition.split("\n")] : lines;
+}
+
+const DESCRIBERS: {
+	[K in DatabaseObjectKind]: (object: DatabaseObjectsByKind[K]) => ObjectEntry;
+} = {
+	routines: (routine: RoutineSchema) => {
+		const signature = `${qualified(routine)}(${routine.arguments})`;
+		return {
+			key: `${routine.kind}:${signature}`,
+			label: `${signature}${routine.returnType ? ` → ${routine.returnType}` : ""}  [${routine.kind}]`,
+			detail: withDefinition(
+				[
+					`Kind: ${routine.kind}`,
+					`Arguments: ${routine.arguments || "(none)"}`,
+					`Returns: ${routine.returnType ?? "(nothing)"}`,
+					`Language: ${routine.language ?? "unknown"}`,
+				],
+				routine.definition,
+			),
+			definition: routine.definition,
+		};
+	},
+	triggers: (trigger: TriggerSchema) => {
+		const firing = `${trigger.timing} ${trigger.events.join(" OR ")}`;
+		return {
+			key: `${qualified(trigger)}@${qualified(trigger.table)}`,
+			label: `${trigger.name} ON ${qualified(trigger.table)}  ${firing} FOR EACH ${trigger.level}${trigger.enabled ? "" : "  (disabled)"}`,
+			detail: withDefinition(
+				[
+					`Table: ${qualified(trigger.table)}`,
+					`Timing: ${trigger.timing}`,
+					`Events: ${trigger.events.join(", ") || "unknown"}`,
+					`Level: FOR EACH ${trigger.level}`,
+					`Enabled: ${trigger.enabled ? "yes" : "no"}`,
+				],
+				trigger.definition,
+			),
+			definition: trigger.definition,
+		};
+	},
+	sequences: (sequence: SequenceSchema) => ({
+		key: qualified(sequence),
+		label: `${qualified(sequence)}  last value: ${sequence.lastValue ?? "none"}`,
+		detail: [
+			`Type: ${sequence.dataType ?? "unknown"}`,
+			`Start: ${sequence.start ?? "-"}`,
+			`Increment: ${sequence.increment ?? "-"}`,
+			`Minimum: ${sequence.min ?? "-"}`,
+			`Maximum: ${sequence.max ?? "-"}`,
+			`Cycles: ${sequence.cycle ? "yes" : "no"}`,
+			`Last value: ${sequence.lastValue ?? "none handed out yet"}`,
+		],
+	}),
+	enums: (type: EnumSchema) => ({
+		key: qualified(type),
+		label: `${qualified(type)}: ${type.labels.join(", ")}`,
+		detail: [
+			`${type.labels.length} labels, in sort order:`,
+			...type.labels.map((label) => `  ${label}`),
+		],
+	}),
+};
+
+export const ObjectsView: React.FC = () => {
+	const state = useAppState();
+	const dispatch = useAppDispatch();
+	const [kindIndex, setKindIndex] = useState(0);
+	const [entries, setEntries] = useState<ObjectEntry[] | null>(null);
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const [opened, setOpened] = useState<ObjectEntry | null>(null);
+	const [scrollOffset, setScrollOffset] = useState(0);
+
+	const activeConnection = state.activeConnection;
+	const dbType = state.dbType;
+	const { kind, label } = KINDS[kindIndex];
+
+	useEffect(() => {
+		if (!activeConnection || !dbType) {
+			setEntries(null);
+			return;
+		}
+
+		let isMounted = true;
+		setEntries(null);
+		setSelectedIndex(0);
+
+		const load = async <K extends DatabaseObjectKind>(objectKind: K) => {
+			const objects = await fetchDatabaseObjects(
+				dispatch,
+				{
+					type: dbType,
+					connectionString: activeConnection.connectionString,
+					tls: activeConnection.tls,
+				},
+				objectKind,
+			);
+			if (isMounted) {
+				setEntries(objects ? objects.map(DESCRIBERS[objectKind]) : []);
+			}
+		};
+		void load(kind);
+
+		return () => {
+			isMounted = false;
+		};
+	}, [activeConnection, dbType, kind, dispatch]);
+
+	const maxOffset = useMemo(
+		() => Math.max(0, (opened?.detail.length ?? 0) - VISIBLE_LINES),
+		[opened],
+	);
+
+	useInput((input, key) => {
+		if (opened) {
+			if (key.escape || input === "b") {
+				setOpened(null);
+				return;
+			}
+			if (key.upArrow || input === "k") {
+				setScrollOffset((offset) => Math.max(0, offset - 1));
+			} else if (key.downArrow || input === "j") {
+				setScrollOffset((offset) => Math.min(maxOffset, offset + 1));
+			} else if (key.pageUp) {
+				setScrollOffset((offset) => Math.max(0, offset - VISIBLE_LINES));
+			} else if (key.pageDown) {
+				setScrollOffset((offset) =>
+					Math.min(maxOffset, offset + VISIBLE_LINES),
+				);
+			} else if (input === "c" && opened.definition) {
+				const definition = opened.definition;
+				void copyToClipboard(definition).then((copied) =>
+					dispatch(
+						copied
+							? { type: ActionType.SetInfo, message: "Copied definition" }
+							: {
+									type: ActionType.SetError,
+									error: "Could not copy to the clipboard",
+								},
+					),
+				);
+			}
+			return;
+		}
+
+		if (key.escape) {
+			dispatch({ type: ActionType.SetView, view: ViewState.Tables });
+			return;
+		}
+		const digit = Number(input);
+		if (digit >= 1 && digit <= KINDS.length) {
+			setKindIndex(digit - 1);
+		} else if (key.tab || key.rightArrow) {
+			setKindIndex((index) => (index + 1) % KINDS.length);
+		} else if (key.leftArrow) {
+			setKindIndex((index) => (index + KINDS.length - 1) % KINDS.length);
+		} else if ((key.upArrow || input === "k") && selectedIndex > 0) {
+			setSelectedIndex(selectedIndex - 1);
+		} else if (
+			(key.downArrow || input === "j") &&
+			entries &&
+			selectedIndex < entries.length - 1
+		) {
+			setSelectedIndex(selectedIndex + 1);
+		} else if (key.return && entries?.[selectedIndex]) {
+			setScrollOffset(0);
+			setOpened(entries[selectedIndex]);
+		}
+	});
+
+	if (opened) {
+		return (
+			<ViewBuilder
+				title={label}
+				subtitle={opened.label}
+				footer={`↑/↓: Scroll | PageUp/Down: Pages${opened.definition ? " | c: Copy definition" : ""} | Esc: Back`}
+			>
+				{opened.detail
+					.slice(scrollOffset, scrollOffset + VISIBLE_LINES)
+					.map((line, index) => (
+						<Text key={scrollOffset + index}>{line || " "}</Text>
+					))}
+				{opened.detail.length > VISIBLE_LINES && (
+					<Text dimColor>
+						Lines {scrollOffset + 1}-
+						{Math.min(scrollOffset + VISIBLE_LINES, opened.detail.length)} of{" "}
+						{opened.detail.length}
+					</Text>
+				)}
+			</ViewBuilder>
+		);
+	}
+
+	return (
+		<ViewBuilder
+			title="Database Objects"
+			subtitle={KINDS.map((entry, index) =>
+				index === kindIndex
+					? `[${index + 1} ${entry.label}]`
+					: ` ${index + 1} ${entry.label} `,
+			).join(" ")}
+			footer="1-4/Tab: Switch kind | ↑/↓: Navigate | Enter: Details | Esc: Back"
+		>
+			{entries === null ? (
+				<Text color="yellow">Loading {label.toLowerCase()}...</Text>
+			) : entries.length === 0 ? (
+				<Text color="gray">No {label.toLowerCase()} in this database.</Text>
+			) : (
+				entries.map((entry, index) => {
+					const isSelected = index === selectedIndex;
+					const indicator = getSelectionIndicator(isSelected);
+					return (
+						<Box key={entry.key}>
+							<Text color={indicator.color}>{indicator.symbol} </Text>
+							<Text backgroundColor={getSelectionBackground(isSelected)}>
+								{entry.label}
+							</Text>
+						</Box>
+					);
+				})
+			)}
+		</ViewBuilder>
+	);
+};
@@ -0,0 +1,231 @@
+import { Box, Text, useInput } from "ink";
+import type React from "react";
+import { useState } from "react";
+import { ActionType } from "../state/actions.js";
+import { useAppDispatch, useAppState } from "../state/context.js";
+import {
+	buildCommitStatements,
+	commitPendingChanges,
+	knownTableColumns,
+	resolveEditConflict,
+} from "../state/effects.js";
+import type {
+	DataRow,
+	PendingChange,
+	RowFilter,
+	TableInfo,
+} from "../types/state.js";
+import { ViewState } from "../types/state.js";
+import { formatValueForDisplay } from "../utils/data-processing.js";
+import {
+	getSelectionBackground,
+	getSelectionIndicator,
+} from "../utils/selection-theme.js";
+import { EditConflictPanel } from "./EditConflictPanel.js";
+import { ViewBuilder } from "./ViewBuilder.js";
+
+const VISIBLE_CHANGES = 6;
+
+function renderTableName(table: TableInfo): string {
+	return table.schema ? `${table.schema}.${table.name}` : table.name;
+}
+
+function describeValues(values: RowFilter | DataRow): string {
+	return Object.entries(values)
+		.map(([column, value]) => `${column}=${formatValueForDisplay(value)}`)
+		.join(", ");
+}
+
+function renderDiff(change: PendingChange): React.ReactElement {
+	const table = renderTableName(change.table);
+	switch (change.kind) {
+		case "insert":
+			return (
+				<Text color="green">
+					+ {table}{" "}
+					{Object.keys(change.values).length > 0
+						? describeValues(change.values)
+						: "(all defaults)"}
+				</Text>
+			);
+		case "delete":
+			return (
+				<Text color="red">
+					- {table} {describeValues(change.key)}
+				</Text>
+			);
+		case "update":
+			return (
+				<Text>
+					<Text color="yellow">~ </Text>
+					{table} {describeValues(change.key)} {change.column}:{" "}
+					<Text color="red">{formatValueForDisplay(change.previous)}</Text>
+					{" → "}
+					<Text color="green">{formatValueForDisplay(change.value)}</Text>
+				</Text>
+			);
+	}
+}
+
+/** Staged changes with the statements a commit runs, in order. */
+export const PendingChangesView: React.FC = () => {
+	const state = useAppState();
+	const dispatch = useAppDispatch();
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const [confirmDiscard, setConfirmDiscard] = useState(false);
+	const [isCommitting, setIsCommitting] = useState(false);
+
+	const changes = state.pendingChanges;
+	const dbType = state.dbType;
+
+	const backToGrid = () => {
+		dispatch({ type: ActionType.SetView, view: ViewState.DataPreview });
+	};
+
+	useInput((input, key) => {
+		if (isCommitting) {
+			return;
+		}
+
+		if (state.editConflict) {
+			if (input === "r") {
+				void resolveEditConflict(dispatch, state, "reload");
+				return;
+			}
+			if (input === "o" && state.editConflict.current) {
+				void resolveEditConflict(dispatch, state, "overwrite");
+				return;
+			}
+			if (input === "c" || key.escape) {
+				void resolveEditConflict(dispatch, state, "cancel");
+			}
+			return;
+		}
+
+		if (confirmDiscard) {
+			if (input === "y") {
+				dispatch({ type: ActionType.ClearPendingChanges });
+				backToGrid();
+				dispatch({
+					type: ActionType.SetInfo,
+					message: `Discarded ${changes.length} staged ${changes.length === 1 ? "change" : "changes"}.`,
+				});
+			}
+			setConfirmDiscard(false);
+			return;
+		}
+
+		if (key.escape) {
+			backToGrid();
+			return;
+		}
+		if (key.upArrow) {
+			setSelectedIndex((index) => Math.max(0, index - 1));
+			return;
+		}
+		if (key.downArrow) {
+			setSelectedIndex((index) => Math.min(changes.length - 1, index + 1));
+			return;
+		}
+		if (key.delete && changes[selectedIndex]) {
+			dispatch({ type: ActionType.DropPendingChange, index: selectedIndex });
+			setSelectedIndex((index) =>
+				Math.max(0, Math.min(index, changes.length - 2)),
+			);
+			if (changes.length === 1) {
+				backToGrid();
+			}
+			return;
+		}
+		if (input === "x" && changes.length > 0) {
+			setConfirmDiscard(true);
+			return;
+		}
+		if (input === "c" && changes.length > 0) {
+			setIsCommitting(true);
+			// A successful commit returns to the grid by itself
+			void commitPendingChanges(dispatch, state).then(() => {
+				setIsCommitting(false);
+			});
+		}
+	});
+
+	const footer = isCommitting
+		? "Committing…"
+		: confirmDiscard
+			? "Discard all staged changes? y: Discard | any other key: Keep"
+			: "↑/↓: Select | Del: Unstage | c: Commit in one transaction | x: Discard all | Esc: Back";
+
+	if (state.editConflict) {
+		return <EditConflictPanel conflict={state.editConflict} isSaving={false} />;
+	}
+
+	if (!dbType || changes.length === 0) {
+		return (
+			<ViewBuilder title="Staged Changes" footer="Esc: Back">
+				<Text dimColor>No staged changes.</Text>
+			</ViewBuilder>
+		);
+	}
+
+	const firstVisible = Math.min(
+		Math.max(0, selectedIndex - Math.floor(VISIBLE_CHANGES / 2)),
+		Math.max(0, changes.length - VISIBLE_CHANGES),
+	);
+
+	return (
+		<ViewBuilder
+			title="Staged Changes"
+			subtitle={`${changes.length} ${changes.length === 1 ? "change" : "changes"}, run in this order`}
+			footer={footer}
+		>
+			{changes
+				.slice(firstVisible, firstVisible + VISIBLE_CHANGES)
+				.map((change, offset) => {
+					const index = firstVisible + offset;
+					const isSelected = index === selectedIndex;
+					const indicator = getSelectionIndicator(isSelected);
+					const statements = buildCommitStatements(
+						dbType,
+						change,
+						knownTableColumns(state, change.table),
+						state.concurrencyCheck,
+					);
+					return (
+						<Box key={index} flexDirection="column" marginBottom={1}>
+							<Box>
+								<Text color={indicator.color}>{indicator.symbol} </Text>
+								<Text backgroundColor={getSelectionBackground(isSelected)}>
+									{renderDiff(change)}
+								</Text>
+							</Box>
+							{statements.map(({ sql, params }) => (
+								<Box key={sql} flexDirection="column">
+									<Text dimColor>
+										{"  "}
+										{sql}
+									</Text>
+									{params.length > 0 && (
+										<Text dimColor>
+											{"  "}params:{" "}
+											{params.map(formatValueForDisplay).join(", ")}
+										</Text>
+									)}
+								</Box>
+							))}
+						</Box>
+					);
+				})}
+			{changes.length > VISIBLE_CHANGES && (
+				<Text dimColor>
+					{selectedIndex + 1} of {changes.length}
+				</Text>
+			)}
+			{!isCommitting && state.errorMessage && (
+				<Box marginTop={1}>
+					<Text color="red">{state.errorMessage}</Text>
+				</Box>
+			)}
+		</ViewBuilder>
+	);
+};
@@ -0,0 +1,195 @@
+import { Box, Text, useInput } from "ink";
+import type React from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ActionType } from "../state/actions.js";
+import { tableCacheKey } from "../state/cache.js";
+import { useAppDispatch, useAppState } from "../state/context.js";
+import { fetchTableProfile } from "../state/effects.js";
+import { type ColumnProfile, ViewState } from "../types/state.js";
+import {
+	formatValueForDisplay,
+	truncateString,
+} from "../utils/data-processing.js";
+import {
+	getSelectionBackground,
+	getSelectionIndicator,
+} from "../utils/selection-theme.js";
+import { ViewBuilder } from "./ViewBuilder.js";
+
+const VISIBLE_COLUMNS = 12;
+const VALUE_WIDTH = 40;
+
+function percent(fraction: number): string {
+	return `${(fraction * 100).toFixed(1)}%`;
+}
+
+function formatNumber(value: number): string {
+	return Number.isInteger(value)
+		? value.toLocaleString()
+		: value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function displayValue(value: unknown): string {
+	return truncateString(formatValueForDisplay(value), VALUE_WIDTH);
+}
+
+function statistics(column: ColumnProfile): string[] {
+	const lines = [
+		`Nulls: ${formatNumber(column.nullCount)} (${percent(column.nullFraction)})`,
+		`Distinct: ${formatNumber(column.distinctCount)}`,
+	];
+	if (column.min !== undefined || column.max !== undefined) {
+		lines.push(
+			`Min: ${displayValue(column.min)}   Max: ${displayValue(column.max)}`,
+		);
+	}
+	if (column.mean !== undefined) {
+		lines.push(
+			`Average: ${formatNumber(column.mean)}   Std dev: ${formatNumber(column.stddev ?? 0)}`,
+		);
+	}
+	if (column.averageLength !== undefined) {
+		lines.push(
+			`Length: ${formatNumber(column.averageLength)} on average, ${formatNumber(column.maxLength ?? 0)} at most`,
+		);
+	}
+	return lines;
+}
+
+export const ProfileView: React.FC = () => {
+	const state = useAppState();
+	const dispatch = useAppDispatch();
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const requestedRef = useRef<string | null>(null);
+
+	const table = state.selectedTable;
+	const cacheKey = tableCacheKey(table);
+	const profile = cacheKey ? state.tableCache[cacheKey]?.profile : undefined;
+
+	const runProfile = useCallback(() => {
+		if (!table || !state.activeConnection || !state.dbType) {
+			return;
+		}
+		void fetchTableProfile(
+			dispatch,
+			state,
+			{
+				type: state.dbType,
+				connectionString: state.activeConnection.connectionString,
+				tls: state.activeConnection.tls,
+			},
+			table,
+		);
+	}, [dispatch, state, table]);
+
+	useEffect(() => {
+		if (!table) {
+			dispatch({ type: ActionType.SetView, view: ViewState.Tables });
+			return;
+		}
+		// Profiles are cached with the table; only the first visit computes one
+		if (!profile && requestedRef.current !== cacheKey) {
+			requestedRef.current = cacheKey;
+			runProfile();
+		}
+	}, [dispatch, table, profile, cacheKey, runProfile]);
+
+	const columns = profile?.columns ?? [];
+
+	useInput((input, key) => {
+		if (key.escape || input === "b") {
+			dispatch({ type: ActionType.SetView, view: ViewState.Columns });
+			return;
+		}
+		if (state.loading) {
+			return;
+		}
+		if ((key.upArrow || input === "k") && selectedIndex > 0) {
+			setSelectedIndex(selectedIndex - 1);
+		} else if (
+			(key.downArrow || input === "j") &&
+			selectedIndex < columns.length - 1
+		) {
+			setSelectedIndex(selectedIndex + 1);
+		} else if (input === "r") {
+			runProfile();
+		}
+	});
+
+	const tableName = table
+		? `${table.schema ? `${table.schema}.` : ""}${table.name}`
+		: "Unknown";
+
+	if (!profile) {
+		return (
+			<ViewBuilder
+				title="Column Profile"
+				subtitle={`Table: ${tableName}`}
+				footer="r: Profile again | Esc: Back"
+			>
+				<Text color="yellow">
+					{state.loading ? "Profiling columns..." : "No profile yet."}
+				</Text>
+			</ViewBuilder>
+		);
+	}
+
+	const selected = columns[Math.min(selectedIndex, columns.length - 1)];
+	const firstVisible = Math.min(
+		Math.max(0, selectedIndex - Math.floor(VISIBLE_COLUMNS / 2)),
+		Math.max(0, columns.length - VISIBLE_COLUMNS),
+	);
+	const summary = profile.sampled
+		? `~${formatNumber(profile.rowCount)} rows, sampled ${formatNumber(profile.profiledRows)}`
+		: `${formatNumber(profile.rowCount)} rows`;
+
+	return (
+		<ViewBuilder
+			title="Column Profile"
+			subtitle={`Table: ${tableName} • ${summary} • profiled ${new Date(profile.profiledAt).toLocaleString()}`}
+			footer="↑/↓: Select column | r: Profile again | Esc: Back"
+		>
+			{columns
+				.slice(firstVisible, firstVisible + VISIBLE_COLUMNS)
+				.map((column, offset) => {
+					const isSelected = firstVisible + offset === selectedIndex;
+					const indicator = getSelectionIndicator(isSelected);
+					return (
+						<Box key={column.name}>
+							<Text color={indicator.color}>{indicator.symbol} </Text>
+							<Text backgroundColor={getSelectionBackground(isSelected)}>
+								{column.name}
+							</Text>
+							<Text dimColor>
+								{"  "}
+								{column.dataType} • {percent(column.nullFraction)} null •{" "}
+								{formatNumber(column.distinctCount)} distinct
+							</Text>
+						</Box>
+					);
+				})}
+			{selected && (
+				<Box flexDirection="column" marginTop={1}>
+					<Text bold color="cyan">
+						{selected.name} ({selected.dataType})
+					</Text>
+					{statistics(selected).map((line) => (
+						<Text key={line}>{line}</Text>
+					))}
+					{selected.topValues.length > 0 && (
+						<>
+							<Text bold>Most frequent:</Text>
+							{selected.topValues.map((entry) => (
+								<Text key={formatValueForDisplay(entry.value)}>
+									{"  "}
+									{displayValue(entry.value)}{" "}
+									<Text dimColor>× {formatNumber(entry.count)}</Text>
+								</Text>
+							))}
+						</>
+					)}
+				</Box>
+			)}
+		</ViewBuilder>
+	);
+};
@@ -1,11 +1,14 @@
 import { Box, Text, useInput } from "ink";
 import TextInput from "ink-text-input";
 import type React from "react";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { ActionType } from "../state/actions.js";
+import type { ScriptResult } from "../database/script.js";
 import { useAppDispatch, useAppState } from "../state/context.js";
 import { executeQuery } from "../state/effects.js";
 import { ViewState } from "../types/state.js";
+import { truncateString } from "../utils/data-processing.js";
+import { locateErrorToken } from "../utils/error-position.js";
 import { ViewBuilder } from "./ViewBuilder.js";
 
 export const QueryView: React.FC = () => {
@@ -14,8 +17,20 @@ export const QueryView: React.FC = () => {
 	const [queryText, setQueryText] = useState("");
 	const [isExecuting, setIsExecuting] = useState(false);
 	const [showCommands, setShowCommands] = useState(false);
+	const [continueOnError, setContinueOnError] = useState(false);
+	const [scriptResult, setScriptResult] = useState<ScriptResult | null>(null);
+	const abortRef = useRef<AbortController | null>(null);
+
+	// Leaving the view abandons whatever statement is still running
+	useEffect(() => () => abortRef.current?.abort(), []);
 
 	useInput((input, key) => {
+		// Esc or Ctrl+C stops the running statement instead of navigating
+		if (isExecuting && (key.escape || (key.ctrl && input === "c"))) {
+			abortRef.current?.abort();
+			return;
+		}
+
 		if (key.escape) {
 			if (showCommands) {
 				setShowCommands(false);
@@ -37,6 +52,10 @@ export const QueryView: React.FC = () => {
 				setShowCommands(false);
 				return;
 			}
+			if (input === "e") {
+				setContinueOnError(!continueOnError);
+				return;
+			}
 			if (input === "h" && (state.queryHistory?.length ?? 0) > 0) {
 				dispatch({ type: ActionType.SetView, view: ViewState.QueryHistory });
 				return;
@@ -49,29 +68,47 @@ export const QueryView: React.FC = () => {
 			return;
 		}
 
+		const controller = new AbortController();
+		abortRef.current = controller;
 		setIsExecuting(true);
 		try {
-			await executeQuery(
+			const result = await executeQuery(
 				dispatch,
 				state,
 				{
 					type: state.dbType,
 					connectionString: state.activeConnection.connectionString,
+					tls: state.activeConnection.tls,
 				},
 				queryText,
+				[],
+				{ signal: controller.signal, continueOnError },
 			);
+			setScriptResult(result);
 		} finally {
+			if (abortRef.current === controller) {
+				abortRef.current = null;
+			}
 			setIsExecuting(false);
 		}
 	};
 
 	const lastResult = state?.queryHistory?.find((item) => !item.error);
+	const latest = state?.queryHistory?.[0];
+	const errorSpan =
+		!isExecuting && latest?.error && latest.errorPosition !== undefined
+			? locateErrorToken(latest.query, latest.errorPosition)
+			: null;
 
 	return (
 		<ViewBuilder
 			title="SQL Query"
 			subtitle={`Connected to: ${state?.activeConnection?.name || "Unknown"}`}
-			footer="Tab: Commands | Enter: Execute | Esc: Back"
+			footer={
+				isExecuting
+					? "Esc/Ctrl+C: Cancel query"
+					: "Tab: Commands | Enter: Execute | Esc: Back"
+			}
 		>
 			<Box flexDirection="column">
 				<Box flexDirection="column" marginBottom={1}>
@@ -79,7 +116,8 @@ export const QueryView: React.FC = () => {
 					<Text color="gray" dimColor>
 						{showCommands ? (
 							<Text color="yellow">
-								Command Mode: 'c' to clear, 'h' for history, Tab to exit
+								Command Mode: 'c' to clear, 'h' for history, 'e' to{" "}
+								{continueOnError ? "stop" : "continue"} on errors, Tab to exit
 							</Text>
 						) : (
 							"Press Tab to enter command mode, Enter to execute query"
@@ -107,10 +145,61 @@ export const QueryView: React.FC = () => {
 
 				{isExecuting && (
 					<Box marginBottom={1}>
-						<Text color="yellow">Executing query...</Text>
+						<Text color="yellow">
+							Executing query... (Esc or Ctrl+C to cancel)
+						</Text>
 					</Box>
 				)}
 
+				{errorSpan && (
+					<Box flexDirection="column" marginBottom={1}>
+						<Text color="red">
+							Error near line {errorSpan.line}, column{" "}
+							{errorSpan.before.length + 1}:
+						</Text>
+						<Text>
+							{errorSpan.before}
+							<Text color="red" underline>
+								{errorSpan.token}
+							</Text>
+							{errorSpan.after}
+						</Text>
+					</Box>
+				)}
+
+				{!isExecuting &&
+					scriptResult &&
+					(scriptResult.statements.length > 1 || scriptResult.rolledBack) && (
+						<Box flexDirection="column" marginBottom={1}>
+							<Text color="cyan">
+								Script: {scriptResult.statements.length} statements run
+								{scriptResult.skipped > 0
+									? `, ${scriptResult.skipped} skipped after an error`
+									: ""}{" "}
+								({scriptResult.durationMs}ms)
+							</Text>
+							{scriptResult.rolledBack && (
+								<Text color="yellow">
+									The script left its transaction open; it was rolled back and
+									its changes discarded.
+								</Text>
+							)}
+							{scriptResult.statements.map((statement, index) => (
+								<Text
+									key={statement.offset}
+									color={statement.error ? "red" : undefined}
+								>
+									{statement.error ? "✗" : "✓"} {index + 1}.{" "}
+									{truncateString(statement.sql.replace(/\s+/g, " "), 50)}
+									{" — "}
+									{statement.error
+										? statement.error.message
+										: `${statement.rowCount} rows, ${statement.durationMs}ms`}
+								</Text>
+							))}
+						</Box>
+					)}
+
 				{lastResult && (
 					<Box flexDirection="column" marginBottom={1}>
 						<Text color="green">
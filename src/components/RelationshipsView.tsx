@@ -1,26 +1,31 @@
 import { Box, Text } from "ink";
 import type React from "react";
 import { useEffect, useState } from "react";
-import { createDatabaseConnection } from "../database/connection.js";
+import { connectionManager } from "../database/manager.js";
+import {
+	type ForeignKeySchema,
+	getSchemaIntrospector,
+	type ReferencingKeySchema,
+	type TableConstraints,
+} from "../database/introspection/index.js";
+import type { DatabaseConnection } from "../database/types.js";
 import { ActionType } from "../state/actions.js";
 import { useAppDispatch, useAppState } from "../state/context.js";
 import type { TableInfo } from "../types/state.js";
-import { DBType } from "../types/state.js";
 import { ViewBuilder } from "./ViewBuilder.js";
 
-interface Relationship {
-	constraintName: string;
-	sourceTable: string;
-	sourceColumn: string;
-	targetTable: string;
-	targetColumn: string;
-	constraintType: "FOREIGN KEY" | "PRIMARY KEY" | "UNIQUE";
+interface Relationships {
+	foreignKeys: ForeignKeySchema[];
+	referencingKeys: ReferencingKeySchema[];
+	constraints: TableConstraints;
 }
 
 export const RelationshipsView: React.FC = () => {
 	const state = useAppState();
 	const dispatch = useAppDispatch();
-	const [relationships, setRelationships] = useState<Relationship[]>([]);
+	const [relationships, setRelationships] = useState<Relationships | null>(
+		null,
+	);
 	const [loading, setLoading] = useState(false);
 
 	const table = state.selectedTable;
@@ -29,7 +34,7 @@ export const RelationshipsView: React.FC = () => {
 
 	useEffect(() => {
 		if (!activeConnection || !dbType || !table) {
-			setRelationships([]);
+			setRelationships(null);
 			return;
 		}
 
@@ -37,104 +42,22 @@ export const RelationshipsView: React.FC = () => {
 
 		const fetchRelationships = async () => {
 			setLoading(true);
-			let connection: ReturnType<typeof createDatabaseConnection> | null = null;
+			let connection: DatabaseConnection | null = null;
 			try {
-				connection = createDatabaseConnection({
+				connection = await connectionManager.acquire({
 					type: dbType,
 					connectionString: activeConnection.connectionString,
+					tls: activeConnection.tls,
 				});
-				await connection.connect();
-
-				let query: string;
-				const params: unknown[] = [];
-
-				switch (dbType) {
-					case DBType.PostgreSQL:
-						query = `
-              SELECT
-                tc.constraint_name,
-                tc.table_name as source_table,
-                kcu.column_name as source_column,
-                ccu.table_name AS target_table,
-                ccu.column_name AS target_column,
-                tc.constraint_type
-              FROM information_schema.table_constraints tc
-              JOIN information_schema.key_column_usage kcu
-                ON tc.constraint_name = kcu.constraint_name
-                AND tc.table_schema = kcu.table_schema
-              LEFT JOIN information_schema.constraint_column_usage ccu
-                ON ccu.constraint_name = tc.constraint_name
-                AND ccu.table_schema = tc.table_schema
-              WHERE tc.table_schema = $1
-                AND tc.table_name = $2
-              ORDER BY tc.constraint_type, tc.constraint_name
-
-            `;
-						params.push(table.schema ?? "public", table.name);
-						break;
-
-					case DBType.MySQL:
-						query = `
-              SELECT
-                CONSTRAINT_NAME as constraint_name,
-                TABLE_NAME as source_table,
-                COLUMN_NAME as source_column,
-                REFERENCED_TABLE_NAME as target_table,
-                REFERENCED_COLUMN_NAME as target_column,
-                CONSTRAINT_TYPE as constraint_type
-              FROM information_schema.KEY_COLUMN_USAGE
-              LEFT JOIN information_schema.TABLE_CONSTRAINTS
-                ON information_schema.KEY_COLUMN_USAGE.CONSTRAINT_NAME = information_schema.TABLE_CONSTRAINTS.CONSTRAINT_NAME
-              WHERE information_schema.KEY_COLUMN_USAGE.TABLE_SCHEMA = DATABASE()
-                AND information_schema.KEY_COLUMN_USAGE.TABLE_NAME = ?
-              ORDER BY information_schema.TABLE_CONSTRAINTS.CONSTRAINT_TYPE, CONSTRAINT_NAME
-
-            `;
-						params.push(table.name);
-						break;
-
-					case DBType.SQLite:
-						query = `PRAGMA foreign_key_list(?)`;
-						params.push(table.name);
-						break;
-
-					default:
-						throw new Error(`Unsupported database type: ${dbType}`);
-				}
-
-				const result = await connection.query(query, params);
-
-				let formattedRelationships: Relationship[] = [];
-
-				if (dbType === DBType.SQLite) {
-					// SQLite returns different format
-					formattedRelationships = result.rows.map(
-						(row: Record<string, unknown>) => ({
-							constraintName: String(row.id ?? `fk_${row.table ?? ""}`),
-							sourceTable: renderTableName(table),
-							sourceColumn: String(row.from ?? ""),
-							targetTable: String(row.table ?? ""),
-							targetColumn: String(row.to ?? ""),
-							constraintType: "FOREIGN KEY" as const,
-						}),
-					);
-				} else {
-					formattedRelationships = result.rows.map(
-						(row: Record<string, unknown>) => ({
-							constraintName: String(row.constraint_name ?? ""),
-							sourceTable: String(row.source_table ?? renderTableName(table)),
-							sourceColumn: String(row.source_column ?? ""),
-							targetTable: String(row.target_table ?? ""),
-							targetColumn: String(row.target_column ?? ""),
-							constraintType:
-								(row.constraint_type as Relationship["constraintType"]) ||
-								"FOREIGN KEY",
-						}),
-					);
-				}
+				const introspector = getSchemaIntrospector(connection, dbType);
+				const [foreignKeys, referencingKeys, constraints] = await Promise.all([
+					introspector.getForeignKeys(table),
+					introspector.getReferencingKeys(table),
+					introspector.getConstraints(table),
+				]);
 
 				if (isMounted) {
-					setRelationships(formattedRelationships);
+					setRelationships({ foreignKeys, referencingKeys, constraints });
 				}
 			} catch (error) {
 				dispatch({
@@ -146,11 +69,7 @@ export const RelationshipsView: React.FC = () => {
 				});
 			} finally {
 				if (connection) {
-					try {
-						await connection.close();
-					} catch {
-						// ignore close errors
-					}
+					connectionManager.release(connection);
 				}
 				if (isMounted) {
 					setLoading(false);
@@ -165,15 +84,15 @@ export const RelationshipsView: React.FC = () => {
 		};
 	}, [activeConnection, dbType, table, dispatch]);
 
-	const foreignKeys = relationships.filter(
-		(r) => r.constraintType === "FOREIGN KEY",
-	);
-	const primaryKeys = relationships.filter(
-		(r) => r.constraintType === "PRIMARY KEY",
-	);
-	const uniqueConstraints = relationships.filter(
-		(r) => r.constraintType === "UNIQUE",
-	);
+	const foreignKeys = relationships?.foreignKeys ?? [];
+	const referencingKeys = relationships?.referencingKeys ?? [];
+	const primaryKey = relationships?.constraints.primaryKey ?? null;
+	const uniqueConstraints = relationships?.constraints.unique ?? [];
+	const total =
+		foreignKeys.length +
+		referencingKeys.length +
+		(primaryKey ? 1 : 0) +
+		uniqueConstraints.length;
 
 	return (
 		<ViewBuilder
@@ -185,9 +104,7 @@ export const RelationshipsView: React.FC = () => {
 				<Text color="yellow">Loading relationships...</Text>
 			) : (
 				<Box flexDirection="column">
-					{foreignKeys.length === 0 &&
-					primaryKeys.length === 0 &&
-					uniqueConstraints.length === 0 ? (
+					{total === 0 ? (
 						<Box flexDirection="column">
 							<Text color="gray">No relationships found for this table.</Text>
 							<Text color="gray">
@@ -202,57 +119,78 @@ export const RelationshipsView: React.FC = () => {
 									<Text color="cyan" bold>
 										Foreign Keys ({foreignKeys.length}):
 									</Text>
-									{foreignKeys.map((fk, index) => (
-										<Box
-											key={fk.constraintName || index}
-											flexDirection="column"
-											paddingX={1}
-										>
+									{foreignKeys.map((fk) => (
+										<Box key={fk.name} flexDirection="column" paddingX={1}>
 											<Text color="yellow">
-												{fk.sourceColumn} → {fk.targetTable}.{fk.targetColumn}
+												{fk.columns.join(", ")} →{" "}
+												{fk.referencedSchema &&
+												fk.referencedSchema !== table?.schema
+													? `${fk.referencedSchema}.`
+													: ""}
+												{fk.referencedTable}
+												{fk.referencedColumns.length > 0
+													? `.${fk.referencedColumns.join(", ")}`
+													: ""}
 											</Text>
 											<Text color="gray" dimColor>
-												Constraint: {fk.constraintName}
+												Constraint: {fk.name} • ON UPDATE {fk.onUpdate} • ON
+												DELETE {fk.onDelete}
 											</Text>
 										</Box>
 									))}
 								</Box>
 							)}
 
-							{primaryKeys.length > 0 && (
+							{referencingKeys.length > 0 && (
 								<Box flexDirection="column" marginBottom={2}>
-									<Text color="green" bold>
-										Primary Keys ({primaryKeys.length}):
+									<Text color="magenta" bold>
+										Referenced By ({referencingKeys.length}):
 									</Text>
-									{primaryKeys.map((pk, index) => (
+									{referencingKeys.map((fk) => (
 										<Box
-											key={pk.constraintName || index}
+											key={`${renderTableName(fk.table)}.${fk.name}`}
 											flexDirection="column"
 											paddingX={1}
 										>
-											<Text color="green">{pk.sourceColumn}</Text>
+											<Text color="magenta">
+												{renderTableName(fk.table)}.{fk.columns.join(", ")} →{" "}
+												{fk.referencedColumns.join(", ") || "primary key"}
+											</Text>
 											<Text color="gray" dimColor>
-												Constraint: {pk.constraintName}
+												Constraint: {fk.name} • ON UPDATE {fk.onUpdate} • ON
+												DELETE {fk.onDelete}
 											</Text>
 										</Box>
 									))}
 								</Box>
 							)}
 
+							{primaryKey && (
+								<Box flexDirection="column" marginBottom={2}>
+									<Text color="green" bold>
+										Primary Key:
+									</Text>
+									<Box flexDirection="column" paddingX={1}>
+										<Text color="green">{primaryKey.columns.join(", ")}</Text>
+										{primaryKey.name && (
+											<Text color="gray" dimColor>
+												Constraint: {primaryKey.name}
+											</Text>
+										)}
+									</Box>
+								</Box>
+							)}
+
 							{uniqueConstraints.length > 0 && (
 								<Box flexDirection="column" marginBottom={2}>
 									<Text color="blue" bold>
 										Unique Constraints ({uniqueConstraints.length}):
 									</Text>
-									{uniqueConstraints.map((uc, index) => (
-										<Box
-											key={uc.constraintName || index}
-											flexDirection="column"
-											paddingX={1}
-										>
-											<Text color="blue">{uc.sourceColumn}</Text>
+									{uniqueConstraints.map((uc) => (
+										<Box key={uc.name} flexDirection="column" paddingX={1}>
+											<Text color="blue">{uc.columns.join(", ")}</Text>
 											<Text color="gray" dimColor>
-												Constraint: {uc.constraintName}
+												Constraint: {uc.name}
 											</Text>
 										</Box>
 									))}
@@ -263,7 +201,7 @@ export const RelationshipsView: React.FC = () => {
 
 					<Box marginTop={1}>
 						<Text color="gray" dimColor>
-							Total relationships: {relationships.length}
+							Total relationships: {total}
 						</Text>
 					</Box>
 				</Box>
@@ -1,22 +1,35 @@
 import { Box, Text, useInput, useStdout } from "ink";
 import React, { useEffect, useMemo, useState } from "react";
+import {
+	type ColumnRules,
+	interpretEditedInput,
+} from "../database/edit-validation.js";
 import { ActionType } from "../state/actions.js";
 import { useAppDispatch, useAppState } from "../state/context.js";
-import { updateTableFieldValue } from "../state/effects.js";
+import {
+	fetchColumnRules,
+	fetchReferencingRows,
+	type ReferencingRows,
+	resolveEditConflict,
+	updateTableFieldValue,
+} from "../state/effects.js";
 import type { ColumnInfo, DataRow, TableInfo } from "../types/state.js";
 import { ViewState } from "../types/state.js";
 import { copyToClipboard } from "../utils/clipboard.js";
 import { getColorForDataType } from "../utils/color-mapping.js";
+import { describeRowIdentity, getRowIdentity } from "../utils/pk-utils.js";
 import {
 	getSelectionBackground,
 	getSelectionIndicator,
 } from "../utils/selection-theme.js";
+import { EditConflictPanel } from "./EditConflictPanel.js";
 import { ViewBuilder } from "./ViewBuilder.js";
 
 const FIELDS_PER_PAGE = 10;
 const MIN_PREVIEW_WIDTH = 24;
 const PREVIEW_WIDTH_OFFSET = 32;
 const PAGINATION_WINDOW = 7;
+const MAX_REFERENCE_SHORTCUTS = 9;
 
 const RowDetailViewComponent: React.FC = () => {
 	const dispatch = useAppDispatch();
@@ -39,6 +52,8 @@ const RowDetailViewComponent: React.FC = () => {
 	const [editCursor, setEditCursor] = useState(0);
 	const [editScrollOffset, setEditScrollOffset] = useState(0);
 	const [isSavingEdit, setIsSavingEdit] = useState(false);
+	const [editRules, setEditRules] = useState<ColumnRules | undefined>();
+	const [references, setReferences] = useState<ReferencingRows[] | null>(null);
 
 	const currentRow = useMemo<DataRow | null>(() => {
 		if (state.expandedRow) return state.expandedRow;
@@ -75,6 +90,102 @@ const RowDetailViewComponent: React.FC = () => {
 	);
 	const editCursorLine = editCursorLocation.line;
 	const editCursorColumn = editCursorLocation.column;
+	const editValidation = useMemo(
+		() =>
+			editingField
+				? interpretEditedInput(
+						editBuffer,
+						editingField.column,
+						editRules,
+						state.dbType ?? undefined,
+					)
+				: null,
+		[editBuffer, editingField, editRules, state.dbType],
+	);
+
+	const table = state.selectedTable;
+	const activeConnection = state.activeConnection;
+	const dbType = state.dbType;
+
+	// Which other tables point at this row, and how many of their rows do
+	useEffect(() => {
+		setReferences(null);
+		if (
+			!activeConnection ||
+			!dbType ||
+			!table ||
+			table.type !== "table" ||
+			!currentRow
+		) {
+			return;
+		}
+
+		let isMounted = true;
+		void fetchReferencingRows(
+			dispatch,
+			state,
+			{
+				type: dbType,
+				connectionString: activeConnection.connectionString,
+				tls: activeConnection.tls,
+			},
+			table,
+			currentRow,
+		).then((loaded) => {
+			if (isMounted) {
+				setReferences(loaded);
+			}
+		});
+
+		return () => {
+			isMounted = false;
+		};
+	}, [activeConnection, dbType, table, currentRow, dispatch]);
+
+	// Enum labels and CHECK constraints the edited value is validated against
+	const editingColumn = editingField?.column ?? null;
+	useEffect(() => {
+		setEditRules(undefined);
+		if (!activeConnection || !dbType || !table || !editingColumn) {
+			return;
+		}
+
+		let isMounted = true;
+		void fetchColumnRules(
+			dispatch,
+			{
+				type: dbType,
+				connectionString: activeConnection.connectionString,
+				tls: activeConnection.tls,
+			},
+			table,
+			[editingColumn],
+		).then((loaded) => {
+			if (isMounted) {
+				setEditRules(loaded[editingColumn.name]);
+			}
+		});
+
+		return () => {
+			isMounted = false;
+		};
+	}, [activeConnection, dbType, table, editingColumn, dispatch]);
+
+	const openReferencingRows = (reference: ReferencingRows) => {
+		if (!reference.filter || reference.count === 0) {
+			dispatch({
+				type: ActionType.SetInfo,
+				message: `No ${renderTableName(reference.foreignKey.table)} rows reference this row.`,
+			});
+			return;
+		}
+		dispatch({
+			type: ActionType.FollowForeignKey,
+			table: reference.foreignKey.table,
+			filter: reference.filter,
+		});
+		dispatch({ type: ActionType.SetView, view: ViewState.DataPreview });
+	};
 
 	useEffect(() => {
 		if (fields.length === 0) {
@@ -189,6 +300,7 @@ const RowDetailViewComponent: React.FC = () => {
 			state.selectedRowIndex,
 			currentRow,
 			editBuffer,
+			editRules,
 		);
 		setIsSavingEdit(false);
 		if (success) {
@@ -218,6 +330,33 @@ const RowDetailViewComponent: React.FC = () => {
 	};
 
 	useInput((input, key) => {
+		if (state.editConflict) {
+			if (isSavingEdit) {
+				return;
+			}
+			if (input === "r") {
+				void resolveEditConflict(dispatch, state, "reload");
+				setEditingFieldIndex(null);
+				return;
+			}
+			if (input === "o" && state.editConflict.current) {
+				setIsSavingEdit(true);
+				void resolveEditConflict(dispatch, state, "overwrite").then(
+					(success) => {
+						setIsSavingEdit(false);
+						if (success) {
+							setEditingFieldIndex(null);
+						}
+					},
+				);
+				return;
+			}
+			if (input === "c" || key.escape) {
+				void resolveEditConflict(dispatch, state, "cancel");
+			}
+			return;
+		}
+
 		if (editingFieldIndex !== null) {
 			if (isSavingEdit) {
 				return;
@@ -459,6 +598,16 @@ const RowDetailViewComponent: React.FC = () => {
 			return;
 		}
 
+		const referenceShortcut = Number.parseInt(input, 10);
+		if (
+			references &&
+			referenceShortcut >= 1 &&
+			referenceShortcut <= Math.min(references.length, MAX_REFERENCE_SHORTCUTS)
+		) {
+			openReferencingRows(references[referenceShortcut - 1]);
+			return;
+		}
+
 		if (fields.length === 0) {
 			return;
 		}
@@ -607,11 +756,32 @@ const RowDetailViewComponent: React.FC = () => {
 	if (totalPages > 1) {
 		subtitleParts.push(`Page ${currentPage + 1}/${totalPages}`);
 	}
+	const rowIdentity =
+		state.dbType && state.selectedTable
+			? getRowIdentity(state.dbType, state.selectedTable, state.columns)
+			: null;
+	if (rowIdentity && rowIdentity.strategy !== "primary-key") {
+		subtitleParts.push(describeRowIdentity(rowIdentity));
+	}
+	if (state.stagingEnabled) {
+		subtitleParts.push("Edits are staged");
+	} else if (state.concurrencyCheck !== "off") {
+		subtitleParts.push(`Edits check the ${state.concurrencyCheck}`);
+	}
 
 	const labelWidth = computeLabelWidth(state.columns);
 
 	const editLineNumberWidth = Math.max(2, String(editLines.length).length);
 
+	if (state.editConflict) {
+		return (
+			<EditConflictPanel
+				conflict={state.editConflict}
+				isSaving={isSavingEdit}
+			/>
+		);
+	}
+
 	if (editingFieldIndex !== null && editingField) {
 		const visibleLines = editLines.slice(
 			editScrollOffset,
@@ -634,7 +804,19 @@ const RowDetailViewComponent: React.FC = () => {
 				}
 			>
 				<Box flexDirection="column">
+					{rowIdentity?.strategy === "all-columns" && (
+						<Text color="yellow">
+							⚠ No primary key or unique index: saving updates the first row
+							holding every loaded value (LIMIT 1).
+						</Text>
+					)}
 					{isSavingEdit && <Text color="yellow">Saving changes…</Text>}
+					{!isSavingEdit && editValidation && !editValidation.ok ? (
+						<Text color="red">✗ {editValidation.error}</Text>
+					) : (
+						!isSavingEdit &&
+						state.errorMessage && <Text color="red">{state.errorMessage}</Text>
+					)}
 					{visibleLines.map((line, index) => {
 						const absoluteIndex = editScrollOffset + index;
 						const isCursorLine = absoluteIndex === editCursorLine;
@@ -755,7 +937,9 @@ const RowDetailViewComponent: React.FC = () => {
 		<ViewBuilder
 			title="Row Details"
 			subtitle={subtitleParts.join(" • ")}
-			footer="↑/↓ Navigate • ←/→ Page • v View • e Edit • c Copy • C Copy row • Esc Back"
+			footer={`↑/↓ Navigate • ←/→ Page • v View • e Edit • c Copy • C Copy row${
+				references && references.length > 0 ? " • 1-9 Referencing rows" : ""
+			} • Esc Back`}
 		>
 			<Box flexDirection="column">
 				{visibleFields.map(({ column, value }, index) => {
@@ -802,6 +986,32 @@ const RowDetailViewComponent: React.FC = () => {
 					);
 				})}
 			</Box>
+			{references && references.length > 0 && (
+				<Box flexDirection="column" marginTop={1}>
+					<Text bold color="cyan">
+						Referenced by
+					</Text>
+					{references.map((reference, index) => (
+						<Text
+							key={`${renderTableName(reference.foreignKey.table)}.${reference.foreignKey.name}`}
+						>
+							<Text color="yellow">
+								{index < MAX_REFERENCE_SHORTCUTS ? `${index + 1} ` : "  "}
+							</Text>
+							<Text color="green">
+								{renderTableName(reference.foreignKey.table)}
+							</Text>
+							<Text color="gray">
+								.({reference.foreignKey.columns.join(", ")})
+							</Text>
+							<Text dimColor={reference.count === 0}>
+								{" "}
+								{reference.count} {reference.count === 1 ? "row" : "rows"}
+							</Text>
+						</Text>
+					))}
+				</Box>
+			)}
 		</ViewBuilder>
 	);
 };
@@ -243,6 +243,7 @@ export const SavedConnectionsView: React.FC = () => {
 			void connectToDatabase(dispatch, state, {
 				type: selectedConnection.type,
 				connectionString: selectedConnection.connectionString,
+				tls: selectedConnection.tls,
 			});
 		}
 	});
@@ -402,6 +403,8 @@ export const SavedConnectionsView: React.FC = () => {
 												{info.host && ` • ${info.host}`}
 												{info.port && `:${info.port}`}
 												{info.database && ` • ${info.database}`}
+												{connection.tls?.mode &&
+													` • sslmode ${connection.tls.mode}`}
 											</Text>
 										</Box>
 									)}
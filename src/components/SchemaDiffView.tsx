@@ -0,0 +1,255 @@
+import { Box, Text, useInput } from "ink";
+import type React from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+	type DiffLine,
+	describeDiff,
+	formatMigration,
+} from "../database/schema-diff.js";
+import { ActionType } from "../state/actions.js";
+import { useAppDispatch, useAppState } from "../state/context.js";
+import {
+	compareSchemas,
+	type SchemaComparison,
+	type SchemaSource,
+	saveSchemaSnapshot,
+} from "../state/effects.js";
+import { ViewState } from "../types/state.js";
+import { copyToClipboard } from "../utils/clipboard.js";
+import { listSchemaSnapshots } from "../utils/export.js";
+import {
+	getSelectionBackground,
+	getSelectionIndicator,
+} from "../utils/selection-theme.js";
+import { ViewBuilder } from "./ViewBuilder.js";
+
+const VISIBLE_LINES = 20;
+
+const CHANGE_STYLES: Record<
+	DiffLine["change"],
+	{ mark: string; color: string }
+> = {
+	added: { mark: "+", color: "green" },
+	removed: { mark: "-", color: "red" },
+	changed: { mark: "~", color: "yellow" },
+};
+
+function sourceLabel(source: SchemaSource): string {
+	return source.kind === "connection"
+		? `${source.connection.name} (${source.connection.type})`
+		: `snapshot ${source.path.split(/[\\/]/).pop()}`;
+}
+
+export const SchemaDiffView: React.FC = () => {
+	const state = useAppState();
+	const dispatch = useAppDispatch();
+	const [snapshots, setSnapshots] = useState<string[]>([]);
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const [target, setTarget] = useState<SchemaSource | null>(null);
+	const [comparison, setComparison] = useState<SchemaComparison | null>(null);
+	const [scrollOffset, setScrollOffset] = useState(0);
+
+	const activeConnection = state.activeConnection;
+	const dbConfig = useMemo(
+		() =>
+			activeConnection
+				? {
+						type: activeConnection.type,
+						connectionString: activeConnection.connectionString,
+						tls: activeConnection.tls,
+					}
+				: null,
+		[activeConnection],
+	);
+
+	const refreshSnapshots = useCallback(async () => {
+		setSnapshots(await listSchemaSnapshots());
+	}, []);
+
+	useEffect(() => {
+		void refreshSnapshots();
+	}, [refreshSnapshots]);
+
+	const sources = useMemo<SchemaSource[]>(
+		() => [
+			...state.savedConnections
+				.filter((connection) => connection.id !== activeConnection?.id)
+				.map((connection) => ({ kind: "connection" as const, connection })),
+			...snapshots.map((path) => ({ kind: "snapshot" as const, path })),
+		],
+		[state.savedConnections, activeConnection?.id, snapshots],
+	);
+
+	const script = comparison ? formatMigration(comparison.statements) : "";
+	const reportLines = useMemo(() => {
+		if (!comparison) {
+			return [];
+		}
+		const lines: Array<{ text: string; color?: string; bold?: boolean }> =
+			describeDiff(comparison.diff).map((line) => {
+				const style = CHANGE_STYLES[line.change];
+				return {
+					text: `${"  ".repeat(line.depth)}${style.mark} ${line.text}`,
+					color: style.color,
+				};
+			});
+		if (lines.length === 0) {
+			return [{ text: "The schemas match.", color: "green" }];
+		}
+		if (comparison.warnings.length > 0) {
+			lines.push(
+				{ text: "" },
+				{ text: "Check before running:", color: "yellow", bold: true },
+				...comparison.warnings.map((warning) => ({
+					text: `  ${warning}`,
+					color: "yellow",
+				})),
+			);
+		}
+		lines.push(
+			{ text: "" },
+			{
+				text: `Migration SQL (${comparison.statements.length} statements):`,
+				color: "cyan",
+				bold: true,
+			},
+			...script
+				.trimEnd()
+				.split("\n")
+				.map((text) => ({ text })),
+		);
+		return lines;
+	}, [comparison, script]);
+
+	const maxOffset = Math.max(0, reportLines.length - VISIBLE_LINES);
+
+	useInput((input, key) => {
+		if (state.loading) {
+			return;
+		}
+
+		if (comparison) {
+			if (key.escape || input === "b") {
+				setComparison(null);
+				setTarget(null);
+				return;
+			}
+			if (key.upArrow || input === "k") {
+				setScrollOffset((offset) => Math.max(0, offset - 1));
+			} else if (key.downArrow || input === "j") {
+				setScrollOffset((offset) => Math.min(maxOffset, offset + 1));
+			} else if (key.pageUp) {
+				setScrollOffset((offset) => Math.max(0, offset - VISIBLE_LINES));
+			} else if (key.pageDown) {
+				setScrollOffset((offset) =>
+					Math.min(maxOffset, offset + VISIBLE_LINES),
+				);
+			} else if (input === "c" && script) {
+				void copyToClipboard(script).then((copied) =>
+					dispatch(
+						copied
+							? { type: ActionType.SetInfo, message: "Copied migration SQL" }
+							: {
+									type: ActionType.SetError,
+									error: "Could not copy to the clipboard",
+								},
+					),
+				);
+			}
+			return;
+		}
+
+		if (key.escape) {
+			dispatch({ type: ActionType.SetView, view: ViewState.Tables });
+			return;
+		}
+		if ((key.upArrow || input === "k") && selectedIndex > 0) {
+			setSelectedIndex(selectedIndex - 1);
+		} else if (
+			(key.downArrow || input === "j") &&
+			selectedIndex < sources.length - 1
+		) {
+			setSelectedIndex(selectedIndex + 1);
+		} else if (input === "w" && dbConfig) {
+			void saveSchemaSnapshot(dispatch, dbConfig).then(refreshSnapshots);
+		} else if (key.return && dbConfig && sources[selectedIndex]) {
+			const source = sources[selectedIndex];
+			setTarget(source);
+			void compareSchemas(dispatch, dbConfig, source).then((result) => {
+				setScrollOffset(0);
+				setComparison(result);
+				if (!result) {
+					setTarget(null);
+				}
+			});
+		}
+	});
+
+	if (comparison && target) {
+		return (
+			<ViewBuilder
+				title="Schema Diff"
+				subtitle={`${activeConnection?.name ?? "Connected database"} → ${sourceLabel(target)}`}
+				footer="↑/↓: Scroll | PageUp/Down: Pages | c: Copy migration SQL | Esc: Back"
+			>
+				{reportLines
+					.slice(scrollOffset, scrollOffset + VISIBLE_LINES)
+					.map((line, index) => (
+						<Text
+							key={scrollOffset + index}
+							color={line.color}
+							bold={line.bold}
+						>
+							{line.text || " "}
+						</Text>
+					))}
+				{reportLines.length > VISIBLE_LINES && (
+					<Text dimColor>
+						Lines {scrollOffset + 1}-
+						{Math.min(scrollOffset + VISIBLE_LINES, reportLines.length)} of{" "}
+						{reportLines.length}
+					</Text>
+				)}
+			</ViewBuilder>
+		);
+	}
+
+	return (
+		<ViewBuilder
+			title="Schema Diff"
+			subtitle={`Compare ${activeConnection?.name ?? "the connected database"} with another connection or a snapshot`}
+			footer="↑/↓: Navigate | Enter: Compare | w: Save snapshot of this database | Esc: Back"
+		>
+			{sources.length === 0 ? (
+				<Box flexDirection="column">
+					<Text color="gray">Nothing to compare with yet.</Text>
+					<Text color="gray">
+						Save another connection, or press w to snapshot this schema.
+					</Text>
+				</Box>
+			) : (
+				sources.map((source, index) => {
+					const isSelected = index === selectedIndex;
+					const indicator = getSelectionIndicator(isSelected);
+					return (
+						<Box
+							key={
+								source.kind === "connection"
+									? source.connection.id
+									: source.path
+							}
+						>
+							<Text color={indicator.color}>{indicator.symbol} </Text>
+							<Text
+								backgroundColor={getSelectionBackground(isSelected)}
+								color={source.kind === "snapshot" ? "gray" : undefined}
+							>
+								{sourceLabel(source)}
+							</Text>
+						</Box>
+					);
+				})
+			)}
+		</ViewBuilder>
+	);
+};
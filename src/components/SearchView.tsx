@@ -11,6 +11,7 @@ import {
 	getSelectionBackground,
 	getSelectionIndicator,
 } from "../utils/selection-theme.js";
+import { DeleteRowsDialog } from "./DeleteRowsDialog.js";
 import { ViewBuilder } from "./ViewBuilder.js";
 
 const SEARCH_PAGE_SIZE = 25;
@@ -34,6 +35,8 @@ export const SearchView: React.FC = () => {
 	const { stdout } = useStdout();
 	const [inputValue, setInputValue] = useState(searchTerm ?? "");
 	const [navigationMode, setNavigationMode] = useState(false);
+	const [markedRows, setMarkedRows] = useState<Set<number>>(new Set());
+	const [rowsToDelete, setRowsToDelete] = useState<DataRow[] | null>(null);
 
 	useEffect(() => {
 		setInputValue(searchTerm ?? "");
@@ -43,6 +46,10 @@ export const SearchView: React.FC = () => {
 		setNavigationMode(false);
 	}, [table?.name, table?.schema]);
 
+	useEffect(() => {
+		setMarkedRows(new Set());
+	}, [searchResults]);
+
 	const terminalWidth = stdout?.columns ?? 80;
 	const summaryWidth = Math.max(40, terminalWidth - 12);
 
@@ -82,6 +89,7 @@ export const SearchView: React.FC = () => {
 				{
 					type: dbType,
 					connectionString: activeConnection.connectionString,
+					tls: activeConnection.tls,
 				},
 				table,
 				columns,
@@ -102,6 +110,10 @@ export const SearchView: React.FC = () => {
 	);
 
 	useInput((input, key) => {
+		if (rowsToDelete) {
+			return;
+		}
+
 		if (key.escape) {
 			if (navigationMode) {
 				setNavigationMode(false);
@@ -155,6 +167,38 @@ export const SearchView: React.FC = () => {
 			return;
 		}
 
+		if (input === " " && searchSelectedIndex !== null && selectedRow) {
+			const index = searchSelectedIndex;
+			setMarkedRows((current) => {
+				const next = new Set(current);
+				if (!next.delete(index)) {
+					next.add(index);
+				}
+				return next;
+			});
+			return;
+		}
+
+		if (key.delete && table) {
+			if (table.type !== "table") {
+				dispatch({
+					type: ActionType.SetInfo,
+					message: "Rows can only be deleted from tables.",
+				});
+				return;
+			}
+			if (markedRows.size > 0) {
+				setRowsToDelete(
+					[...markedRows]
+						.sort((a, b) => a - b)
+						.map((index) => searchResults[index]),
+				);
+			} else if (selectedRow) {
+				setRowsToDelete([selectedRow]);
+			}
+			return;
+		}
+
 		if ((key.return || input === "d") && selectedRow) {
 			dispatch({ type: ActionType.SetExpandedRow, row: selectedRow });
 			dispatch({ type: ActionType.SetView, view: ViewState.RowDetail });
@@ -169,8 +213,18 @@ export const SearchView: React.FC = () => {
 		);
 	}
 
+	if (rowsToDelete) {
+		return (
+			<DeleteRowsDialog
+				table={table}
+				rows={rowsToDelete}
+				onClose={() => setRowsToDelete(null)}
+			/>
+		);
+	}
+
 	const footer = navigationMode
-		? "Tab Edit • ↑/↓ Select • n/p PgUp/PgDn Page • Enter/d Row detail • Esc Back"
+		? "Tab Edit • ↑/↓ Select • n/p PgUp/PgDn Page • Enter/d Row detail • Space Mark • Del Delete • Esc Back"
 		: "Enter Search • Tab Results • Esc Back";
 
 	return (
@@ -211,16 +265,17 @@ export const SearchView: React.FC = () => {
 						searchResults.map((row, index) => {
 							const isSelected = index === searchSelectedIndex;
 							const label = formatRowSummary(row, columns, summaryWidth);
+							const isMarked = markedRows.has(index);
 							const indicator = getSelectionIndicator(isSelected);
 							const backgroundColor = getSelectionBackground(isSelected);
 
 							return (
 								<Box key={index} flexDirection="row" marginBottom={1}>
 									<Text
-										color={indicator.color}
+										color={isMarked ? "red" : indicator.color}
 										backgroundColor={backgroundColor}
 									>
-										{indicator.symbol}{" "}
+										{isMarked && !isSelected ? "✗" : indicator.symbol}{" "}
 									</Text>
 									<Text
 										color={isSelected ? "white" : undefined}
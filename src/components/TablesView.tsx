@@ -3,9 +3,14 @@ import type React from "react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { ActionType } from "../state/actions.js";
 import { useAppDispatch, useAppState } from "../state/context.js";
-import { fetchColumns, fetchTables } from "../state/effects.js";
+import {
+	exportErDiagramFile,
+	fetchColumns,
+	fetchTables,
+} from "../state/effects.js";
 import type { TableInfo } from "../types/state.js";
 import { ViewState } from "../types/state.js";
+import type { ErDiagramFormat } from "../utils/er-diagram.js";
 import {
 	getSelectionBackground,
 	getSelectionIndicator,
@@ -19,10 +24,18 @@ const buildLabel = (table: TableInfo) => {
 	return `${schema}${table.name}`;
 };
 
+const ER_DIAGRAM_KEYS: Record<string, ErDiagramFormat> = {
+	m: "mermaid",
+	g: "dot",
+	u: "plantuml",
+};
+
 export const TablesView: React.FC = () => {
 	const dispatch = useAppDispatch();
 	const state = useAppState();
 	const [selectedIndex, setSelectedIndex] = useState(0);
+	// Tables marked for the ER diagram; none marked draws them all
+	const [markedTables, setMarkedTables] = useState<Set<string>>(new Set());
 	const hasRequestedTablesRef = useRef(false);
 	const previousConnectionIdRef = useRef<string | null>(null);
 
@@ -39,6 +52,7 @@ export const TablesView: React.FC = () => {
 			void fetchTables(dispatch, {
 				type: state.dbType,
 				connectionString: state.activeConnection.connectionString,
+				tls: state.activeConnection.tls,
 			});
 		},
 		[dispatch, state.activeConnection, state.dbType],
@@ -50,6 +64,14 @@ export const TablesView: React.FC = () => {
 			dispatch({ type: ActionType.SetView, view: ViewState.Query });
 			return;
 		}
+		if (input === "d" && state.activeConnection) {
+			dispatch({ type: ActionType.SetView, view: ViewState.SchemaDiff });
+			return;
+		}
+		if (input === "o" && state.activeConnection) {
+			dispatch({ type: ActionType.SetView, view: ViewState.Objects });
+			return;
+		}
 		if (input === "h" && (state.queryHistory?.length ?? 0) > 0) {
 			dispatch({ type: ActionType.SetView, view: ViewState.QueryHistory });
 			return;
@@ -78,6 +100,44 @@ export const TablesView: React.FC = () => {
 			return;
 		}
 
+		if (input === "t" && state.tables.length > 0) {
+			dispatch({
+				type: ActionType.SetSelectedTable,
+				table: state.tables[selectedIndex],
+			});
+			dispatch({ type: ActionType.SetView, view: ViewState.Ddl });
+			return;
+		}
+
+		if (input === " " && state.tables.length > 0) {
+			const label = buildLabel(state.tables[selectedIndex]);
+			setMarkedTables((previous) => {
+				const next = new Set(previous);
+				if (!next.delete(label)) {
+					next.add(label);
+				}
+				return next;
+			});
+			return;
+		}
+
+		const diagramFormat = ER_DIAGRAM_KEYS[input];
+		if (diagramFormat && state.activeConnection && state.dbType) {
+			if (!state.loading) {
+				void exportErDiagramFile(
+					dispatch,
+					{
+						type: state.dbType,
+						connectionString: state.activeConnection.connectionString,
+						tls: state.activeConnection.tls,
+					},
+					diagramFormat,
+					markedTables.size > 0 ? [...markedTables] : undefined,
+				);
+			}
+			return;
+		}
+
 		// Refresh table list
 		if ((input === "r" || input === "R") && !state.loading) {
 			hasRequestedTablesRef.current = false;
@@ -131,6 +191,7 @@ export const TablesView: React.FC = () => {
 				{
 					type: state.dbType,
 					connectionString: state.activeConnection.connectionString,
+					tls: state.activeConnection.tls,
 				},
 				table,
 			);
@@ -203,6 +264,9 @@ export const TablesView: React.FC = () => {
 							<Text color={indicator.color} backgroundColor={backgroundColor}>
 								{indicator.symbol}{" "}
 							</Text>
+							<Text color="green" backgroundColor={backgroundColor}>
+								{markedTables.has(label) ? "✓ " : "  "}
+							</Text>
 							<Text backgroundColor={backgroundColor}>
 								{getTableIcon(table.type)}
 							</Text>
@@ -220,8 +284,10 @@ export const TablesView: React.FC = () => {
 			</Box>
 			<Box marginTop={1}>
 				<Text dimColor>
-					Enter: Open column details | r: Refresh tables | q: SQL Query | h:
-					Query History | Esc: Disconnect
+					Enter: Open column details | t: DDL | r: Refresh tables | q: SQL Query
+					| h: Query History | d: Schema diff | o: Routines, triggers & types |
+					Space: Mark for diagram | m/g/u: ER diagram (Mermaid/DOT/PlantUML) |
+					Esc: Disconnect
 				</Text>
 			</Box>
 		</Box>
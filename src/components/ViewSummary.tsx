@@ -36,6 +36,20 @@ export function ViewSummary({ entry }: ViewSummaryProps) {
 				return "📇";
 			case ViewState.Context:
 				return "🧭";
+			case ViewState.SchemaDiff:
+				return "🔀";
+			case ViewState.Ddl:
+				return "📝";
+			case ViewState.Objects:
+				return "🧩";
+			case ViewState.Profile:
+				return "📈";
+			case ViewState.InsertRow:
+				return "➕";
+			case ViewState.PendingChanges:
+				return "📝";
+			case ViewState.EditJournal:
+				return "📜";
 			default:
 				return "▸";
 		}
@@ -0,0 +1,73 @@
+import { QueryCancelledError, QueryTimeoutError } from "./errors.js";
+import type { QueryOptions } from "./types.js";
+
+export function isCancellable(options?: QueryOptions): boolean {
+	return Boolean(options?.signal || (options?.timeoutMs ?? 0) > 0);
+}
+
+export function throwIfAborted(options?: QueryOptions): void {
+	if (options?.signal?.aborted) {
+		throw new QueryCancelledError();
+	}
+}
+
+/**
+ * Run a statement that can be stopped by a timeout or an abort signal.
+ * `cancel` asks the server to stop the statement; once it has been
+ * requested, a failure from `run` surfaces as a timeout or cancellation
+ * error instead of the driver's own error. The cancel request is settled
+ * before this returns, so callers can safely hand the client back to a pool
+ * without the request landing on someone else's statement.
+ */
+export async function runCancellable<T>(
+	options: QueryOptions | undefined,
+	run: () => Promise<T>,
+	cancel: () => unknown,
+): Promise<T> {
+	throwIfAborted(options);
+	if (!isCancellable(options)) {
+		return run();
+	}
+
+	const timeoutMs = options?.timeoutMs ?? 0;
+	const signal = options?.signal;
+	let reason: "timeout" | "abort" | null = null;
+	let pendingCancel: Promise<unknown> | null = null;
+
+	const trigger = (next: "timeout" | "abort") => {
+		if (reason) {
+			return;
+		}
+		reason = next;
+		pendingCancel = Promise.resolve()
+			.then(cancel)
+			.catch(() => {
+				// the statement may already have finished
+			});
+	};
+
+	const timer =
+		timeoutMs > 0 ? setTimeout(() => trigger("timeout"), timeoutMs) : null;
+	const onAbort = () => trigger("abort");
+	signal?.addEventListener("abort", onAbort, { once: true });
+
+	try {
+		return await run();
+	} catch (error) {
+		if (reason === "timeout") {
+			throw new QueryTimeoutError(`Query timed out after ${timeoutMs}ms.`);
+		}
+		if (reason === "abort") {
+			throw new QueryCancelledError();
+		}
+		throw error;
+	} finally {
+		if (timer) {
+			clearTimeout(timer);
+		}
+		signal?.removeEventListener("abort", onAbort);
+		if (pendingCancel) {
+			await pendingCancel;
+		}
+	}
+}
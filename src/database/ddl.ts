@@ -0,0 +1,376 @@
+import { DBType, type TableInfo } from "../types/state.js";
+import type {
+	CheckConstraintSchema,
+	ColumnSchema,
+	ForeignKeySchema,
+	IndexSchema,
+	PrimaryKeySchema,
+	TableSchema,
+	UniqueConstraintSchema,
+} from "./introspection/index.js";
+
+const PLAIN_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_$]*$/;
+
+export function quoteIdentifier(dbType: DBType, identifier: string): string {
+	switch (dbType) {
+		case DBType.MySQL:
+			return `\`${identifier.replace(/`/g, "``")}\``;
+		case DBType.SQLite:
+		case DBType.PostgreSQL:
+		default:
+			return `"${identifier.replace(/"/g, '""')}"`;
+	}
+}
+
+/** `schema.table`, quoted for the dialect; just the table without a schema. */
+export function qualifiedName(dbType: DBType, table: TableInfo): string {
+	const name = quoteIdentifier(dbType, table.name);
+	return table.schema
+		? `${quoteIdentifier(dbType, table.schema)}.${name}`
+		: name;
+}
+
+function columnList(dbType: DBType, columns: string[]): string {
+	return columns.map((column) => quoteIdentifier(dbType, column)).join(", ");
+}
+
+/**
+ * `name type [NOT NULL] [DEFAULT ...]` as used by CREATE and ALTER TABLE,
+ * for a column read from a `source` database, numbered by the database in
+ * the dialect's own way where it was numbered before.
+ */
+export function columnDefinition(
+	dbType: DBType,
+	column: ColumnSchema,
+	source: DBType = dbType,
+): string {
+	let definition = `${quoteIdentifier(dbType, column.name)} ${column.dataType}`;
+	if (!column.nullable) {
+		definition += " NOT NULL";
+	}
+	const defaultValue = defaultExpression(dbType, column, source);
+	// nextval() only works next to the Postgres sequence it draws on
+	if (
+		defaultValue !== null &&
+		(dbType === DBType.PostgreSQL || !serialSequence(column))
+	) {
+		definition += ` DEFAULT ${defaultValue}`;
+	}
+	return definition + autoIncrementClause(dbType, column);
+}
+
+function autoIncrementClause(dbType: DBType, column: ColumnSchema): string {
+	if (!column.autoIncrement) {
+		return "";
+	}
+	switch (dbType) {
+		case DBType.MySQL:
+			return " AUTO_INCREMENT";
+		case DBType.PostgreSQL:
+			if (column.identity === "always") {
+				return " GENERATED ALWAYS AS IDENTITY";
+			}
+			// Serial columns keep their nextval() default instead
+			return serialSequence(column) ? "" : " GENERATED BY DEFAULT AS IDENTITY";
+		default:
+			// SQLite numbers an INTEGER PRIMARY KEY by itself
+			return "";
+	}
+}
+
+/** The sequence a serial column's `nextval('...'::regclass)` draws on. */
+export function serialSequence(column: ColumnSchema): string | null {
+	const match = /^nextval\('((?:[^']|'')+)'::regclass\)$/i.exec(
+		column.defaultValue ?? "",
+	);
+	return match ? match[1].replaceAll("''", "'") : null;
+}
+
+/**
+ * What `serial` does for a Postgres table's serial columns: create their
+ * sequences before the table and hand them to their column after it.
+ */
+export function serialSequenceStatements(
+	dbType: DBType,
+	table: TableInfo,
+	columns: ColumnSchema[],
+): { before: string[]; after: string[] } {
+	const before: string[] = [];
+	const after: string[] = [];
+	if (dbType !== DBType.PostgreSQL) {
+		return { before, after };
+	}
+	for (const column of columns) {
+		const sequence = serialSequence(column);
+		if (!sequence) {
+			continue;
+		}
+		const type = /^(?:smallint|integer|bigint)$/i.test(column.dataType)
+			? ` AS ${column.dataType}`
+			: "";
+		before.push(`CREATE SEQUENCE IF NOT EXISTS ${sequence}${type}`);
+		after.push(
+			`ALTER SEQUENCE ${sequence} OWNED BY ${qualifiedName(dbType, table)}.${quoteIdentifier(dbType, column.name)}`,
+		);
+	}
+	return { before, after };
+}
+
+const DATETIME_KEYWORD =
+	/^(?:(?:current_timestamp|current_date|current_time|localtime|localtimestamp)(?:\(\d*\))?|now\(\d*\))$/i;
+const NUMERIC_TYPE =
+	/^(?:tinyint|smallint|mediumint|int|integer|bigint|decimal|numeric|float|double|real)\b/i;
+const NUMBER = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i;
+const POSTGRES_CAST = /::[\w ]+(?:\(\d+(?:,\d+)?\))?(?:\[\])?$/;
+
+/**
+ * A column's default as SQL for `dbType`. MySQL reports literal defaults
+ * bare (`draft`), so those are quoted unless they are numbers; datetime
+ * keywords stay as they are and other expressions get the parentheses
+ * MySQL requires. Postgres casts mean nothing to the other dialects.
+ */
+export function defaultExpression(
+	dbType: DBType,
+	column: ColumnSchema,
+	source: DBType = dbType,
+): string | null {
+	let value = column.defaultValue;
+	if (value === null) {
+		return null;
+	}
+	if (source === DBType.MySQL) {
+		value = mysqlDefault(value, column.dataType);
+	}
+	if (source === DBType.PostgreSQL && dbType !== DBType.PostgreSQL) {
+		while (POSTGRES_CAST.test(value)) {
+			value = value.replace(POSTGRES_CAST, "");
+		}
+	}
+	return value;
+}
+
+function mysqlDefault(value: string, dataType: string): string {
+	if (
+		/^null$/i.test(value) ||
+		DATETIME_KEYWORD.test(value) ||
+		// MariaDB quotes literals itself, as do bit and hex literals
+		/^[bx]?'.*'$/is.test(value) ||
+		(NUMERIC_TYPE.test(dataType) && NUMBER.test(value))
+	) {
+		return value;
+	}
+	// MySQL 8 expression defaults such as uuid()
+	if (/^[\w$.]+\(.*\)$/s.test(value)) {
+		return `(${value})`;
+	}
+	return quoteLiteral(value);
+}
+
+function constraintName(dbType: DBType, name: string | undefined): string {
+	return name ? `CONSTRAINT ${quoteIdentifier(dbType, name)} ` : "";
+}
+
+export function primaryKeyClause(
+	dbType: DBType,
+	primaryKey: PrimaryKeySchema,
+): string {
+	// MySQL always names the primary key PRIMARY and rejects other names
+	const name = dbType === DBType.MySQL ? undefined : primaryKey.name;
+	return `${constraintName(dbType, name)}PRIMARY KEY (${columnList(dbType, primaryKey.columns)})`;
+}
+
+export function uniqueClause(
+	dbType: DBType,
+	unique: UniqueConstraintSchema,
+): string {
+	// SQLite's automatic index names cannot be reused for a constraint
+	const name = unique.name.startsWith("sqlite_autoindex_")
+		? undefined
+		: unique.name;
+	return `${constraintName(dbType, name)}UNIQUE (${columnList(dbType, unique.columns)})`;
+}
+
+export function checkClause(
+	dbType: DBType,
+	check: CheckConstraintSchema,
+): string {
+	return `${constraintName(dbType, check.name)}CHECK (${check.expression})`;
+}
+
+/**
+ * `FOREIGN KEY (...) REFERENCES ...`. A key without referenced columns
+ * points at the parent's primary key, which SQLite lets you leave out.
+ */
+export function foreignKeyClause(
+	dbType: DBType,
+	foreignKey: ForeignKeySchema,
+): string {
+	// SQLite numbers its keys instead of naming them
+	const name = dbType === DBType.SQLite ? undefined : foreignKey.name;
+	const parent = qualifiedName(dbType, {
+		schema: dbType === DBType.SQLite ? undefined : foreignKey.referencedSchema,
+		name: foreignKey.referencedTable,
+		type: "table",
+	});
+	const referenced = foreignKey.referencedColumns.length
+		? ` (${columnList(dbType, foreignKey.referencedColumns)})`
+		: "";
+	let clause = `${constraintName(dbType, name)}FOREIGN KEY (${columnList(dbType, foreignKey.columns)}) REFERENCES ${parent}${referenced}`;
+	if (foreignKey.onUpdate !== "NO ACTION") {
+		clause += ` ON UPDATE ${foreignKey.onUpdate}`;
+	}
+	if (foreignKey.onDelete !== "NO ACTION") {
+		clause += ` ON DELETE ${foreignKey.onDelete}`;
+	}
+	return clause;
+}
+
+export interface CreateTableOptions {
+	/**
+	 * Leave foreign keys out, so they can be added once every referenced
+	 * table exists. SQLite cannot add them later and always keeps them.
+	 */
+	withoutForeignKeys?: boolean;
+	/** Create the table under another name, e.g. while rebuilding it. */
+	name?: string;
+	/** The dialect the table was read from, when it is not `dbType`. */
+	source?: DBType;
+}
+
+export function createTableStatement(
+	dbType: DBType,
+	table: TableSchema,
+	options: CreateTableOptions = {},
+): string {
+	const lines = table.columns.map((column) =>
+		columnDefinition(dbType, column, options.source),
+	);
+	if (table.primaryKey) {
+		lines.push(primaryKeyClause(dbType, table.primaryKey));
+	}
+	lines.push(
+		...table.uniqueConstraints.map((unique) => uniqueClause(dbType, unique)),
+		...table.checkConstraints.map((check) => checkClause(dbType, check)),
+	);
+	if (!options.withoutForeignKeys || dbType === DBType.SQLite) {
+		lines.push(
+			...table.foreignKeys.map((foreignKey) =>
+				foreignKeyClause(dbType, foreignKey),
+			),
+		);
+	}
+	const name = qualifiedName(dbType, {
+		...table,
+		name: options.name ?? table.name,
+	});
+	return `CREATE TABLE ${name} (\n  ${lines.join(",\n  ")}\n)`;
+}
+
+/**
+ * Indexes other than the ones behind the primary key and unique
+ * constraints, which CREATE TABLE already makes.
+ */
+export function standaloneIndexes(table: TableSchema): IndexSchema[] {
+	const constraintNames = new Set(
+		table.uniqueConstraints.map((unique) => unique.name),
+	);
+	return table.indexes.filter(
+		(index) =>
+			!index.primary &&
+			!constraintNames.has(index.name) &&
+			!index.name.startsWith("sqlite_autoindex_"),
+	);
+}
+
+export function createIndexStatement(
+	dbType: DBType,
+	table: TableInfo,
+	index: IndexSchema,
+): string {
+	// Postgres reports expression keys as SQL; plain names still need quoting
+	const keys = index.columns
+		.map((column) =>
+			PLAIN_IDENTIFIER.test(column) ? quoteIdentifier(dbType, column) : column,
+		)
+		.join(", ");
+	const unique = index.unique ? "UNIQUE " : "";
+	const method =
+		dbType === DBType.PostgreSQL && index.type && index.type !== "btree"
+			? ` USING ${index.type}`
+			: "";
+	// Postgres and SQLite put the index in the table's schema by themselves
+	return `CREATE ${unique}INDEX ${quoteIdentifier(dbType, index.name)} ON ${qualifiedName(dbType, table)}${method} (${keys})`;
+}
+
+export function dropIndexStatement(
+	dbType: DBType,
+	table: TableInfo,
+	index: IndexSchema,
+): string {
+	switch (dbType) {
+		case DBType.MySQL:
+			return `DROP INDEX ${quoteIdentifier(dbType, index.name)} ON ${qualifiedName(dbType, table)}`;
+		case DBType.PostgreSQL:
+			return `DROP INDEX ${qualifiedName(dbType, { ...table, name: index.name })}`;
+		default:
+			return `DROP INDEX ${quoteIdentifier(dbType, index.name)}`;
+	}
+}
+
+/**
+ * CREATE statements for a table or view from its schema model, followed
+ * by its indexes and, on Postgres, its comments.
+ */
+export function tableDdl(dbType: DBType, table: TableSchema): string[] {
+	const name = qualifiedName(dbType, table);
+	const statements: string[] = [];
+	if (table.type === "table") {
+		const sequences = serialSequenceStatements(dbType, table, table.columns);
+		statements.push(
+			...sequences.before,
+			createTableStatement(dbType, table),
+			...sequences.after,
+		);
+	} else {
+		const kind =
+			table.type === "materialized-view" ? "MATERIALIZED VIEW" : "VIEW";
+		statements.push(
+			`CREATE ${kind} ${name} AS\n${(table.viewDefinition ?? "").replace(/;\s*$/, "")}`,
+		);
+	}
+	statements.push(
+		...standaloneIndexes(table).map((index) =>
+			createIndexStatement(dbType, table, index),
+		),
+	);
+	if (dbType === DBType.PostgreSQL) {
+		const kind =
+			table.type === "table"
+				? "TABLE"
+				: table.type === "view"
+					? "VIEW"
+					: "MATERIALIZED VIEW";
+		if (table.comment) {
+			statements.push(
+				`COMMENT ON ${kind} ${name} IS ${quoteLiteral(table.comment)}`,
+			);
+		}
+		for (const column of table.columns) {
+			if (column.comment) {
+				statements.push(
+					`COMMENT ON COLUMN ${name}.${quoteIdentifier(dbType, column.name)} IS ${quoteLiteral(column.comment)}`,
+				);
+			}
+		}
+	}
+	return statements;
+}
+
+/** Join statements into a script, each ending in a semicolon. */
+export function formatStatements(statements: string[]): string {
+	return statements.map((statement) => `${statement};\n`).join("");
+}
+
+function quoteLiteral(value: string): string {
+	return `'${value.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,373 @@
+import {
+	ConnectionLostError,
+	DatabaseError,
+	type DatabaseErrorInfo,
+	DeadlockError,
+	ForeignKeyViolationError,
+	NotNullViolationError,
+	PermissionDeniedError,
+	SerializationFailureError,
+	SqlSyntaxError,
+	UniqueViolationError,
+} from "./errors.js";
+
+type ErrorKind =
+	| "unique"
+	| "foreign-key"
+	| "not-null"
+	| "syntax"
+	| "permission"
+	| "deadlock"
+	| "serialization"
+	| "connection-lost";
+
+interface DriverErrorFields {
+	code?: string;
+	message?: string;
+	detail?: string;
+	constraint?: string;
+	table?: string;
+	column?: string;
+	position?: string | number;
+	sqlState?: string;
+	sqlMessage?: string;
+}
+
+const NETWORK_ERROR_CODES = new Set(["ECONNRESET", "EPIPE", "ETIMEDOUT"]);
+
+const POSTGRES_KINDS: Record<string, ErrorKind> = {
+	"23505": "unique",
+	"23503": "foreign-key",
+	"23502": "not-null",
+	"42601": "syntax",
+	"42501": "permission",
+	"40P01": "deadlock",
+	"40001": "serialization",
+	"57P01": "connection-lost",
+	"57P02": "connection-lost",
+	"57P03": "connection-lost",
+};
+
+const MYSQL_KINDS: Record<string, ErrorKind> = {
+	ER_DUP_ENTRY: "unique",
+	ER_DUP_ENTRY_WITH_KEY_NAME: "unique",
+	ER_NO_REFERENCED_ROW: "foreign-key",
+	ER_NO_REFERENCED_ROW_2: "foreign-key",
+	ER_ROW_IS_REFERENCED: "foreign-key",
+	ER_ROW_IS_REFERENCED_2: "foreign-key",
+	ER_BAD_NULL_ERROR: "not-null",
+	ER_NO_DEFAULT_FOR_FIELD: "not-null",
+	ER_PARSE_ERROR: "syntax",
+	ER_SYNTAX_ERROR: "syntax",
+	ER_TABLEACCESS_DENIED_ERROR: "permission",
+	ER_COLUMNACCESS_DENIED_ERROR: "permission",
+	ER_DBACCESS_DENIED_ERROR: "permission",
+	ER_SPECIFIC_ACCESS_DENIED_ERROR: "permission",
+	ER_PROCACCESS_DENIED_ERROR: "permission",
+	ER_LOCK_DEADLOCK: "deadlock",
+	PROTOCOL_CONNECTION_LOST: "connection-lost",
+	ER_SERVER_SHUTDOWN: "connection-lost",
+	ER_CONNECTION_KILLED: "connection-lost",
+	ER_CLIENT_INTERACTION_TIMEOUT: "connection-lost",
+};
+
+const SQLITE_KINDS: Record<string, ErrorKind> = {
+	SQLITE_CONSTRAINT_UNIQUE: "unique",
+	SQLITE_CONSTRAINT_PRIMARYKEY: "unique",
+	SQLITE_CONSTRAINT_FOREIGNKEY: "foreign-key",
+	SQLITE_CONSTRAINT_NOTNULL: "not-null",
+	SQLITE_PERM: "permission",
+	SQLITE_AUTH: "permission",
+	SQLITE_READONLY: "permission",
+	SQLITE_BUSY_SNAPSHOT: "serialization",
+};
+
+/**
+ * Map a node-postgres error onto the typed error hierarchy. PostgreSQL
+ * reports structured fields directly; `positionOffset` corrects the
+ * reported position when the statement was wrapped before sending.
+ */
+export function translatePostgresError(
+	error: unknown,
+	fallbackMessage: string,
+	positionOffset = 0,
+): DatabaseError {
+	if (error instanceof DatabaseError) {
+		return error;
+	}
+	const fields = driverFields(error);
+	const info: DatabaseErrorInfo = {
+		constraint: fields.constraint,
+		table: fields.table,
+		column: fields.column ?? keyColumnFromDetail(fields.detail),
+	};
+	if (fields.position !== undefined) {
+		const position = Number(fields.position) - 1 - positionOffset;
+		if (Number.isInteger(position) && position >= 0) {
+			info.position = position;
+		}
+	}
+
+	let kind = fields.code ? POSTGRES_KINDS[fields.code] : undefined;
+	if (
+		!kind &&
+		(fields.code?.startsWith("08") ||
+			NETWORK_ERROR_CODES.has(fields.code ?? "") ||
+			/connection terminated/i.test(fields.message ?? ""))
+	) {
+		kind = "connection-lost";
+	}
+
+	return buildError(kind, fallbackMessage, fields, info);
+}
+
+/**
+ * Map a mysql2 error onto the typed error hierarchy. MySQL only reports
+ * context inside the message text, so constraint names, columns and the
+ * syntax error position are recovered from it.
+ */
+export function translateMysqlError(
+	error: unknown,
+	fallbackMessage: string,
+	sql?: string,
+): DatabaseError {
+	if (error instanceof DatabaseError) {
+		return error;
+	}
+	const fields = driverFields(error);
+	const message = fields.sqlMessage ?? fields.message ?? "";
+
+	let kind = fields.code ? MYSQL_KINDS[fields.code] : undefined;
+	if (!kind && NETWORK_ERROR_CODES.has(fields.code ?? "")) {
+		kind = "connection-lost";
+	}
+	if (!kind && fields.sqlState === "40001") {
+		kind = "serialization";
+	}
+
+	const info: DatabaseErrorInfo = {};
+	switch (kind) {
+		case "unique": {
+			const key = /for key '([^']+)'/.exec(message)?.[1];
+			if (key) {
+				const dot = key.lastIndexOf(".");
+				info.constraint = dot === -1 ? key : key.slice(dot + 1);
+				if (dot !== -1) {
+					info.table = key.slice(0, dot);
+				}
+			}
+			break;
+		}
+		case "foreign-key": {
+			const match =
+				/`([^`]+)`, CONSTRAINT `([^`]+)` FOREIGN KEY \(`([^`]+)`\)/.exec(
+					message,
+				);
+			if (match) {
+				info.table = match[1];
+				info.constraint = match[2];
+				info.column = match[3];
+			}
+			break;
+		}
+		case "not-null":
+			info.column = /(?:Column|Field) '([^']+)'/.exec(message)?.[1];
+			break;
+		case "syntax":
+			if (sql !== undefined) {
+				info.position = mysqlSyntaxPosition(message, sql);
+			}
+			break;
+		case "permission":
+			info.table = /for table '([^']+)'/.exec(message)?.[1];
+			info.column = /for column '([^']+)'/.exec(message)?.[1];
+			break;
+	}
+
+	return buildError(kind, fallbackMessage, fields, info);
+}
+
+/**
+ * Map a bun:sqlite error onto the typed error hierarchy. Extended result
+ * codes identify the failure; table and column come from the message.
+ */
+export function translateSqliteError(
+	error: unknown,
+	fallbackMessage: string,
+	sql?: string,
+): DatabaseError {
+	if (error instanceof DatabaseError) {
+		return error;
+	}
+	const fields = driverFields(error);
+	const message = fields.message ?? "";
+	const code = fields.code ?? "";
+
+	let kind: ErrorKind | undefined =
+		SQLITE_KINDS[code] ??
+		(code.startsWith("SQLITE_READONLY") ? "permission" : undefined);
+	const info: DatabaseErrorInfo = {};
+
+	const target = /constraint failed: ([^.,\s]+)\.([^,\s]+)/.exec(message);
+	if (target && (kind === "unique" || kind === "not-null")) {
+		info.table = target[1];
+		info.column = target[2];
+	}
+
+	if (!kind && code.startsWith("SQLITE_ERROR")) {
+		const near = /near "([^"]*)": syntax error/.exec(message);
+		if (near) {
+			kind = "syntax";
+			if (sql !== undefined) {
+				const index = sql.indexOf(near[1]);
+				info.position = index === -1 ? undefined : index;
+			}
+		} else if (message === "incomplete input") {
+			kind = "syntax";
+			if (sql !== undefined) {
+				info.position = sql.trimEnd().length;
+			}
+		}
+	}
+
+	return buildError(kind, fallbackMessage, fields, info);
+}
+
+function buildError(
+	kind: ErrorKind | undefined,
+	fallbackMessage: string,
+	fields: DriverErrorFields,
+	info: DatabaseErrorInfo,
+): DatabaseError {
+	const code = fields.code;
+	const detail = fields.sqlMessage ?? fields.message;
+
+	switch (kind) {
+		case "unique":
+			return new UniqueViolationError(
+				info.constraint
+					? `Unique constraint "${info.constraint}" rejected a duplicate value.`
+					: `Duplicate value${describeTarget(info)} violates a unique constraint.`,
+				code,
+				detail,
+				info,
+			);
+		case "foreign-key":
+			return new ForeignKeyViolationError(
+				info.constraint
+					? `Foreign key constraint "${info.constraint}" rejected the change.`
+					: "Foreign key constraint rejected the change.",
+				code,
+				detail,
+				info,
+			);
+		case "not-null":
+			return new NotNullViolationError(
+				`Column${describeTarget(info)} does not accept NULL.`,
+				code,
+				detail,
+				info,
+			);
+		case "syntax":
+			return new SqlSyntaxError(
+				`SQL syntax error: ${detail ?? "statement could not be parsed"}`,
+				code,
+				detail,
+				info,
+			);
+		case "permission":
+			return new PermissionDeniedError(
+				`Permission denied: ${detail ?? "insufficient privileges"}`,
+				code,
+				detail,
+				info,
+			);
+		case "deadlock":
+			return new DeadlockError(
+				"Deadlock detected; the transaction was rolled back.",
+				code,
+				detail,
+				info,
+			);
+		case "serialization":
+			return new SerializationFailureError(
+				"Serialization failure; retry the transaction.",
+				code,
+				detail,
+				info,
+			);
+		case "connection-lost":
+			return new ConnectionLostError(
+				"Connection to the database was lost.",
+				code,
+				detail,
+				info,
+			);
+		default:
+			return new DatabaseError(fallbackMessage, code, detail, info);
+	}
+}
+
+function driverFields(error: unknown): DriverErrorFields {
+	if (!(error instanceof Error)) {
+		return {};
+	}
+	const fields = error as Error & Record<string, unknown>;
+	// Runtimes decorate errors with their own line/column numbers, so only
+	// string-valued driver fields are trusted
+	const text = (key: string) =>
+		typeof fields[key] === "string" ? (fields[key] as string) : undefined;
+	const position = fields.position;
+	return {
+		code: fields.code === undefined ? undefined : String(fields.code),
+		message: error.message,
+		detail: text("detail"),
+		constraint: text("constraint"),
+		table: text("table"),
+		column: text("column"),
+		position:
+			typeof position === "string" || typeof position === "number"
+				? position
+				: undefined,
+		sqlState: text("sqlState"),
+		sqlMessage: text("sqlMessage"),
+	};
+}
+
+function describeTarget(info: DatabaseErrorInfo): string {
+	if (!info.column) {
+		return "";
+	}
+	return info.table ? ` "${info.table}.${info.column}"` : ` "${info.column}"`;
+}
+
+/** PostgreSQL details read `Key (email)=(x) ...`; only single columns count. */
+function keyColumnFromDetail(detail: string | undefined): string | undefined {
+	const columns = detail ? /^Key \(([^)]+)\)=/.exec(detail)?.[1] : undefined;
+	return columns && !columns.includes(",") ? columns : undefined;
+}
+
+/**
+ * MySQL quotes the statement text from the failing token onwards in
+ * `near '...' at line N`; find that remainder in the original SQL.
+ */
+function mysqlSyntaxPosition(message: string, sql: string): number | undefined {
+	const match = /near '([\s\S]*)' at line (\d+)/.exec(message);
+	if (!match) {
+		return undefined;
+	}
+	const [, near, line] = match;
+	let lineStart = 0;
+	for (let current = 1; current < Number(line); current += 1) {
+		const newline = sql.indexOf("\n", lineStart);
+		if (newline === -1) {
+			break;
+		}
+		lineStart = newline + 1;
+	}
+	if (!near) {
+		return sql.trimEnd().length;
+	}
+	const index = sql.indexOf(near, lineStart);
+	return index === -1 ? undefined : index;
+}
@@ -0,0 +1,594 @@
+import { type ColumnInfo, DBType } from "../types/state.js";
+import type { CheckConstraintSchema } from "./introspection/index.js";
+import { enumLabels } from "./introspection/introspector.js";
+
+/** What introspection knows about a column beyond its declared type. */
+export interface ColumnRules {
+	/** Allowed labels when the column is an enum. */
+	enumLabels?: string[];
+	/** CHECK constraints of the table; only conditions on the column count. */
+	checks?: CheckConstraintSchema[];
+}
+
+export type EditedValue =
+	| { ok: true; value: unknown }
+	| { ok: false; error: string };
+
+type Comparison = "=" | "<>" | "<" | "<=" | ">" | ">=";
+
+/** One condition on the column, pulled out of a CHECK expression. */
+type Condition =
+	| {
+			kind: "compare";
+			length: boolean;
+			operator: Comparison;
+			operand: string | number;
+	  }
+	| { kind: "in"; negated: boolean; values: Array<string | number> }
+	| { kind: "not-null" };
+
+const INTEGER_RANGES: Array<[RegExp, bigint, bigint]> = [
+	[/^tinyint\b/, -128n, 127n],
+	[/^(?:smallint|int2|smallserial)\b/, -32768n, 32767n],
+	[/^mediumint\b/, -8388608n, 8388607n],
+	[/^(?:int|integer|int4|serial)\b/, -2147483648n, 2147483647n],
+	[/^(?:bigint|int8|bigserial)\b/, -9223372036854775808n, 9223372036854775807n],
+];
+
+const INTEGER_TYPE =
+	/^(?:(?:tiny|small|medium|big)?int(?:eger)?\d*|(?:small|big)?serial\d*)\b/;
+const DECIMAL_TYPE =
+	/^(?:numeric|decimal|dec)\b(?:\s*\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\))?/;
+const FLOAT_TYPE = /^(?:real|double|float\d*)\b/;
+const BOOLEAN_TYPE = /^bool(?:ean)?\b/;
+const DATE_TYPE = /^date$/;
+const TIMESTAMP_TYPE = /^(?:timestamp|datetime)\b/;
+const TIME_TYPE = /^time\b/;
+const JSON_TYPE = /^jsonb?$/;
+// Postgres reports arrays as `integer[]`, information_schema as ARRAY
+const ARRAY_TYPE = /\[\d*\]$|^array$/;
+const LENGTH_LIMITED_TYPE =
+	/^(?:character varying|varchar|nvarchar|varchar2|character|char|nchar|bpchar)\s*\(\s*(\d+)\s*\)/;
+
+const INTEGER_INPUT = /^[+-]?\d+$/;
+const DECIMAL_INPUT = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+const DATE_INPUT = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIMESTAMP_INPUT =
+	/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(?:Z|[+-]\d{2}(?::?\d{2})?)?$/i;
+const TIME_INPUT =
+	/^(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(?:Z|[+-]\d{2}(?::?\d{2})?)?$/i;
+
+const TRUE_WORDS = ["true", "t", "yes", "y", "on", "1"];
+const FALSE_WORDS = ["false", "f", "no", "n", "off", "0"];
+
+/**
+ * Turn what the user typed into the value to store, or explain why the
+ * column would refuse it. `NULL` in any case stands for SQL NULL.
+ */
+export function interpretEditedInput(
+	input: string,
+	column: ColumnInfo,
+	rules: ColumnRules = {},
+	dbType?: DBType,
+): EditedValue {
+	const trimmed = input.trim();
+	if (trimmed.toUpperCase() === "NULL") {
+		if (!column.nullable) {
+			return { ok: false, error: `${column.name} does not accept NULL.` };
+		}
+		return { ok: true, value: null };
+	}
+
+	const parsed = parseForType(input, trimmed, column, dbType);
+	if (!parsed.ok) {
+		return parsed;
+	}
+
+	const labels = allowedLabels(column, rules);
+	if (labels && !labels.includes(String(parsed.value))) {
+		return {
+			ok: false,
+			error: `${column.name} must be one of: ${labels.join(", ")}.`,
+		};
+	}
+
+	for (const check of rules.checks ?? []) {
+		const conditions = checkConditions(check.expression, column.name);
+		if (conditions?.some((condition) => !holds(condition, parsed.value))) {
+			const name = check.name ? ` "${check.name}"` : "";
+			return {
+				ok: false,
+				error: `Violates check constraint${name}: ${check.expression}`,
+			};
+		}
+	}
+
+	return parsed;
+}
+
+/** The labels an enum column takes, or undefined for other columns. */
+export function allowedLabels(
+	column: ColumnInfo,
+	rules: ColumnRules = {},
+): string[] | undefined {
+	// MySQL spells the labels out in the column type itself
+	return (
+		rules.enumLabels ??
+		(/^enum\s*\(/i.test(column.dataType)
+			? enumLabels(column.dataType)
+			: undefined)
+	);
+}
+
+/**
+ * A column default as the text to pre-fill an input with, or null when it
+ * is an expression (now(), nextval()) the database has to evaluate.
+ * MySQL reports literal defaults bare; the others report them as SQL.
+ */
+export function literalDefault(
+	dbType: DBType,
+	defaultValue: string | null | undefined,
+): string | null {
+	if (defaultValue === null || defaultValue === undefined) {
+		return null;
+	}
+	if (dbType === DBType.MySQL) {
+		return /^current_timestamp\b|\(.*\)$/i.test(defaultValue.trim())
+			? null
+			: defaultValue;
+	}
+	const literal = stripParens(defaultValue.replace(CAST, ""));
+	if (/^'(?:[^']|'')*'$/.test(literal)) {
+		return literal.slice(1, -1).replaceAll("''", "'");
+	}
+	if (/^[+-]?\d+(?:\.\d+)?$|^(?:true|false)$/i.test(literal)) {
+		return literal;
+	}
+	return null;
+}
+
+function parseForType(
+	input: string,
+	trimmed: string,
+	column: ColumnInfo,
+	dbType: DBType | undefined,
+): EditedValue {
+	const type = column.dataType.trim().toLowerCase();
+
+	// Array literals such as {1,2} go through as typed; the element type
+	// says nothing about the literal as a whole
+	if (ARRAY_TYPE.test(type)) {
+		return { ok: true, value: input };
+	}
+
+	if (BOOLEAN_TYPE.test(type)) {
+		const word = trimmed.toLowerCase();
+		if (TRUE_WORDS.includes(word)) {
+			return { ok: true, value: true };
+		}
+		if (FALSE_WORDS.includes(word)) {
+			return { ok: true, value: false };
+		}
+		return {
+			ok: false,
+			error: `${column.name} expects true or false (or NULL).`,
+		};
+	}
+
+	if (INTEGER_TYPE.test(type)) {
+		if (!INTEGER_INPUT.test(trimmed)) {
+			return {
+				ok: false,
+				error: `${column.name} expects a whole number (or NULL).`,
+			};
+		}
+		const value = BigInt(trimmed);
+		const range = integerRange(type);
+		if (range && (value < range[0] || value > range[1])) {
+			return {
+				ok: false,
+				error: `${column.name} must be between ${range[0]} and ${range[1]}.`,
+			};
+		}
+		// Keep values past 2^53 as text so they reach the database intact
+		return {
+			ok: true,
+			value: Number.isSafeInteger(Number(value)) ? Number(value) : trimmed,
+		};
+	}
+
+	const decimal = DECIMAL_TYPE.exec(type);
+	if (decimal || FLOAT_TYPE.test(type)) {
+		if (!DECIMAL_INPUT.test(trimmed)) {
+			return {
+				ok: false,
+				error: `${column.name} expects a number (or NULL).`,
+			};
+		}
+		if (!decimal) {
+			return { ok: true, value: Number(trimmed) };
+		}
+		if (decimal[1] && !/e/i.test(trimmed)) {
+			const precision = Number(decimal[1]);
+			const scale = Number(decimal[2] ?? 0);
+			const digits = trimmed.replace(/^[+-]/, "").split(".")[0];
+			if (digits.replace(/^0+/, "").length > precision - scale) {
+				return {
+					ok: false,
+					error: `${column.name} allows at most ${precision - scale} digits before the decimal point.`,
+				};
+			}
+		}
+		// Exact numerics stay text so no digits are lost to floating point
+		return { ok: true, value: trimmed };
+	}
+
+	if (DATE_TYPE.test(type)) {
+		const match = DATE_INPUT.exec(trimmed);
+		if (!match || !isCalendarDate(match)) {
+			return {
+				ok: false,
+				error: `${column.name} expects a date as YYYY-MM-DD.`,
+			};
+		}
+		return { ok: true, value: trimmed };
+	}
+
+	if (TIMESTAMP_TYPE.test(type)) {
+		const match = TIMESTAMP_INPUT.exec(trimmed);
+		if (!match || !isCalendarDate(match) || !isClockTime(match.slice(3))) {
+			return {
+				ok: false,
+				error: `${column.name} expects a timestamp as YYYY-MM-DD HH:MM[:SS].`,
+			};
+		}
+		return { ok: true, value: trimmed };
+	}
+
+	if (TIME_TYPE.test(type)) {
+		const match = TIME_INPUT.exec(trimmed);
+		if (!match || !isClockTime(match)) {
+			return {
+				ok: false,
+				error: `${column.name} expects a time as HH:MM[:SS].`,
+			};
+		}
+		return { ok: true, value: trimmed };
+	}
+
+	if (JSON_TYPE.test(type)) {
+		try {
+			JSON.parse(input);
+		} catch (error) {
+			return {
+				ok: false,
+				error: `${column.name} expects valid JSON: ${(error as Error).message}`,
+			};
+		}
+		return { ok: true, value: input };
+	}
+
+	// SQLite accepts varchar(n) but never enforces the length
+	const limited =
+		dbType === DBType.SQLite ? null : LENGTH_LIMITED_TYPE.exec(type);
+	if (limited) {
+		const limit = Number(limited[1]);
+		const length = [...input].length;
+		if (length > limit) {
+			return {
+				ok: false,
+				error: `${column.name} allows at most ${limit} characters (got ${length}).`,
+			};
+		}
+	}
+
+	return { ok: true, value: input };
+}
+
+function integerRange(type: string): [bigint, bigint] | null {
+	const entry = INTEGER_RANGES.find(([pattern]) => pattern.test(type));
+	if (!entry) {
+		return null;
+	}
+	if (/\bunsigned\b/.test(type)) {
+		return [0n, entry[2] * 2n + 1n];
+	}
+	return [entry[1], entry[2]];
+}
+
+function isCalendarDate(match: RegExpExecArray): boolean {
+	const [year, month, day] = [match[1], match[2], match[3]].map(Number);
+	const date = new Date(Date.UTC(year, month - 1, day));
+	return (
+		date.getUTCFullYear() === year &&
+		date.getUTCMonth() === month - 1 &&
+		date.getUTCDate() === day
+	);
+}
+
+/** Hours, minutes and seconds from the capture groups after the date. */
+function isClockTime(parts: ArrayLike<string | undefined>): boolean {
+	const [, hours, minutes, seconds] = Array.from(parts);
+	if (hours === undefined) {
+		return true;
+	}
+	return (
+		Number(hours) < 24 &&
+		Number(minutes) < 60 &&
+		(seconds === undefined || Number(seconds) < 60)
+	);
+}
+
+/**
+ * The conditions a CHECK expression puts on one column, or null when the
+ * expression is more than a conjunction of simple conditions. Conditions
+ * on other columns are left to the database.
+ */
+export function checkConditions(
+	expression: string,
+	columnName: string,
+): Condition[] | null {
+	const normalized = stripParens(
+		expression
+			// Postgres spells out casts and wraps operands: (price > (0)::numeric)
+			.replace(CAST, "")
+			.replace(WRAPPED_OPERAND, "$1")
+			.replace(/\s+/g, " ")
+			.trim(),
+	);
+	if (splitTopLevel(normalized, "OR").length > 1) {
+		return null;
+	}
+
+	const conditions: Condition[] = [];
+	for (const part of splitBetween(splitTopLevel(normalized, "AND"))) {
+		const condition = parseCondition(stripParens(part), columnName);
+		if (condition) {
+			conditions.push(condition);
+		}
+	}
+	return conditions;
+}
+
+const IDENTIFIER = String.raw`(?:"((?:[^"]|"")+)"|\x60([^\x60]+)\x60|\[([^\]]+)\]|([A-Za-z_][\w$]*))`;
+const LITERAL = String.raw`(-?\d+(?:\.\d+)?|'(?:[^']|'')*')`;
+const OPERATOR = "(<>|!=|<=|>=|=|<|>)";
+
+const CAST =
+	/::(?:"[^"]+"|[a-z_]\w*)(?:\s+(?:varying|precision|with(?:out)?\s+time\s+zone))*(?:\[\])?/gi;
+// A parenthesized identifier or literal, but not a function argument
+const WRAPPED_OPERAND = new RegExp(
+	String.raw`(?<![\w$])\(\s*(${IDENTIFIER}|${LITERAL})\s*\)`,
+	"g",
+);
+
+const LENGTH_COMPARISON = new RegExp(
+	String.raw`^(?:length|char_length|character_length)\s*\(\s*${IDENTIFIER}\s*\)\s*${OPERATOR}\s*${LITERAL}$`,
+	"i",
+);
+const COMPARISON = new RegExp(
+	String.raw`^${IDENTIFIER}\s*${OPERATOR}\s*${LITERAL}$`,
+	"i",
+);
+const IN_LIST = new RegExp(
+	String.raw`^${IDENTIFIER}\s+(NOT\s+)?IN\s*\((.*)\)$`,
+	"i",
+);
+const ANY_ARRAY = new RegExp(
+	String.raw`^${IDENTIFIER}\s*=\s*ANY\s*\(\s*\(?\s*ARRAY\s*\[(.*)\]\s*\)?\s*\)$`,
+	"i",
+);
+const NOT_NULL = new RegExp(String.raw`^${IDENTIFIER}\s+IS\s+NOT\s+NULL$`, "i");
+const BETWEEN = new RegExp(
+	String.raw`^${IDENTIFIER}\s+BETWEEN\s+${LITERAL}$`,
+	"i",
+);
+
+function parseCondition(part: string, columnName: string): Condition | null {
+	const mentions = (match: RegExpExecArray) =>
+		identifierName(match).toLowerCase() === columnName.toLowerCase();
+
+	let match = LENGTH_COMPARISON.exec(part);
+	if (match) {
+		return mentions(match)
+			? {
+					kind: "compare",
+					length: true,
+					operator: comparison(match[5]),
+					operand: literal(match[6]),
+				}
+			: null;
+	}
+	match = COMPARISON.exec(part);
+	if (match) {
+		return mentions(match)
+			? {
+					kind: "compare",
+					length: false,
+					operator: comparison(match[5]),
+					operand: literal(match[6]),
+				}
+			: null;
+	}
+	match = IN_LIST.exec(part) ?? ANY_ARRAY.exec(part);
+	if (match) {
+		const negated = match.length > 6 && Boolean(match[5]);
+		const list = match.length > 6 ? match[6] : match[5];
+		const values = literalList(list);
+		return mentions(match) && values ? { kind: "in", negated, values } : null;
+	}
+	match = NOT_NULL.exec(part);
+	if (match) {
+		return mentions(match) ? { kind: "not-null" } : null;
+	}
+	return null;
+}
+
+/** `x BETWEEN 1 AND 5` was split at its AND; put it back as two bounds. */
+function splitBetween(parts: string[]): string[] {
+	const result: string[] = [];
+	for (let index = 0; index < parts.length; index++) {
+		const part = stripParens(parts[index]);
+		const match = BETWEEN.exec(part);
+		if (match && index + 1 < parts.length) {
+			const column = part.slice(0, part.search(/\s+BETWEEN\s/i));
+			result.push(
+				`${column} >= ${match[5]}`,
+				`${column} <= ${parts[index + 1]}`,
+			);
+			index += 1;
+			continue;
+		}
+		result.push(parts[index]);
+	}
+	return result;
+}
+
+function holds(condition: Condition, value: unknown): boolean {
+	if (condition.kind === "not-null") {
+		return value !== null;
+	}
+	// A CHECK that evaluates to NULL passes
+	if (value === null || value === undefined) {
+		return true;
+	}
+	if (condition.kind === "in") {
+		const found = condition.values.some((candidate) =>
+			sameValue(candidate, value),
+		);
+		return condition.negated ? !found : found;
+	}
+
+	const subject = condition.length ? [...String(value)].length : value;
+	const { operand, operator } = condition;
+	if (operator === "=" || operator === "<>") {
+		return sameValue(operand, subject) === (operator === "=");
+	}
+	// Ordering text depends on the collation; leave that to the database
+	if (typeof operand !== "number") {
+		return true;
+	}
+	const number = Number(subject);
+	if (Number.isNaN(number)) {
+		return true;
+	}
+	switch (operator) {
+		case "<":
+			return number < operand;
+		case "<=":
+			return number <= operand;
+		case ">":
+			return number > operand;
+		default:
+			return number >= operand;
+	}
+}
+
+function sameValue(operand: string | number, value: unknown): boolean {
+	if (typeof operand === "number") {
+		return Number(value) === operand;
+	}
+	return String(value) === operand;
+}
+
+function comparison(operator: string): Comparison {
+	return operator === "!=" ? "<>" : (operator as Comparison);
+}
+
+function literal(text: string): string | number {
+	return text.startsWith("'")
+		? text.slice(1, -1).replaceAll("''", "'")
+		: Number(text);
+}
+
+function literalList(list: string): Array<string | number> | null {
+	const items = splitTopLevel(list, ",").map((item) => item.trim());
+	const pattern = new RegExp(`^${LITERAL}$`);
+	if (!items.every((item) => pattern.test(item))) {
+		return null;
+	}
+	return items.map(literal);
+}
+
+function identifierName(match: RegExpExecArray): string {
+	return (match[1]?.replaceAll('""', '"') ??
+		match[2] ??
+		match[3] ??
+		match[4]) as string;
+}
+
+/** Drop parentheses that wrap the whole expression. */
+function stripParens(expression: string): string {
+	let result = expression.trim();
+	while (
+		result.startsWith("(") &&
+		result.endsWith(")") &&
+		closesAtEnd(result)
+	) {
+		result = result.slice(1, -1).trim();
+	}
+	return result;
+}
+
+/** Whether the `(` at the start is closed by the `)` at the end. */
+function closesAtEnd(expression: string): boolean {
+	let depth = 0;
+	let quoted = false;
+	for (let index = 0; index < expression.length; index++) {
+		const char = expression[index];
+		if (char === "'") {
+			quoted = !quoted;
+		} else if (!quoted && char === "(") {
+			depth += 1;
+		} else if (!quoted && char === ")") {
+			depth -= 1;
+			if (depth === 0 && index < expression.length - 1) {
+				return false;
+			}
+		}
+	}
+	return depth === 0;
+}
+
+/**
+ * Split at a keyword or comma that sits outside parentheses, brackets
+ * and string literals.
+ */
+function splitTopLevel(expression: string, separator: string): string[] {
+	const parts: string[] = [];
+	const isWord = /^[A-Z]+$/.test(separator);
+	let depth = 0;
+	let quoted = false;
+	let start = 0;
+	for (let index = 0; index < expression.length; index++) {
+		const char = expression[index];
+		if (char === "'") {
+			quoted = !quoted;
+			continue;
+		}
+		if (quoted) {
+			continue;
+		}
+		if (char === "(" || char === "[") {
+			depth += 1;
+		} else if (char === ")" || char === "]") {
+			depth -= 1;
+		} else if (depth === 0) {
+			if (!isWord && char === separator) {
+				parts.push(expression.slice(start, index));
+				start = index + 1;
+			} else if (
+				isWord &&
+				/\s/.test(expression[index - 1] ?? "") &&
+				expression.slice(index, index + separator.length).toUpperCase() ===
+					separator &&
+				/\s/.test(expression[index + separator.length] ?? "")
+			) {
+				parts.push(expression.slice(start, index));
+				start = index + separator.length;
+			}
+		}
+	}
+	parts.push(expression.slice(start));
+	return parts.map((part) => part.trim());
+}
@@ -1,17 +1,48 @@
+/**
+ * Where a driver error points: the constraint, table and column involved
+ * and the zero-based character offset into the statement text.
+ */
+export interface DatabaseErrorInfo {
+	constraint?: string;
+	table?: string;
+	column?: string;
+	position?: number;
+}
+
 export class DatabaseError extends Error {
+	// Declared rather than initialised: Bun stores its own source column on
+	// Error objects as `column`, and writing it renders the stack, so it is
+	// always overwritten, and only once the name is set.
+	declare readonly constraint?: string;
+	declare readonly table?: string;
+	declare readonly column?: string;
+	declare readonly position?: number;
+
 	constructor(
 		message: string,
 		public readonly code?: string,
 		public readonly detail?: string,
+		info: DatabaseErrorInfo = {},
 	) {
 		super(message);
 		this.name = "DatabaseError";
+		Object.assign(this, {
+			constraint: info.constraint,
+			table: info.table,
+			column: info.column,
+			position: info.position,
+		});
 	}
 }
 
 export class ConnectionError extends DatabaseError {
-	constructor(message: string, code?: string, detail?: string) {
-		super(message, code, detail);
+	constructor(
+		message: string,
+		code?: string,
+		detail?: string,
+		info?: DatabaseErrorInfo,
+	) {
+		super(message, code, detail, info);
 		this.name = "ConnectionError";
 	}
 }
@@ -22,3 +53,106 @@ export class QueryTimeoutError extends DatabaseError {
 		this.name = "QueryTimeoutError";
 	}
 }
+
+export class QueryCancelledError extends DatabaseError {
+	constructor(message = "Query was cancelled.") {
+		super(message);
+		this.name = "QueryCancelledError";
+	}
+}
+
+export class UniqueViolationError extends DatabaseError {
+	constructor(
+		message: string,
+		code?: string,
+		detail?: string,
+		info?: DatabaseErrorInfo,
+	) {
+		super(message, code, detail, info);
+		this.name = "UniqueViolationError";
+	}
+}
+
+export class ForeignKeyViolationError extends DatabaseError {
+	constructor(
+		message: string,
+		code?: string,
+		detail?: string,
+		info?: DatabaseErrorInfo,
+	) {
+		super(message, code, detail, info);
+		this.name = "ForeignKeyViolationError";
+	}
+}
+
+export class NotNullViolationError extends DatabaseError {
+	constructor(
+		message: string,
+		code?: string,
+		detail?: string,
+		info?: DatabaseErrorInfo,
+	) {
+		super(message, code, detail, info);
+		this.name = "NotNullViolationError";
+	}
+}
+
+export class SqlSyntaxError extends DatabaseError {
+	constructor(
+		message: string,
+		code?: string,
+		detail?: string,
+		info?: DatabaseErrorInfo,
+	) {
+		super(message, code, detail, info);
+		this.name = "SqlSyntaxError";
+	}
+}
+
+export class PermissionDeniedError extends DatabaseError {
+	constructor(
+		message: string,
+		code?: string,
+		detail?: string,
+		info?: DatabaseErrorInfo,
+	) {
+		super(message, code, detail, info);
+		this.name = "PermissionDeniedError";
+	}
+}
+
+export class DeadlockError extends DatabaseError {
+	constructor(
+		message: string,
+		code?: string,
+		detail?: string,
+		info?: DatabaseErrorInfo,
+	) {
+		super(message, code, detail, info);
+		this.name = "DeadlockError";
+	}
+}
+
+export class SerializationFailureError extends DatabaseError {
+	constructor(
+		message: string,
+		code?: string,
+		detail?: string,
+		info?: DatabaseErrorInfo,
+	) {
+		super(message, code, detail, info);
+		this.name = "SerializationFailureError";
+	}
+}
+
+export class ConnectionLostError extends ConnectionError {
+	constructor(
+		message: string,
+		code?: string,
+		detail?: string,
+		info?: DatabaseErrorInfo,
+	) {
+		super(message, code, detail, info);
+		this.name = "ConnectionLostError";
+	}
+}
@@ -1,4 +1,5 @@
 export * from "./connection.js";
 export * from "./errors.js";
+export * from "./manager.js";
 export * from "./parameterize.js";
 export * from "./types.js";
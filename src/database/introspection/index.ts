@@ -0,0 +1,55 @@
+import { DBType } from "../../types/state.js";
+import { ConnectionError } from "../errors.js";
+import type { DatabaseConnection } from "../types.js";
+import type { SchemaIntrospector } from "./introspector.js";
+import { MySQLIntrospector } from "./mysql.js";
+import { PostgresIntrospector } from "./postgres.js";
+import { SQLiteIntrospector } from "./sqlite.js";
+
+export { SchemaIntrospector } from "./introspector.js";
+export { MySQLIntrospector } from "./mysql.js";
+export { PostgresIntrospector } from "./postgres.js";
+export { parseCheckConstraints, SQLiteIntrospector } from "./sqlite.js";
+export * from "./types.js";
+
+const SCHEMA_CHANGE =
+	/^(?:\s|--[^\n]*\n|\/\*[\s\S]*?\*\/)*(?:create|alter|drop|rename|comment)\b/i;
+
+const shared = new WeakMap<DatabaseConnection, SchemaIntrospector>();
+
+export function createSchemaIntrospector(
+	connection: DatabaseConnection,
+	dbType: DBType = connection.type,
+): SchemaIntrospector {
+	switch (dbType) {
+		case DBType.PostgreSQL:
+			return new PostgresIntrospector(connection, dbType);
+		case DBType.MySQL:
+			return new MySQLIntrospector(connection, dbType);
+		case DBType.SQLite:
+			return new SQLiteIntrospector(connection, dbType);
+		default:
+			throw new ConnectionError(`Unsupported database type: ${dbType}`);
+	}
+}
+
+/**
+ * The introspector belonging to a connection. Everyone sharing the
+ * connection (the session pool, the agent's connection) shares its cache.
+ */
+export function getSchemaIntrospector(
+	connection: DatabaseConnection,
+	dbType: DBType = connection.type,
+): SchemaIntrospector {
+	let introspector = shared.get(connection);
+	if (!introspector) {
+		introspector = createSchemaIntrospector(connection, dbType);
+		shared.set(connection, introspector);
+	}
+	return introspector;
+}
+
+/** Whether a statement is DDL that makes cached schema metadata stale. */
+export function isSchemaChange(sql: string): boolean {
+	return SCHEMA_CHANGE.test(sql);
+}
@@ -0,0 +1,353 @@
+import type { DBType, TableInfo } from "../../types/state.js";
+import type { DatabaseConnection, QueryOptions, QueryRow } from "../types.js";
+import type {
+	ColumnSchema,
+	DatabaseObjectKind,
+	DatabaseObjectsByKind,
+	DatabaseSchema,
+	EnumSchema,
+	ForeignKeySchema,
+	IndexSchema,
+	ReferencingKeySchema,
+	ReferentialAction,
+	RoutineSchema,
+	SequenceSchema,
+	TableConstraints,
+	TableSchema,
+	TableSummary,
+	TriggerSchema,
+} from "./types.js";
+
+/**
+ * Reads schema metadata for one dialect and caches every answer until it is
+ * invalidated. Each public method caches separately, so a view that only
+ * needs indexes never pays for the rest of the table's metadata.
+ */
+export abstract class SchemaIntrospector {
+	private readonly cache = new Map<string, Promise<unknown>>();
+
+	constructor(
+		protected readonly connection: DatabaseConnection,
+		readonly dbType: DBType,
+	) {}
+
+	listSchemas(options?: QueryOptions): Promise<string[]> {
+		return this.cached("schemas", () => this.loadSchemas(options));
+	}
+
+	listTables(options?: QueryOptions): Promise<TableSummary[]> {
+		return this.cached("tables", () => this.loadTables(options));
+	}
+
+	getColumns(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<ColumnSchema[]> {
+		return this.cached(tableKey("columns", table), () =>
+			this.loadColumns(table, options),
+		);
+	}
+
+	getForeignKeys(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<ForeignKeySchema[]> {
+		return this.cached(tableKey("foreign-keys", table), () =>
+			this.loadForeignKeys(table, options),
+		);
+	}
+
+	/** Foreign keys elsewhere in the database that reference this table. */
+	getReferencingKeys(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<ReferencingKeySchema[]> {
+		return this.cached(tableKey("referenced-by", table), () =>
+			this.loadReferencingKeys(table, options),
+		);
+	}
+
+	getIndexes(table: TableInfo, options?: QueryOptions): Promise<IndexSchema[]> {
+		return this.cached(tableKey("indexes", table), () =>
+			this.loadIndexes(table, options),
+		);
+	}
+
+	getConstraints(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<TableConstraints> {
+		return this.cached(tableKey("constraints", table), () =>
+			this.loadConstraints(table, options),
+		);
+	}
+
+	getViewDefinition(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<string | null> {
+		return this.cached(tableKey("view", table), () =>
+			this.loadViewDefinition(table, options),
+		);
+	}
+
+	/**
+	 * The statements that create a table or view as it stands, with its
+	 * indexes, in the dialect's own words where the database keeps them.
+	 */
+	getDdl(table: TableInfo, options?: QueryOptions): Promise<string> {
+		return this.cached(tableKey("ddl", table), () =>
+			this.loadDdl(table, options),
+		);
+	}
+
+	/** Functions and procedures, with their signatures and source. */
+	listRoutines(options?: QueryOptions): Promise<RoutineSchema[]> {
+		return this.cached("routines", () => this.loadRoutines(options));
+	}
+
+	listTriggers(options?: QueryOptions): Promise<TriggerSchema[]> {
+		return this.cached("triggers", () => this.loadTriggers(options));
+	}
+
+	listSequences(options?: QueryOptions): Promise<SequenceSchema[]> {
+		return this.cached("sequences", () => this.loadSequences(options));
+	}
+
+	listEnums(options?: QueryOptions): Promise<EnumSchema[]> {
+		return this.cached("enums", () => this.loadEnums(options));
+	}
+
+	/** The non-table objects of one kind. */
+	listObjects<K extends DatabaseObjectKind>(
+		kind: K,
+		options?: QueryOptions,
+	): Promise<DatabaseObjectsByKind[K][]> {
+		const loaders: {
+			[Kind in DatabaseObjectKind]: () => Promise<
+				DatabaseObjectsByKind[Kind][]
+			>;
+		} = {
+			routines: () => this.listRoutines(options),
+			triggers: () => this.listTriggers(options),
+			sequences: () => this.listSequences(options),
+			enums: () => this.listEnums(options),
+		};
+		return loaders[kind]();
+	}
+
+	/** Everything known about one table or view. */
+	async getTable(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<TableSchema> {
+		const isView = table.type !== "table";
+		const [tables, columns, foreignKeys, indexes, constraints, definition] =
+			await Promise.all([
+				this.listTables(options),
+				this.getColumns(table, options),
+				isView ? [] : this.getForeignKeys(table, options),
+				this.getIndexes(table, options),
+				isView
+					? { primaryKey: null, unique: [], checks: [] }
+					: this.getConstraints(table, options),
+				isView ? this.getViewDefinition(table, options) : null,
+			]);
+		const summary = tables.find(
+			(candidate) =>
+				candidate.name === table.name && candidate.schema === table.schema,
+		);
+
+		return {
+			schema: table.schema,
+			name: table.name,
+			type: table.type,
+			comment: summary?.comment,
+			columns,
+			primaryKey: constraints.primaryKey,
+			foreignKeys,
+			indexes,
+			uniqueConstraints: constraints.unique,
+			checkConstraints: constraints.checks,
+			viewDefinition: definition ?? undefined,
+		};
+	}
+
+	/** The whole database: every schema and every table in detail. */
+	async getSchema(options?: QueryOptions): Promise<DatabaseSchema> {
+		const schemas = await this.listSchemas(options);
+		const tables: TableSchema[] = [];
+		for (const table of await this.listTables(options)) {
+			tables.push(await this.getTable(table, options));
+		}
+		const triggers = await this.listTriggers(options);
+		return { dbType: this.dbType, schemas, tables, triggers };
+	}
+
+	/** Forget cached metadata for one table, or for everything. */
+	invalidate(table?: TableInfo): void {
+		if (!table) {
+			this.cache.clear();
+			return;
+		}
+		const suffix = tableKey("", table);
+		for (const key of [...this.cache.keys()]) {
+			if (key.endsWith(suffix)) {
+				this.cache.delete(key);
+			}
+		}
+	}
+
+	protected abstract loadSchemas(options?: QueryOptions): Promise<string[]>;
+	protected abstract loadTables(
+		options?: QueryOptions,
+	): Promise<TableSummary[]>;
+	protected abstract loadColumns(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<ColumnSchema[]>;
+	protected abstract loadForeignKeys(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<ForeignKeySchema[]>;
+	protected abstract loadReferencingKeys(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<ReferencingKeySchema[]>;
+	protected abstract loadIndexes(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<IndexSchema[]>;
+	protected abstract loadConstraints(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<TableConstraints>;
+	protected abstract loadViewDefinition(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<string | null>;
+	protected abstract loadDdl(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<string>;
+	protected abstract loadRoutines(
+		options?: QueryOptions,
+	): Promise<RoutineSchema[]>;
+	protected abstract loadTriggers(
+		options?: QueryOptions,
+	): Promise<TriggerSchema[]>;
+	protected abstract loadSequences(
+		options?: QueryOptions,
+	): Promise<SequenceSchema[]>;
+	protected abstract loadEnums(options?: QueryOptions): Promise<EnumSchema[]>;
+
+	protected async rows(
+		sql: string,
+		params: unknown[],
+		options?: QueryOptions,
+	): Promise<QueryRow[]> {
+		const result = await this.connection.query(sql, params, options);
+		return result.rows;
+	}
+
+	private cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+		const existing = this.cache.get(key) as Promise<T> | undefined;
+		if (existing) {
+			return existing;
+		}
+		const pending = load();
+		this.cache.set(key, pending);
+		// Failures are not remembered; the next caller tries again
+		pending.catch(() => {
+			if (this.cache.get(key) === pending) {
+				this.cache.delete(key);
+			}
+		});
+		return pending;
+	}
+}
+
+function tableKey(kind: string, table: TableInfo): string {
+	return `${kind}|${table.schema ?? ""}|${table.name}`;
+}
+
+export function text(value: unknown): string | undefined {
+	return value === null || value === undefined || value === ""
+		? undefined
+		: String(value);
+}
+
+/** Drivers report flags as booleans, 0/1 or "YES"/"NO". */
+export function flag(value: unknown): boolean {
+	if (typeof value === "string") {
+		return ["1", "t", "true", "yes", "y"].includes(value.toLowerCase());
+	}
+	return Boolean(value);
+}
+
+/** Array columns arrive parsed, or as `{a,b}` text from older drivers. */
+export function list(value: unknown): string[] {
+	if (Array.isArray(value)) {
+		return value.map(String);
+	}
+	if (typeof value === "string" && value.startsWith("{")) {
+		const inner = value.slice(1, -1);
+		return inner
+			? inner.split(",").map((item) => item.replace(/^"|"$/g, ""))
+			: [];
+	}
+	return [];
+}
+
+export function tableType(raw: unknown): TableInfo["type"] {
+	const type = String(raw ?? "").toLowerCase();
+	if (type.includes("view") && type.includes("materialized")) {
+		return "materialized-view";
+	}
+	return type.includes("view") ? "view" : "table";
+}
+
+export function referentialAction(raw: unknown): ReferentialAction {
+	const action = String(raw ?? "").toUpperCase();
+	switch (action) {
+		case "RESTRICT":
+		case "CASCADE":
+		case "SET NULL":
+		case "SET DEFAULT":
+			return action;
+		default:
+			return "NO ACTION";
+	}
+}
+
+export function triggerTiming(raw: unknown): TriggerSchema["timing"] {
+	const timing = String(raw ?? "").toUpperCase();
+	return timing === "BEFORE" || timing === "INSTEAD OF" ? timing : "AFTER";
+}
+
+/** `enum('a','it''s')` → `["a", "it's"]` */
+export function enumLabels(columnType: string): string[] {
+	return [...columnType.matchAll(/'((?:[^']|'')*)'/g)].map((match) =>
+		match[1].replaceAll("''", "'"),
+	);
+}
+
+/** Group per-column constraint rows into one entry per constraint name. */
+export function groupByName<T extends { name: string }>(
+	rows: QueryRow[],
+	nameOf: (row: QueryRow) => string,
+	create: (row: QueryRow) => T,
+	append: (entry: T, row: QueryRow) => void,
+): T[] {
+	const groups = new Map<string, T>();
+	for (const row of rows) {
+		const name = nameOf(row);
+		let entry = groups.get(name);
+		if (!entry) {
+			entry = create(row);
+			groups.set(name, entry);
+		}
+		append(entry, row);
+	}
+	return [...groups.values()];
+}
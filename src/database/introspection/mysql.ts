@@ -0,0 +1,477 @@
+import type { TableInfo } from "../../types/state.js";
+import { formatStatements, qualifiedName } from "../ddl.js";
+import { DatabaseError } from "../errors.js";
+import type { QueryOptions } from "../types.js";
+import {
+	enumLabels,
+	flag,
+	groupByName,
+	referentialAction,
+	SchemaIntrospector,
+	tableType,
+	text,
+	triggerTiming,
+} from "./introspector.js";
+import type {
+	ColumnSchema,
+	EnumSchema,
+	ForeignKeySchema,
+	IndexSchema,
+	ReferencingKeySchema,
+	RoutineSchema,
+	SequenceSchema,
+	TableConstraints,
+	TableSummary,
+	TriggerEvent,
+	TriggerSchema,
+} from "./types.js";
+
+const SYSTEM_SCHEMAS =
+	"'information_schema', 'performance_schema', 'mysql', 'sys'";
+
+export class MySQLIntrospector extends SchemaIntrospector {
+	protected async loadSchemas(options?: QueryOptions): Promise<string[]> {
+		const rows = await this.rows(
+			`
+          SELECT SCHEMA_NAME AS schema_name
+          FROM information_schema.SCHEMATA
+          WHERE SCHEMA_NAME NOT IN (${SYSTEM_SCHEMAS})
+          ORDER BY SCHEMA_NAME
+        `,
+			[],
+			options,
+		);
+		return rows.map((row) => String(row.schema_name));
+	}
+
+	protected async loadTables(options?: QueryOptions): Promise<TableSummary[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            TABLE_SCHEMA AS table_schema,
+            TABLE_NAME AS table_name,
+            TABLE_TYPE AS table_type,
+            TABLE_COMMENT AS table_comment
+          FROM information_schema.TABLES
+          WHERE TABLE_SCHEMA NOT IN (${SYSTEM_SCHEMAS})
+          ORDER BY TABLE_SCHEMA, TABLE_NAME
+        `,
+			[],
+			options,
+		);
+		return rows.map((row) => ({
+			schema: text(row.table_schema),
+			name: String(row.table_name ?? ""),
+			type: tableType(row.table_type),
+			// Views report the literal comment "VIEW"
+			comment:
+				tableType(row.table_type) === "table"
+					? text(row.table_comment)
+					: undefined,
+		}));
+	}
+
+	protected async loadColumns(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<ColumnSchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            COLUMN_NAME AS column_name,
+            COLUMN_TYPE AS data_type,
+            IS_NULLABLE AS is_nullable,
+            COLUMN_DEFAULT AS column_default,
+            COLUMN_KEY AS column_key,
+            EXTRA AS extra,
+            ORDINAL_POSITION AS ordinal_position,
+            COLUMN_COMMENT AS column_comment
+          FROM information_schema.COLUMNS
+          WHERE TABLE_SCHEMA = COALESCE(?, DATABASE())
+            AND TABLE_NAME = ?
+          ORDER BY ORDINAL_POSITION
+        `,
+			[table.schema ?? null, table.name],
+			options,
+		);
+		return rows.map((row, index) => ({
+			name: String(row.column_name),
+			dataType: String(row.data_type ?? ""),
+			nullable: String(row.is_nullable ?? "").toUpperCase() !== "NO",
+			defaultValue: text(row.column_default) ?? null,
+			isPrimaryKey: String(row.column_key ?? "").toUpperCase() === "PRI",
+			autoIncrement: /auto_increment/i.test(String(row.extra ?? "")),
+			ordinal: Number(row.ordinal_position ?? index + 1),
+			comment: text(row.column_comment),
+		}));
+	}
+
+	protected async loadForeignKeys(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<ForeignKeySchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            k.CONSTRAINT_NAME AS constraint_name,
+            k.COLUMN_NAME AS column_name,
+            k.REFERENCED_TABLE_SCHEMA AS referenced_schema,
+            k.REFERENCED_TABLE_NAME AS referenced_table,
+            k.REFERENCED_COLUMN_NAME AS referenced_column,
+            r.UPDATE_RULE AS update_rule,
+            r.DELETE_RULE AS delete_rule
+          FROM information_schema.KEY_COLUMN_USAGE k
+          JOIN information_schema.REFERENTIAL_CONSTRAINTS r
+            ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA
+           AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+           AND r.TABLE_NAME = k.TABLE_NAME
+          WHERE k.TABLE_SCHEMA = COALESCE(?, DATABASE())
+            AND k.TABLE_NAME = ?
+            AND k.REFERENCED_TABLE_NAME IS NOT NULL
+          ORDER BY k.CONSTRAINT_NAME, k.ORDINAL_POSITION
+        `,
+			[table.schema ?? null, table.name],
+			options,
+		);
+		return groupByName<ForeignKeySchema>(
+			rows,
+			(row) => String(row.constraint_name),
+			(row) => ({
+				name: String(row.constraint_name),
+				columns: [],
+				referencedSchema: text(row.referenced_schema),
+				referencedTable: String(row.referenced_table ?? ""),
+				referencedColumns: [],
+				onUpdate: referentialAction(row.update_rule),
+				onDelete: referentialAction(row.delete_rule),
+			}),
+			(foreignKey, row) => {
+				foreignKey.columns.push(String(row.column_name));
+				foreignKey.referencedColumns.push(String(row.referenced_column));
+			},
+		);
+	}
+
+	protected async loadReferencingKeys(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<ReferencingKeySchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            k.CONSTRAINT_NAME AS constraint_name,
+            k.TABLE_SCHEMA AS table_schema,
+            k.TABLE_NAME AS table_name,
+            k.COLUMN_NAME AS column_name,
+            k.REFERENCED_TABLE_SCHEMA AS referenced_schema,
+            k.REFERENCED_COLUMN_NAME AS referenced_column,
+            r.UPDATE_RULE AS update_rule,
+            r.DELETE_RULE AS delete_rule
+          FROM information_schema.KEY_COLUMN_USAGE k
+          JOIN information_schema.REFERENTIAL_CONSTRAINTS r
+            ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA
+           AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+           AND r.TABLE_NAME = k.TABLE_NAME
+          WHERE k.REFERENCED_TABLE_SCHEMA = COALESCE(?, DATABASE())
+            AND k.REFERENCED_TABLE_NAME = ?
+          ORDER BY k.TABLE_SCHEMA, k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION
+        `,
+			[table.schema ?? null, table.name],
+			options,
+		);
+		return groupByName<ReferencingKeySchema>(
+			rows,
+			(row) => `${row.table_schema}.${row.table_name}.${row.constraint_name}`,
+			(row) => ({
+				name: String(row.constraint_name),
+				table: {
+					schema: text(row.table_schema),
+					name: String(row.table_name),
+					type: "table",
+				},
+				columns: [],
+				referencedSchema: text(row.referenced_schema),
+				referencedTable: table.name,
+				referencedColumns: [],
+				onUpdate: referentialAction(row.update_rule),
+				onDelete: referentialAction(row.delete_rule),
+			}),
+			(foreignKey, row) => {
+				foreignKey.columns.push(String(row.column_name));
+				foreignKey.referencedColumns.push(String(row.referenced_column));
+			},
+		);
+	}
+
+	protected async loadIndexes(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<IndexSchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            INDEX_NAME AS index_name,
+            COLUMN_NAME AS column_name,
+            NON_UNIQUE = 0 AS is_unique,
+            INDEX_NAME = 'PRIMARY' AS is_primary,
+            INDEX_TYPE AS index_type
+          FROM information_schema.STATISTICS
+          WHERE TABLE_SCHEMA = COALESCE(?, DATABASE())
+            AND TABLE_NAME = ?
+          ORDER BY INDEX_NAME, SEQ_IN_INDEX
+        `,
+			[table.schema ?? null, table.name],
+			options,
+		);
+		return groupByName(
+			rows,
+			(row) => String(row.index_name),
+			(row) => ({
+				name: String(row.index_name),
+				columns: [] as string[],
+				unique: flag(row.is_unique),
+				primary: flag(row.is_primary),
+				type: text(row.index_type),
+			}),
+			(index, row) => {
+				// Functional key parts have no column name
+				index.columns.push(text(row.column_name) ?? "(expression)");
+			},
+		);
+	}
+
+	protected async loadConstraints(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<TableConstraints> {
+		const params = [table.schema ?? null, table.name];
+		const keyRows = await this.rows(
+			`
+          SELECT
+            tc.CONSTRAINT_NAME AS constraint_name,
+            tc.CONSTRAINT_TYPE AS constraint_type,
+            k.COLUMN_NAME AS column_name
+          FROM information_schema.TABLE_CONSTRAINTS tc
+          JOIN information_schema.KEY_COLUMN_USAGE k
+            ON k.CONSTRAINT_SCHEMA = tc.CONSTRAINT_SCHEMA
+           AND k.CONSTRAINT_NAME = tc.CONSTRAINT_NAME
+           AND k.TABLE_NAME = tc.TABLE_NAME
+          WHERE tc.TABLE_SCHEMA = COALESCE(?, DATABASE())
+            AND tc.TABLE_NAME = ?
+            AND tc.CONSTRAINT_TYPE IN ('PRIMARY KEY', 'UNIQUE')
+          ORDER BY tc.CONSTRAINT_NAME, k.ORDINAL_POSITION
+        `,
+			params,
+			options,
+		);
+
+		const keys = groupByName(
+			keyRows,
+			(row) => String(row.constraint_name),
+			(row) => ({
+				name: String(row.constraint_name),
+				primary: row.constraint_type === "PRIMARY KEY",
+				columns: [] as string[],
+			}),
+			(key, row) => {
+				key.columns.push(String(row.column_name));
+			},
+		);
+		const primary = keys.find((key) => key.primary);
+
+		return {
+			primaryKey: primary
+				? { name: primary.name, columns: primary.columns }
+				: null,
+			unique: keys
+				.filter((key) => !key.primary)
+				.map(({ name, columns }) => ({ name, columns })),
+			checks: await this.loadChecks(params, options),
+		};
+	}
+
+	protected async loadViewDefinition(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<string | null> {
+		const rows = await this.rows(
+			`
+          SELECT VIEW_DEFINITION AS definition
+          FROM information_schema.VIEWS
+          WHERE TABLE_SCHEMA = COALESCE(?, DATABASE())
+            AND TABLE_NAME = ?
+        `,
+			[table.schema ?? null, table.name],
+			options,
+		);
+		return text(rows[0]?.definition) ?? null;
+	}
+
+	protected async loadDdl(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<string> {
+		const kind = table.type === "table" ? "Table" : "View";
+		const rows = await this.rows(
+			`SHOW CREATE ${kind.toUpperCase()} ${qualifiedName(this.dbType, table)}`,
+			[],
+			options,
+		);
+		const sql = text(rows[0]?.[`Create ${kind}`]);
+		if (!sql) {
+			throw new DatabaseError(`Table not found: ${table.name}`);
+		}
+		return formatStatements([sql]);
+	}
+
+	protected async loadRoutines(
+		options?: QueryOptions,
+	): Promise<RoutineSchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            r.ROUTINE_SCHEMA AS routine_schema,
+            r.ROUTINE_NAME AS routine_name,
+            r.ROUTINE_TYPE AS routine_type,
+            r.DTD_IDENTIFIER AS return_type,
+            r.ROUTINE_BODY AS language,
+            r.ROUTINE_DEFINITION AS definition,
+            (
+              SELECT GROUP_CONCAT(
+                CONCAT_WS(' ', p.PARAMETER_MODE, p.PARAMETER_NAME, p.DTD_IDENTIFIER)
+                ORDER BY p.ORDINAL_POSITION
+                SEPARATOR ', '
+              )
+              FROM information_schema.PARAMETERS p
+              WHERE p.SPECIFIC_SCHEMA = r.ROUTINE_SCHEMA
+                AND p.SPECIFIC_NAME = r.SPECIFIC_NAME
+                AND p.ROUTINE_TYPE = r.ROUTINE_TYPE
+                AND p.ORDINAL_POSITION > 0
+            ) AS arguments
+          FROM information_schema.ROUTINES r
+          WHERE r.ROUTINE_SCHEMA NOT IN (${SYSTEM_SCHEMAS})
+          ORDER BY r.ROUTINE_SCHEMA, r.ROUTINE_NAME
+        `,
+			[],
+			options,
+		);
+		return rows.map((row) => {
+			const isProcedure =
+				String(row.routine_type).toUpperCase() === "PROCEDURE";
+			return {
+				schema: text(row.routine_schema),
+				name: String(row.routine_name),
+				kind: isProcedure ? "procedure" : "function",
+				arguments: String(row.arguments ?? ""),
+				returnType: isProcedure ? undefined : text(row.return_type),
+				language: text(row.language),
+				definition: text(row.definition),
+			};
+		});
+	}
+
+	protected async loadTriggers(
+		options?: QueryOptions,
+	): Promise<TriggerSchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            TRIGGER_SCHEMA AS trigger_schema,
+            TRIGGER_NAME AS trigger_name,
+            EVENT_OBJECT_TABLE AS table_name,
+            EVENT_MANIPULATION AS event,
+            ACTION_TIMING AS timing,
+            ACTION_ORIENTATION AS level,
+            ACTION_STATEMENT AS definition
+          FROM information_schema.TRIGGERS
+          WHERE TRIGGER_SCHEMA NOT IN (${SYSTEM_SCHEMAS})
+          ORDER BY TRIGGER_SCHEMA, EVENT_OBJECT_TABLE, TRIGGER_NAME
+        `,
+			[],
+			options,
+		);
+		// MySQL triggers fire for one event, always per row, and cannot be
+		// disabled
+		return rows.map((row) => ({
+			schema: text(row.trigger_schema),
+			name: String(row.trigger_name),
+			table: {
+				schema: text(row.trigger_schema),
+				name: String(row.table_name),
+				type: "table",
+			},
+			timing: triggerTiming(row.timing),
+			events: [String(row.event).toUpperCase() as TriggerEvent],
+			level: "ROW",
+			enabled: true,
+			definition: text(row.definition),
+		}));
+	}
+
+	/** MySQL has AUTO_INCREMENT columns rather than sequences. */
+	protected async loadSequences(): Promise<SequenceSchema[]> {
+		return [];
+	}
+
+	/** MySQL enums are column types, so each enum column is listed. */
+	protected async loadEnums(options?: QueryOptions): Promise<EnumSchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            TABLE_SCHEMA AS table_schema,
+            TABLE_NAME AS table_name,
+            COLUMN_NAME AS column_name,
+            COLUMN_TYPE AS column_type
+          FROM information_schema.COLUMNS
+          WHERE TABLE_SCHEMA NOT IN (${SYSTEM_SCHEMAS})
+            AND DATA_TYPE = 'enum'
+          ORDER BY TABLE_SCHEMA, TABLE_NAME, ORDINAL_POSITION
+        `,
+			[],
+			options,
+		);
+		return rows.map((row) => ({
+			schema: text(row.table_schema),
+			name: `${row.table_name}.${row.column_name}`,
+			labels: enumLabels(String(row.column_type ?? "")),
+		}));
+	}
+
+	private async loadChecks(
+		params: unknown[],
+		options?: QueryOptions,
+	): Promise<TableConstraints["checks"]> {
+		try {
+			const rows = await this.rows(
+				`
+            SELECT
+              cc.CONSTRAINT_NAME AS constraint_name,
+              cc.CHECK_CLAUSE AS check_clause
+            FROM information_schema.CHECK_CONSTRAINTS cc
+            JOIN information_schema.TABLE_CONSTRAINTS tc
+              ON tc.CONSTRAINT_SCHEMA = cc.CONSTRAINT_SCHEMA
+             AND tc.CONSTRAINT_NAME = cc.CONSTRAINT_NAME
+            WHERE tc.TABLE_SCHEMA = COALESCE(?, DATABASE())
+              AND tc.TABLE_NAME = ?
+              AND tc.CONSTRAINT_TYPE = 'CHECK'
+            ORDER BY cc.CONSTRAINT_NAME
+          `,
+				params,
+				options,
+			);
+			return rows.map((row) => ({
+				name: String(row.constraint_name),
+				expression: String(row.check_clause ?? ""),
+			}));
+		} catch (error) {
+			// Servers before MySQL 8.0.16 have no CHECK_CONSTRAINTS table
+			if (
+				error instanceof DatabaseError &&
+				(error.code === "ER_UNKNOWN_TABLE" || error.code === "ER_NO_SUCH_TABLE")
+			) {
+				return [];
+			}
+			throw error;
+		}
+	}
+}
@@ -0,0 +1,560 @@
+import type { TableInfo } from "../../types/state.js";
+import { formatStatements, tableDdl } from "../ddl.js";
+import { DatabaseError } from "../errors.js";
+import type { QueryOptions } from "../types.js";
+import {
+	flag,
+	groupByName,
+	list,
+	referentialAction,
+	SchemaIntrospector,
+	tableType,
+	text,
+} from "./introspector.js";
+import type {
+	ColumnSchema,
+	EnumSchema,
+	ForeignKeySchema,
+	IndexSchema,
+	ReferencingKeySchema,
+	RoutineSchema,
+	SequenceSchema,
+	TableConstraints,
+	TableSummary,
+	TriggerEvent,
+	TriggerSchema,
+} from "./types.js";
+
+/** `pg_constraint.confupdtype` / `confdeltype` codes. */
+const ACTION_CODES: Record<string, string> = {
+	a: "NO ACTION",
+	r: "RESTRICT",
+	c: "CASCADE",
+	n: "SET NULL",
+	d: "SET DEFAULT",
+};
+
+/** `pg_proc.prokind` codes. */
+const ROUTINE_KINDS: Record<string, RoutineSchema["kind"]> = {
+	f: "function",
+	p: "procedure",
+	a: "aggregate",
+	w: "window",
+};
+
+/** Bits of `pg_trigger.tgtype`. */
+const TRIGGER_TYPE = {
+	row: 1,
+	before: 2,
+	insteadOf: 64,
+	events: [
+		[4, "INSERT"],
+		[16, "UPDATE"],
+		[8, "DELETE"],
+		[32, "TRUNCATE"],
+	] as Array<[number, TriggerEvent]>,
+};
+
+const SYSTEM_SCHEMA_FILTER = `n.nspname <> 'information_schema' AND n.nspname NOT LIKE 'pg\\_%'`;
+
+export class PostgresIntrospector extends SchemaIntrospector {
+	protected async loadSchemas(options?: QueryOptions): Promise<string[]> {
+		const rows = await this.rows(
+			`
+          SELECT n.nspname AS schema_name
+          FROM pg_namespace n
+          WHERE ${SYSTEM_SCHEMA_FILTER}
+          ORDER BY n.nspname
+        `,
+			[],
+			options,
+		);
+		return rows.map((row) => String(row.schema_name));
+	}
+
+	protected async loadTables(options?: QueryOptions): Promise<TableSummary[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            n.nspname AS table_schema,
+            c.relname AS table_name,
+            CASE c.relkind
+              WHEN 'v' THEN 'VIEW'
+              WHEN 'm' THEN 'MATERIALIZED VIEW'
+              ELSE 'BASE TABLE'
+            END AS table_type,
+            obj_description(c.oid, 'pg_class') AS table_comment
+          FROM pg_class c
+          JOIN pg_namespace n ON n.oid = c.relnamespace
+          WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+            AND NOT c.relispartition
+            AND ${SYSTEM_SCHEMA_FILTER}
+          ORDER BY n.nspname, c.relname
+        `,
+			[],
+			options,
+		);
+		return rows.map((row) => ({
+			schema: text(row.table_schema),
+			name: String(row.table_name ?? ""),
+			type: tableType(row.table_type),
+			comment: text(row.table_comment),
+		}));
+	}
+
+	protected async loadColumns(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<ColumnSchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            a.attname AS column_name,
+            format_type(a.atttypid, a.atttypmod) AS data_type,
+            NOT a.attnotnull AS is_nullable,
+            pg_get_expr(d.adbin, d.adrelid) AS column_default,
+            a.attidentity AS identity,
+            a.attnum AS ordinal_position,
+            EXISTS (
+              SELECT 1
+              FROM pg_index ix
+              WHERE ix.indrelid = c.oid
+                AND ix.indisprimary
+                AND a.attnum = ANY(ix.indkey)
+            ) AS is_primary_key,
+            col_description(c.oid, a.attnum) AS column_comment
+          FROM pg_attribute a
+          JOIN pg_class c ON c.oid = a.attrelid
+          JOIN pg_namespace n ON n.oid = c.relnamespace
+          LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+          WHERE c.relname = $1
+            AND n.nspname = $2
+            AND a.attnum > 0
+            AND NOT a.attisdropped
+          ORDER BY a.attnum
+        `,
+			[table.name, table.schema ?? "public"],
+			options,
+		);
+		return rows.map((row, index) => {
+			// 'a' for GENERATED ALWAYS, 'd' for BY DEFAULT, empty otherwise
+			const identity = text(row.identity);
+			return {
+				name: String(row.column_name),
+				dataType: String(row.data_type ?? ""),
+				nullable: flag(row.is_nullable),
+				defaultValue: text(row.column_default) ?? null,
+				isPrimaryKey: flag(row.is_primary_key),
+				// serial columns are plain columns defaulting to nextval()
+				autoIncrement:
+					identity !== undefined ||
+					/^nextval\(/i.test(text(row.column_default) ?? ""),
+				...(identity && {
+					identity: identity === "a" ? "always" : "by-default",
+				}),
+				ordinal: Number(row.ordinal_position ?? index + 1),
+				comment: text(row.column_comment),
+			};
+		});
+	}
+
+	protected async loadForeignKeys(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<ForeignKeySchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            con.conname AS constraint_name,
+            att.attname AS column_name,
+            fn.nspname AS referenced_schema,
+            ft.relname AS referenced_table,
+            fatt.attname AS referenced_column,
+            con.confupdtype AS update_rule,
+            con.confdeltype AS delete_rule
+          FROM pg_constraint con
+          JOIN pg_class t ON t.oid = con.conrelid
+          JOIN pg_namespace n ON n.oid = t.relnamespace
+          JOIN pg_class ft ON ft.oid = con.confrelid
+          JOIN pg_namespace fn ON fn.oid = ft.relnamespace
+          CROSS JOIN LATERAL unnest(con.conkey, con.confkey)
+            WITH ORDINALITY AS k(attnum, fattnum, ord)
+          JOIN pg_attribute att
+            ON att.attrelid = con.conrelid AND att.attnum = k.attnum
+          JOIN pg_attribute fatt
+            ON fatt.attrelid = con.confrelid AND fatt.attnum = k.fattnum
+          WHERE con.contype = 'f'
+            AND t.relname = $1
+            AND n.nspname = $2
+          ORDER BY con.conname, k.ord
+        `,
+			[table.name, table.schema ?? "public"],
+			options,
+		);
+		return groupByName<ForeignKeySchema>(
+			rows,
+			(row) => String(row.constraint_name),
+			(row) => ({
+				name: String(row.constraint_name),
+				columns: [],
+				referencedSchema: text(row.referenced_schema),
+				referencedTable: String(row.referenced_table ?? ""),
+				referencedColumns: [],
+				onUpdate: referentialAction(ACTION_CODES[String(row.update_rule)]),
+				onDelete: referentialAction(ACTION_CODES[String(row.delete_rule)]),
+			}),
+			(foreignKey, row) => {
+				foreignKey.columns.push(String(row.column_name));
+				foreignKey.referencedColumns.push(String(row.referenced_column));
+			},
+		);
+	}
+
+	protected async loadReferencingKeys(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<ReferencingKeySchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            con.conname AS constraint_name,
+            n.nspname AS table_schema,
+            t.relname AS table_name,
+            att.attname AS column_name,
+            fatt.attname AS referenced_column,
+            con.confupdtype AS update_rule,
+            con.confdeltype AS delete_rule
+          FROM pg_constraint con
+          JOIN pg_class t ON t.oid = con.conrelid
+          JOIN pg_namespace n ON n.oid = t.relnamespace
+          JOIN pg_class ft ON ft.oid = con.confrelid
+          JOIN pg_namespace fn ON fn.oid = ft.relnamespace
+          CROSS JOIN LATERAL unnest(con.conkey, con.confkey)
+            WITH ORDINALITY AS k(attnum, fattnum, ord)
+          JOIN pg_attribute att
+            ON att.attrelid = con.conrelid AND att.attnum = k.attnum
+          JOIN pg_attribute fatt
+            ON fatt.attrelid = con.confrelid AND fatt.attnum = k.fattnum
+          WHERE con.contype = 'f'
+            AND ft.relname = $1
+            AND fn.nspname = $2
+          ORDER BY n.nspname, t.relname, con.conname, k.ord
+        `,
+			[table.name, table.schema ?? "public"],
+			options,
+		);
+		return groupByName<ReferencingKeySchema>(
+			rows,
+			(row) => `${row.table_schema}.${row.table_name}.${row.constraint_name}`,
+			(row) => ({
+				name: String(row.constraint_name),
+				table: {
+					schema: text(row.table_schema),
+					name: String(row.table_name),
+					type: "table",
+				},
+				columns: [],
+				referencedSchema: table.schema ?? "public",
+				referencedTable: table.name,
+				referencedColumns: [],
+				onUpdate: referentialAction(ACTION_CODES[String(row.update_rule)]),
+				onDelete: referentialAction(ACTION_CODES[String(row.delete_rule)]),
+			}),
+			(foreignKey, row) => {
+				foreignKey.columns.push(String(row.column_name));
+				foreignKey.referencedColumns.push(String(row.referenced_column));
+			},
+		);
+	}
+
+	protected async loadIndexes(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<IndexSchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            i.relname AS index_name,
+            ix.indisunique AS is_unique,
+            ix.indisprimary AS is_primary,
+            am.amname AS index_type,
+            ARRAY(
+              SELECT pg_get_indexdef(ix.indexrelid, k, true)
+              FROM generate_series(1, ix.indnkeyatts) AS k
+              ORDER BY k
+            )::text[] AS columns
+          FROM pg_index ix
+          JOIN pg_class t ON t.oid = ix.indrelid
+          JOIN pg_class i ON i.oid = ix.indexrelid
+          JOIN pg_am am ON am.oid = i.relam
+          JOIN pg_namespace n ON n.oid = t.relnamespace
+          WHERE t.relname = $1
+            AND n.nspname = $2
+          ORDER BY i.relname
+        `,
+			[table.name, table.schema ?? "public"],
+			options,
+		);
+		return rows.map((row) => ({
+			name: String(row.index_name),
+			columns: list(row.columns),
+			unique: flag(row.is_unique),
+			primary: flag(row.is_primary),
+			type: text(row.index_type),
+		}));
+	}
+
+	protected async loadConstraints(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<TableConstraints> {
+		const rows = await this.rows(
+			`
+          SELECT
+            con.conname AS constraint_name,
+            con.contype AS constraint_type,
+            pg_get_constraintdef(con.oid, true) AS definition,
+            ARRAY(
+              SELECT att.attname
+              FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+              JOIN pg_attribute att
+                ON att.attrelid = con.conrelid AND att.attnum = k.attnum
+              ORDER BY k.ord
+            )::text[] AS columns
+          FROM pg_constraint con
+          JOIN pg_class t ON t.oid = con.conrelid
+          JOIN pg_namespace n ON n.oid = t.relnamespace
+          WHERE con.contype IN ('p', 'u', 'c')
+            AND t.relname = $1
+            AND n.nspname = $2
+          ORDER BY con.conname
+        `,
+			[table.name, table.schema ?? "public"],
+			options,
+		);
+
+		const constraints: TableConstraints = {
+			primaryKey: null,
+			unique: [],
+			checks: [],
+		};
+		for (const row of rows) {
+			const name = String(row.constraint_name);
+			switch (row.constraint_type) {
+				case "p":
+					constraints.primaryKey = { name, columns: list(row.columns) };
+					break;
+				case "u":
+					constraints.unique.push({ name, columns: list(row.columns) });
+					break;
+				case "c":
+					constraints.checks.push({
+						name,
+						expression: checkExpression(String(row.definition ?? "")),
+					});
+					break;
+			}
+		}
+		return constraints;
+	}
+
+	/**
+	 * Postgres has no SHOW CREATE TABLE, so put the definition back
+	 * together from what the catalogs report about the table.
+	 */
+	protected async loadDdl(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<string> {
+		const schema = await this.getTable(table, options);
+		if (schema.columns.length === 0 && !schema.viewDefinition) {
+			throw new DatabaseError(`Table not found: ${table.name}`);
+		}
+		return formatStatements(tableDdl(this.dbType, schema));
+	}
+
+	protected async loadRoutines(
+		options?: QueryOptions,
+	): Promise<RoutineSchema[]> {
+		// pg_get_functiondef rejects aggregates, and routines that belong to
+		// an extension are the extension's business
+		const rows = await this.rows(
+			`
+          SELECT
+            n.nspname AS routine_schema,
+            p.proname AS routine_name,
+            p.prokind AS routine_kind,
+            pg_get_function_arguments(p.oid) AS arguments,
+            pg_get_function_result(p.oid) AS return_type,
+            l.lanname AS language,
+            CASE WHEN p.prokind IN ('f', 'p')
+              THEN pg_get_functiondef(p.oid)
+            END AS definition
+          FROM pg_proc p
+          JOIN pg_namespace n ON n.oid = p.pronamespace
+          JOIN pg_language l ON l.oid = p.prolang
+          WHERE ${SYSTEM_SCHEMA_FILTER}
+            AND NOT EXISTS (
+              SELECT 1
+              FROM pg_depend d
+              WHERE d.classid = 'pg_proc'::regclass
+                AND d.objid = p.oid
+                AND d.deptype = 'e'
+            )
+          ORDER BY n.nspname, p.proname, pg_get_function_arguments(p.oid)
+        `,
+			[],
+			options,
+		);
+		return rows.map((row) => ({
+			schema: text(row.routine_schema),
+			name: String(row.routine_name),
+			kind: ROUTINE_KINDS[String(row.routine_kind)] ?? "function",
+			arguments: String(row.arguments ?? ""),
+			returnType: text(row.return_type),
+			language: text(row.language),
+			definition: text(row.definition)?.trim(),
+		}));
+	}
+
+	protected async loadTriggers(
+		options?: QueryOptions,
+	): Promise<TriggerSchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            n.nspname AS trigger_schema,
+            t.tgname AS trigger_name,
+            c.relname AS table_name,
+            c.relkind AS table_kind,
+            t.tgtype AS trigger_type,
+            t.tgenabled AS enabled,
+            pg_get_triggerdef(t.oid, true) AS definition
+          FROM pg_trigger t
+          JOIN pg_class c ON c.oid = t.tgrelid
+          JOIN pg_namespace n ON n.oid = c.relnamespace
+          WHERE NOT t.tgisinternal
+            AND ${SYSTEM_SCHEMA_FILTER}
+          ORDER BY n.nspname, c.relname, t.tgname
+        `,
+			[],
+			options,
+		);
+		return rows.map((row) => {
+			const type = Number(row.trigger_type ?? 0);
+			return {
+				schema: text(row.trigger_schema),
+				name: String(row.trigger_name),
+				table: {
+					schema: text(row.trigger_schema),
+					name: String(row.table_name),
+					type: row.table_kind === "v" ? "view" : "table",
+				},
+				timing:
+					type & TRIGGER_TYPE.insteadOf
+						? "INSTEAD OF"
+						: type & TRIGGER_TYPE.before
+							? "BEFORE"
+							: "AFTER",
+				events: TRIGGER_TYPE.events
+					.filter(([bit]) => type & bit)
+					.map(([, event]) => event),
+				level: type & TRIGGER_TYPE.row ? "ROW" : "STATEMENT",
+				// tgenabled is 'D' for disabled, otherwise the replication role
+				enabled: row.enabled !== "D",
+				definition: text(row.definition),
+			};
+		});
+	}
+
+	protected async loadSequences(
+		options?: QueryOptions,
+	): Promise<SequenceSchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            s.schemaname AS sequence_schema,
+            s.sequencename AS sequence_name,
+            s.data_type::text AS data_type,
+            s.start_value,
+            s.increment_by,
+            s.min_value,
+            s.max_value,
+            s.cycle,
+            s.last_value
+          FROM pg_sequences s
+          WHERE s.schemaname <> 'information_schema'
+            AND s.schemaname NOT LIKE 'pg\\_%'
+          ORDER BY s.schemaname, s.sequencename
+        `,
+			[],
+			options,
+		);
+		return rows.map((row) => ({
+			schema: text(row.sequence_schema),
+			name: String(row.sequence_name),
+			dataType: text(row.data_type),
+			start: text(row.start_value),
+			increment: text(row.increment_by),
+			min: text(row.min_value),
+			max: text(row.max_value),
+			cycle: flag(row.cycle),
+			lastValue: text(row.last_value),
+		}));
+	}
+
+	protected async loadEnums(options?: QueryOptions): Promise<EnumSchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            n.nspname AS enum_schema,
+            t.typname AS enum_name,
+            ARRAY(
+              SELECT e.enumlabel
+              FROM pg_enum e
+              WHERE e.enumtypid = t.oid
+              ORDER BY e.enumsortorder
+            )::text[] AS labels
+          FROM pg_type t
+          JOIN pg_namespace n ON n.oid = t.typnamespace
+          WHERE t.typtype = 'e'
+            AND ${SYSTEM_SCHEMA_FILTER}
+          ORDER BY n.nspname, t.typname
+        `,
+			[],
+			options,
+		);
+		return rows.map((row) => ({
+			schema: text(row.enum_schema),
+			name: String(row.enum_name),
+			labels: list(row.labels),
+		}));
+	}
+
+	protected async loadViewDefinition(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<string | null> {
+		const rows = await this.rows(
+			`
+          SELECT pg_get_viewdef(c.oid, true) AS definition
+          FROM pg_class c
+          JOIN pg_namespace n ON n.oid = c.relnamespace
+          WHERE c.relname = $1
+            AND n.nspname = $2
+            AND c.relkind IN ('v', 'm')
+        `,
+			[table.name, table.schema ?? "public"],
+			options,
+		);
+		return text(rows[0]?.definition)?.trim() ?? null;
+	}
+}
+
+/** `CHECK ((price > 0)) NOT VALID` → `(price > 0)` */
+function checkExpression(definition: string): string {
+	const match = /^CHECK\s*\(([\s\S]*)\)(?:\s+NOT VALID)?$/i.exec(
+		definition.trim(),
+	);
+	return match ? match[1].trim() : definition;
+}
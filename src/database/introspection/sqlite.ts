@@ -0,0 +1,443 @@
+import { DBType, type TableInfo } from "../../types/state.js";
+import {
+	IDENTIFIER_PART,
+	IDENTIFIER_START,
+	skipIgnored,
+} from "../sql-lexer.js";
+import { formatStatements } from "../ddl.js";
+import { DatabaseError } from "../errors.js";
+import type { QueryOptions } from "../types.js";
+import {
+	flag,
+	groupByName,
+	referentialAction,
+	SchemaIntrospector,
+	tableType,
+	text,
+	triggerTiming,
+} from "./introspector.js";
+import type {
+	CheckConstraintSchema,
+	ColumnSchema,
+	EnumSchema,
+	ForeignKeySchema,
+	IndexSchema,
+	ReferencingKeySchema,
+	RoutineSchema,
+	SequenceSchema,
+	TableConstraints,
+	TableSummary,
+	TriggerEvent,
+	TriggerSchema,
+} from "./types.js";
+
+/** `[BEFORE|AFTER|INSTEAD OF] DELETE|INSERT|UPDATE [OF columns] ON` */
+const TRIGGER_HEADER =
+	/\b(BEFORE|AFTER|INSTEAD\s+OF)?\s*\b(DELETE|INSERT|UPDATE)\b(?:\s+OF\s[\s\S]*?)?\s+ON\s/i;
+
+export class SQLiteIntrospector extends SchemaIntrospector {
+	protected async loadSchemas(options?: QueryOptions): Promise<string[]> {
+		const rows = await this.rows(
+			"SELECT name FROM pragma_database_list ORDER BY seq",
+			[],
+			options,
+		);
+		return rows.map((row) => String(row.name));
+	}
+
+	protected async loadTables(options?: QueryOptions): Promise<TableSummary[]> {
+		const rows = await this.rows(
+			`
+          SELECT
+            NULL AS table_schema,
+            name AS table_name,
+            type AS table_type
+          FROM sqlite_master
+          WHERE type IN ('table', 'view')
+            AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\'
+          ORDER BY name
+        `,
+			[],
+			options,
+		);
+		return rows.map((row) => ({
+			schema: text(row.table_schema),
+			name: String(row.table_name ?? ""),
+			type: tableType(row.table_type),
+		}));
+	}
+
+	protected async loadColumns(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<ColumnSchema[]> {
+		const rows = await this.rows(
+			"SELECT * FROM pragma_table_info(?)",
+			[table.name],
+			options,
+		);
+		const keyColumns = rows.filter((row) => Number(row.pk ?? 0) > 0).length;
+		return rows.map((row, index) => ({
+			name: String(row.name),
+			dataType: String(row.type || "text"),
+			nullable: !flag(row.notnull),
+			defaultValue: text(row.dflt_value) ?? null,
+			// `pk` is the column's position in the key, 0 when not part of it
+			isPrimaryKey: Number(row.pk ?? 0) > 0,
+			// A lone INTEGER PRIMARY KEY is the rowid, numbered by SQLite
+			autoIncrement:
+				keyColumns === 1 &&
+				Number(row.pk ?? 0) > 0 &&
+				String(row.type ?? "").toUpperCase() === "INTEGER",
+			ordinal: Number(row.cid ?? index) + 1,
+		}));
+	}
+
+	protected async loadForeignKeys(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<ForeignKeySchema[]> {
+		const rows = await this.rows(
+			"SELECT * FROM pragma_foreign_key_list(?) ORDER BY id, seq",
+			[table.name],
+			options,
+		);
+		// SQLite does not name foreign keys; number them like the pragma does
+		return groupByName<ForeignKeySchema>(
+			rows,
+			(row) => `fk_${table.name}_${row.id}`,
+			(row) => ({
+				name: `fk_${table.name}_${row.id}`,
+				columns: [],
+				referencedTable: String(row.table ?? ""),
+				referencedColumns: [],
+				onUpdate: referentialAction(row.on_update),
+				onDelete: referentialAction(row.on_delete),
+			}),
+			(foreignKey, row) => {
+				foreignKey.columns.push(String(row.from));
+				// `to` is NULL when the key references the parent's primary key
+				if (row.to !== null && row.to !== undefined) {
+					foreignKey.referencedColumns.push(String(row.to));
+				}
+			},
+		);
+	}
+
+	protected async loadReferencingKeys(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<ReferencingKeySchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT m.name AS table_name, f.*
+          FROM sqlite_master m
+          JOIN pragma_foreign_key_list(m.name) f
+          WHERE m.type = 'table'
+            AND f."table" = ? COLLATE NOCASE
+          ORDER BY m.name, f.id, f.seq
+        `,
+			[table.name],
+			options,
+		);
+		return groupByName<ReferencingKeySchema>(
+			rows,
+			(row) => `fk_${row.table_name}_${row.id}`,
+			(row) => ({
+				name: `fk_${row.table_name}_${row.id}`,
+				table: { name: String(row.table_name), type: "table" },
+				columns: [],
+				referencedTable: table.name,
+				referencedColumns: [],
+				onUpdate: referentialAction(row.on_update),
+				onDelete: referentialAction(row.on_delete),
+			}),
+			(foreignKey, row) => {
+				foreignKey.columns.push(String(row.from));
+				if (row.to !== null && row.to !== undefined) {
+					foreignKey.referencedColumns.push(String(row.to));
+				}
+			},
+		);
+	}
+
+	protected async loadIndexes(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<IndexSchema[]> {
+		const indexRows = await this.rows(
+			"SELECT * FROM pragma_index_list(?) ORDER BY name",
+			[table.name],
+			options,
+		);
+		const indexes: IndexSchema[] = [];
+		for (const row of indexRows) {
+			const name = String(row.name);
+			indexes.push({
+				name,
+				columns: await this.indexColumns(name, options),
+				unique: flag(row.unique),
+				primary: row.origin === "pk",
+			});
+		}
+		return indexes;
+	}
+
+	protected async loadConstraints(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<TableConstraints> {
+		const keyRows = await this.rows(
+			"SELECT name FROM pragma_table_info(?) WHERE pk > 0 ORDER BY pk",
+			[table.name],
+			options,
+		);
+		const uniqueRows = await this.rows(
+			"SELECT name FROM pragma_index_list(?) WHERE origin = 'u' ORDER BY name",
+			[table.name],
+			options,
+		);
+		const unique: TableConstraints["unique"] = [];
+		for (const row of uniqueRows) {
+			const name = String(row.name);
+			unique.push({ name, columns: await this.indexColumns(name, options) });
+		}
+		const definition = await this.rows(
+			"SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?",
+			[table.name],
+			options,
+		);
+
+		return {
+			primaryKey:
+				keyRows.length > 0
+					? { columns: keyRows.map((row) => String(row.name)) }
+					: null,
+			unique,
+			checks: parseCheckConstraints(String(definition[0]?.sql ?? "")),
+		};
+	}
+
+	protected async loadViewDefinition(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<string | null> {
+		const rows = await this.rows(
+			"SELECT sql FROM sqlite_master WHERE type = 'view' AND name = ?",
+			[table.name],
+			options,
+		);
+		const sql = text(rows[0]?.sql);
+		if (!sql) {
+			return null;
+		}
+		const body = /^\s*CREATE\s[\s\S]*?\bVIEW\b[\s\S]*?\bAS\s+([\s\S]*)$/i.exec(
+			sql,
+		);
+		return (body ? body[1] : sql).trim();
+	}
+
+	protected async loadDdl(
+		table: TableInfo,
+		options?: QueryOptions,
+	): Promise<string> {
+		// SQLite keeps the original CREATE text of the table, its indexes and
+		// triggers; automatic indexes have none
+		const rows = await this.rows(
+			`
+          SELECT sql
+          FROM sqlite_master
+          WHERE tbl_name = ?
+            AND sql IS NOT NULL
+          ORDER BY
+            CASE type WHEN 'index' THEN 1 WHEN 'trigger' THEN 2 ELSE 0 END,
+            name
+        `,
+			[table.name],
+			options,
+		);
+		if (rows.length === 0) {
+			throw new DatabaseError(`Table not found: ${table.name}`);
+		}
+		return formatStatements(rows.map((row) => String(row.sql)));
+	}
+
+	/** SQLite has no stored functions or procedures. */
+	protected async loadRoutines(): Promise<RoutineSchema[]> {
+		return [];
+	}
+
+	protected async loadTriggers(
+		options?: QueryOptions,
+	): Promise<TriggerSchema[]> {
+		const rows = await this.rows(
+			`
+          SELECT t.name, t.tbl_name, t.sql, m.type AS table_type
+          FROM sqlite_master t
+          LEFT JOIN sqlite_master m
+            ON m.name = t.tbl_name AND m.type IN ('table', 'view')
+          WHERE t.type = 'trigger'
+          ORDER BY t.tbl_name, t.name
+        `,
+			[],
+			options,
+		);
+		return rows.map((row) => {
+			const sql = String(row.sql ?? "");
+			const header = TRIGGER_HEADER.exec(sql);
+			return {
+				name: String(row.name),
+				table: {
+					name: String(row.tbl_name),
+					type: tableType(row.table_type),
+				},
+				// Without a timing keyword a trigger fires BEFORE the change
+				timing: header?.[1]
+					? triggerTiming(header[1].replace(/\s+/, " "))
+					: "BEFORE",
+				events: header ? [header[2].toUpperCase() as TriggerEvent] : [],
+				// FOR EACH ROW is the only kind SQLite has
+				level: "ROW",
+				enabled: true,
+				definition: sql,
+			};
+		});
+	}
+
+	/**
+	 * The counters behind AUTOINCREMENT columns. The table holding them
+	 * only exists once a table with AUTOINCREMENT has been created.
+	 */
+	protected async loadSequences(
+		options?: QueryOptions,
+	): Promise<SequenceSchema[]> {
+		const exists = await this.rows(
+			"SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'sqlite_sequence'",
+			[],
+			options,
+		);
+		if (exists.length === 0) {
+			return [];
+		}
+		const rows = await this.rows(
+			"SELECT name, seq FROM sqlite_sequence ORDER BY name",
+			[],
+			options,
+		);
+		return rows.map((row) => ({
+			name: String(row.name),
+			dataType: "integer",
+			start: "1",
+			increment: "1",
+			cycle: false,
+			lastValue: text(row.seq),
+		}));
+	}
+
+	/** SQLite has no enum types. */
+	protected async loadEnums(): Promise<EnumSchema[]> {
+		return [];
+	}
+
+	private async indexColumns(
+		index: string,
+		options?: QueryOptions,
+	): Promise<string[]> {
+		const rows = await this.rows(
+			"SELECT name FROM pragma_index_info(?) ORDER BY seqno",
+			[index],
+			options,
+		);
+		// Expression key parts report no column name
+		return rows.map((row) => text(row.name) ?? "(expression)");
+	}
+}
+
+/**
+ * SQLite keeps CHECK constraints only in the stored CREATE TABLE text, so
+ * pull them out of it, along with any `CONSTRAINT name` in front of them.
+ */
+export function parseCheckConstraints(
+	createSql: string,
+): CheckConstraintSchema[] {
+	const checks: CheckConstraintSchema[] = [];
+	const words: string[] = [];
+	let index = 0;
+
+	while (index < createSql.length) {
+		const ignored = skipIgnored(createSql, index, DBType.SQLite);
+		if (ignored) {
+			if (!ignored.comment) {
+				words.push(unquote(createSql.slice(index, ignored.end)));
+			}
+			index = ignored.end;
+			continue;
+		}
+
+		const char = createSql[index];
+		if (IDENTIFIER_START.test(char)) {
+			let end = index + 1;
+			while (end < createSql.length && IDENTIFIER_PART.test(createSql[end])) {
+				end += 1;
+			}
+			const word = createSql.slice(index, end);
+			index = end;
+
+			const open = /^\s*\(/.exec(createSql.slice(index));
+			if (word.toLowerCase() === "check" && open) {
+				const start = index + open[0].length;
+				const close = matchingParen(createSql, start);
+				const named =
+					words.length >= 2 &&
+					words[words.length - 2].toLowerCase() === "constraint";
+				checks.push({
+					name: named ? words[words.length - 1] : undefined,
+					expression: createSql.slice(start, close).trim(),
+				});
+				index = close + 1;
+				words.length = 0;
+				continue;
+			}
+			words.push(word);
+			continue;
+		}
+
+		if (char === "," || char === "(" || char === ")") {
+			words.length = 0;
+		}
+		index += 1;
+	}
+
+	return checks;
+}
+
+/** Index of the `)` closing the group whose body starts at `start`. */
+function matchingParen(sql: string, start: number): number {
+	let depth = 1;
+	let index = start;
+	while (index < sql.length) {
+		const ignored = skipIgnored(sql, index, DBType.SQLite);
+		if (ignored) {
+			index = ignored.end;
+			continue;
+		}
+		if (sql[index] === "(") {
+			depth += 1;
+		} else if (sql[index] === ")") {
+			depth -= 1;
+			if (depth === 0) {
+				return index;
+			}
+		}
+		index += 1;
+	}
+	return sql.length;
+}
+
+function unquote(identifier: string): string {
+	const quote = identifier[0];
+	if (quote === "[") {
+		return identifier.slice(1, -1);
+	}
+	return identifier.slice(1, -1).replaceAll(quote + quote, quote);
+}
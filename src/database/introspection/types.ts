@@ -0,0 +1,158 @@
+import type { DBType, TableInfo } from "../../types/state.js";
+
+export type ReferentialAction =
+	| "NO ACTION"
+	| "RESTRICT"
+	| "CASCADE"
+	| "SET NULL"
+	| "SET DEFAULT";
+
+export interface TableSummary extends TableInfo {
+	comment?: string;
+}
+
+export interface ColumnSchema {
+	name: string;
+	/** Declared type as the database reports it. */
+	dataType: string;
+	nullable: boolean;
+	defaultValue: string | null;
+	isPrimaryKey: boolean;
+	/** Identity, serial or AUTO_INCREMENT: the database numbers new rows. */
+	autoIncrement?: boolean;
+	/** How a Postgres identity column accepts explicit values. */
+	identity?: "always" | "by-default";
+	/** One-based position in the table definition. */
+	ordinal: number;
+	comment?: string;
+}
+
+export interface PrimaryKeySchema {
+	/** Constraint name; SQLite primary keys are unnamed. */
+	name?: string;
+	columns: string[];
+}
+
+export interface ForeignKeySchema {
+	name: string;
+	columns: string[];
+	referencedSchema?: string;
+	referencedTable: string;
+	/** Referenced columns, in the same order as `columns`. */
+	referencedColumns: string[];
+	onUpdate: ReferentialAction;
+	onDelete: ReferentialAction;
+}
+
+/** A foreign key in another table that points at the inspected one. */
+export interface ReferencingKeySchema extends ForeignKeySchema {
+	/** The table holding the key. */
+	table: TableInfo;
+}
+
+export interface IndexSchema {
+	name: string;
+	/** Key columns in index order; expression keys appear as their SQL. */
+	columns: string[];
+	unique: boolean;
+	primary: boolean;
+	/** Access method, e.g. "btree" or "HASH", where the database reports it. */
+	type?: string;
+}
+
+export interface UniqueConstraintSchema {
+	name: string;
+	columns: string[];
+}
+
+export interface CheckConstraintSchema {
+	name?: string;
+	/** The boolean expression, without the surrounding `CHECK (...)`. */
+	expression: string;
+}
+
+export interface TableConstraints {
+	primaryKey: PrimaryKeySchema | null;
+	unique: UniqueConstraintSchema[];
+	checks: CheckConstraintSchema[];
+}
+
+export interface TableSchema extends TableSummary {
+	columns: ColumnSchema[];
+	primaryKey: PrimaryKeySchema | null;
+	foreignKeys: ForeignKeySchema[];
+	indexes: IndexSchema[];
+	uniqueConstraints: UniqueConstraintSchema[];
+	checkConstraints: CheckConstraintSchema[];
+	/** The defining query of a view or materialized view. */
+	viewDefinition?: string;
+}
+
+export interface DatabaseSchema {
+	dbType: DBType;
+	schemas: string[];
+	tables: TableSchema[];
+	/** Missing from snapshots saved before triggers were recorded. */
+	triggers?: TriggerSchema[];
+}
+
+/** Schema objects that are not tables, browsable per kind. */
+export type DatabaseObjectKind =
+	| "routines"
+	| "triggers"
+	| "sequences"
+	| "enums";
+
+export interface RoutineSchema {
+	schema?: string;
+	name: string;
+	kind: "function" | "procedure" | "aggregate" | "window";
+	/** The argument list as it appears in the signature, e.g. `a integer, b text`. */
+	arguments: string;
+	/** Undefined for procedures. */
+	returnType?: string;
+	language?: string;
+	/** Source of the routine; the database keeps none for some kinds. */
+	definition?: string;
+}
+
+export type TriggerEvent = "INSERT" | "UPDATE" | "DELETE" | "TRUNCATE";
+
+export interface TriggerSchema {
+	schema?: string;
+	name: string;
+	/** The table or view the trigger fires on. */
+	table: TableInfo;
+	timing: "BEFORE" | "AFTER" | "INSTEAD OF";
+	events: TriggerEvent[];
+	level: "ROW" | "STATEMENT";
+	enabled: boolean;
+	definition?: string;
+}
+
+export interface SequenceSchema {
+	schema?: string;
+	name: string;
+	dataType?: string;
+	start?: string;
+	increment?: string;
+	min?: string;
+	max?: string;
+	cycle: boolean;
+	/** Last value handed out, or undefined before the first one. */
+	lastValue?: string;
+}
+
+export interface EnumSchema {
+	schema?: string;
+	/** The type name; MySQL enums belong to a column, named `table.column`. */
+	name: string;
+	labels: string[];
+}
+
+export interface DatabaseObjectsByKind {
+	routines: RoutineSchema;
+	triggers: TriggerSchema;
+	sequences: SequenceSchema;
+	enums: EnumSchema;
+}
@@ -0,0 +1,143 @@
+import {
+	type DataRow,
+	DBType,
+	type EditJournalEntry,
+	type RowFilter,
+	type TableInfo,
+} from "../types/state.js";
+import { formatStatements, qualifiedName, quoteIdentifier } from "./ddl.js";
+
+/** A value written out as a literal of the dialect. */
+export function sqlLiteral(dbType: DBType, value: unknown): string {
+	if (value === null || value === undefined) {
+		return "NULL";
+	}
+	if (typeof value === "bigint") {
+		return value.toString();
+	}
+	if (typeof value === "number" && Number.isFinite(value)) {
+		return String(value);
+	}
+	if (typeof value === "boolean") {
+		if (dbType === DBType.SQLite) {
+			return value ? "1" : "0";
+		}
+		return value ? "TRUE" : "FALSE";
+	}
+
+	const text =
+		value instanceof Date
+			? value.toISOString()
+			: typeof value === "object"
+				? JSON.stringify(value)
+				: String(value);
+	// MySQL also reads backslashes as escapes inside string literals
+	const escaped = (
+		dbType === DBType.MySQL ? text.replace(/\\/g, "\\\\") : text
+	).replace(/'/g, "''");
+	return `'${escaped}'`;
+}
+
+/** `UPDATE` setting one column of the row with the key, values inlined. */
+export function literalUpdateStatement(
+	dbType: DBType,
+	table: TableInfo,
+	key: RowFilter,
+	column: string,
+	value: unknown,
+): string {
+	return `UPDATE ${qualifiedName(dbType, table)} SET ${quoteIdentifier(
+		dbType,
+		column,
+	)} = ${sqlLiteral(dbType, value)} WHERE ${keyPredicates(dbType, key)}`;
+}
+
+/** `INSERT` of a whole row, values inlined. */
+export function literalInsertStatement(
+	dbType: DBType,
+	table: TableInfo,
+	row: DataRow,
+): string {
+	const names = Object.keys(row);
+	return `INSERT INTO ${qualifiedName(dbType, table)} (${names
+		.map((name) => quoteIdentifier(dbType, name))
+		.join(", ")}) VALUES (${names
+		.map((name) => sqlLiteral(dbType, row[name]))
+		.join(", ")})`;
+}
+
+/** `DELETE` of the row with the key, values inlined. */
+export function literalDeleteStatement(
+	dbType: DBType,
+	table: TableInfo,
+	key: RowFilter,
+): string {
+	return `DELETE FROM ${qualifiedName(dbType, table)} WHERE ${keyPredicates(
+		dbType,
+		key,
+	)}`;
+}
+
+function keyPredicates(dbType: DBType, key: RowFilter): string {
+	return Object.entries(key)
+		.map(
+			([name, keyValue]) =>
+				`${quoteIdentifier(dbType, name)} = ${sqlLiteral(dbType, keyValue)}`,
+		)
+		.join(" AND ");
+}
+
+/**
+ * The journal as a script replaying its edits oldest first, each preceded
+ * by a comment with when it was made, the value it replaced and whether it
+ * was undone. Inserted rows replay as INSERTs of every column, deleted
+ * ones as DELETEs by key.
+ */
+export function journalScript(
+	dbType: DBType,
+	entries: EditJournalEntry[],
+	heading: string,
+): string {
+	// The journal keeps the newest first
+	const ordered = [...entries].reverse();
+	const byId = new Map(entries.map((entry) => [entry.id, entry]));
+
+	const statements = ordered.map((entry) => {
+		const notes: string[] = [];
+		if (entry.kind !== "insert" && entry.kind !== "delete") {
+			notes.push(`was ${sqlLiteral(dbType, entry.oldValue)}`);
+		}
+		if (entry.undoes) {
+			const undone = byId.get(entry.undoes);
+			notes.push(undone ? `undoes the edit of ${undone.changedAt}` : "undo");
+		}
+		if (entry.undoneAt) {
+			notes.push(`undone ${entry.undoneAt}`);
+		}
+
+		if (entry.kind === "insert" || entry.kind === "delete") {
+			const what = entry.kind === "insert" ? "inserted row" : "deleted row";
+			const comment = `-- ${entry.changedAt} ${what}${
+				notes.length > 0 ? `: ${notes.join("; ")}` : ""
+			}`;
+			return `${comment}\n${
+				entry.kind === "insert"
+					? literalInsertStatement(dbType, entry.table, entry.row)
+					: literalDeleteStatement(dbType, entry.table, entry.key)
+			}`;
+		}
+
+		const comment = `-- ${entry.changedAt} ${entry.column}: ${notes.join("; ")}`;
+		return `${comment}\n${literalUpdateStatement(
+			dbType,
+			entry.table,
+			entry.key,
+			entry.column,
+			entry.newValue,
+		)}`;
+	});
+
+	return `-- ${heading}\n-- ${ordered.length} ${
+		ordered.length === 1 ? "edit" : "edits"
+	}, oldest first\n\n${formatStatements(statements)}`;
+}
@@ -0,0 +1,217 @@
+import { createDatabaseConnection } from "./connection.js";
+import type { DatabaseConfig, DatabaseConnection } from "./types.js";
+
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 5 * 60_000;
+
+type ConnectionFactory = (config: DatabaseConfig) => DatabaseConnection;
+
+export interface ConnectionManagerOptions {
+	/** How long an unused session stays open before it is closed. */
+	idleTimeoutMillis?: number;
+	/** Factory used to build new session connections. */
+	createConnection?: ConnectionFactory;
+}
+
+interface SessionEntry {
+	key: string;
+	connection: DatabaseConnection;
+	ready: Promise<void> | null;
+	leases: number;
+	idleTimeoutMillis: number;
+	idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Configurations that differ only in TLS or pool settings need separate
+ * sessions, so both are folded into the key with their members sorted.
+ */
+export function sessionKey(config: DatabaseConfig): string {
+	return [
+		config.type,
+		config.connectionString,
+		stableJson(config.tls),
+		stableJson(config.pool),
+	].join("|");
+}
+
+function stableJson(value: unknown): string {
+	if (value === undefined) {
+		return "";
+	}
+	const json = JSON.stringify(value, (_key, member: unknown) => {
+		if (!member || typeof member !== "object" || Array.isArray(member)) {
+			return member;
+		}
+		const sorted: Record<string, unknown> = {};
+		for (const name of Object.keys(member).sort()) {
+			const entry = (member as Record<string, unknown>)[name];
+			if (entry !== undefined) {
+				sorted[name] = entry;
+			}
+		}
+		return sorted;
+	});
+	return json === "{}" ? "" : json;
+}
+
+/**
+ * Keeps one long-lived connection per database configuration so that
+ * effects and views can share a pool instead of rebuilding it per call.
+ * Sessions connect lazily on first use and close after sitting idle.
+ */
+export class ConnectionManager {
+	private readonly sessions = new Map<string, SessionEntry>();
+	private readonly idleTimeoutMillis: number;
+	private readonly connectionFactory?: ConnectionFactory;
+
+	constructor(options: ConnectionManagerOptions = {}) {
+		this.idleTimeoutMillis =
+			options.idleTimeoutMillis ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+		this.connectionFactory = options.createConnection;
+	}
+
+	/**
+	 * Borrow the session connection for a configuration, connecting it if
+	 * needed. Every acquire must be paired with a release.
+	 */
+	async acquire(config: DatabaseConfig): Promise<DatabaseConnection> {
+		const key = sessionKey(config);
+		let entry = this.sessions.get(key);
+		if (!entry) {
+			entry = {
+				key,
+				connection: this.createConnection(config),
+				ready: null,
+				leases: 0,
+				idleTimeoutMillis:
+					config.pool?.sessionIdleTimeoutMillis ?? this.idleTimeoutMillis,
+				idleTimer: null,
+			};
+			this.sessions.set(key, entry);
+		}
+
+		this.clearIdleTimer(entry);
+		entry.leases += 1;
+		if (!entry.ready) {
+			entry.ready = entry.connection.connect();
+		}
+
+		try {
+			await entry.ready;
+		} catch (error) {
+			entry.leases = Math.max(0, entry.leases - 1);
+			if (this.sessions.get(key) === entry) {
+				this.sessions.delete(key);
+				await closeQuietly(entry.connection);
+			}
+			throw error;
+		}
+
+		return entry.connection;
+	}
+
+	/**
+	 * Return a connection obtained from acquire. The session stays open and
+	 * starts its idle countdown once nothing else is using it.
+	 */
+	release(connection: DatabaseConnection): void {
+		const entry = this.findEntry(connection);
+		if (!entry) {
+			return;
+		}
+		entry.leases = Math.max(0, entry.leases - 1);
+		if (entry.leases === 0) {
+			this.scheduleIdleClose(entry);
+		}
+	}
+
+	async withConnection<T>(
+		config: DatabaseConfig,
+		fn: (connection: DatabaseConnection) => Promise<T>,
+	): Promise<T> {
+		const connection = await this.acquire(config);
+		try {
+			return await fn(connection);
+		} finally {
+			this.release(connection);
+		}
+	}
+
+	has(config: DatabaseConfig): boolean {
+		return this.sessions.has(sessionKey(config));
+	}
+
+	get size(): number {
+		return this.sessions.size;
+	}
+
+	/**
+	 * Close the session for a configuration, even if it is still leased.
+	 */
+	async dispose(config: DatabaseConfig): Promise<void> {
+		const entry = this.sessions.get(sessionKey(config));
+		if (entry) {
+			await this.closeEntry(entry);
+		}
+	}
+
+	async disposeAll(): Promise<void> {
+		const entries = Array.from(this.sessions.values());
+		await Promise.all(entries.map((entry) => this.closeEntry(entry)));
+	}
+
+	private createConnection(config: DatabaseConfig): DatabaseConnection {
+		return this.connectionFactory
+			? this.connectionFactory(config)
+			: createDatabaseConnection(config);
+	}
+
+	private findEntry(connection: DatabaseConnection): SessionEntry | undefined {
+		for (const entry of this.sessions.values()) {
+			if (entry.connection === connection) {
+				return entry;
+			}
+		}
+		return undefined;
+	}
+
+	private scheduleIdleClose(entry: SessionEntry): void {
+		this.clearIdleTimer(entry);
+		if (entry.idleTimeoutMillis <= 0) {
+			return;
+		}
+		entry.idleTimer = setTimeout(() => {
+			entry.idleTimer = null;
+			if (entry.leases === 0) {
+				void this.closeEntry(entry);
+			}
+		}, entry.idleTimeoutMillis);
+		// Idle sessions should never keep the process alive on their own.
+		entry.idleTimer.unref?.();
+	}
+
+	private clearIdleTimer(entry: SessionEntry): void {
+		if (entry.idleTimer) {
+			clearTimeout(entry.idleTimer);
+			entry.idleTimer = null;
+		}
+	}
+
+	private async closeEntry(entry: SessionEntry): Promise<void> {
+		this.clearIdleTimer(entry);
+		if (this.sessions.get(entry.key) === entry) {
+			this.sessions.delete(entry.key);
+		}
+		await closeQuietly(entry.connection);
+	}
+}
+
+async function closeQuietly(connection: DatabaseConnection): Promise<void> {
+	try {
+		await connection.close();
+	} catch {
+		// ignore close errors during session cleanup
+	}
+}
+
+export const connectionManager = new ConnectionManager();
@@ -1,11 +1,33 @@
-import type { Pool } from "mysql2/promise";
+import type { Connection as CoreConnection } from "mysql2";
+import type {
+	FieldPacket,
+	Pool,
+	PoolConnection,
+	PoolOptions,
+} from "mysql2/promise";
 import mysql from "mysql2/promise";
 import { DBType } from "../types/state.js";
-import { ConnectionError, DatabaseError } from "./errors.js";
+import {
+	isCancellable,
+	runCancellable,
+	throwIfAborted,
+} from "./cancellation.js";
+import { translateMysqlError } from "./driver-errors.js";
+import { ConnectionError } from "./errors.js";
+import { type RetryPolicy, resolveRetryPolicy, withRetry } from "./retry.js";
+import { resolveBatchSize } from "./stream.js";
+import { type ResolvedTls, resolveTls } from "./tls.js";
+import { runInTransaction, SqlTransaction } from "./transaction.js";
 import type {
 	DatabaseConfig,
 	DatabaseConnection,
+	PinnedClient,
+	QueryField,
+	QueryOptions,
 	QueryResult,
+	QueryRow,
+	StreamOptions,
+	Transaction,
 } from "./types.js";
 
 export class MySQLConnection implements DatabaseConnection {
@@ -13,15 +35,27 @@ export class MySQLConnection implements DatabaseConnection {
 	private pool: Pool;
 	private connected = false;
 	private readonly closeTimeoutMillis: number;
+	private readonly connectionString: string;
+	private readonly tls: ResolvedTls;
+	private readonly retryPolicy: RetryPolicy | null;
 
 	constructor(private readonly config: DatabaseConfig) {
-		this.pool = mysql.createPool({
-			uri: config.connectionString,
+		const { connectionString, tls } = resolveTls(config);
+		this.connectionString = connectionString;
+		this.tls = tls;
+		this.pool = this.createPool(toMysqlSsl(tls));
+		this.closeTimeoutMillis = config.pool?.closeTimeoutMillis ?? 5_000;
+		this.retryPolicy = resolveRetryPolicy(config.pool?.retry);
+	}
+
+	private createPool(ssl: PoolOptions["ssl"]): Pool {
+		return mysql.createPool({
+			uri: this.connectionString,
 			waitForConnections: true,
-			connectionLimit: config.pool?.max ?? 10,
+			connectionLimit: this.config.pool?.max ?? 10,
 			queueLimit: 0,
+			ssl,
 		});
-		this.closeTimeoutMillis = config.pool?.closeTimeoutMillis ?? 5_000;
 	}
 
 	async connect(): Promise<void> {
@@ -29,44 +63,279 @@ export class MySQLConnection implements DatabaseConnection {
 			const connection = await this.pool.getConnection();
 			this.connected = true;
 			connection.release();
+			return;
+		} catch (error) {
+			if (!(this.tls.mode === "prefer" && isTlsUnsupportedError(error))) {
+				throw connectionFailed(error);
+			}
+		}
+
+		// ssl-mode=prefer: the server has no TLS, so retry in plaintext
+		const tlsPool = this.pool;
+		this.pool = this.createPool(undefined);
+		void tlsPool.end().catch(() => {});
+		try {
+			const connection = await this.pool.getConnection();
+			this.connected = true;
+			connection.release();
+		} catch (error) {
+			throw connectionFailed(error);
+		}
+	}
+
+	async query<T extends Record<string, unknown> = Record<string, unknown>>(
+		sql: string,
+		params: unknown[] = [],
+		options?: QueryOptions,
+	): Promise<QueryResult<T>> {
+		return withRetry(this.retryPolicy, sql, options, () =>
+			this.runQuery<T>(sql, params, options),
+		);
+	}
+
+	private async runQuery<T extends QueryRow>(
+		sql: string,
+		params: unknown[],
+		options: QueryOptions | undefined,
+	): Promise<QueryResult<T>> {
+		if (!this.connected) {
+			await this.connect();
+		}
+		if (options && isCancellable(options)) {
+			return this.queryCancellable<T>(sql, params, options);
+		}
+
+		try {
+			const [rows, fields] = await this.pool.query(sql, params);
+			return toQueryResult<T>(rows, fields);
+		} catch (error) {
+			throw translateMysqlError(error, "MySQL query failed.", sql);
+		}
+	}
+
+	async execute(
+		sql: string,
+		params: unknown[] = [],
+		options?: QueryOptions,
+	): Promise<void> {
+		await this.query(sql, params, options);
+	}
+
+	/**
+	 * Run a statement on a pinned connection so a timeout or abort can stop it
+	 * with KILL QUERY issued from another pool connection.
+	 */
+	private async queryCancellable<T extends QueryRow>(
+		sql: string,
+		params: unknown[],
+		options: QueryOptions,
+	): Promise<QueryResult<T>> {
+		throwIfAborted(options);
+
+		let poolConnection: PoolConnection;
+		try {
+			poolConnection = await this.pool.getConnection();
 		} catch (error) {
 			throw new ConnectionError(
-				"Failed to connect to MySQL database.",
+				"Failed to acquire MySQL connection for query.",
 				error instanceof Error ? (error as { code?: string }).code : undefined,
 				error instanceof Error ? error.message : undefined,
 			);
 		}
+
+		try {
+			return await this.queryOnConnection<T>(
+				poolConnection,
+				sql,
+				params,
+				options,
+			);
+		} finally {
+			poolConnection.release();
+		}
 	}
 
-	async query<T extends Record<string, unknown> = Record<string, unknown>>(
+	private async queryOnConnection<T extends QueryRow>(
+		poolConnection: PoolConnection,
 		sql: string,
-		params: unknown[] = [],
+		params: unknown[],
+		options: QueryOptions | undefined,
 	): Promise<QueryResult<T>> {
+		const threadId = poolConnection.threadId;
+
+		try {
+			const [rows, fields] = await runCancellable(
+				options,
+				() => poolConnection.query(sql, params),
+				() => this.pool.query(`KILL QUERY ${Number(threadId)}`),
+			);
+			return toQueryResult<T>(rows, fields);
+		} catch (error) {
+			throw translateMysqlError(error, "MySQL query failed.", sql);
+		}
+	}
+
+	/**
+	 * Run `fn` with one pool connection pinned. Statements are not retried,
+	 * since a retry would land on a fresh session without the earlier state.
+	 */
+	async withPinnedClient<T>(
+		fn: (client: PinnedClient) => Promise<T>,
+	): Promise<T> {
 		if (!this.connected) {
 			await this.connect();
 		}
 
+		let poolConnection: PoolConnection;
 		try {
-			const [rows, fields] = await this.pool.query(sql, params);
-			const typedRows = rows as T[];
-			return {
-				rows: typedRows,
-				rowCount: typedRows.length,
-				fields: fields?.map((field) =>
-					"name" in field ? String(field.name) : "",
-				),
-			};
+			poolConnection = await this.pool.getConnection();
+		} catch (error) {
+			throw new ConnectionError(
+				"Failed to acquire MySQL connection.",
+				error instanceof Error ? (error as { code?: string }).code : undefined,
+				error instanceof Error ? error.message : undefined,
+			);
+		}
+
+		let discard = false;
+		try {
+			return await fn({
+				type: this.type,
+				query: <T extends QueryRow = QueryRow>(
+					sql: string,
+					params: unknown[] = [],
+					options?: QueryOptions,
+				) => this.queryOnConnection<T>(poolConnection, sql, params, options),
+				rollback: async () => {
+					try {
+						// a no-op outside a transaction
+						await poolConnection.query("ROLLBACK");
+					} catch {
+						discard = true;
+					}
+				},
+			});
+		} finally {
+			if (discard) {
+				poolConnection.destroy();
+			} else {
+				poolConnection.release();
+			}
+		}
+	}
+
+	/**
+	 * Open a transaction pinned to one pool connection so every statement in
+	 * it runs on the same server session.
+	 */
+	async begin(): Promise<Transaction> {
+		if (!this.connected) {
+			await this.connect();
+		}
+
+		let poolConnection: PoolConnection;
+		try {
+			poolConnection = await this.pool.getConnection();
 		} catch (error) {
-			throw new DatabaseError(
-				"MySQL query failed.",
+			throw new ConnectionError(
+				"Failed to acquire MySQL connection for transaction.",
 				error instanceof Error ? (error as { code?: string }).code : undefined,
 				error instanceof Error ? error.message : undefined,
 			);
 		}
+
+		const tx = new SqlTransaction(this.type, {
+			query: async <T extends QueryRow = QueryRow>(
+				sql: string,
+				params: unknown[] = [],
+			) => {
+				try {
+					const [rows, fields] = await poolConnection.query(sql, params);
+					return toQueryResult<T>(rows, fields);
+				} catch (error) {
+					throw translateMysqlError(error, "MySQL query failed.", sql);
+				}
+			},
+			release: (discard) => {
+				if (discard) {
+					poolConnection.destroy();
+				} else {
+					poolConnection.release();
+				}
+			},
+		});
+
+		try {
+			await tx.open("START TRANSACTION");
+		} catch (error) {
+			poolConnection.destroy();
+			throw error;
+		}
+		return tx;
 	}
 
-	async execute(sql: string, params: unknown[] = []): Promise<void> {
-		await this.query(sql, params);
+	async transaction<T>(fn: (tx: Transaction) => Promise<T>): Promise<T> {
+		return runInTransaction(await this.begin(), fn);
+	}
+
+	/**
+	 * Stream rows using mysql2's row stream on a dedicated pool connection.
+	 * A connection abandoned mid-result is destroyed rather than returned to
+	 * the pool, since it still has unread rows on the wire.
+	 */
+	async *stream<T extends QueryRow = QueryRow>(
+		sql: string,
+		params: unknown[] = [],
+		options: StreamOptions = {},
+	): AsyncGenerator<T[], void, unknown> {
+		if (!this.connected) {
+			await this.connect();
+		}
+
+		const batchSize = resolveBatchSize(options);
+
+		let poolConnection: PoolConnection;
+		try {
+			poolConnection = await this.pool.getConnection();
+		} catch (error) {
+			throw new ConnectionError(
+				"Failed to acquire MySQL connection for streaming.",
+				error instanceof Error ? (error as { code?: string }).code : undefined,
+				error instanceof Error ? error.message : undefined,
+			);
+		}
+
+		// The promise wrapper exposes the callback connection, which owns stream()
+		const coreConnection =
+			poolConnection.connection as unknown as CoreConnection;
+		const rowStream = coreConnection
+			.query(sql, params)
+			.stream({ highWaterMark: batchSize });
+
+		let completed = false;
+		try {
+			let batch: T[] = [];
+			for await (const row of rowStream) {
+				batch.push(row as T);
+				if (batch.length >= batchSize) {
+					yield batch;
+					batch = [];
+				}
+			}
+			if (batch.length > 0) {
+				yield batch;
+			}
+			completed = true;
+		} catch (error) {
+			throw translateMysqlError(error, "MySQL stream failed.", sql);
+		} finally {
+			if (completed) {
+				poolConnection.release();
+			} else {
+				rowStream.destroy();
+				poolConnection.destroy();
+			}
+		}
 	}
 
 	async close(): Promise<void> {
@@ -108,3 +377,134 @@ export class MySQLConnection implements DatabaseConnection {
 		}
 	}
 }
+
+function connectionFailed(error: unknown): ConnectionError {
+	return new ConnectionError(
+		"Failed to connect to MySQL database.",
+		error instanceof Error ? (error as { code?: string }).code : undefined,
+		error instanceof Error ? error.message : undefined,
+	);
+}
+
+function isTlsUnsupportedError(error: unknown): boolean {
+	return (
+		error instanceof Error &&
+		(error as { code?: string }).code === "HANDSHAKE_NO_SSL_SUPPORT"
+	);
+}
+
+/**
+ * mysql2 TLS options for a libpq sslmode. mysql2 checks the host name
+ * separately from the chain, via `verifyIdentity`.
+ */
+function toMysqlSsl(tls: ResolvedTls): PoolOptions["ssl"] {
+	if (tls.mode === "disable") {
+		return undefined;
+	}
+	const verifyChain =
+		tls.mode === "verify-ca" ||
+		tls.mode === "verify-full" ||
+		(tls.mode === "require" && Boolean(tls.ca));
+	return {
+		ca: tls.ca,
+		cert: tls.cert,
+		key: tls.key,
+		rejectUnauthorized: verifyChain,
+		verifyIdentity: tls.mode === "verify-full",
+	};
+}
+
+function toQueryResult<T extends QueryRow>(
+	rows: unknown,
+	fields: FieldPacket[] | undefined,
+): QueryResult<T> {
+	// Statements without a result set (INSERT/UPDATE/...) return a header
+	// object instead of a row array; report its affected row count and the
+	// AUTO_INCREMENT value an INSERT generated.
+	if (!Array.isArray(rows)) {
+		const header = rows as
+			| { affectedRows?: number; insertId?: number }
+			| undefined;
+		return {
+			rows: [],
+			rowCount: header?.affectedRows ?? 0,
+			...(header?.insertId ? { insertId: header.insertId } : {}),
+		};
+	}
+	const typedRows = rows as T[];
+	return {
+		rows: typedRows,
+		rowCount: typedRows.length,
+		fields: fields?.map(toQueryField),
+	};
+}
+
+/** SQL type names keyed by MySQL protocol column type code. */
+const MYSQL_TYPE_NAMES: Record<number, string> = {
+	0: "decimal",
+	1: "tinyint",
+	2: "smallint",
+	3: "int",
+	4: "float",
+	5: "double",
+	6: "null",
+	7: "timestamp",
+	8: "bigint",
+	9: "mediumint",
+	10: "date",
+	11: "time",
+	12: "datetime",
+	13: "year",
+	14: "date",
+	15: "varchar",
+	16: "bit",
+	245: "json",
+	246: "decimal",
+	247: "enum",
+	248: "set",
+	249: "tinyblob",
+	250: "mediumblob",
+	251: "longblob",
+	252: "blob",
+	253: "varchar",
+	254: "char",
+	255: "geometry",
+};
+
+const MYSQL_BLOB_TYPES = new Set([249, 250, 251, 252]);
+const MYSQL_BINARY_CHARSET = 63;
+const MYSQL_NOT_NULL_FLAG = 1;
+
+function toQueryField(field: FieldPacket): QueryField {
+	const typeCode = field.columnType ?? field.type;
+	let dataType =
+		typeCode === undefined
+			? "unknown"
+			: (MYSQL_TYPE_NAMES[typeCode] ?? "unknown");
+	// TEXT columns travel as blob types with a non-binary character set
+	if (
+		typeCode !== undefined &&
+		MYSQL_BLOB_TYPES.has(typeCode) &&
+		(field.characterSet ?? field.charsetNr) !== MYSQL_BINARY_CHARSET
+	) {
+		dataType = dataType.replace("blob", "text");
+	}
+
+	const queryField: QueryField = {
+		name: "name" in field ? String(field.name) : "",
+		dataType,
+	};
+	if (typeCode !== undefined) {
+		queryField.nativeTypeId = typeCode;
+	}
+	if (Array.isArray(field.flags)) {
+		queryField.nullable = !field.flags.includes("NOT_NULL");
+	} else if (typeof field.flags === "number") {
+		queryField.nullable = (field.flags & MYSQL_NOT_NULL_FLAG) === 0;
+	}
+	if (field.orgTable) {
+		queryField.table = field.orgTable;
+		queryField.column = field.orgName || undefined;
+	}
+	return queryField;
+}
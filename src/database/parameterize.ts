@@ -1,25 +1,196 @@
 import { DBType } from "../types/state.js";
-
-const POSTGRES_PLACEHOLDER = /\$(\d+)/g;
+import { DatabaseError } from "./errors.js";
+import { IDENTIFIER_PART, IDENTIFIER_START, skipIgnored } from "./sql-lexer.js";
 
 export interface ParameterizedQuery {
 	sql: string;
 	params: unknown[];
 }
 
+/** Values for `:name` / `@name` placeholders, keyed by name. */
+export type NamedParams = Record<string, unknown>;
+
+type Placeholder =
+	| { kind: "positional"; index: number; text: string }
+	| { kind: "named"; name: string; text: string };
+
+/**
+ * Translate placeholders into the driver's native form.
+ *
+ * Positional `$N` placeholders pass through untouched on PostgreSQL. On
+ * MySQL and SQLite they become `?`, with the values reordered and repeated
+ * to follow the placeholders. An object of values switches to named
+ * `:name` / `@name` placeholders instead. Placeholders inside string
+ * literals, quoted identifiers, comments and dollar-quoted bodies are left
+ * alone.
+ */
 export function parameterize(
 	sql: string,
 	dbType: DBType,
-	params: unknown[] = [],
+	params: unknown[] | NamedParams = [],
 ): ParameterizedQuery {
-	if (dbType === DBType.PostgreSQL) {
-		return { sql, params };
+	if (
+		dbType !== DBType.PostgreSQL &&
+		dbType !== DBType.MySQL &&
+		dbType !== DBType.SQLite
+	) {
+		return { sql, params: Array.isArray(params) ? params : [] };
+	}
+
+	if (Array.isArray(params)) {
+		if (dbType === DBType.PostgreSQL) {
+			return { sql, params };
+		}
+		return translatePositional(sql, dbType, params);
 	}
 
-	if (dbType === DBType.MySQL || dbType === DBType.SQLite) {
-		const convertedSql = sql.replace(POSTGRES_PLACEHOLDER, () => "?");
-		return { sql: convertedSql, params };
+	return translateNamed(sql, dbType, params);
+}
+
+function translatePositional(
+	sql: string,
+	dbType: DBType,
+	params: unknown[],
+): ParameterizedQuery {
+	const ordered: unknown[] = [];
+	let sawPlaceholder = false;
+	const translated = rewritePlaceholders(sql, dbType, false, (placeholder) => {
+		if (placeholder.kind !== "positional") {
+			return placeholder.text;
+		}
+		sawPlaceholder = true;
+		if (placeholder.index < 1 || placeholder.index > params.length) {
+			throw new DatabaseError(
+				`Missing value for parameter ${placeholder.text}.`,
+				"INVALID_PARAMETERS",
+			);
+		}
+		ordered.push(params[placeholder.index - 1]);
+		return "?";
+	});
+
+	// SQL already written with native `?` placeholders keeps its params as-is
+	return sawPlaceholder
+		? { sql: translated, params: ordered }
+		: { sql, params };
+}
+
+function translateNamed(
+	sql: string,
+	dbType: DBType,
+	params: NamedParams,
+): ParameterizedQuery {
+	const ordered: unknown[] = [];
+	const postgresIndexes = new Map<string, number>();
+
+	const translated = rewritePlaceholders(sql, dbType, true, (placeholder) => {
+		if (placeholder.kind === "positional") {
+			throw new DatabaseError(
+				`Cannot mix positional parameter ${placeholder.text} with named parameters.`,
+				"INVALID_PARAMETERS",
+			);
+		}
+		if (!Object.hasOwn(params, placeholder.name)) {
+			throw new DatabaseError(
+				`Missing value for named parameter ${placeholder.text}.`,
+				"INVALID_PARAMETERS",
+			);
+		}
+
+		if (dbType === DBType.PostgreSQL) {
+			let index = postgresIndexes.get(placeholder.name);
+			if (index === undefined) {
+				ordered.push(params[placeholder.name]);
+				index = ordered.length;
+				postgresIndexes.set(placeholder.name, index);
+			}
+			return `$${index}`;
+		}
+
+		ordered.push(params[placeholder.name]);
+		return "?";
+	});
+
+	return { sql: translated, params: ordered };
+}
+
+/**
+ * Walk the SQL once, copying literals, identifiers and comments verbatim
+ * and handing every placeholder to `replace`.
+ */
+function rewritePlaceholders(
+	sql: string,
+	dbType: DBType,
+	named: boolean,
+	replace: (placeholder: Placeholder) => string,
+): string {
+	let output = "";
+	let index = 0;
+
+	const copyUntil = (end: number) => {
+		output += sql.slice(index, end);
+		index = end;
+	};
+
+	while (index < sql.length) {
+		const char = sql[index];
+		const next = sql[index + 1];
+		const previous = index > 0 ? sql[index - 1] : "";
+
+		const ignored = skipIgnored(sql, index, dbType);
+		if (ignored) {
+			copyUntil(ignored.end);
+			continue;
+		}
+
+		if (char === "$" && !IDENTIFIER_PART.test(previous)) {
+			const digits = /^\$(\d+)/.exec(sql.slice(index));
+			if (digits) {
+				output += replace({
+					kind: "positional",
+					index: Number(digits[1]),
+					text: digits[0],
+				});
+				index += digits[0].length;
+				continue;
+			}
+		}
+
+		if (char === ":" && next === ":") {
+			// PostgreSQL type cast
+			copyUntil(index + 2);
+			continue;
+		}
+
+		if (char === "@" && next === "@") {
+			// MySQL system variable
+			copyUntil(index + 2);
+			continue;
+		}
+
+		if (
+			named &&
+			(char === ":" || char === "@") &&
+			next !== undefined &&
+			IDENTIFIER_START.test(next) &&
+			!IDENTIFIER_PART.test(previous)
+		) {
+			let end = index + 1;
+			while (end < sql.length && /[A-Za-z0-9_]/.test(sql[end])) {
+				end += 1;
+			}
+			output += replace({
+				kind: "named",
+				name: sql.slice(index + 1, end),
+				text: sql.slice(index, end),
+			});
+			index = end;
+			continue;
+		}
+
+		output += char;
+		index += 1;
 	}
 
-	return { sql, params };
+	return output;
 }
@@ -1,68 +1,429 @@
-import { Pool } from "pg";
+import type { ConnectionOptions } from "tls";
+import {
+	type FieldDef,
+	Pool,
+	type PoolClient,
+	type QueryResult as PgQueryResult,
+	types,
+} from "pg";
 import { DBType } from "../types/state.js";
-import { ConnectionError, DatabaseError } from "./errors.js";
+import {
+	isCancellable,
+	runCancellable,
+	throwIfAborted,
+} from "./cancellation.js";
+import { translatePostgresError } from "./driver-errors.js";
+import { ConnectionError } from "./errors.js";
+import { type RetryPolicy, resolveRetryPolicy, withRetry } from "./retry.js";
+import { resolveBatchSize, stripTrailingSemicolons } from "./stream.js";
+import { type ResolvedTls, resolveTls } from "./tls.js";
+import { runInTransaction, SqlTransaction } from "./transaction.js";
 import type {
 	DatabaseConfig,
 	DatabaseConnection,
+	PinnedClient,
+	QueryField,
+	QueryOptions,
 	QueryResult,
+	QueryRow,
+	StreamOptions,
+	Transaction,
 } from "./types.js";
 
+let cursorSequence = 0;
+
+/** Every column of the given tables, by table OID and attribute number. */
+const COLUMN_SOURCES_SQL = `
+  SELECT
+    a.attrelid AS table_id,
+    a.attnum AS column_id,
+    n.nspname AS table_schema,
+    c.relname AS table_name,
+    a.attname AS column_name,
+    a.attnotnull AS not_null
+  FROM pg_attribute a
+  JOIN pg_class c ON c.oid = a.attrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE a.attrelid = ANY($1::oid[])
+    AND a.attnum > 0
+    AND NOT a.attisdropped
+`;
+
+type ColumnSource = Pick<
+	QueryField,
+	"schema" | "table" | "column" | "nullable"
+>;
+
+type RunQuery = (sql: string, params: unknown[]) => Promise<PgQueryResult>;
+
 export class PostgresConnection implements DatabaseConnection {
 	public readonly type = DBType.PostgreSQL;
 	private pool: Pool;
 	private connected = false;
 	private readonly closeTimeoutMillis: number;
+	private readonly connectionString: string;
+	private readonly tls: ResolvedTls;
+	private readonly retryPolicy: RetryPolicy | null;
+	/** Column sources by table OID, then attribute number. */
+	private readonly columnSources = new Map<number, Map<number, ColumnSource>>();
 
 	constructor(private readonly config: DatabaseConfig) {
-		this.pool = new Pool({
-			connectionString: config.connectionString,
-			max: config.pool?.max ?? 10,
-			idleTimeoutMillis: config.pool?.idleTimeoutMillis ?? 30_000,
-			connectionTimeoutMillis: config.pool?.connectionTimeoutMillis ?? 10_000,
-			ssl: { rejectUnauthorized: false }, // Allow self-signed certificates for AWS RDS
-		});
+		const { connectionString, tls } = resolveTls(config);
+		this.connectionString = connectionString;
+		this.tls = tls;
+		this.pool = this.createPool(toPgSsl(tls));
 		this.closeTimeoutMillis = config.pool?.closeTimeoutMillis ?? 5_000;
+		this.retryPolicy = resolveRetryPolicy(config.pool?.retry);
+	}
+
+	private createPool(ssl: false | ConnectionOptions): Pool {
+		const pool = new Pool({
+			connectionString: this.connectionString,
+			max: this.config.pool?.max ?? 10,
+			idleTimeoutMillis: this.config.pool?.idleTimeoutMillis ?? 30_000,
+			connectionTimeoutMillis:
+				this.config.pool?.connectionTimeoutMillis ?? 10_000,
+			ssl,
+		});
+		// An idle client dies when the server restarts; the pool already drops
+		// it, and the next query reconnects, so only keep it from crashing us.
+		pool.on("error", () => {});
+		return pool;
 	}
 
 	async connect(): Promise<void> {
 		try {
 			await this.pool.query("SELECT 1");
 			this.connected = true;
+			return;
+		} catch (error) {
+			if (!(this.tls.mode === "prefer" && isTlsUnsupportedError(error))) {
+				throw connectionFailed(error);
+			}
+		}
+
+		// sslmode=prefer: the server has no TLS, so retry in plaintext
+		const tlsPool = this.pool;
+		this.pool = this.createPool(false);
+		void tlsPool.end().catch(() => {});
+		try {
+			await this.pool.query("SELECT 1");
+			this.connected = true;
+		} catch (error) {
+			throw connectionFailed(error);
+		}
+	}
+
+	async query<T extends Record<string, unknown> = Record<string, unknown>>(
+		sql: string,
+		params: unknown[] = [],
+		options?: QueryOptions,
+	): Promise<QueryResult<T>> {
+		return withRetry(this.retryPolicy, sql, options, () =>
+			this.runQuery<T>(sql, params, options),
+		);
+	}
+
+	private async runQuery<T extends QueryRow>(
+		sql: string,
+		params: unknown[],
+		options: QueryOptions | undefined,
+	): Promise<QueryResult<T>> {
+		if (!this.connected) {
+			await this.connect();
+		}
+		if (options && isCancellable(options)) {
+			return this.queryCancellable<T>(sql, params, options);
+		}
+
+		try {
+			const result = await this.pool.query(sql, params);
+			return await this.describeSources(
+				toQueryResult<T>(result),
+				(sql, params) => this.pool.query(sql, params),
+			);
+		} catch (error) {
+			throw translatePostgresError(error, "PostgreSQL query failed.");
+		}
+	}
+
+	async execute(
+		sql: string,
+		params: unknown[] = [],
+		options?: QueryOptions,
+	): Promise<void> {
+		await this.query(sql, params, options);
+	}
+
+	/**
+	 * Run a statement on a pinned client so a timeout or abort can target its
+	 * backend with pg_cancel_backend from another pool connection.
+	 */
+	private async queryCancellable<T extends QueryRow>(
+		sql: string,
+		params: unknown[],
+		options: QueryOptions,
+	): Promise<QueryResult<T>> {
+		throwIfAborted(options);
+
+		let client: PoolClient;
+		try {
+			client = await this.pool.connect();
 		} catch (error) {
 			throw new ConnectionError(
-				"Failed to connect to PostgreSQL database.",
+				"Failed to acquire PostgreSQL client for query.",
 				error instanceof Error ? (error as { code?: string }).code : undefined,
 				error instanceof Error ? error.message : undefined,
 			);
 		}
+
+		try {
+			return await this.queryOnClient<T>(client, sql, params, options);
+		} finally {
+			client.release();
+		}
 	}
 
-	async query<T extends Record<string, unknown> = Record<string, unknown>>(
+	private async queryOnClient<T extends QueryRow>(
+		client: PoolClient,
 		sql: string,
-		params: unknown[] = [],
+		params: unknown[],
+		options: QueryOptions | undefined,
 	): Promise<QueryResult<T>> {
+		// pg records the backend pid on the client during the startup handshake
+		const backendPid = (client as PoolClient & { processID?: number })
+			.processID;
+
+		try {
+			const result = await runCancellable(
+				options,
+				() => client.query(sql, params),
+				() =>
+					backendPid
+						? this.pool.query("SELECT pg_cancel_backend($1)", [backendPid])
+						: undefined,
+			);
+			return await this.describeSources(
+				toQueryResult<T>(result),
+				(sql, params) => client.query(sql, params),
+			);
+		} catch (error) {
+			throw translatePostgresError(error, "PostgreSQL query failed.");
+		}
+	}
+
+	/**
+	 * Run `fn` with one pool client pinned. Statements are not retried, since
+	 * a retry would land on a fresh session without the earlier state.
+	 */
+	async withPinnedClient<T>(
+		fn: (client: PinnedClient) => Promise<T>,
+	): Promise<T> {
 		if (!this.connected) {
 			await this.connect();
 		}
 
+		let client: PoolClient;
 		try {
-			const result = await this.pool.query(sql, params);
-			return {
-				rows: result.rows as T[],
-				rowCount: result.rowCount ?? result.rows.length,
-				fields: result.fields?.map((field) => field.name),
-			};
+			client = await this.pool.connect();
 		} catch (error) {
-			throw new DatabaseError(
-				"PostgreSQL query failed.",
+			throw new ConnectionError(
+				"Failed to acquire PostgreSQL client.",
 				error instanceof Error ? (error as { code?: string }).code : undefined,
 				error instanceof Error ? error.message : undefined,
 			);
 		}
+
+		let discard = false;
+		try {
+			return await fn({
+				type: this.type,
+				query: <T extends QueryRow = QueryRow>(
+					sql: string,
+					params: unknown[] = [],
+					options?: QueryOptions,
+				) => this.queryOnClient<T>(client, sql, params, options),
+				rollback: async () => {
+					try {
+						// outside a transaction this only raises a warning
+						await client.query("ROLLBACK");
+					} catch {
+						discard = true;
+					}
+				},
+			});
+		} finally {
+			client.release(discard);
+		}
 	}
 
-	async execute(sql: string, params: unknown[] = []): Promise<void> {
-		await this.query(sql, params);
+	/**
+	 * Open a transaction pinned to one pool client so every statement in it
+	 * runs on the same backend session.
+	 */
+	async begin(): Promise<Transaction> {
+		if (!this.connected) {
+			await this.connect();
+		}
+
+		let client: PoolClient;
+		try {
+			client = await this.pool.connect();
+		} catch (error) {
+			throw new ConnectionError(
+				"Failed to acquire PostgreSQL client for transaction.",
+				error instanceof Error ? (error as { code?: string }).code : undefined,
+				error instanceof Error ? error.message : undefined,
+			);
+		}
+
+		const tx = new SqlTransaction(this.type, {
+			query: async <T extends QueryRow = QueryRow>(
+				sql: string,
+				params: unknown[] = [],
+			) => {
+				try {
+					return await this.describeSources(
+						toQueryResult<T>(await client.query(sql, params)),
+						(sql, params) => client.query(sql, params),
+					);
+				} catch (error) {
+					throw translatePostgresError(error, "PostgreSQL query failed.");
+				}
+			},
+			release: (discard) => client.release(discard),
+		});
+
+		try {
+			await tx.open("BEGIN");
+		} catch (error) {
+			client.release(true);
+			throw error;
+		}
+		return tx;
+	}
+
+	async transaction<T>(fn: (tx: Transaction) => Promise<T>): Promise<T> {
+		return runInTransaction(await this.begin(), fn);
+	}
+
+	/**
+	 * Name the source schema, table and column of fields read straight from
+	 * a table, and say whether they are nullable. Each table's columns are
+	 * read from the catalogs once per connection, on the session `run` uses
+	 * so tables created in an open transaction are found too.
+	 */
+	private async describeSources<T extends QueryRow>(
+		result: QueryResult<T>,
+		run: RunQuery,
+	): Promise<QueryResult<T>> {
+		const fields = result.fields ?? [];
+		const unseen = [
+			...new Set(
+				fields.flatMap((field) =>
+					field.tableId !== undefined && !this.columnSources.has(field.tableId)
+						? [field.tableId]
+						: [],
+				),
+			),
+		];
+		if (unseen.length > 0) {
+			const { rows } = await run(COLUMN_SOURCES_SQL, [unseen]);
+			const loaded = new Map(
+				unseen.map((id) => [id, new Map<number, ColumnSource>()]),
+			);
+			for (const row of rows) {
+				loaded.get(Number(row.table_id))?.set(Number(row.column_id), {
+					schema: String(row.table_schema),
+					table: String(row.table_name),
+					column: String(row.column_name),
+					nullable: !row.not_null,
+				});
+			}
+			for (const [id, columns] of loaded) {
+				this.columnSources.set(id, columns);
+			}
+		}
+		for (const field of fields) {
+			const source =
+				field.tableId !== undefined && field.columnId !== undefined
+					? this.columnSources.get(field.tableId)?.get(field.columnId)
+					: undefined;
+			Object.assign(field, source);
+		}
+		return result;
+	}
+
+	/**
+	 * Stream rows through a server-side cursor on a dedicated pool client.
+	 * The cursor lives inside its own read transaction, which is rolled back
+	 * if the consumer stops early or the fetch fails.
+	 */
+	async *stream<T extends QueryRow = QueryRow>(
+		sql: string,
+		params: unknown[] = [],
+		options: StreamOptions = {},
+	): AsyncGenerator<T[], void, unknown> {
+		if (!this.connected) {
+			await this.connect();
+		}
+
+		const batchSize = resolveBatchSize(options);
+		const cursorName = `seerdb_cursor_${++cursorSequence}`;
+		const cursorPrefix = `DECLARE ${cursorName} NO SCROLL CURSOR FOR `;
+
+		let client: PoolClient;
+		try {
+			client = await this.pool.connect();
+		} catch (error) {
+			throw new ConnectionError(
+				"Failed to acquire PostgreSQL client for streaming.",
+				error instanceof Error ? (error as { code?: string }).code : undefined,
+				error instanceof Error ? error.message : undefined,
+			);
+		}
+
+		let inTransaction = false;
+		try {
+			await client.query("BEGIN");
+			inTransaction = true;
+			await client.query(
+				`${cursorPrefix}${stripTrailingSemicolons(sql)}`,
+				params,
+			);
+
+			while (true) {
+				const result = await client.query(
+					`FETCH FORWARD ${batchSize} FROM ${cursorName}`,
+				);
+				if (result.rows.length === 0) {
+					break;
+				}
+				yield result.rows as T[];
+				if (result.rows.length < batchSize) {
+					break;
+				}
+			}
+
+			await client.query(`CLOSE ${cursorName}`);
+			await client.query("COMMIT");
+			inTransaction = false;
+		} catch (error) {
+			throw translatePostgresError(
+				error,
+				"PostgreSQL stream failed.",
+				cursorPrefix.length,
+			);
+		} finally {
+			if (inTransaction) {
+				try {
+					await client.query("ROLLBACK");
+				} catch {
+					// ignore rollback errors; the client is released either way
+				}
+			}
+			client.release();
+		}
 	}
 
 	async close(): Promise<void> {
@@ -107,3 +468,87 @@ export class PostgresConnection implements DatabaseConnection {
 		}
 	}
 }
+
+function connectionFailed(error: unknown): ConnectionError {
+	return new ConnectionError(
+		"Failed to connect to PostgreSQL database.",
+		error instanceof Error ? (error as { code?: string }).code : undefined,
+		error instanceof Error ? error.message : undefined,
+	);
+}
+
+function isTlsUnsupportedError(error: unknown): boolean {
+	return (
+		error instanceof Error &&
+		error.message.includes("does not support SSL connections")
+	);
+}
+
+/**
+ * node-postgres TLS options for a libpq sslmode. As in libpq, `require`
+ * with a root certificate verifies the chain like `verify-ca`.
+ */
+function toPgSsl(tls: ResolvedTls): false | ConnectionOptions {
+	if (tls.mode === "disable") {
+		return false;
+	}
+	const files = { ca: tls.ca, cert: tls.cert, key: tls.key };
+	switch (tls.mode) {
+		case "prefer":
+			return { ...files, rejectUnauthorized: false };
+		case "require":
+			return tls.ca
+				? { ...files, checkServerIdentity: () => undefined }
+				: { ...files, rejectUnauthorized: false };
+		case "verify-ca":
+			return {
+				...files,
+				rejectUnauthorized: true,
+				checkServerIdentity: () => undefined,
+			};
+		case "verify-full":
+			return { ...files, rejectUnauthorized: true };
+	}
+}
+
+function toQueryResult<T extends QueryRow>(
+	result: PgQueryResult,
+): QueryResult<T> {
+	return {
+		rows: result.rows as T[],
+		rowCount: result.rowCount ?? result.rows.length,
+		fields: result.fields?.map(toQueryField),
+	};
+}
+
+let builtinTypeNames: Map<number, string> | null = null;
+
+/**
+ * Name of a built-in type OID (e.g. 23 → "int4"). User-defined types such
+ * as enums and domains need a catalog lookup and come back as "unknown".
+ */
+function typeNameForOid(oid: number): string {
+	if (!builtinTypeNames) {
+		builtinTypeNames = new Map(
+			Object.entries(types?.builtins ?? {}).map(([name, id]) => [
+				Number(id),
+				name.toLowerCase(),
+			]),
+		);
+	}
+	return builtinTypeNames.get(oid) ?? "unknown";
+}
+
+function toQueryField(field: FieldDef): QueryField {
+	const queryField: QueryField = {
+		name: field.name,
+		dataType: typeNameForOid(field.dataTypeID),
+		nativeTypeId: field.dataTypeID,
+	};
+	// Computed expressions report table OID 0
+	if (field.tableID) {
+		queryField.tableId = field.tableID;
+		queryField.columnId = field.columnID;
+	}
+	return queryField;
+}
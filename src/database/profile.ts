@@ -0,0 +1,279 @@
+import {
+	type ColumnCategory,
+	type ColumnInfo,
+	type ColumnProfile,
+	DBType,
+	type TableInfo,
+	type TableProfile,
+} from "../types/state.js";
+import { qualifiedName, quoteIdentifier } from "./ddl.js";
+import type { DatabaseConnection, QueryOptions, QueryRow } from "./types.js";
+
+/** Tables with more rows than this are profiled from a sample. */
+export const PROFILE_SAMPLE_THRESHOLD = 100_000;
+
+export interface ProfileOptions extends QueryOptions {
+	/** Roughly how many rows a sample holds. */
+	sampleSize?: number;
+	/** How many of the most frequent values to report per column. */
+	topValues?: number;
+}
+
+const DEFAULT_TOP_VALUES = 5;
+
+const NUMERIC_TYPE =
+	/^(?:(?:tiny|small|medium|big)?int(?:eger)?\d*|(?:small|big)?serial\d*|numeric|decimal|dec|real|double|float\d*)\b/;
+const TEXT_TYPE = /char|text|clob|string|^enum\b|^set\b/;
+const TEMPORAL_TYPE = /^(?:date|time|timestamp|datetime|year|interval)\b/;
+const BINARY_TYPE = /blob|bytea|binary/;
+
+export function columnCategory(dataType: string): ColumnCategory {
+	const type = dataType.trim().toLowerCase();
+	// Postgres arrays and composites have no ranges or averages
+	if (type.endsWith("]") || type.startsWith("array")) {
+		return "other";
+	}
+	if (NUMERIC_TYPE.test(type)) {
+		return "numeric";
+	}
+	if (BINARY_TYPE.test(type)) {
+		return "binary";
+	}
+	if (TEMPORAL_TYPE.test(type)) {
+		return "temporal";
+	}
+	return TEXT_TYPE.test(type) ? "text" : "other";
+}
+
+/**
+ * Null share, distinct count, ranges, averages and the most frequent
+ * values of every column, computed by the database. Tables above
+ * PROFILE_SAMPLE_THRESHOLD rows are profiled from a random sample.
+ */
+export async function profileTable(
+	connection: DatabaseConnection,
+	dbType: DBType,
+	table: TableInfo,
+	columns: ColumnInfo[],
+	options: ProfileOptions = {},
+): Promise<TableProfile> {
+	const sampleSize = options.sampleSize ?? PROFILE_SAMPLE_THRESHOLD;
+	const estimate = await estimateRowCount(connection, dbType, table, options);
+	const sampled = estimate > sampleSize;
+	const source = `(${sampleQuery(dbType, table, sampled ? sampleSize / estimate : 1, sampleSize)}) profile_sample`;
+
+	const categories = columns.map((column) => columnCategory(column.dataType));
+	const statsResult = await connection.query(
+		buildStatsQuery(dbType, source, columns, categories),
+		[],
+		options,
+	);
+	const stats = statsResult.rows[0] ?? {};
+	const profiledRows = Number(stats.row_count ?? 0);
+
+	const profiles: ColumnProfile[] = [];
+	for (const [index, column] of columns.entries()) {
+		const category = categories[index];
+		const nonNull = Number(stats[`c${index}_count`] ?? 0);
+		const profile: ColumnProfile = {
+			name: column.name,
+			dataType: column.dataType,
+			category,
+			nullCount: profiledRows - nonNull,
+			nullFraction:
+				profiledRows > 0 ? (profiledRows - nonNull) / profiledRows : 0,
+			distinctCount: Number(stats[`c${index}_distinct`] ?? 0),
+			topValues: [],
+		};
+		if (category !== "binary" && category !== "other") {
+			profile.min = stats[`c${index}_min`] ?? undefined;
+			profile.max = stats[`c${index}_max`] ?? undefined;
+		}
+		if (category === "numeric" && nonNull > 0) {
+			profile.mean = Number(stats[`c${index}_mean`]);
+			profile.stddev = standardDeviation(dbType, stats, index);
+		}
+		if (category === "text" && nonNull > 0) {
+			profile.averageLength = Number(stats[`c${index}_avg_length`]);
+			profile.maxLength = Number(stats[`c${index}_max_length`]);
+		}
+		if (category !== "binary" && nonNull > 0) {
+			const top = await connection.query(
+				buildTopValuesQuery(
+					dbType,
+					source,
+					column,
+					category,
+					options.topValues ?? DEFAULT_TOP_VALUES,
+				),
+				[],
+				options,
+			);
+			profile.topValues = top.rows.map((row) => ({
+				value: row.value,
+				count: Number(row.frequency),
+			}));
+		}
+		profiles.push(profile);
+	}
+
+	return {
+		rowCount: sampled ? estimate : profiledRows,
+		profiledRows,
+		sampled,
+		profiledAt: new Date().toISOString(),
+		columns: profiles,
+	};
+}
+
+/**
+ * Postgres and MySQL keep a row estimate that costs nothing to read;
+ * SQLite counts, which is cheap for a local file.
+ */
+async function estimateRowCount(
+	connection: DatabaseConnection,
+	dbType: DBType,
+	table: TableInfo,
+	options?: QueryOptions,
+): Promise<number> {
+	let rows: QueryRow[];
+	switch (dbType) {
+		case DBType.PostgreSQL:
+			({ rows } = await connection.query(
+				`
+          SELECT c.reltuples::bigint AS estimate
+          FROM pg_class c
+          JOIN pg_namespace n ON n.oid = c.relnamespace
+          WHERE c.relname = $1
+            AND n.nspname = $2
+        `,
+				[table.name, table.schema ?? "public"],
+				options,
+			));
+			break;
+		case DBType.MySQL:
+			({ rows } = await connection.query(
+				`
+          SELECT TABLE_ROWS AS estimate
+          FROM information_schema.TABLES
+          WHERE TABLE_SCHEMA = COALESCE(?, DATABASE())
+            AND TABLE_NAME = ?
+        `,
+				[table.schema ?? null, table.name],
+				options,
+			));
+			break;
+		default:
+			({ rows } = await connection.query(
+				`SELECT COUNT(*) AS estimate FROM ${qualifiedName(dbType, table)}`,
+				[],
+				options,
+			));
+	}
+	// Postgres reports -1 for tables that were never analyzed
+	return Math.max(Number(rows[0]?.estimate ?? 0), 0);
+}
+
+function sampleQuery(
+	dbType: DBType,
+	table: TableInfo,
+	fraction: number,
+	sampleSize: number,
+): string {
+	const from = qualifiedName(dbType, table);
+	if (fraction >= 1) {
+		return `SELECT * FROM ${from}`;
+	}
+	switch (dbType) {
+		case DBType.PostgreSQL:
+			// Views have no pages to sample; take the first rows instead
+			return table.type === "table"
+				? `SELECT * FROM ${from} TABLESAMPLE SYSTEM (${fraction * 100})`
+				: `SELECT * FROM ${from} LIMIT ${sampleSize}`;
+		case DBType.MySQL:
+			return `SELECT * FROM ${from} WHERE RAND() < ${fraction}`;
+		default:
+			return `SELECT * FROM ${from} WHERE abs(random()) % 1000000 < ${Math.ceil(fraction * 1_000_000)}`;
+	}
+}
+
+/**
+ * An expression to count and group by. Postgres cannot compare json,
+ * and its catch-all types are safest as text.
+ */
+function groupable(
+	dbType: DBType,
+	column: ColumnInfo,
+	category: ColumnCategory,
+): string {
+	const name = quoteIdentifier(dbType, column.name);
+	return dbType === DBType.PostgreSQL && category === "other"
+		? `${name}::text`
+		: name;
+}
+
+function buildStatsQuery(
+	dbType: DBType,
+	source: string,
+	columns: ColumnInfo[],
+	categories: ColumnCategory[],
+): string {
+	const length = dbType === DBType.MySQL ? "CHAR_LENGTH" : "LENGTH";
+	const selects = ["COUNT(*) AS row_count"];
+	for (const [index, column] of columns.entries()) {
+		const category = categories[index];
+		const name = quoteIdentifier(dbType, column.name);
+		const prefix = `c${index}`;
+		selects.push(
+			`COUNT(${name}) AS ${prefix}_count`,
+			`COUNT(DISTINCT ${groupable(dbType, column, category)}) AS ${prefix}_distinct`,
+		);
+		if (category !== "binary" && category !== "other") {
+			selects.push(
+				`MIN(${name}) AS ${prefix}_min`,
+				`MAX(${name}) AS ${prefix}_max`,
+			);
+		}
+		if (category === "numeric") {
+			selects.push(`AVG(${name}) AS ${prefix}_mean`);
+			// SQLite has no STDDEV; the square mean gives the variance
+			selects.push(
+				dbType === DBType.SQLite
+					? `AVG(${name} * ${name}) AS ${prefix}_square_mean`
+					: `STDDEV_POP(${name}) AS ${prefix}_stddev`,
+			);
+		}
+		if (category === "text") {
+			selects.push(
+				`AVG(${length}(${name})) AS ${prefix}_avg_length`,
+				`MAX(${length}(${name})) AS ${prefix}_max_length`,
+			);
+		}
+	}
+	return `SELECT\n  ${selects.join(",\n  ")}\nFROM ${source}`;
+}
+
+function buildTopValuesQuery(
+	dbType: DBType,
+	source: string,
+	column: ColumnInfo,
+	category: ColumnCategory,
+	limit: number,
+): string {
+	const value = groupable(dbType, column, category);
+	return `SELECT ${value} AS value, COUNT(*) AS frequency FROM ${source} WHERE ${quoteIdentifier(dbType, column.name)} IS NOT NULL GROUP BY ${value} ORDER BY frequency DESC, value LIMIT ${limit}`;
+}
+
+function standardDeviation(
+	dbType: DBType,
+	stats: QueryRow,
+	index: number,
+): number {
+	if (dbType !== DBType.SQLite) {
+		return Number(stats[`c${index}_stddev`]);
+	}
+	const mean = Number(stats[`c${index}_mean`]);
+	const variance = Number(stats[`c${index}_square_mean`]) - mean * mean;
+	// Rounding can leave a tiny negative variance for constant columns
+	return Math.sqrt(Math.max(variance, 0));
+}
@@ -0,0 +1,166 @@
+import { throwIfAborted } from "./cancellation.js";
+import { ConnectionLostError, DatabaseError } from "./errors.js";
+import type { QueryOptions, RetryConfig } from "./types.js";
+
+export interface RetryPolicy {
+	maxAttempts: number;
+	initialDelayMillis: number;
+	maxDelayMillis: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 4,
+	initialDelayMillis: 250,
+	maxDelayMillis: 5_000,
+};
+
+/** Failures where the statement never reached the server. */
+const NOT_SENT_CODES = new Set([
+	"ECONNREFUSED",
+	"EHOSTUNREACH",
+	"ENETUNREACH",
+	"EAI_AGAIN",
+	// PostgreSQL: the server is starting up or shutting down
+	"57P03",
+	// MySQL: too many connections
+	"ER_CON_COUNT_ERROR",
+]);
+
+/** Failures where the connection dropped with the statement in flight. */
+const DROPPED_CODES = new Set([
+	"ECONNRESET",
+	"EPIPE",
+	"ETIMEDOUT",
+	"PROTOCOL_CONNECTION_LOST",
+]);
+
+const READ_KEYWORDS = new Set([
+	"select",
+	"show",
+	"explain",
+	"describe",
+	"desc",
+	"values",
+	"table",
+	"with",
+]);
+
+export function resolveRetryPolicy(
+	config: RetryConfig | false | undefined,
+): RetryPolicy | null {
+	if (config === false) {
+		return null;
+	}
+	const policy = { ...DEFAULT_RETRY_POLICY, ...config };
+	return policy.maxAttempts > 1 ? policy : null;
+}
+
+/**
+ * Whether a failure is worth retrying for this statement: anything that
+ * never reached the server, or an idempotent read whose connection dropped.
+ */
+export function isRetryable(error: unknown, sql: string): boolean {
+	if (!(error instanceof DatabaseError)) {
+		return false;
+	}
+	const code = error.code ?? "";
+	if (NOT_SENT_CODES.has(code)) {
+		return true;
+	}
+	if (error instanceof ConnectionLostError || DROPPED_CODES.has(code)) {
+		return isIdempotentRead(sql);
+	}
+	return false;
+}
+
+/**
+ * Classify a statement by its leading keyword. Reads that write as a side
+ * effect (`SELECT ... INTO`, `EXPLAIN ANALYZE`, data-modifying CTEs) are
+ * treated as writes.
+ */
+export function isIdempotentRead(sql: string): boolean {
+	const text = sql
+		.replace(/\/\*[\s\S]*?\*\//g, " ")
+		.replace(/--[^\n]*/g, " ")
+		.replace(/'(?:[^']|'')*'/g, "''")
+		.trim()
+		.replace(/^\(+\s*/, "")
+		.toLowerCase();
+	const keyword = /^[a-z]+/.exec(text)?.[0];
+	if (!keyword || !READ_KEYWORDS.has(keyword)) {
+		return false;
+	}
+	if (/\binto\b/.test(text)) {
+		return false;
+	}
+	if (keyword === "explain" && /^explain\s+(?:\(\s*)?analy[sz]e\b/.test(text)) {
+		return false;
+	}
+	if (keyword === "with" && /\b(?:insert|update|delete|merge)\b/.test(text)) {
+		return false;
+	}
+	return true;
+}
+
+/** Exponential backoff with equal jitter: half fixed, half random. */
+export function retryDelay(
+	policy: RetryPolicy,
+	retry: number,
+	random: () => number = Math.random,
+): number {
+	const ceiling = Math.min(
+		policy.maxDelayMillis,
+		policy.initialDelayMillis * 2 ** (retry - 1),
+	);
+	return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/**
+ * Run a statement, retrying transient connection failures with backoff.
+ * Each attempt is a fresh call, so a pool hands out a new connection once
+ * the broken one has been discarded.
+ */
+export async function withRetry<T>(
+	policy: RetryPolicy | null,
+	sql: string,
+	options: QueryOptions | undefined,
+	run: () => Promise<T>,
+): Promise<T> {
+	let attempt = 1;
+	while (true) {
+		try {
+			return await run();
+		} catch (error) {
+			if (
+				!policy ||
+				attempt >= policy.maxAttempts ||
+				options?.signal?.aborted ||
+				!isRetryable(error, sql)
+			) {
+				throw error;
+			}
+			const delayMillis = retryDelay(policy, attempt);
+			attempt += 1;
+			options?.onRetry?.({
+				attempt,
+				maxAttempts: policy.maxAttempts,
+				delayMillis,
+				error: error as Error,
+			});
+			await sleep(delayMillis, options?.signal);
+			throwIfAborted(options);
+		}
+	}
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		const done = () => {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", done);
+			resolve();
+		};
+		const timer = setTimeout(done, ms);
+		signal?.addEventListener("abort", done, { once: true });
+	});
+}
@@ -0,0 +1,735 @@
+import { DBType, type TableInfo } from "../types/state.js";
+import {
+	checkClause,
+	columnDefinition,
+	createIndexStatement,
+	createTableStatement,
+	defaultExpression,
+	dropIndexStatement,
+	foreignKeyClause,
+	formatStatements,
+	primaryKeyClause,
+	qualifiedName,
+	quoteIdentifier,
+	serialSequenceStatements,
+	standaloneIndexes,
+	uniqueClause,
+} from "./ddl.js";
+import type {
+	CheckConstraintSchema,
+	ColumnSchema,
+	DatabaseSchema,
+	ForeignKeySchema,
+	IndexSchema,
+	PrimaryKeySchema,
+	TableSchema,
+	TriggerSchema,
+	UniqueConstraintSchema,
+} from "./introspection/index.js";
+
+export interface Changes<T> {
+	added: T[];
+	removed: T[];
+}
+
+export type ColumnChangeKind = "type" | "nullable" | "default";
+
+export interface ColumnChange {
+	name: string;
+	from: ColumnSchema;
+	to: ColumnSchema;
+	changes: ColumnChangeKind[];
+}
+
+export interface TableDiff {
+	/** The table as it exists in the schema being migrated. */
+	from: TableSchema;
+	/** The table as the migration should leave it. */
+	to: TableSchema;
+	columns: Changes<ColumnSchema> & { changed: ColumnChange[] };
+	/** Set when the primary key columns differ. */
+	primaryKey: {
+		from: PrimaryKeySchema | null;
+		to: PrimaryKeySchema | null;
+	} | null;
+	indexes: Changes<IndexSchema>;
+	foreignKeys: Changes<ForeignKeySchema>;
+	uniqueConstraints: Changes<UniqueConstraintSchema>;
+	checkConstraints: Changes<CheckConstraintSchema>;
+}
+
+/** What it takes to turn the `from` schema into the `to` schema. */
+export interface SchemaDiff {
+	from: DBType;
+	to: DBType;
+	tables: Changes<TableSchema> & { changed: TableDiff[] };
+	/** Views and triggers of `from`, which rebuilding a table puts back. */
+	dependents: { views: TableSchema[]; triggers: TriggerSchema[] };
+}
+
+/** Common spellings of the same type across dialects and catalogs. */
+const TYPE_ALIASES: Record<string, string> = {
+	int: "integer",
+	int4: "integer",
+	int8: "bigint",
+	int2: "smallint",
+	bool: "boolean",
+	"character varying": "varchar",
+	character: "char",
+	float8: "double precision",
+	double: "double precision",
+	float4: "real",
+	"timestamp without time zone": "timestamp",
+	"timestamp with time zone": "timestamptz",
+	"time without time zone": "time",
+};
+
+/**
+ * Compare two schema models, e.g. production against staging or a live
+ * database against a snapshot. Only base tables are compared; views and
+ * materialized views are left out.
+ */
+export function diffSchemas(
+	from: DatabaseSchema,
+	to: DatabaseSchema,
+): SchemaDiff {
+	const qualify = sharesSchemas(from, to);
+	const key = (table: TableInfo) =>
+		qualify ? `${table.schema ?? ""}.${table.name}` : table.name;
+	const fromTables = new Map(
+		baseTables(from).map((table) => [key(table), table]),
+	);
+	const toTables = new Map(
+		(qualify ? baseTables(to) : moveToSchemasOf(from, baseTables(to))).map(
+			(table) => [key(table), table],
+		),
+	);
+
+	const diff: SchemaDiff = {
+		from: from.dbType,
+		to: to.dbType,
+		tables: { added: [], removed: [], changed: [] },
+		dependents: {
+			views: from.tables.filter((table) => table.type !== "table"),
+			triggers: from.triggers ?? [],
+		},
+	};
+	for (const [name, table] of toTables) {
+		const existing = fromTables.get(name);
+		if (!existing) {
+			diff.tables.added.push(table);
+			continue;
+		}
+		const tableDiff = diffTables(existing, table);
+		if (tableDiff) {
+			diff.tables.changed.push(tableDiff);
+		}
+	}
+	for (const [name, table] of fromTables) {
+		if (!toTables.has(name)) {
+			diff.tables.removed.push(table);
+		}
+	}
+	return diff;
+}
+
+export function isEmptyDiff(diff: SchemaDiff): boolean {
+	return (
+		diff.tables.added.length === 0 &&
+		diff.tables.removed.length === 0 &&
+		diff.tables.changed.length === 0
+	);
+}
+
+export interface DiffLine {
+	change: "added" | "removed" | "changed";
+	/** 0 for tables, 1 for what changed inside a table. */
+	depth: number;
+	text: string;
+}
+
+/** A readable outline of a diff, one line per change. */
+export function describeDiff(diff: SchemaDiff): DiffLine[] {
+	const lines: DiffLine[] = [];
+	const line = (change: DiffLine["change"], depth: number, text: string) =>
+		lines.push({ change, depth, text });
+
+	for (const table of diff.tables.added) {
+		line("added", 0, `table ${tableLabel(table)}`);
+	}
+	for (const table of diff.tables.removed) {
+		line("removed", 0, `table ${tableLabel(table)}`);
+	}
+	for (const table of diff.tables.changed) {
+		line("changed", 0, `table ${tableLabel(table.from)}`);
+		for (const column of table.columns.added) {
+			line("added", 1, `column ${column.name} ${column.dataType}`);
+		}
+		for (const column of table.columns.removed) {
+			line("removed", 1, `column ${column.name}`);
+		}
+		for (const change of table.columns.changed) {
+			const details: Record<ColumnChangeKind, string> = {
+				type: `type ${change.from.dataType} → ${change.to.dataType}`,
+				nullable: change.to.nullable ? "nullable" : "not null",
+				default: `default ${change.from.defaultValue ?? "none"} → ${change.to.defaultValue ?? "none"}`,
+			};
+			line(
+				"changed",
+				1,
+				`column ${change.name}: ${change.changes.map((kind) => details[kind]).join(", ")}`,
+			);
+		}
+		if (table.primaryKey) {
+			const columns = (key: PrimaryKeySchema | null) =>
+				key ? `(${key.columns.join(", ")})` : "none";
+			line(
+				"changed",
+				1,
+				`primary key ${columns(table.primaryKey.from)} → ${columns(table.primaryKey.to)}`,
+			);
+		}
+		const describe = <T>(
+			changes: Changes<T>,
+			label: (item: T) => string,
+		): void => {
+			for (const item of changes.added) {
+				line("added", 1, label(item));
+			}
+			for (const item of changes.removed) {
+				line("removed", 1, label(item));
+			}
+		};
+		describe(
+			table.indexes,
+			(index) =>
+				`${index.unique ? "unique index" : "index"} ${index.name} (${index.columns.join(", ")})`,
+		);
+		describe(
+			table.foreignKeys,
+			(foreignKey) =>
+				`foreign key (${foreignKey.columns.join(", ")}) → ${foreignKey.referencedTable}`,
+		);
+		describe(
+			table.uniqueConstraints,
+			(unique) => `unique (${unique.columns.join(", ")})`,
+		);
+		describe(table.checkConstraints, (check) => `check (${check.expression})`);
+	}
+	return lines;
+}
+
+function tableLabel(table: TableInfo): string {
+	return table.schema ? `${table.schema}.${table.name}` : table.name;
+}
+
+function baseTables(schema: DatabaseSchema): TableSchema[] {
+	return schema.tables.filter((table) => table.type === "table");
+}
+
+/**
+ * Match tables by schema and name when both sides use the same schemas,
+ * otherwise by name alone, so a SQLite fixture lines up with `public`.
+ */
+function sharesSchemas(from: DatabaseSchema, to: DatabaseSchema): boolean {
+	const toSchemas = new Set(to.tables.map((table) => table.schema));
+	return from.tables.some(
+		(table) => table.schema !== undefined && toSchemas.has(table.schema),
+	);
+}
+
+/**
+ * Tables matched by name alone, e.g. `app_prod` against `app_staging`,
+ * put in the schema of the database being migrated: that of the table
+ * with the same name, or else the one schema all its tables are in. Keys
+ * pointing at them move along.
+ */
+function moveToSchemasOf(
+	from: DatabaseSchema,
+	tables: TableSchema[],
+): TableSchema[] {
+	const schemas = new Map(
+		baseTables(from).map((table) => [table.name, table.schema]),
+	);
+	const used = new Set(schemas.values());
+	const fallback =
+		used.size === 1
+			? [...used][0]
+			: used.size === 0 && from.schemas.length === 1
+				? from.schemas[0]
+				: undefined;
+	const schemaOf = (name: string) =>
+		schemas.has(name) ? schemas.get(name) : fallback;
+	return tables.map((table) => ({
+		...table,
+		schema: schemaOf(table.name),
+		foreignKeys: table.foreignKeys.map((foreignKey) => ({
+			...foreignKey,
+			referencedSchema: schemaOf(foreignKey.referencedTable),
+		})),
+	}));
+}
+
+function diffTables(from: TableSchema, to: TableSchema): TableDiff | null {
+	const fromColumns = new Map(
+		from.columns.map((column) => [column.name, column]),
+	);
+	const toColumns = new Map(to.columns.map((column) => [column.name, column]));
+	const changed: ColumnChange[] = [];
+	for (const column of to.columns) {
+		const existing = fromColumns.get(column.name);
+		if (!existing) {
+			continue;
+		}
+		const changes = diffColumn(existing, column);
+		if (changes.length > 0) {
+			changed.push({ name: column.name, from: existing, to: column, changes });
+		}
+	}
+
+	const fromKey = from.primaryKey?.columns ?? [];
+	const toKey = to.primaryKey?.columns ?? [];
+	const diff: TableDiff = {
+		from,
+		to,
+		columns: {
+			added: to.columns.filter((column) => !fromColumns.has(column.name)),
+			removed: from.columns.filter((column) => !toColumns.has(column.name)),
+			changed,
+		},
+		primaryKey:
+			fromKey.join("\u0000") === toKey.join("\u0000")
+				? null
+				: { from: from.primaryKey, to: to.primaryKey },
+		indexes: diffBy(standaloneIndexes(from), standaloneIndexes(to), (index) =>
+			[index.unique ? "unique" : "", ...index.columns].join("\u0000"),
+		),
+		foreignKeys: diffBy(from.foreignKeys, to.foreignKeys, (foreignKey) =>
+			[
+				...foreignKey.columns,
+				"->",
+				foreignKey.referencedTable,
+				...foreignKey.referencedColumns,
+				foreignKey.onUpdate,
+				foreignKey.onDelete,
+			].join("\u0000"),
+		),
+		uniqueConstraints: diffBy(
+			from.uniqueConstraints,
+			to.uniqueConstraints,
+			(unique) => unique.columns.join("\u0000"),
+		),
+		checkConstraints: diffBy(
+			from.checkConstraints,
+			to.checkConstraints,
+			(check) => normalizeExpression(check.expression),
+		),
+	};
+
+	const unchanged =
+		diff.columns.added.length === 0 &&
+		diff.columns.removed.length === 0 &&
+		diff.columns.changed.length === 0 &&
+		diff.primaryKey === null &&
+		[
+			diff.indexes,
+			diff.foreignKeys,
+			diff.uniqueConstraints,
+			diff.checkConstraints,
+		].every((changes) => changes.added.length + changes.removed.length === 0);
+	return unchanged ? null : diff;
+}
+
+function diffColumn(from: ColumnSchema, to: ColumnSchema): ColumnChangeKind[] {
+	const changes: ColumnChangeKind[] = [];
+	if (normalizeType(from.dataType) !== normalizeType(to.dataType)) {
+		changes.push("type");
+	}
+	if (from.nullable !== to.nullable) {
+		changes.push("nullable");
+	}
+	if (
+		normalizeDefault(from.defaultValue) !== normalizeDefault(to.defaultValue)
+	) {
+		changes.push("default");
+	}
+	return changes;
+}
+
+/**
+ * Constraints and indexes are named differently from one environment to
+ * the next, so match them on what they cover rather than on their names.
+ */
+function diffBy<T>(
+	from: T[],
+	to: T[],
+	signature: (item: T) => string,
+): Changes<T> {
+	const fromSignatures = new Set(from.map(signature));
+	const toSignatures = new Set(to.map(signature));
+	return {
+		added: to.filter((item) => !fromSignatures.has(signature(item))),
+		removed: from.filter((item) => !toSignatures.has(signature(item))),
+	};
+}
+
+function normalizeType(dataType: string): string {
+	const type = dataType
+		.toLowerCase()
+		.replace(/\s+/g, " ")
+		.replace(/\s*([(),])\s*/g, "$1")
+		.trim();
+	const base = /^[^(]*/.exec(type)?.[0] ?? type;
+	return (TYPE_ALIASES[base] ?? base) + type.slice(base.length);
+}
+
+/** `('draft'::character varying)` → `'draft'` */
+function normalizeDefault(value: string | null): string | null {
+	if (value === null || value.toUpperCase() === "NULL") {
+		return null;
+	}
+	let normalized = value.trim();
+	while (/^\(.*\)$/s.test(normalized)) {
+		normalized = normalized.slice(1, -1).trim();
+	}
+	const cast = /::[\w ]+(?:\(\d+\))?(?:\[\])?$/;
+	while (cast.test(normalized)) {
+		normalized = normalized.replace(cast, "");
+	}
+	return normalized;
+}
+
+function normalizeExpression(expression: string): string {
+	let normalized = expression.replace(/\s+/g, " ").trim().toLowerCase();
+	while (/^\(.*\)$/s.test(normalized)) {
+		normalized = normalized.slice(1, -1).trim();
+	}
+	return normalized;
+}
+
+/**
+ * The statements that bring a database shaped like `diff.from` in line
+ * with `diff.to`, in the given dialect: drop what goes away first, create
+ * tables before keys that point at them, and add foreign keys last.
+ */
+export function generateMigration(
+	diff: SchemaDiff,
+	dbType: DBType = diff.from,
+): string[] {
+	const drops: string[] = [];
+	const changes: string[] = [];
+	const creates: string[] = [];
+	const foreignKeys: string[] = [];
+
+	for (const table of diff.tables.removed) {
+		drops.push(`DROP TABLE ${qualifiedName(dbType, table)}`);
+	}
+
+	for (const added of diff.tables.added) {
+		// Tables are already in the migrated database's schemas; a migration
+		// in another dialect leaves them to the connection's default schema
+		const table =
+			dbType === DBType.SQLite || dbType !== diff.from
+				? { ...added, schema: undefined }
+				: added;
+		const sequences = serialSequenceStatements(dbType, table, table.columns);
+		creates.push(
+			...sequences.before,
+			createTableStatement(dbType, table, {
+				withoutForeignKeys: true,
+				source: diff.to,
+			}),
+			...sequences.after,
+			...standaloneIndexes(table).map((index) =>
+				createIndexStatement(dbType, table, index),
+			),
+		);
+		if (dbType !== DBType.SQLite) {
+			foreignKeys.push(
+				...table.foreignKeys.map(
+					(foreignKey) =>
+						`ALTER TABLE ${qualifiedName(dbType, table)} ADD ${foreignKeyClause(dbType, foreignKey)}`,
+				),
+			);
+		}
+	}
+
+	const rebuilt: string[] = [];
+	for (const table of diff.tables.changed) {
+		if (dbType === DBType.SQLite && needsRebuild(table)) {
+			changes.push(...rebuildTable(table, diff.to));
+			rebuilt.push(table.from.name);
+			continue;
+		}
+		const target = qualifiedName(dbType, table.from);
+		// Keys go first: they may depend on columns or indexes dropped below
+		drops.push(
+			...table.foreignKeys.removed.map(
+				(foreignKey) =>
+					`ALTER TABLE ${target} ${dropForeignKey(dbType, foreignKey)}`,
+			),
+		);
+		changes.push(...alterTable(dbType, table, diff.to));
+		foreignKeys.push(
+			...table.foreignKeys.added.map(
+				(foreignKey) =>
+					`ALTER TABLE ${target} ADD ${foreignKeyClause(dbType, foreignKey)}`,
+			),
+		);
+	}
+
+	const statements = [...drops, ...creates, ...changes, ...foreignKeys];
+	if (rebuilt.length === 0) {
+		return statements;
+	}
+	// SQLite's documented table rebuild: with foreign key enforcement off,
+	// dropping a referenced table neither fails nor cascades, and the check
+	// before COMMIT reports rows the new definitions no longer accept. The
+	// pragma is a no-op inside a transaction, hence BEGIN after it.
+	const { views, triggers } = rebuildDependents(diff, rebuilt);
+	return [
+		"PRAGMA foreign_keys = OFF",
+		"BEGIN",
+		...triggers.map(
+			(trigger) =>
+				`DROP TRIGGER IF EXISTS ${quoteIdentifier(dbType, trigger.name)}`,
+		),
+		...views
+			.toReversed()
+			.map(
+				(view) => `DROP VIEW IF EXISTS ${quoteIdentifier(dbType, view.name)}`,
+			),
+		...statements,
+		...views.map(
+			(view) =>
+				`CREATE VIEW ${quoteIdentifier(dbType, view.name)} AS ${view.viewDefinition}`,
+		),
+		...triggers.map((trigger) => trigger.definition ?? ""),
+		"PRAGMA foreign_key_check",
+		"COMMIT",
+		"PRAGMA foreign_keys = ON",
+	];
+}
+
+/**
+ * The views and triggers a SQLite rebuild of `tables` has to drop and
+ * create again: DROP TABLE takes the table's own triggers with it, and
+ * the final RENAME fails while any view or trigger names a missing table.
+ * Views come in the order they can be created in.
+ */
+function rebuildDependents(
+	diff: SchemaDiff,
+	tables: string[],
+): { views: TableSchema[]; triggers: TriggerSchema[] } {
+	const names = [...tables];
+	const views: TableSchema[] = [];
+	let found = true;
+	while (found) {
+		found = false;
+		for (const view of diff.dependents.views) {
+			if (
+				!views.includes(view) &&
+				view.viewDefinition &&
+				names.some((name) => mentions(view.viewDefinition ?? "", name))
+			) {
+				views.push(view);
+				names.push(view.name);
+				found = true;
+			}
+		}
+	}
+	const triggers = diff.dependents.triggers.filter(
+		(trigger) =>
+			trigger.definition &&
+			(names.includes(trigger.table.name) ||
+				names.some((name) => mentions(trigger.definition ?? "", name))),
+	);
+	return { views, triggers };
+}
+
+/** Whether SQL names an object, bare or quoted. */
+function mentions(sql: string, name: string): boolean {
+	const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	return new RegExp(
+		`(?:^|[^\\w$])["\`[]?${escaped}["\`\\]]?(?![\\w$])`,
+		"i",
+	).test(sql);
+}
+
+/**
+ * What to check before running the migration that its SQL cannot say:
+ * Postgres only changes a column's type without USING where existing
+ * values cast to the new type automatically.
+ */
+export function migrationWarnings(
+	diff: SchemaDiff,
+	dbType: DBType = diff.from,
+): string[] {
+	if (dbType !== DBType.PostgreSQL) {
+		return [];
+	}
+	return diff.tables.changed.flatMap((table) =>
+		table.columns.changed
+			.filter((change) => change.changes.includes("type"))
+			.map(
+				(change) =>
+					`${tableLabel(table.from)}.${change.name}: ${change.from.dataType} → ${change.to.dataType} may need USING ${quoteIdentifier(dbType, change.name)}::${change.to.dataType} if existing values do not cast automatically`,
+			),
+	);
+}
+
+/** Join migration statements into a script. */
+export function formatMigration(statements: string[]): string {
+	return formatStatements(statements);
+}
+
+function dropForeignKey(dbType: DBType, foreignKey: ForeignKeySchema): string {
+	const name = quoteIdentifier(dbType, foreignKey.name);
+	return dbType === DBType.MySQL
+		? `DROP FOREIGN KEY ${name}`
+		: `DROP CONSTRAINT ${name}`;
+}
+
+function alterTable(
+	dbType: DBType,
+	table: TableDiff,
+	source: DBType,
+): string[] {
+	const target = qualifiedName(dbType, table.from);
+	const alter = (action: string) => `ALTER TABLE ${target} ${action}`;
+	const statements: string[] = [];
+
+	statements.push(
+		...table.indexes.removed.map((index) =>
+			dropIndexStatement(dbType, table.from, index),
+		),
+		...table.uniqueConstraints.removed.map((unique) =>
+			alter(
+				dbType === DBType.MySQL
+					? `DROP INDEX ${quoteIdentifier(dbType, unique.name)}`
+					: `DROP CONSTRAINT ${quoteIdentifier(dbType, unique.name)}`,
+			),
+		),
+		...table.checkConstraints.removed
+			.filter((check) => check.name)
+			.map((check) =>
+				alter(
+					`${dbType === DBType.MySQL ? "DROP CHECK" : "DROP CONSTRAINT"} ${quoteIdentifier(dbType, check.name ?? "")}`,
+				),
+			),
+	);
+	if (table.primaryKey?.from) {
+		statements.push(
+			alter(
+				dbType === DBType.MySQL || !table.primaryKey.from.name
+					? "DROP PRIMARY KEY"
+					: `DROP CONSTRAINT ${quoteIdentifier(dbType, table.primaryKey.from.name)}`,
+			),
+		);
+	}
+
+	statements.push(
+		...table.columns.added.flatMap((column) => {
+			const sequences = serialSequenceStatements(dbType, table.from, [column]);
+			return [
+				...sequences.before,
+				alter(`ADD COLUMN ${columnDefinition(dbType, column, source)}`),
+				...sequences.after,
+			];
+		}),
+		...table.columns.changed.flatMap((change) =>
+			alterColumn(dbType, change, source).map(alter),
+		),
+		...table.columns.removed.map((column) =>
+			alter(`DROP COLUMN ${quoteIdentifier(dbType, column.name)}`),
+		),
+	);
+
+	if (table.primaryKey?.to) {
+		statements.push(
+			alter(`ADD ${primaryKeyClause(dbType, table.primaryKey.to)}`),
+		);
+	}
+	statements.push(
+		...table.uniqueConstraints.added.map((unique) =>
+			alter(`ADD ${uniqueClause(dbType, unique)}`),
+		),
+		...table.checkConstraints.added.map((check) =>
+			alter(`ADD ${checkClause(dbType, check)}`),
+		),
+		...table.indexes.added.map((index) =>
+			createIndexStatement(dbType, table.from, index),
+		),
+	);
+	return statements;
+}
+
+function alterColumn(
+	dbType: DBType,
+	change: ColumnChange,
+	source: DBType,
+): string[] {
+	// MySQL restates the whole column instead of altering its parts
+	if (dbType === DBType.MySQL) {
+		return [`MODIFY COLUMN ${columnDefinition(dbType, change.to, source)}`];
+	}
+	const column = `ALTER COLUMN ${quoteIdentifier(dbType, change.name)}`;
+	const actions: string[] = [];
+	if (change.changes.includes("type")) {
+		actions.push(`${column} TYPE ${change.to.dataType}`);
+	}
+	if (change.changes.includes("nullable")) {
+		actions.push(`${column} ${change.to.nullable ? "DROP" : "SET"} NOT NULL`);
+	}
+	if (change.changes.includes("default")) {
+		const defaultValue = defaultExpression(dbType, change.to, source);
+		actions.push(
+			defaultValue === null
+				? `${column} DROP DEFAULT`
+				: `${column} SET DEFAULT ${defaultValue}`,
+		);
+	}
+	return actions;
+}
+
+/**
+ * SQLite's ALTER TABLE can only add and drop columns; anything else means
+ * copying the table into a new one with the wanted definition.
+ */
+function needsRebuild(table: TableDiff): boolean {
+	return (
+		table.columns.changed.length > 0 ||
+		table.primaryKey !== null ||
+		[table.foreignKeys, table.uniqueConstraints, table.checkConstraints].some(
+			(changes) => changes.added.length + changes.removed.length > 0,
+		) ||
+		// Key and unique columns cannot be dropped in place either
+		table.columns.removed.some(
+			(column) =>
+				column.isPrimaryKey ||
+				table.from.uniqueConstraints.some((unique) =>
+					unique.columns.includes(column.name),
+				),
+		)
+	);
+}
+
+function rebuildTable(table: TableDiff, source: DBType): string[] {
+	const dbType = DBType.SQLite;
+	const temporary = `${table.to.name}__new`;
+	const kept = table.to.columns
+		.filter((column) =>
+			table.from.columns.some((existing) => existing.name === column.name),
+		)
+		.map((column) => quoteIdentifier(dbType, column.name))
+		.join(", ");
+	return [
+		createTableStatement(dbType, table.to, { name: temporary, source }),
+		`INSERT INTO ${quoteIdentifier(dbType, temporary)} (${kept}) SELECT ${kept} FROM ${quoteIdentifier(dbType, table.from.name)}`,
+		`DROP TABLE ${quoteIdentifier(dbType, table.from.name)}`,
+		`ALTER TABLE ${quoteIdentifier(dbType, temporary)} RENAME TO ${quoteIdentifier(dbType, table.to.name)}`,
+		...standaloneIndexes(table.to).map((index) =>
+			createIndexStatement(dbType, { ...table.to, schema: undefined }, index),
+		),
+	];
+}
@@ -0,0 +1,290 @@
+import { performance } from "node:perf_hooks";
+import { DBType } from "../types/state.js";
+import { QueryCancelledError } from "./errors.js";
+import { IDENTIFIER_PART, IDENTIFIER_START, skipIgnored } from "./sql-lexer.js";
+import type {
+	DatabaseConnection,
+	PinnedClient,
+	QueryField,
+	QueryOptions,
+	QueryRow,
+} from "./types.js";
+
+export interface ScriptStatement {
+	/** Statement text without its trailing delimiter. */
+	sql: string;
+	/** Offset of the statement's first character within the script. */
+	offset: number;
+	params?: unknown[];
+}
+
+export interface ScriptOptions extends QueryOptions {
+	/** Keep running after a failing statement instead of stopping. */
+	continueOnError?: boolean;
+}
+
+export interface StatementResult {
+	sql: string;
+	offset: number;
+	rows: QueryRow[];
+	rowCount: number;
+	fields?: QueryField[];
+	durationMs: number;
+	error?: Error;
+}
+
+export interface ScriptResult {
+	statements: StatementResult[];
+	/** Statements that never ran because an earlier one failed. */
+	skipped: number;
+	durationMs: number;
+	/** The first failure, if any statement failed. */
+	error?: Error;
+	/**
+	 * Whether the script left a transaction it opened uncommitted, so it
+	 * was rolled back and its changes discarded.
+	 */
+	rolledBack: boolean;
+}
+
+/** Object kinds whose CREATE statement carries a BEGIN ... END body. */
+const COMPOUND_KINDS = new Set(["trigger", "procedure", "function", "event"]);
+const PLAIN_KINDS = new Set(["table", "view", "index"]);
+/** `END IF`, `END LOOP` etc. close blocks that are not counted. */
+const UNCOUNTED_END = new Set(["if", "loop", "while", "repeat"]);
+
+const OPENS_TRANSACTION = /^(?:begin|start\s+transaction)\b/i;
+/** `ROLLBACK TO SAVEPOINT` leaves the transaction open. */
+const CLOSES_TRANSACTION =
+	/^(?:commit|end|abort|rollback)\b(?!\s+(?:work\s+|transaction\s+)?to\b)/i;
+
+const DELIMITER_COMMAND = /^delimiter[ \t]+(\S+)[^\n]*(?:\n|$)/i;
+
+/**
+ * Split a script into statements for one dialect. Delimiters inside
+ * literals, comments and dollar-quoted bodies are ignored, MySQL's
+ * client-side `DELIMITER` command is honoured, and the `;` inside a
+ * trigger or routine's BEGIN ... END body does not end the statement.
+ * Statements that hold nothing but comments are dropped.
+ */
+export function splitStatements(
+	script: string,
+	dbType: DBType,
+): ScriptStatement[] {
+	const statements: ScriptStatement[] = [];
+	let delimiter = ";";
+	let start = 0;
+	let index = 0;
+	let hasCode = false;
+	let depth = 0;
+	let leadingWords: string[] = [];
+
+	const flush = (end: number) => {
+		const raw = script.slice(start, end);
+		if (hasCode) {
+			const sql = raw.trim();
+			statements.push({
+				sql,
+				offset: start + (raw.length - raw.trimStart().length),
+			});
+		}
+		hasCode = false;
+		depth = 0;
+		leadingWords = [];
+	};
+
+	while (index < script.length) {
+		const char = script[index];
+
+		if (dbType === DBType.MySQL && !hasCode) {
+			const command = DELIMITER_COMMAND.exec(script.slice(index));
+			if (command && /(?:^|\n)[ \t]*$/.test(script.slice(start, index))) {
+				delimiter = command[1];
+				index += command[0].length;
+				start = index;
+				continue;
+			}
+		}
+
+		const ignored = skipIgnored(script, index, dbType);
+		if (ignored) {
+			hasCode ||= !ignored.comment;
+			index = ignored.end;
+			continue;
+		}
+
+		if (
+			script.startsWith(delimiter, index) &&
+			(delimiter !== ";" || depth === 0)
+		) {
+			flush(index);
+			index += delimiter.length;
+			start = index;
+			continue;
+		}
+
+		if (
+			IDENTIFIER_START.test(char) &&
+			!IDENTIFIER_PART.test(script[index - 1] ?? "")
+		) {
+			let end = index + 1;
+			while (end < script.length && IDENTIFIER_PART.test(script[end])) {
+				end += 1;
+			}
+			const word = script.slice(index, end).toLowerCase();
+			hasCode = true;
+			if (leadingWords.length < 6) {
+				leadingWords.push(word);
+			}
+			if (isCompound(leadingWords)) {
+				if (word === "begin" || word === "case") {
+					depth += 1;
+				} else if (word === "end" && depth > 0) {
+					const following = /^\s+([A-Za-z_]+)/.exec(script.slice(end));
+					if (!following || !UNCOUNTED_END.has(following[1].toLowerCase())) {
+						depth -= 1;
+					}
+				}
+			}
+			index = end;
+			continue;
+		}
+
+		if (!/\s/.test(char)) {
+			hasCode = true;
+		}
+		index += 1;
+	}
+
+	flush(script.length);
+	return statements;
+}
+
+function isCompound(leadingWords: string[]): boolean {
+	if (leadingWords[0] !== "create") {
+		return false;
+	}
+	const kind = leadingWords
+		.slice(1)
+		.find((word) => COMPOUND_KINDS.has(word) || PLAIN_KINDS.has(word));
+	return kind !== undefined && COMPOUND_KINDS.has(kind);
+}
+
+/**
+ * Run statements in order on one pinned client, so a `BEGIN`, `SET` or
+ * temporary table applies to the statements after it. A failure stops the
+ * run unless `continueOnError` is set; a cancellation always stops it. Query
+ * options such as `timeoutMs` apply to each statement separately.
+ *
+ * When a statement fails, or the script opened a transaction, any
+ * transaction still open at the end is rolled back before the client goes
+ * back to the pool. The result says when that discarded a transaction the
+ * script left open.
+ */
+export async function runStatements(
+	connection: DatabaseConnection,
+	statements: ScriptStatement[],
+	options: ScriptOptions = {},
+): Promise<ScriptResult> {
+	if (!connection.withPinnedClient) {
+		return runInOrder(connection, statements, options);
+	}
+	return connection.withPinnedClient(async (client) => {
+		const result = await runInOrder(client, statements, options);
+		if (
+			result.error ||
+			result.statements.some((statement) =>
+				OPENS_TRANSACTION.test(statement.sql),
+			)
+		) {
+			await client.rollback();
+		}
+		return {
+			...result,
+			rolledBack: leavesTransactionOpen(result.statements),
+		};
+	});
+}
+
+/** Whether the statements that ran opened a transaction and never ended it. */
+function leavesTransactionOpen(statements: StatementResult[]): boolean {
+	let open = false;
+	for (const statement of statements) {
+		if (statement.error) {
+			continue;
+		}
+		if (OPENS_TRANSACTION.test(statement.sql)) {
+			open = true;
+		} else if (CLOSES_TRANSACTION.test(statement.sql)) {
+			open = false;
+		}
+	}
+	return open;
+}
+
+async function runInOrder(
+	client: Pick<PinnedClient, "query">,
+	statements: ScriptStatement[],
+	options: ScriptOptions,
+): Promise<ScriptResult> {
+	const { continueOnError = false, ...queryOptions } = options;
+	const results: StatementResult[] = [];
+	const scriptStart = performance.now();
+	let skipped = 0;
+	let firstError: Error | undefined;
+
+	for (const [position, statement] of statements.entries()) {
+		const start = performance.now();
+		try {
+			const result = await client.query(
+				statement.sql,
+				statement.params ?? [],
+				queryOptions,
+			);
+			results.push({
+				sql: statement.sql,
+				offset: statement.offset,
+				rows: result.rows,
+				rowCount: result.rowCount,
+				fields: result.fields,
+				durationMs: Math.round(performance.now() - start),
+			});
+		} catch (caught) {
+			const error =
+				caught instanceof Error ? caught : new Error(String(caught));
+			firstError ??= error;
+			results.push({
+				sql: statement.sql,
+				offset: statement.offset,
+				rows: [],
+				rowCount: 0,
+				durationMs: Math.round(performance.now() - start),
+				error,
+			});
+			if (!continueOnError || error instanceof QueryCancelledError) {
+				skipped = statements.length - position - 1;
+				break;
+			}
+		}
+	}
+
+	return {
+		statements: results,
+		skipped,
+		durationMs: Math.round(performance.now() - scriptStart),
+		error: firstError,
+		rolledBack: false,
+	};
+}
+
+export async function runScript(
+	connection: DatabaseConnection,
+	script: string,
+	options: ScriptOptions = {},
+): Promise<ScriptResult> {
+	return runStatements(
+		connection,
+		splitStatements(script, connection.type),
+		options,
+	);
+}
@@ -0,0 +1,141 @@
+import { DBType } from "../types/state.js";
+
+export const IDENTIFIER_START = /[A-Za-z_]/;
+export const IDENTIFIER_PART = /[A-Za-z0-9_$]/;
+
+const DOLLAR_QUOTE_TAG = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/;
+
+export interface IgnoredSpan {
+	/** Index just past the literal, quoted identifier or comment. */
+	end: number;
+	comment: boolean;
+}
+
+/**
+ * If a string literal, quoted identifier, comment or dollar-quoted body
+ * starts at `index`, return where it ends. Placeholders, delimiters and
+ * keywords inside such spans never count.
+ */
+export function skipIgnored(
+	sql: string,
+	index: number,
+	dbType: DBType,
+): IgnoredSpan | null {
+	const char = sql[index];
+	const next = sql[index + 1];
+	const previous = index > 0 ? sql[index - 1] : "";
+
+	if (char === "'") {
+		const backslashEscapes =
+			dbType === DBType.MySQL ||
+			(dbType === DBType.PostgreSQL &&
+				(previous === "E" || previous === "e") &&
+				!IDENTIFIER_PART.test(sql[index - 2] ?? ""));
+		return {
+			end: endOfQuoted(sql, index, "'", backslashEscapes),
+			comment: false,
+		};
+	}
+
+	if (char === '"') {
+		// MySQL treats double quotes as strings; elsewhere they quote identifiers
+		return {
+			end: endOfQuoted(sql, index, '"', dbType === DBType.MySQL),
+			comment: false,
+		};
+	}
+
+	if (char === "`" && dbType !== DBType.PostgreSQL) {
+		return { end: endOfQuoted(sql, index, "`", false), comment: false };
+	}
+
+	if (char === "[" && dbType === DBType.SQLite) {
+		const close = sql.indexOf("]", index + 1);
+		return { end: close === -1 ? sql.length : close + 1, comment: false };
+	}
+
+	if (
+		(char === "-" && next === "-") ||
+		(char === "#" && dbType === DBType.MySQL)
+	) {
+		const newline = sql.indexOf("\n", index);
+		return { end: newline === -1 ? sql.length : newline, comment: true };
+	}
+
+	if (char === "/" && next === "*") {
+		return {
+			end: endOfBlockComment(sql, index, dbType === DBType.PostgreSQL),
+			comment: true,
+		};
+	}
+
+	if (
+		char === "$" &&
+		dbType === DBType.PostgreSQL &&
+		!IDENTIFIER_PART.test(previous)
+	) {
+		const tag = DOLLAR_QUOTE_TAG.exec(sql.slice(index));
+		if (tag) {
+			const close = sql.indexOf(tag[0], index + tag[0].length);
+			return {
+				end: close === -1 ? sql.length : close + tag[0].length,
+				comment: false,
+			};
+		}
+	}
+
+	return null;
+}
+
+/** Index just past a quoted run; doubled quotes escape the quote itself. */
+function endOfQuoted(
+	sql: string,
+	start: number,
+	quote: string,
+	backslashEscapes: boolean,
+): number {
+	let index = start + 1;
+	while (index < sql.length) {
+		const char = sql[index];
+		if (backslashEscapes && char === "\\") {
+			index += 2;
+			continue;
+		}
+		if (char === quote) {
+			if (sql[index + 1] === quote) {
+				index += 2;
+				continue;
+			}
+			return index + 1;
+		}
+		index += 1;
+	}
+	return sql.length;
+}
+
+/** Index just past a block comment; PostgreSQL allows them to nest. */
+function endOfBlockComment(
+	sql: string,
+	start: number,
+	nested: boolean,
+): number {
+	let depth = 1;
+	let index = start + 2;
+	while (index < sql.length) {
+		if (nested && sql[index] === "/" && sql[index + 1] === "*") {
+			depth += 1;
+			index += 2;
+			continue;
+		}
+		if (sql[index] === "*" && sql[index + 1] === "/") {
+			depth -= 1;
+			index += 2;
+			if (depth === 0) {
+				return index;
+			}
+			continue;
+		}
+		index += 1;
+	}
+	return sql.length;
+}
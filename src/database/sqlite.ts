@@ -1,12 +1,22 @@
-import type { SQLQueryBindings } from "bun:sqlite";
+import type { SQLQueryBindings, Statement } from "bun:sqlite";
 import { Database } from "bun:sqlite";
 import { DBType } from "../types/state.js";
-import { ConnectionError, DatabaseError } from "./errors.js";
+import { throwIfAborted } from "./cancellation.js";
+import { translateSqliteError } from "./driver-errors.js";
+import { ConnectionError } from "./errors.js";
+import { resolveBatchSize } from "./stream.js";
+import { runInTransaction, SqlTransaction } from "./transaction.js";
 import type {
 	DatabaseConfig,
 	DatabaseConnection,
+	PinnedClient,
+	QueryField,
+	QueryOptions,
 	QueryResult,
+	QueryRow,
 	SQLiteDatabase,
+	StreamOptions,
+	Transaction,
 } from "./types.js";
 
 export class SQLiteConnection implements DatabaseConnection {
@@ -30,13 +40,20 @@ export class SQLiteConnection implements DatabaseConnection {
 		}
 	}
 
+	/**
+	 * bun:sqlite runs statements synchronously on the calling thread and
+	 * exposes no interrupt(), so an already-aborted signal stops a statement
+	 * before it starts but a running statement cannot be cut short.
+	 */
 	async query<T extends Record<string, unknown> = Record<string, unknown>>(
 		sql: string,
 		params: unknown[] = [],
+		options?: QueryOptions,
 	): Promise<QueryResult<T>> {
 		if (!this.db) {
 			await this.connect();
 		}
+		throwIfAborted(options);
 		try {
 			const statement = this.db!.query(sql);
 			const rows = params.length
@@ -45,20 +62,22 @@ export class SQLiteConnection implements DatabaseConnection {
 			return {
 				rows,
 				rowCount: rows.length,
+				fields: toQueryFields(statement),
 			};
 		} catch (error) {
-			throw new DatabaseError(
-				"SQLite query failed.",
-				error instanceof Error ? (error as { code?: string }).code : undefined,
-				error instanceof Error ? error.message : undefined,
-			);
+			throw translateSqliteError(error, "SQLite query failed.", sql);
 		}
 	}
 
-	async execute(sql: string, params: unknown[] = []): Promise<void> {
+	async execute(
+		sql: string,
+		params: unknown[] = [],
+		options?: QueryOptions,
+	): Promise<void> {
 		if (!this.db) {
 			await this.connect();
 		}
+		throwIfAborted(options);
 		try {
 			const statement = this.db!.query(sql);
 			if (params.length > 0) {
@@ -67,14 +86,133 @@ export class SQLiteConnection implements DatabaseConnection {
 				statement.run();
 			}
 		} catch (error) {
-			throw new DatabaseError(
+			throw translateSqliteError(
+				error,
 				"SQLite statement execution failed.",
-				error instanceof Error ? (error as { code?: string }).code : undefined,
-				error instanceof Error ? error.message : undefined,
+				sql,
 			);
 		}
 	}
 
+	/**
+	 * Open a transaction on the database handle. SQLite has a single handle
+	 * per connection, so the transaction is pinned by construction. That
+	 * also means it is not isolated: anything else run on this connection
+	 * while the transaction is open joins it, so callers must keep other
+	 * work off the connection until the transaction finishes.
+	 */
+	async begin(): Promise<Transaction> {
+		if (!this.db) {
+			await this.connect();
+		}
+
+		const tx = new SqlTransaction(this.type, {
+			query: <T extends QueryRow = QueryRow>(
+				sql: string,
+				params: unknown[] = [],
+			) => this.query<T>(sql, params),
+			// A COMMIT that fails (a deferred foreign key, SQLITE_BUSY) leaves
+			// the transaction open on the shared handle; end it here so later
+			// statements do not silently join it.
+			release: (discard) => {
+				if (discard && this.db?.inTransaction) {
+					try {
+						this.db.exec("ROLLBACK");
+					} catch {
+						// the handle is already out of the transaction
+					}
+				}
+			},
+		});
+		await tx.open("BEGIN");
+		return tx;
+	}
+
+	async transaction<T>(fn: (tx: Transaction) => Promise<T>): Promise<T> {
+		return runInTransaction(await this.begin(), fn);
+	}
+
+	/**
+	 * SQLite has one handle per connection, so every statement is already
+	 * pinned; this only adds the rollback.
+	 */
+	async withPinnedClient<T>(
+		fn: (client: PinnedClient) => Promise<T>,
+	): Promise<T> {
+		if (!this.db) {
+			await this.connect();
+		}
+
+		return fn({
+			type: this.type,
+			query: <T extends QueryRow = QueryRow>(
+				sql: string,
+				params: unknown[] = [],
+				options?: QueryOptions,
+			) => this.query<T>(sql, params, options),
+			rollback: async () => {
+				if (this.db?.inTransaction) {
+					this.db.exec("ROLLBACK");
+				}
+			},
+		});
+	}
+
+	/**
+	 * Stream rows by stepping the prepared statement instead of collecting
+	 * the full result with `all()`.
+	 */
+	async *stream<T extends QueryRow = QueryRow>(
+		sql: string,
+		params: unknown[] = [],
+		options: StreamOptions = {},
+	): AsyncGenerator<T[], void, unknown> {
+		if (!this.db) {
+			await this.connect();
+		}
+
+		const batchSize = resolveBatchSize(options);
+		let iterator: IterableIterator<unknown>;
+		try {
+			const statement = this.db!.prepare(sql);
+			iterator = statement.iterate(...(params as SQLQueryBindings[]));
+		} catch (error) {
+			throw translateSqliteError(error, "SQLite stream failed.", sql);
+		}
+
+		let completed = false;
+		try {
+			while (true) {
+				const batch: T[] = [];
+				let next: IteratorResult<unknown>;
+				try {
+					next = iterator.next();
+					while (!next.done) {
+						batch.push(next.value as T);
+						if (batch.length >= batchSize) {
+							break;
+						}
+						next = iterator.next();
+					}
+				} catch (error) {
+					throw translateSqliteError(error, "SQLite stream failed.", sql);
+				}
+				if (batch.length > 0) {
+					yield batch;
+				}
+				if (next.done) {
+					break;
+				}
+			}
+			completed = true;
+		} finally {
+			if (!completed) {
+				// Reset the statement so the database is not left mid-step
+				iterator.return?.();
+			}
+		}
+	}
+
 	async close(): Promise<void> {
 		if (this.db) {
 			this.db.close();
@@ -82,3 +220,19 @@ export class SQLiteConnection implements DatabaseConnection {
 		}
 	}
 }
+
+/**
+ * Column metadata for an executed statement. SQLite only knows declared
+ * types for table columns; expressions report "unknown".
+ */
+function toQueryFields(statement: Statement): QueryField[] | undefined {
+	const names = statement.columnNames;
+	if (!names?.length) {
+		return undefined;
+	}
+	const declaredTypes = statement.declaredTypes ?? [];
+	return names.map((name, index) => ({
+		name,
+		dataType: declaredTypes[index]?.toLowerCase() ?? "unknown",
+	}));
+}
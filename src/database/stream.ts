@@ -0,0 +1,40 @@
+import {
+	type DatabaseConnection,
+	DEFAULT_STREAM_BATCH_SIZE,
+	type QueryRow,
+	type StreamOptions,
+} from "./types.js";
+
+export function resolveBatchSize(options?: StreamOptions): number {
+	const size = Math.floor(options?.batchSize ?? DEFAULT_STREAM_BATCH_SIZE);
+	return Number.isFinite(size) && size > 0 ? size : DEFAULT_STREAM_BATCH_SIZE;
+}
+
+/**
+ * Remove trailing semicolons so a statement can be wrapped (e.g. in a cursor).
+ */
+export function stripTrailingSemicolons(sql: string): string {
+	return sql.replace(/[\s;]+$/, "");
+}
+
+/**
+ * Stream a query in chunks, falling back to a buffered query for
+ * connections that do not implement `stream()`.
+ */
+export async function* streamQuery<T extends QueryRow = QueryRow>(
+	connection: DatabaseConnection,
+	sql: string,
+	params: unknown[] = [],
+	options: StreamOptions = {},
+): AsyncGenerator<T[], void, unknown> {
+	if (connection.stream) {
+		yield* connection.stream<T>(sql, params, options);
+		return;
+	}
+
+	const batchSize = resolveBatchSize(options);
+	const result = await connection.query<T>(sql, params);
+	for (let index = 0; index < result.rows.length; index += batchSize) {
+		yield result.rows.slice(index, index + batchSize);
+	}
+}
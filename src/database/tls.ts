@@ -0,0 +1,142 @@
+import { readFileSync } from "fs";
+import { ConnectionError } from "./errors.js";
+import type { DatabaseConfig, SslMode, TlsOptions } from "./types.js";
+
+export const SSL_MODES: readonly SslMode[] = [
+	"disable",
+	"prefer",
+	"require",
+	"verify-ca",
+	"verify-full",
+];
+
+/** MySQL's own `ssl-mode` spellings, mapped onto the libpq modes. */
+const MYSQL_SSL_MODES: Record<string, SslMode> = {
+	disabled: "disable",
+	preferred: "prefer",
+	required: "require",
+	verify_ca: "verify-ca",
+	verify_identity: "verify-full",
+};
+
+/**
+ * Connection-string parameters consumed here rather than by the driver.
+ * Left in place, pg-connection-string turns `ssl` into driver TLS options
+ * that replace the resolved ones, and mysql2 reads it as an SSL profile.
+ */
+const TLS_PARAMS = [
+	"ssl",
+	"sslmode",
+	"ssl-mode",
+	"sslrootcert",
+	"sslcert",
+	"sslkey",
+];
+
+const LOOPBACK_HOSTS = new Set(["", "localhost", "127.0.0.1", "::1", "[::1]"]);
+
+/**
+ * TLS settings with certificate files already loaded. `ca`, `cert` and
+ * `key` hold PEM contents, not paths.
+ */
+export interface ResolvedTls {
+	mode: SslMode;
+	ca?: string;
+	cert?: string;
+	key?: string;
+}
+
+/**
+ * Work out the TLS settings for a connection and return the connection
+ * string with the TLS parameters removed, so the driver's own URL parsing
+ * cannot override them.
+ *
+ * Explicit `config.tls` members win over connection-string parameters.
+ * Without a mode, loopback hosts use `prefer` and every other host uses
+ * `verify-full`, so remote certificates are always checked unless the
+ * connection opts out.
+ */
+export function resolveTls(config: DatabaseConfig): {
+	connectionString: string;
+	tls: ResolvedTls;
+} {
+	let url: URL | null = null;
+	try {
+		url = new URL(config.connectionString);
+	} catch {
+		// not URL-shaped; only config.tls can configure TLS
+	}
+
+	const fromUrl: TlsOptions = {};
+	let stripped = false;
+	if (url) {
+		const rawMode =
+			url.searchParams.get("sslmode") ?? url.searchParams.get("ssl-mode");
+		const rawSsl = url.searchParams.get("ssl");
+		if (rawMode !== null) {
+			fromUrl.mode = parseSslMode(rawMode);
+		} else if (rawSsl !== null && /^(?:false|0)$/i.test(rawSsl)) {
+			// ssl=true only asks for what the default already does
+			fromUrl.mode = "disable";
+		}
+		fromUrl.caFile = url.searchParams.get("sslrootcert") ?? undefined;
+		fromUrl.certFile = url.searchParams.get("sslcert") ?? undefined;
+		fromUrl.keyFile = url.searchParams.get("sslkey") ?? undefined;
+		for (const param of TLS_PARAMS) {
+			if (url.searchParams.has(param)) {
+				url.searchParams.delete(param);
+				stripped = true;
+			}
+		}
+	}
+
+	const options: TlsOptions = {
+		mode: config.tls?.mode ?? fromUrl.mode,
+		caFile: config.tls?.caFile ?? fromUrl.caFile,
+		certFile: config.tls?.certFile ?? fromUrl.certFile,
+		keyFile: config.tls?.keyFile ?? fromUrl.keyFile,
+	};
+	const host = url ? url.hostname : null;
+	const mode =
+		options.mode ??
+		(host !== null && LOOPBACK_HOSTS.has(host) ? "prefer" : "verify-full");
+
+	return {
+		connectionString:
+			url && stripped ? url.toString() : config.connectionString,
+		tls: {
+			mode,
+			ca: readPem(options.caFile, "CA certificate"),
+			cert: readPem(options.certFile, "client certificate"),
+			key: readPem(options.keyFile, "client key"),
+		},
+	};
+}
+
+export function parseSslMode(value: string): SslMode {
+	const normalized = value.trim().toLowerCase();
+	const mode = (SSL_MODES as readonly string[]).includes(normalized)
+		? (normalized as SslMode)
+		: MYSQL_SSL_MODES[normalized];
+	if (!mode) {
+		throw new ConnectionError(
+			`Unsupported sslmode "${value}". Use one of: ${SSL_MODES.join(", ")}.`,
+		);
+	}
+	return mode;
+}
+
+function readPem(path: string | undefined, label: string): string | undefined {
+	if (!path) {
+		return undefined;
+	}
+	try {
+		return readFileSync(path, "utf-8");
+	} catch (error) {
+		throw new ConnectionError(
+			`Failed to read TLS ${label} from ${path}.`,
+			error instanceof Error ? (error as { code?: string }).code : undefined,
+			error instanceof Error ? error.message : undefined,
+		);
+	}
+}
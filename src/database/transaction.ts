@@ -0,0 +1,167 @@
+import type { DBType } from "../types/state.js";
+import { DatabaseError } from "./errors.js";
+import type { QueryResult, QueryRow, Transaction } from "./types.js";
+
+/**
+ * A single driver client pinned for the lifetime of a transaction.
+ */
+export interface TransactionClient {
+	query<T extends QueryRow = QueryRow>(
+		sql: string,
+		params?: unknown[],
+	): Promise<QueryResult<T>>;
+	/** Hand the client back; `discard` asks the driver not to reuse it. */
+	release(discard?: boolean): void;
+}
+
+let savepointSequence = 0;
+
+/**
+ * Transaction handle shared by every driver. The root handle wraps
+ * BEGIN/COMMIT/ROLLBACK; nested handles map onto savepoints on the same
+ * pinned client.
+ */
+export class SqlTransaction implements Transaction {
+	private finished = false;
+	private readonly children = new Set<SqlTransaction>();
+
+	constructor(
+		public readonly type: DBType,
+		private readonly client: TransactionClient,
+		private readonly savepointName: string | null = null,
+		private readonly parent: SqlTransaction | null = null,
+	) {}
+
+	get active(): boolean {
+		return !this.finished;
+	}
+
+	get depth(): number {
+		return this.parent ? this.parent.depth + 1 : 0;
+	}
+
+	/**
+	 * Issue the opening statement. Drivers call this once on the root handle.
+	 */
+	async open(beginStatement: string): Promise<void> {
+		await this.client.query(beginStatement);
+	}
+
+	async query<T extends QueryRow = QueryRow>(
+		sql: string,
+		params: unknown[] = [],
+	): Promise<QueryResult<T>> {
+		this.assertActive();
+		return this.client.query<T>(sql, params);
+	}
+
+	async execute(sql: string, params: unknown[] = []): Promise<void> {
+		await this.query(sql, params);
+	}
+
+	async begin(): Promise<Transaction> {
+		this.assertActive();
+		const name = `seerdb_sp_${++savepointSequence}`;
+		await this.client.query(`SAVEPOINT ${name}`);
+		const child = new SqlTransaction(this.type, this.client, name, this);
+		this.children.add(child);
+		return child;
+	}
+
+	async transaction<T>(fn: (tx: Transaction) => Promise<T>): Promise<T> {
+		return runInTransaction(await this.begin(), fn);
+	}
+
+	async commit(): Promise<void> {
+		this.assertActive();
+		if (this.savepointName) {
+			await this.client.query(`RELEASE SAVEPOINT ${this.savepointName}`);
+			this.finish(false);
+			return;
+		}
+
+		try {
+			await this.client.query("COMMIT");
+		} catch (error) {
+			// A failed COMMIT leaves the server-side transaction in an unknown
+			// state, so the client must not be reused.
+			this.finish(true);
+			throw error;
+		}
+		this.finish(false);
+	}
+
+	async rollback(): Promise<void> {
+		this.assertActive();
+		if (this.savepointName) {
+			try {
+				await this.client.query(`ROLLBACK TO SAVEPOINT ${this.savepointName}`);
+				await this.client.query(`RELEASE SAVEPOINT ${this.savepointName}`);
+			} finally {
+				this.finish(false);
+			}
+			return;
+		}
+
+		let discard = false;
+		try {
+			await this.client.query("ROLLBACK");
+		} catch (error) {
+			discard = true;
+			throw error;
+		} finally {
+			this.finish(discard);
+		}
+	}
+
+	private finish(discard: boolean): void {
+		this.finished = true;
+		for (const child of this.children) {
+			child.finished = true;
+		}
+		this.children.clear();
+		if (this.parent) {
+			this.parent.children.delete(this);
+		} else {
+			this.client.release(discard);
+		}
+	}
+
+	private assertActive(): void {
+		if (this.finished) {
+			throw new DatabaseError(
+				"Transaction is no longer active.",
+				"TRANSACTION_FINISHED",
+			);
+		}
+	}
+}
+
+/**
+ * Run `fn` inside an open transaction, committing on success and rolling
+ * back (then rethrowing) on failure. A callback may finish the transaction
+ * itself; in that case nothing further is issued.
+ */
+export async function runInTransaction<T>(
+	tx: Transaction,
+	fn: (tx: Transaction) => Promise<T>,
+): Promise<T> {
+	let result: T;
+	try {
+		result = await fn(tx);
+	} catch (error) {
+		if (tx.active) {
+			try {
+				await tx.rollback();
+			} catch {
+				// keep the original failure; the rollback error adds nothing
+			}
+		}
+		throw error;
+	}
+
+	if (tx.active) {
+		await tx.commit();
+	}
+	return result;
+}
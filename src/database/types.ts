@@ -9,6 +9,26 @@ export interface DatabaseConfig {
 	type: DBType;
 	connectionString: string;
 	pool?: PoolConfig;
+	/** TLS settings; each member overrides the matching connection-string parameter. */
+	tls?: TlsOptions;
+}
+
+/** libpq-style TLS modes, shared by the PostgreSQL and MySQL drivers. */
+export type SslMode =
+	| "disable"
+	| "prefer"
+	| "require"
+	| "verify-ca"
+	| "verify-full";
+
+export interface TlsOptions {
+	mode?: SslMode;
+	/** Path to a PEM bundle of trusted root certificates. */
+	caFile?: string;
+	/** Path to a PEM client certificate. */
+	certFile?: string;
+	/** Path to the PEM private key for the client certificate. */
+	keyFile?: string;
 }
 
 export interface PoolConfig {
@@ -16,16 +36,110 @@ export interface PoolConfig {
 	idleTimeoutMillis?: number;
 	connectionTimeoutMillis?: number;
 	closeTimeoutMillis?: number;
+	/** Close a shared session after it has been unused for this long. */
+	sessionIdleTimeoutMillis?: number;
+	/** Retry transient PostgreSQL/MySQL connection failures; `false` turns retries off. */
+	retry?: RetryConfig | false;
+}
+
+export interface RetryConfig {
+	/** Total tries including the first; 1 disables retries. */
+	maxAttempts?: number;
+	/** Backoff before the first retry, doubled for each one after. */
+	initialDelayMillis?: number;
+	/** Upper bound for a single backoff. */
+	maxDelayMillis?: number;
+}
+
+export interface RetryEvent {
+	/** The attempt about to run, counting the first try as 1. */
+	attempt: number;
+	maxAttempts: number;
+	delayMillis: number;
+	error: Error;
 }
 
 export interface QueryRow {
 	[column: string]: unknown;
 }
 
+/**
+ * Result-set column metadata as reported by the driver alongside the rows.
+ * Optional members are only set when the driver knows them.
+ */
+export interface QueryField {
+	/** Column label as it appears in the result rows. */
+	name: string;
+	/** Type name in lower case, e.g. "int4", "varchar(20)" or "unknown". */
+	dataType: string;
+	/** Driver-native type id: the pg type OID or the MySQL column type code. */
+	nativeTypeId?: number;
+	nullable?: boolean;
+	/** Source schema (PostgreSQL), table and column names. */
+	schema?: string;
+	table?: string;
+	column?: string;
+	/** Source table OID and attribute number (PostgreSQL), which the names are looked up by. */
+	tableId?: number;
+	columnId?: number;
+}
+
 export interface QueryResult<T = QueryRow> {
 	rows: T[];
 	rowCount: number;
-	fields?: string[];
+	fields?: QueryField[];
+	/** AUTO_INCREMENT value generated by an INSERT (MySQL). */
+	insertId?: number;
+}
+
+export interface QueryOptions {
+	/** Cancel the statement if it runs longer than this. */
+	timeoutMs?: number;
+	/** Cancel the statement when this signal aborts. */
+	signal?: AbortSignal;
+	/** Called before each retry of a transient connection failure. */
+	onRetry?: (event: RetryEvent) => void;
+}
+
+export interface StreamOptions {
+	/** Number of rows fetched and yielded per chunk. */
+	batchSize?: number;
+}
+
+export const DEFAULT_STREAM_BATCH_SIZE = 1_000;
+
+/**
+ * Statements issued through a transaction run on one pinned client. Nested
+ * `begin()`/`transaction()` calls open savepoints inside the parent.
+ */
+export interface Transaction {
+	readonly type: DBType;
+	readonly active: boolean;
+	query<T extends QueryRow = QueryRow>(
+		sql: string,
+		params?: unknown[],
+	): Promise<QueryResult<T>>;
+	execute(sql: string, params?: unknown[]): Promise<void>;
+	begin(): Promise<Transaction>;
+	transaction<T>(fn: (tx: Transaction) => Promise<T>): Promise<T>;
+	commit(): Promise<void>;
+	rollback(): Promise<void>;
+}
+
+/**
+ * One driver client held across several statements, so session state such
+ * as an open transaction, `SET` variables or temporary tables carries from
+ * one statement to the next.
+ */
+export interface PinnedClient {
+	readonly type: DBType;
+	query<T extends QueryRow = QueryRow>(
+		sql: string,
+		params?: unknown[],
+		options?: QueryOptions,
+	): Promise<QueryResult<T>>;
+	/** Roll back whatever transaction the client's statements left open. */
+	rollback(): Promise<void>;
 }
 
 export interface DatabaseConnection {
@@ -34,12 +148,22 @@ export interface DatabaseConnection {
 	query<T extends QueryRow = QueryRow>(
 		sql: string,
 		params?: unknown[],
+		options?: QueryOptions,
 	): Promise<QueryResult<T>>;
-	execute(sql: string, params?: unknown[]): Promise<void>;
+	execute(
+		sql: string,
+		params?: unknown[],
+		options?: QueryOptions,
+	): Promise<void>;
 	stream?<T extends QueryRow = QueryRow>(
 		sql: string,
 		params?: unknown[],
+		options?: StreamOptions,
 	): AsyncGenerator<T[], void, unknown>;
+	begin(): Promise<Transaction>;
+	transaction<T>(fn: (tx: Transaction) => Promise<T>): Promise<T>;
+	/** Run `fn` on one client, handing it back to the pool afterwards. */
+	withPinnedClient?<T>(fn: (client: PinnedClient) => Promise<T>): Promise<T>;
 	close(): Promise<void>;
 }
 
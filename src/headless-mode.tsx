@@ -1,11 +1,32 @@
+import { once } from "node:events";
 import { render } from "ink";
 import React from "react";
 import { createDatabaseConnection } from "./database/connection.js";
+import {
+	type DatabaseSchema,
+	getSchemaIntrospector,
+} from "./database/introspection/index.js";
+import {
+	diffSchemas,
+	describeDiff,
+	formatMigration,
+	generateMigration,
+	migrationWarnings,
+	type SchemaDiff,
+} from "./database/schema-diff.js";
+import {
+	runStatements,
+	type ScriptResult,
+	splitStatements,
+} from "./database/script.js";
+import { streamQuery } from "./database/stream.js";
 import { ActionType } from "./state/actions.js";
 import { AppProvider, useAppDispatch, useAppState } from "./state/context.js";
 import { initializeApp } from "./state/effects.js";
 import { DBType, type ViewState } from "./types/state.js";
 import type { CliArgs } from "./utils/cli-args.js";
+import { isErDiagramFormat, renderErDiagram } from "./utils/er-diagram.js";
+import { readSchemaSnapshot } from "./utils/export.js";
 import type { DatabaseConnection } from "./database/types.js";
 import { loadConnections } from "./utils/persistence.js";
 
@@ -63,9 +84,77 @@ const HeadlessApp: React.FC<{ args: CliArgs }> = ({ args }) => {
 					});
 				}
 
+				if (args.schema) {
+					if (!activeConnection) {
+						setError("No database connection available for schema");
+						return;
+					}
+					const schema =
+						await getSchemaIntrospector(activeConnection).getSchema();
+					await activeConnection.close();
+					printSchema(schema, args.output);
+					process.exit(0);
+				}
+
+				if (args.erDiagram) {
+					if (!isErDiagramFormat(args.erDiagram)) {
+						setError(
+							`Unknown ER diagram format: ${args.erDiagram} (use mermaid, dot or plantuml)`,
+						);
+						return;
+					}
+					if (!activeConnection) {
+						setError("No database connection available for ER diagram");
+						return;
+					}
+					const schema =
+						await getSchemaIntrospector(activeConnection).getSchema();
+					await activeConnection.close();
+					process.stdout.write(
+						renderErDiagram(schema, args.erDiagram, { tables: args.tables }),
+					);
+					process.exit(0);
+				}
+
+				if (args.diff) {
+					const from = args.diffFrom
+						? await loadSchemaSource(args.diffFrom)
+						: activeConnection
+							? await getSchemaIntrospector(activeConnection).getSchema()
+							: null;
+					if (!from) {
+						setError(
+							"No database connection available for schema diff (use --connect or --diff-from)",
+						);
+						return;
+					}
+					await activeConnection?.close();
+					const diff = diffSchemas(from, await loadSchemaSource(args.diff));
+					printSchemaDiff(diff, generateMigration(diff), args.output);
+					process.exit(0);
+				}
+
 				// Handle query
 				if (args.query) {
-					if (activeConnection) {
+					const statements = activeConnection
+						? splitStatements(args.query, activeConnection.type)
+						: [];
+					if (activeConnection && statements.length > 1) {
+						const script = await runStatements(activeConnection, statements, {
+							continueOnError: args.continueOnError,
+						});
+						await activeConnection.close();
+						printScriptResult(script, args.output);
+						process.exit(script.error ? 1 : 0);
+					} else if (activeConnection && args.output === "json") {
+						// Stream JSON so large result sets never sit in memory at once
+						await writeJsonResult(
+							streamQuery(activeConnection, args.query),
+							process.stdout,
+						);
+						await activeConnection.close();
+						process.exit(0);
+					} else if (activeConnection) {
 						const queryResult = await activeConnection.query(args.query);
 						setResult(queryResult);
 					} else {
@@ -101,6 +190,148 @@ const HeadlessApp: React.FC<{ args: CliArgs }> = ({ args }) => {
 	return null; // No UI in headless mode
 };
 
+function printSchema(schema: DatabaseSchema, output: CliArgs["output"]): void {
+	if (output === "json") {
+		console.log(JSON.stringify(schema, null, 2));
+		return;
+	}
+	console.table(
+		schema.tables.map((table) => ({
+			table: table.schema ? `${table.schema}.${table.name}` : table.name,
+			type: table.type,
+			columns: table.columns.length,
+			primaryKey: table.primaryKey?.columns.join(", ") ?? "",
+			foreignKeys: table.foreignKeys.length,
+			indexes: table.indexes.length,
+			comment: table.comment ?? "",
+		})),
+	);
+}
+
+/**
+ * Schema of a saved connection, named by name or id, or of a snapshot
+ * file written by `exportSchema`.
+ */
+async function loadSchemaSource(source: string): Promise<DatabaseSchema> {
+	if (source.endsWith(".json")) {
+		return readSchemaSnapshot(source);
+	}
+	const { connections } = await loadConnections();
+	const saved = connections.find(
+		(connection) => connection.name === source || connection.id === source,
+	);
+	if (!saved) {
+		throw new Error(`No saved connection or snapshot named ${source}`);
+	}
+	const connection = createDatabaseConnection({
+		type: saved.type,
+		connectionString: saved.connectionString,
+		tls: saved.tls,
+	});
+	await connection.connect();
+	try {
+		return await getSchemaIntrospector(connection).getSchema();
+	} finally {
+		await connection.close();
+	}
+}
+
+function printSchemaDiff(
+	diff: SchemaDiff,
+	statements: string[],
+	output: CliArgs["output"],
+): void {
+	const warnings = migrationWarnings(diff);
+	if (output === "json") {
+		console.log(JSON.stringify({ diff, statements, warnings }, null, 2));
+		return;
+	}
+	const lines = describeDiff(diff);
+	if (lines.length === 0) {
+		console.log("The schemas match.");
+		return;
+	}
+	const marks = { added: "+", removed: "-", changed: "~" };
+	for (const line of lines) {
+		console.log(`${"  ".repeat(line.depth)}${marks[line.change]} ${line.text}`);
+	}
+	console.log("");
+	// Kept off stdout, so the SQL can be piped straight into a client
+	for (const warning of warnings) {
+		console.error(`warning: ${warning}`);
+	}
+	process.stdout.write(formatMigration(statements));
+}
+
+function printScriptResult(
+	script: ScriptResult,
+	output: CliArgs["output"],
+): void {
+	if (output === "json") {
+		console.log(
+			JSON.stringify(
+				{
+					statements: script.statements.map((statement) => ({
+						sql: statement.sql,
+						rows: statement.rows,
+						rowCount: statement.rowCount,
+						durationMs: statement.durationMs,
+						error: statement.error?.message,
+					})),
+					skipped: script.skipped,
+					rolledBack: script.rolledBack,
+					durationMs: script.durationMs,
+				},
+				null,
+				2,
+			),
+		);
+		return;
+	}
+
+	for (const [index, statement] of script.statements.entries()) {
+		console.log(`-- Statement ${index + 1}: ${statement.sql}`);
+		if (statement.error) {
+			console.error("Error:", statement.error.message);
+		} else if (statement.rows.length > 0) {
+			console.table(statement.rows);
+		} else {
+			console.log(`${statement.rowCount} rows affected`);
+		}
+	}
+	if (script.skipped > 0) {
+		console.error(`${script.skipped} statements skipped after the error`);
+	}
+	if (script.rolledBack) {
+		console.error(
+			"The script left its transaction open; it was rolled back and its changes discarded",
+		);
+	}
+}
+
+async function writeJsonResult(
+	batches: AsyncIterable<Record<string, unknown>[]>,
+	output: NodeJS.WriteStream,
+): Promise<void> {
+	const write = async (chunk: string): Promise<void> => {
+		if (!output.write(chunk)) {
+			await once(output, "drain");
+		}
+	};
+
+	let rowCount = 0;
+	await write('{\n  "rows": [');
+	for await (const batch of batches) {
+		for (const row of batch) {
+			await write(`${rowCount > 0 ? "," : ""}\n    ${JSON.stringify(row)}`);
+			rowCount += 1;
+		}
+	}
+	await write(
+		`${rowCount > 0 ? "\n  " : ""}],\n  "rowCount": ${rowCount}\n}\n`,
+	);
+}
+
 export const runHeadlessMode = async (args: CliArgs): Promise<void> => {
 	// Render the app context without UI
 	const instance = render(
@@ -3,6 +3,7 @@ import { render } from "ink";
 import React from "react";
 import { App } from "./App.js";
 import { runApiMode } from "./api-mode.js";
+import { connectionManager } from "./database/manager.js";
 import { runHeadlessMode } from "./headless-mode.js";
 import { registerInkInstance } from "./inkControl.js";
 import { parseCliArgs, showHelp, showAgentHelp } from "./utils/cli-args.js";
@@ -33,8 +34,11 @@ const main = async () => {
 	}
 
 	// Default interactive TUI mode
-	const inkInstance = render(<App />);
+	// App handles Ctrl+C itself so views can bind it (e.g. to cancel a query)
+	const inkInstance = render(<App />, { exitOnCtrlC: false });
 	registerInkInstance(inkInstance);
+	await inkInstance.waitUntilExit();
+	await connectionManager.disposeAll();
 };
 
 main().catch((error) => {
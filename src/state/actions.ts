@@ -3,14 +3,21 @@ import type {
 	BreadcrumbSegment,
 	ColumnInfo,
 	ColumnVisibilityMode,
+	ConcurrencyCheck,
 	ConnectionInfo,
 	DataRow,
 	DBType,
+	EditConflict,
+	EditJournalEntry,
 	Notification,
+	PendingChange,
 	QueryHistoryItem,
+	ReconnectStatus,
+	RowFilter,
 	SortConfig,
 	TableCacheEntry,
 	TableInfo,
+	TableProfile,
 	ViewHistoryEntry,
 	ViewState,
 } from "../types/state.js";
@@ -21,6 +28,7 @@ export enum ActionType {
 	SetDBType = "SET_DB_TYPE",
 	StartLoading = "START_LOADING",
 	StopLoading = "STOP_LOADING",
+	SetReconnecting = "SET_RECONNECTING",
 	SetError = "SET_ERROR",
 	ClearError = "CLEAR_ERROR",
 	SetInfo = "SET_INFO",
@@ -35,7 +43,20 @@ export enum ActionType {
 	SetColumns = "SET_COLUMNS",
 	SetSelectedTable = "SET_SELECTED_TABLE",
 	ClearSelectedTable = "CLEAR_SELECTED_TABLE",
+	FollowForeignKey = "FOLLOW_FOREIGN_KEY",
+	ReturnFromForeignKey = "RETURN_FROM_FOREIGN_KEY",
 	UpdateDataRowValue = "UPDATE_DATA_ROW_VALUE",
+	InsertDataRow = "INSERT_DATA_ROW",
+	RemoveDataRows = "REMOVE_DATA_ROWS",
+	SetStagingEnabled = "SET_STAGING_ENABLED",
+	StagePendingChange = "STAGE_PENDING_CHANGE",
+	DropPendingChange = "DROP_PENDING_CHANGE",
+	ClearPendingChanges = "CLEAR_PENDING_CHANGES",
+	SetEditJournal = "SET_EDIT_JOURNAL",
+	AddEditJournalEntries = "ADD_EDIT_JOURNAL_ENTRIES",
+	MarkEditUndone = "MARK_EDIT_UNDONE",
+	SetConcurrencyCheck = "SET_CONCURRENCY_CHECK",
+	SetEditConflict = "SET_EDIT_CONFLICT",
 	SetDataRows = "SET_DATA_ROWS",
 	SetHasMoreRows = "SET_HAS_MORE_ROWS",
 	SetCurrentOffset = "SET_CURRENT_OFFSET",
@@ -44,6 +65,7 @@ export enum ActionType {
 	SetColumnVisibilityMode = "SET_COLUMN_VISIBILITY_MODE",
 	SetTableCache = "SET_TABLE_CACHE",
 	RemoveTableCacheEntry = "REMOVE_TABLE_CACHE_ENTRY",
+	SetTableProfile = "SET_TABLE_PROFILE",
 	SetRefreshingTable = "SET_REFRESHING_TABLE",
 	SetRefreshTimestamp = "SET_REFRESH_TIMESTAMP",
 	AddNotification = "ADD_NOTIFICATION",
@@ -73,6 +95,7 @@ export type AppAction =
 	| { type: ActionType.SetDBType; dbType: DBType }
 	| { type: ActionType.StartLoading }
 	| { type: ActionType.StopLoading }
+	| { type: ActionType.SetReconnecting; status: ReconnectStatus | null }
 	| { type: ActionType.SetError; error: string | DatabaseError }
 	| { type: ActionType.ClearError }
 	| { type: ActionType.SetInfo; message: string }
@@ -87,6 +110,8 @@ export type AppAction =
 	| { type: ActionType.SetColumns; columns: ColumnInfo[] }
 	| { type: ActionType.SetSelectedTable; table: TableInfo }
 	| { type: ActionType.ClearSelectedTable }
+	| { type: ActionType.FollowForeignKey; table: TableInfo; filter: RowFilter }
+	| { type: ActionType.ReturnFromForeignKey }
 	| {
 			type: ActionType.UpdateDataRowValue;
 			columnName: string;
@@ -94,6 +119,17 @@ export type AppAction =
 			rowIndex: number | null;
 			table: TableInfo | null;
 	  }
+	| { type: ActionType.InsertDataRow; row: DataRow; table: TableInfo }
+	| { type: ActionType.RemoveDataRows; keys: RowFilter[]; table: TableInfo }
+	| { type: ActionType.SetStagingEnabled; enabled: boolean }
+	| { type: ActionType.StagePendingChange; change: PendingChange }
+	| { type: ActionType.DropPendingChange; index: number }
+	| { type: ActionType.ClearPendingChanges }
+	| { type: ActionType.SetEditJournal; entries: EditJournalEntry[] }
+	| { type: ActionType.AddEditJournalEntries; entries: EditJournalEntry[] }
+	| { type: ActionType.MarkEditUndone; id: string; undoneAt: string }
+	| { type: ActionType.SetConcurrencyCheck; check: ConcurrencyCheck }
+	| { type: ActionType.SetEditConflict; conflict: EditConflict | null }
 	| { type: ActionType.SetDataRows; rows: DataRow[] }
 	| { type: ActionType.SetHasMoreRows; hasMore: boolean }
 	| { type: ActionType.SetCurrentOffset; offset: number }
@@ -102,6 +138,11 @@ export type AppAction =
 	| { type: ActionType.SetColumnVisibilityMode; mode: ColumnVisibilityMode }
 	| { type: ActionType.SetTableCache; cache: Record<string, TableCacheEntry> }
 	| { type: ActionType.RemoveTableCacheEntry; key: string }
+	| {
+			type: ActionType.SetTableProfile;
+			table: TableInfo;
+			profile: TableProfile;
+	  }
 	| { type: ActionType.SetRefreshingTable; key: string | null }
 	| { type: ActionType.SetRefreshTimestamp; key: string; timestamp: number }
 	| { type: ActionType.AddNotification; notification: Notification }
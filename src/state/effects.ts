@@ -1,51 +1,123 @@
 import { performance } from "node:perf_hooks";
 import { nanoid } from "nanoid";
-import { createDatabaseConnection } from "../database/connection.js";
-import { ConnectionError, DatabaseError } from "../database/errors.js";
-import { parameterize } from "../database/parameterize.js";
+import {
+	ConnectionError,
+	DatabaseError,
+	ForeignKeyViolationError,
+	NotNullViolationError,
+	QueryCancelledError,
+	UniqueViolationError,
+} from "../database/errors.js";
+import { quoteIdentifier } from "../database/ddl.js";
+import {
+	type ColumnRules,
+	interpretEditedInput,
+} from "../database/edit-validation.js";
+import { connectionManager, sessionKey } from "../database/manager.js";
+import {
+	type DatabaseObjectKind,
+	type DatabaseObjectsByKind,
+	type DatabaseSchema,
+	getSchemaIntrospector,
+	isSchemaChange,
+	type ReferencingKeySchema,
+	type SchemaIntrospector,
+} from "../database/introspection/index.js";
+import {
+	type ParameterizedQuery,
+	parameterize,
+} from "../database/parameterize.js";
+import { journalScript } from "../database/journal-script.js";
+import { profileTable } from "../database/profile.js";
+import {
+	diffSchemas,
+	generateMigration,
+	migrationWarnings,
+	type SchemaDiff,
+} from "../database/schema-diff.js";
+import {
+	runStatements,
+	type ScriptOptions,
+	type ScriptResult,
+	type ScriptStatement,
+	splitStatements,
+} from "../database/script.js";
+import { streamQuery } from "../database/stream.js";
 import type {
 	DatabaseConfig,
 	DatabaseConnection,
+	QueryOptions,
 	QueryRow,
+	Transaction,
 } from "../database/types.js";
 import type {
 	AppState,
 	BreadcrumbSegment,
 	ColumnInfo,
+	ConcurrencyCheck,
 	ConnectionInfo,
 	DataRow,
+	EditConflict,
+	EditJournalEntry,
 	NotificationLevel,
+	PendingChange,
 	QueryHistoryItem,
+	RowFilter,
+	RowJournalEntry,
 	TableInfo,
+	TableProfile,
 } from "../types/state.js";
 import { DBType, ViewState } from "../types/state.js";
-import { processRows } from "../utils/data-processing.js";
-import { exportData, formatExportSummary } from "../utils/export.js";
+import {
+	formatValueForDisplay,
+	processRows,
+} from "../utils/data-processing.js";
+import type { ErDiagramFormat } from "../utils/er-diagram.js";
+import {
+	exportData,
+	exportDataStream,
+	exportDdl,
+	exportErDiagram,
+	exportJournalScript,
+	exportSchema,
+	formatExportSummary,
+	readSchemaSnapshot,
+} from "../utils/export.js";
 import { historyHelpers } from "../utils/history.js";
 import {
 	loadConnections,
+	loadEditJournal,
 	loadQueryHistory,
 	loadTableCache,
 	saveConnections,
+	saveEditJournal,
 	saveQueryHistory,
 	saveTableCache,
 } from "../utils/persistence.js";
+import {
+	getPhysicalRowIdColumn,
+	getRowIdentity,
+	type RowIdentity,
+} from "../utils/pk-utils.js";
 import { ActionType } from "./actions.js";
 import { tableCacheKey } from "./cache.js";
 import type { AppDispatch } from "./context.js";
+import { isSameTable, rowMatchesKey } from "./pending.js";
 
 export async function initializeApp(dispatch: AppDispatch): Promise<void> {
 	dispatch({ type: ActionType.StartLoading });
 	try {
-		const [connectionsResult, history] = await Promise.all([
+		const [connectionsResult, history, journal] = await Promise.all([
 			loadConnections(),
 			loadQueryHistory(),
+			loadEditJournal(),
 		]);
 		dispatch({
 			type: ActionType.SetSavedConnections,
 			connections: connectionsResult.connections,
 		});
 		dispatch({ type: ActionType.SetQueryHistory, history });
+		dispatch({ type: ActionType.SetEditJournal, entries: journal });
 		if (connectionsResult.normalized > 0) {
 			enqueueNotification(
 				dispatch,
@@ -82,9 +154,8 @@ export async function connectToDatabase(
 	dispatch({ type: ActionType.StartLoading });
 
 	try {
-		const connection = createDatabaseConnection(config);
-		await connection.connect();
-		await connection.close();
+		const connection = await connectionManager.acquire(config);
+		connectionManager.release(connection);
 
 		const existing = state.savedConnections.find(
 			(conn) =>
@@ -94,12 +165,13 @@ export async function connectToDatabase(
 
 		const now = new Date().toISOString();
 		const connectionInfo: ConnectionInfo = existing
-			? { ...existing, updatedAt: now }
+			? { ...existing, tls: config.tls, updatedAt: now }
 			: {
 					id: nanoid(),
 					name: `${config.type} connection`,
 					type: config.type,
 					connectionString: config.connectionString,
+					tls: config.tls,
 					createdAt: now,
 					updatedAt: now,
 				};
@@ -194,67 +266,17 @@ export async function fetchTables(
 	let connection: DatabaseConnection | null = null;
 
 	try {
-		connection = createDatabaseConnection(dbConfig);
-		await connection.connect();
-		let query: string;
-		switch (dbConfig.type) {
-			case DBType.SQLite:
-				query = `
-          SELECT
-            NULL AS table_schema,
-            name AS table_name,
-            type AS table_type
-          FROM sqlite_master
-          WHERE type IN ('table', 'view')
-          ORDER BY name
-        `;
-				break;
-			case DBType.MySQL:
-				query = `
-          SELECT
-            table_schema,
-            table_name,
-            table_type
-          FROM information_schema.tables
-          WHERE table_schema NOT IN ('information_schema', 'performance_schema', 'mysql', 'sys')
-          ORDER BY table_schema, table_name
-        `;
-				break;
-			case DBType.PostgreSQL:
-			default:
-				query = `
-          SELECT
-            table_schema,
-            table_name,
-            table_type
-          FROM information_schema.tables
-          WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
-          ORDER BY table_schema, table_name
-        `;
-				break;
-		}
-
-		const result = await connection.query(query);
-
-		const tables: TableInfo[] = result.rows.map((row) => {
-			const record = row as QueryRow;
-			const tableTypeRaw = String(record.table_type ?? "").toLowerCase();
-			const tableType: TableInfo["type"] =
-				tableTypeRaw.includes("view") && tableTypeRaw.includes("materialized")
-					? "materialized-view"
-					: tableTypeRaw.includes("view")
-						? "view"
-						: "table";
-
-			return {
-				schema:
-					typeof record.table_schema === "string"
-						? record.table_schema
-						: undefined,
-				name: String(record.table_name ?? ""),
-				type: tableType,
-			};
-		});
+		connection = await connectionManager.acquire(dbConfig);
+		const introspector = getSchemaIntrospector(connection, dbConfig.type);
+		// Reloading the table list starts schema metadata from scratch
+		introspector.invalidate();
+		const summaries = await introspector.listTables(retryNotifier(dispatch));
+
+		const tables: TableInfo[] = summaries.map(({ schema, name, type }) => ({
+			schema,
+			name,
+			type,
+		}));
 
 		dispatch({ type: ActionType.SetTables, tables });
 		return tables;
@@ -266,11 +288,7 @@ export async function fetchTables(
 		return [];
 	} finally {
 		if (connection) {
-			try {
-				await connection.close();
-			} catch {
-				// ignore close errors during cleanup
-			}
+			connectionManager.release(connection);
 		}
 		dispatch({ type: ActionType.StopLoading });
 	}
@@ -291,15 +309,13 @@ export async function fetchColumns(
 	let connection: DatabaseConnection | null = null;
 
 	try {
-		connection = createDatabaseConnection(dbConfig);
-		await connection.connect();
-
-		const { query, params } = buildColumnQuery(dbConfig.type, table);
-		const result = await connection.query(query, params);
+		connection = await connectionManager.acquire(dbConfig);
 
-		const columns: ColumnInfo[] = result.rows.map((row) =>
-			mapColumnRow(dbConfig.type, row as QueryRow),
-		);
+		const introspector = getSchemaIntrospector(connection, dbConfig.type);
+		// Loading columns is also how a table is refreshed
+		introspector.invalidate(table);
+		const options = retryNotifier(dispatch);
+		const columns = await loadColumnInfo(introspector, table, options);
 		dispatch({ type: ActionType.SetColumns, columns });
 
 		const connectionId = state.activeConnection?.id;
@@ -330,17 +346,128 @@ export async function fetchColumns(
 		});
 	} finally {
 		if (connection) {
-			try {
-				await connection.close();
-			} catch {
-				// ignore close errors
-			}
+			connectionManager.release(connection);
 		}
 		dispatch({ type: ActionType.StopLoading });
 		trackRefreshTimestamp(dispatch, table);
 	}
 }
 
+/**
+ * A table's columns as the grid shows them: foreign keys resolved and,
+ * without a primary key, the unique index that identifies rows marked.
+ */
+async function loadColumnInfo(
+	introspector: SchemaIntrospector,
+	table: TableInfo,
+	options: QueryOptions,
+): Promise<ColumnInfo[]> {
+	const [columnSchemas, foreignKeys] = await Promise.all([
+		introspector.getColumns(table, options),
+		table.type === "table" ? introspector.getForeignKeys(table, options) : [],
+	]);
+	const columns: ColumnInfo[] = columnSchemas.map((column) => {
+		const foreignKey = foreignKeys.find((key) =>
+			key.columns.includes(column.name),
+		);
+		return {
+			name: column.name,
+			dataType: column.dataType,
+			nullable: column.nullable,
+			defaultValue: column.defaultValue,
+			isPrimaryKey: column.isPrimaryKey,
+			...(column.autoIncrement && { isAutoIncrement: true }),
+			...(foreignKey && {
+				isForeignKey: true,
+				foreignSchema: foreignKey.referencedSchema,
+				foreignTable: foreignKey.referencedTable,
+				foreignColumn:
+					foreignKey.referencedColumns[foreignKey.columns.indexOf(column.name)],
+			}),
+		};
+	});
+	// Without a primary key, a unique index over required columns finds rows
+	if (
+		table.type === "table" &&
+		!columns.some((column) => column.isPrimaryKey)
+	) {
+		const uniqueIndex = (await introspector.getIndexes(table, options)).find(
+			(index) =>
+				index.unique &&
+				index.columns.every(
+					(name) =>
+						columns.find((column) => column.name === name)?.nullable === false,
+				),
+		);
+		for (const column of columns) {
+			if (uniqueIndex?.columns.includes(column.name)) {
+				column.isUniqueKey = true;
+			}
+		}
+	}
+	return columns;
+}
+
+/**
+ * Profile every column of a table on the server and keep the result in
+ * the table cache, so reopening the profile costs nothing.
+ */
+export async function fetchTableProfile(
+	dispatch: AppDispatch,
+	state: AppState,
+	dbConfig: DatabaseConfig,
+	table: TableInfo,
+): Promise<TableProfile | null> {
+	dispatch({ type: ActionType.StartLoading });
+
+	let connection: DatabaseConnection | null = null;
+
+	try {
+		connection = await connectionManager.acquire(dbConfig);
+		const options = retryNotifier(dispatch);
+		const columns = await getSchemaIntrospector(
+			connection,
+			dbConfig.type,
+		).getColumns(table, options);
+		const profile = await profileTable(
+			connection,
+			dbConfig.type,
+			table,
+			columns,
+			options,
+		);
+		dispatch({ type: ActionType.SetTableProfile, table, profile });
+
+		const connectionId = state.activeConnection?.id;
+		const cacheKey = tableCacheKey(table);
+		if (connectionId && cacheKey) {
+			const existingEntry = state.tableCache[cacheKey] ?? {
+				columns: [],
+				rows: [],
+				hasMore: false,
+				offset: 0,
+			};
+			await saveTableCache(connectionId, {
+				...state.tableCache,
+				[cacheKey]: { ...existingEntry, profile },
+			});
+		}
+		return profile;
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error:
+				error instanceof Error ? error.message : "Failed to profile table.",
+		});
+		return null;
+	} finally {
+		if (connection) {
+			connectionManager.release(connection);
+		}
+		dispatch({ type: ActionType.StopLoading });
+	}
+}
+
 export interface FetchTableDataOptions {
 	offset?: number;
 	limit?: number;
@@ -348,6 +475,29 @@ export interface FetchTableDataOptions {
 
 const DEFAULT_PAGE_SIZE = 20;
 const DEFAULT_SEARCH_PAGE_SIZE = 25;
+const FOREIGN_KEY_CHOICE_LIMIT = 100;
+const EDIT_JOURNAL_LIMIT = 1000;
+
+type CellEdit = Extract<PendingChange, { kind: "update" }>;
+
+/** A written insert or delete, with the whole row, as the journal keeps it. */
+interface RowChange {
+	kind: "insert" | "delete";
+	table: TableInfo;
+	key: RowFilter;
+	row: DataRow;
+}
+
+/** Thrown by a commit whose staged edit no longer matches, to roll it back. */
+class StagedEditConflict extends Error {
+	constructor(
+		public readonly change: CellEdit,
+		public readonly current: DataRow | null,
+	) {
+		super(`the row changed since the edit to ${change.column} was staged`);
+		this.name = "StagedEditConflict";
+	}
+}
 
 export async function fetchTableData(
 	dispatch: AppDispatch,
@@ -368,17 +518,27 @@ export async function fetchTableData(
 	const limit = Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1);
 
 	try {
-		connection = createDatabaseConnection(dbConfig);
-		await connection.connect();
-
+		connection = await connectionManager.acquire(dbConfig);
+
+		const filter = buildRowFilterClause(dbConfig.type, state.rowFilter);
+		// Tables identified by a physical row id load it with the rows
+		const rowIdColumn =
+			isSameTable(table, state.selectedTable) && state.columns.length > 0
+				? getPhysicalRowIdColumn(
+						getRowIdentity(dbConfig.type, table, state.columns),
+					)
+				: null;
 		const query = buildTableDataQuery(
 			dbConfig.type,
 			table,
 			limit,
 			offset,
 			state.sortConfig,
+			filter.clause,
+			rowIdColumn,
 		);
-		const result = await connection.query(query);
+		const { sql, params } = parameterize(query, dbConfig.type, filter.params);
+		const result = await connection.query(sql, params, retryNotifier(dispatch));
 
 		dispatch({ type: ActionType.SetDataRows, rows: result.rows });
 		dispatch({
@@ -389,12 +549,12 @@ export async function fetchTableData(
 
 		// Only update cache for unsorted data to prevent cache corruption
 		// When sorting is active, we don't cache the results since the cache key
-		// doesn't include sort configuration
+		// doesn't include sort configuration (nor the row filter)
 		const isSortActive =
 			state.sortConfig.column !== null && state.sortConfig.direction !== "off";
 
 		const connectionId = state.activeConnection?.id;
-		if (connectionId && !isSortActive) {
+		if (connectionId && !isSortActive && !state.rowFilter) {
 			const cacheKey = tableCacheKey(table);
 			if (cacheKey) {
 				const updatedCache = {
@@ -416,249 +576,2014 @@ export async function fetchTableData(
 		});
 	} finally {
 		if (connection) {
-			try {
-				await connection.close();
-			} catch {
-				// ignore close errors
-			}
+			connectionManager.release(connection);
 		}
 		dispatch({ type: ActionType.StopLoading });
 		trackRefreshTimestamp(dispatch, table);
 	}
 }
 
-export async function updateTableFieldValue(
+/**
+ * Open the row a foreign-key cell points at: the referenced table filtered
+ * to the referenced key. The current grid goes on the back stack.
+ */
+export async function followForeignKey(
 	dispatch: AppDispatch,
 	state: AppState,
-	table: TableInfo | null,
+	dbConfig: DatabaseConfig,
 	column: ColumnInfo,
-	rowIndex: number | null,
 	row: DataRow,
-	inputValue: string,
-): Promise<boolean> {
+): Promise<void> {
+	const table = state.selectedTable;
 	if (!table) {
-		dispatch({
-			type: ActionType.SetError,
-			error: "No table selected for editing.",
-		});
-		return false;
+		return;
 	}
 
-	if (!state.activeConnection || !state.dbType) {
-		dispatch({
-			type: ActionType.SetError,
-			error: "No active database connection.",
-		});
-		return false;
-	}
+	let connection: DatabaseConnection | null = null;
 
-	const primaryKeys = state.columns.filter((col) => col.isPrimaryKey);
-	if (primaryKeys.length === 0) {
-		dispatch({
-			type: ActionType.SetError,
-			error: "Editing requires a primary key to identify the row.",
-		});
-		return false;
-	}
+	try {
+		connection = await connectionManager.acquire(dbConfig);
 
-	const originalValue = row[column.name];
-	const parsedValue = interpretEditedInput(inputValue, column);
-	if (valuesAreEqual(originalValue, parsedValue)) {
-		dispatch({
-			type: ActionType.SetInfo,
-			message: `No changes made to ${column.name}.`,
-		});
-		return false;
-	}
+		const introspector = getSchemaIntrospector(connection, dbConfig.type);
+		const options = retryNotifier(dispatch);
+		const foreignKey = (await introspector.getForeignKeys(table, options)).find(
+			(key) => key.columns.includes(column.name),
+		);
+		if (!foreignKey) {
+			dispatch({
+				type: ActionType.SetError,
+				error: `${column.name} is not a foreign key.`,
+			});
+			return;
+		}
 
-	if (!state.dbType) {
+		const target = resolveListedTable(
+			state.tables,
+			foreignKey.referencedSchema ?? table.schema,
+			foreignKey.referencedTable,
+		);
+		// A key may reference the parent's primary key without naming it
+		const referencedColumns =
+			foreignKey.referencedColumns.length > 0
+				? foreignKey.referencedColumns
+				: (await introspector.getColumns(target, options))
+						.filter((candidate) => candidate.isPrimaryKey)
+						.map((candidate) => candidate.name);
+
+		const filter: RowFilter = {};
+		for (const [index, name] of foreignKey.columns.entries()) {
+			const value = row[name];
+			if (value === null || value === undefined) {
+				dispatch({
+					type: ActionType.SetInfo,
+					message: `${name} is NULL; there is no referenced row.`,
+				});
+				return;
+			}
+			filter[referencedColumns[index] ?? name] = value;
+		}
+
+		dispatch({ type: ActionType.FollowForeignKey, table: target, filter });
+	} catch (error) {
 		dispatch({
 			type: ActionType.SetError,
-			error: "Database type not set.",
+			error:
+				error instanceof Error
+					? error.message
+					: "Failed to follow the foreign key.",
 		});
-		return false;
+	} finally {
+		if (connection) {
+			connectionManager.release(connection);
+		}
 	}
+}
 
-	const config: DatabaseConfig = {
-		type: state.dbType,
-		connectionString: state.activeConnection.connectionString,
-	};
+/** Rows of another table that point at one row through one foreign key. */
+export interface ReferencingRows {
+	foreignKey: ReferencingKeySchema;
+	/** Selects the referencing rows; null when the row's key is NULL. */
+	filter: RowFilter | null;
+	count: number;
+}
 
+/**
+ * For every foreign key pointing at `table`, count the rows that reference
+ * `row` and build the filter that opens them in the data preview.
+ */
+export async function fetchReferencingRows(
+	dispatch: AppDispatch,
+	state: AppState,
+	dbConfig: DatabaseConfig,
+	table: TableInfo,
+	row: DataRow,
+): Promise<ReferencingRows[]> {
 	let connection: DatabaseConnection | null = null;
 
 	try {
-		connection = createDatabaseConnection(config);
-		await connection.connect();
-
-		const dbType = state.dbType; // Capture for use in closures
-		const tableRef = buildTableReference(dbType, table);
-		const columnRef = quoteIdentifier(dbType, column.name);
-
-		let paramIndex = 1;
-		const params: unknown[] = [parsedValue];
-		const assignments = `${columnRef} = $${paramIndex++}`;
-		const predicates = primaryKeys.map((pk) => {
-			const pkValue = row[pk.name];
-			if (pkValue === undefined) {
-				throw new Error(
-					`Missing primary key value for column ${pk.name}. Unable to update row.`,
-				);
-			}
-			params.push(pkValue);
-			return `${quoteIdentifier(dbType, pk.name)} = $${paramIndex++}`;
-		});
-
-		const updateSql = `UPDATE ${tableRef} SET ${assignments} WHERE ${predicates.join(
-			" AND ",
-		)}`;
-		const { sql, params: finalParams } = parameterize(
-			updateSql,
-			state.dbType,
-			params,
-		);
+		connection = await connectionManager.acquire(dbConfig);
 
-		await connection.execute(sql, finalParams);
+		const introspector = getSchemaIntrospector(connection, dbConfig.type);
+		const options = retryNotifier(dispatch);
+		const foreignKeys = await introspector.getReferencingKeys(table, options);
+		if (foreignKeys.length === 0) {
+			return [];
+		}
+		const primaryKey = (await introspector.getColumns(table, options))
+			.filter((column) => column.isPrimaryKey)
+			.map((column) => column.name);
+
+		const references: ReferencingRows[] = [];
+		for (const foreignKey of foreignKeys) {
+			const referencingTable = resolveListedTable(
+				state.tables,
+				foreignKey.table.schema,
+				foreignKey.table.name,
+			);
+			const referencedColumns =
+				foreignKey.referencedColumns.length > 0
+					? foreignKey.referencedColumns
+					: primaryKey;
+			const filter: RowFilter = {};
+			for (const [index, name] of foreignKey.columns.entries()) {
+				filter[name] = row[referencedColumns[index] ?? name];
+			}
+			// NULL never matches a foreign key, so there is nothing to count
+			if (
+				Object.values(filter).some(
+					(value) => value === null || value === undefined,
+				)
+			) {
+				references.push({
+					foreignKey: { ...foreignKey, table: referencingTable },
+					filter: null,
+					count: 0,
+				});
+				continue;
+			}
 
-		dispatch({
-			type: ActionType.UpdateDataRowValue,
-			columnName: column.name,
-			value: parsedValue,
-			rowIndex,
-			table,
-		});
-		dispatch({
-			type: ActionType.SetInfo,
-			message: `Updated ${column.name}.`,
-		});
-		return true;
+			const where = buildRowFilterClause(dbConfig.type, filter);
+			const { sql, params } = parameterize(
+				`SELECT COUNT(*) AS total_count FROM ${buildTableReference(
+					dbConfig.type,
+					referencingTable,
+				)}${where.clause}`,
+				dbConfig.type,
+				where.params,
+			);
+			const result = await connection.query(sql, params, options);
+			references.push({
+				foreignKey: { ...foreignKey, table: referencingTable },
+				filter,
+				count: extractCount(result.rows[0]),
+			});
+		}
+		return references;
 	} catch (error) {
 		dispatch({
 			type: ActionType.SetError,
-			error: error instanceof Error ? error.message : "Failed to update value.",
+			error:
+				error instanceof Error
+					? error.message
+					: "Failed to load referencing rows.",
 		});
-		return false;
+		return [];
 	} finally {
 		if (connection) {
-			try {
-				await connection.close();
-			} catch {
-				// ignore cleanup errors
-			}
+			connectionManager.release(connection);
 		}
 	}
 }
 
-export interface SearchTableOptions {
-	term: string;
-	offset?: number;
-	limit?: number;
+/** The table as listed in the sidebar, or the bare reference when unlisted. */
+function resolveListedTable(
+	tables: TableInfo[],
+	schema: string | undefined,
+	name: string,
+): TableInfo {
+	return (
+		tables.find(
+			(candidate) => candidate.name === name && candidate.schema === schema,
+		) ??
+		tables.find((candidate) => candidate.name === name) ?? {
+			schema,
+			name,
+			type: "table",
+		}
+	);
 }
 
-export async function searchTableRows(
+/**
+ * Enum labels and CHECK constraints that edits of the columns must
+ * satisfy, keyed by column name, so forms can refuse a value before the
+ * statement is sent.
+ */
+export async function fetchColumnRules(
 	dispatch: AppDispatch,
-	state: AppState,
 	dbConfig: DatabaseConfig,
 	table: TableInfo,
 	columns: ColumnInfo[],
-	options: SearchTableOptions,
-): Promise<void> {
-	const normalizedTerm = options.term.trim();
-	dispatch({ type: ActionType.SetSearchTerm, term: normalizedTerm });
+): Promise<Record<string, ColumnRules>> {
+	let connection: DatabaseConnection | null = null;
 
-	if (!normalizedTerm) {
-		dispatch({ type: ActionType.ClearSearch });
-		dispatch({
-			type: ActionType.SetInfo,
-			message: "Enter a search term to find matching rows.",
-		});
-		return;
+	try {
+		connection = await connectionManager.acquire(dbConfig);
+
+		const introspector = getSchemaIntrospector(connection, dbConfig.type);
+		const options = retryNotifier(dispatch);
+		const { checks } = await introspector.getConstraints(table, options);
+		// MySQL enums are spelled out in the column type; Postgres names a type
+		const enums =
+			dbConfig.type === DBType.PostgreSQL
+				? await introspector.listEnums(options)
+				: [];
+		const rules: Record<string, ColumnRules> = {};
+		for (const column of columns) {
+			const enumType = enums.find((candidate) =>
+				[
+					candidate.name,
+					`${candidate.schema}.${candidate.name}`,
+					`"${candidate.name}"`,
+					`${candidate.schema}."${candidate.name}"`,
+				].includes(column.dataType),
+			);
+			rules[column.name] = enumType
+				? { checks, enumLabels: enumType.labels }
+				: { checks };
+		}
+		return rules;
+	} catch {
+		// Without the rules the database still enforces them on save
+		return {};
+	} finally {
+		if (connection) {
+			connectionManager.release(connection);
+		}
 	}
+}
 
-	if (columns.length === 0) {
-		dispatch({
-			type: ActionType.SetError,
-			error: "Column metadata is required before searching.",
-		});
-		return;
+/**
+ * Values of the column a foreign key points at, to pick a reference from.
+ */
+export async function fetchForeignKeyChoices(
+	dispatch: AppDispatch,
+	state: AppState,
+	dbConfig: DatabaseConfig,
+	column: ColumnInfo,
+	limit = FOREIGN_KEY_CHOICE_LIMIT,
+): Promise<unknown[]> {
+	if (!column.foreignTable) {
+		return [];
 	}
-
-	const offset = Math.max(options.offset ?? 0, 0);
-	const limit = Math.min(
-		Math.max(options.limit ?? DEFAULT_SEARCH_PAGE_SIZE, 1),
-		DEFAULT_SEARCH_PAGE_SIZE,
-	);
-	const likeTerm = `%${normalizedTerm}%`;
-
-	const whereClause = buildSearchWhereClause(dbConfig.type, columns);
-	const orderColumn = selectSearchOrderColumn(dbConfig.type, columns);
-	const queries = buildSearchQueries(
-		dbConfig.type,
-		table,
-		whereClause,
-		orderColumn,
-		limit,
-		offset,
-	);
-
 	let connection: DatabaseConnection | null = null;
 
-	dispatch({ type: ActionType.StartLoading });
-
 	try {
-		connection = createDatabaseConnection(dbConfig);
-		await connection.connect();
+		connection = await connectionManager.acquire(dbConfig);
 
-		const { sql: countSql, params: countParams } = parameterize(
-			queries.countQuery,
-			dbConfig.type,
-			[likeTerm],
+		const options = retryNotifier(dispatch);
+		const referencedTable = resolveListedTable(
+			state.tables,
+			column.foreignSchema,
+			column.foreignTable,
 		);
-		const countResult = await connection.query(countSql, countParams);
-		const totalCount = extractCount(countResult.rows[0]);
+		// SQLite leaves the column out when the key references the primary key
+		const referencedColumn =
+			column.foreignColumn ??
+			(
+				await getSchemaIntrospector(connection, dbConfig.type).getColumns(
+					referencedTable,
+					options,
+				)
+			).find((candidate) => candidate.isPrimaryKey)?.name;
+		if (!referencedColumn) {
+			return [];
+		}
 
-		const { sql: dataSql, params: dataParams } = parameterize(
-			queries.dataQuery,
-			dbConfig.type,
-			[likeTerm],
+		const columnRef = quoteIdentifier(dbConfig.type, referencedColumn);
+		const result = await connection.query(
+			`SELECT DISTINCT ${columnRef} AS value FROM ${buildTableReference(
+				dbConfig.type,
+				referencedTable,
+			)} WHERE ${columnRef} IS NOT NULL ORDER BY 1 LIMIT ${limit}`,
+			[],
+			options,
 		);
-		const dataResult = await connection.query(dataSql, dataParams);
-
-		const hasMore = offset + dataResult.rows.length < totalCount;
-		dispatch({
-			type: ActionType.SetSearchResultsPage,
-			rows: dataResult.rows as DataRow[],
-			totalCount,
-			offset,
-			hasMore,
-		});
+		return result.rows.map((row) => row.value);
 	} catch (error) {
 		dispatch({
 			type: ActionType.SetError,
 			error:
-				error instanceof Error ? error.message : "Search execution failed.",
+				error instanceof Error
+					? error.message
+					: "Failed to load foreign key values.",
 		});
+		return [];
 	} finally {
 		if (connection) {
-			try {
-				await connection.close();
-			} catch {
-				// ignore close errors
-			}
+			connectionManager.release(connection);
 		}
-		dispatch({ type: ActionType.StopLoading });
 	}
 }
 
-export async function clearTableCacheEntry(
+/**
+ * Insert a row from form input. Columns without input get their DEFAULT.
+ * Returns the row as stored, read back with RETURNING where the database
+ * has it and by the generated key elsewhere. While staging, the insert is
+ * staged and the values are returned instead.
+ */
+export async function insertTableRow(
 	dispatch: AppDispatch,
 	state: AppState,
-	dbConfig: DatabaseConfig,
 	table: TableInfo,
-): Promise<void> {
-	const connectionId = state.activeConnection?.id;
-	const cacheKey = tableCacheKey(table);
-
-	if (!connectionId || !cacheKey) {
+	inputs: Record<string, string>,
+	rules: Record<string, ColumnRules> = {},
+): Promise<DataRow | null> {
+	if (!state.activeConnection || !state.dbType) {
+		dispatch({
+			type: ActionType.SetError,
+			error: "No active database connection.",
+		});
+		return null;
+	}
+
+	const values: DataRow = {};
+	for (const [name, input] of Object.entries(inputs)) {
+		const column = state.columns.find((candidate) => candidate.name === name);
+		if (!column) {
+			continue;
+		}
+		const edited = interpretEditedInput(
+			input,
+			column,
+			rules[name],
+			state.dbType,
+		);
+		if (!edited.ok) {
+			dispatch({ type: ActionType.SetError, error: edited.error });
+			return null;
+		}
+		values[name] = edited.value;
+	}
+
+	if (state.stagingEnabled) {
+		dispatch({
+			type: ActionType.StagePendingChange,
+			change: { kind: "insert", table, values },
+		});
+		dispatch({
+			type: ActionType.SetInfo,
+			message: `Staged an insert into ${table.name}.`,
+		});
+		return values;
+	}
+
+	const dbType = state.dbType;
+	const config: DatabaseConfig = {
+		type: dbType,
+		connectionString: state.activeConnection.connectionString,
+		tls: state.activeConnection.tls,
+	};
+
+	let connection: DatabaseConnection | null = null;
+
+	try {
+		connection = await connectionManager.acquire(config);
+
+		const inserted = await connection.transaction((tx) =>
+			insertReturningRow(tx, dbType, table, state.columns, values),
+		);
+		// Without a key to read it back by, show what was sent
+		const row = inserted ?? values;
+		dispatch({ type: ActionType.InsertDataRow, row, table });
+		const journalled =
+			inserted && journalledRow(dbType, table, state.columns, "insert", row);
+		if (journalled) {
+			await recordEdits(
+				dispatch,
+				state.editJournal,
+				state.activeConnection.id,
+				[journalled],
+			);
+		}
+		dispatch({
+			type: ActionType.SetInfo,
+			message: `Inserted a row into ${table.name}.`,
+		});
+		return row;
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error:
+				error instanceof Error ? error.message : "Failed to insert the row.",
+		});
+		return null;
+	} finally {
+		if (connection) {
+			connectionManager.release(connection);
+		}
+	}
+}
+
+export async function updateTableFieldValue(
+	dispatch: AppDispatch,
+	state: AppState,
+	table: TableInfo | null,
+	column: ColumnInfo,
+	rowIndex: number | null,
+	row: DataRow,
+	inputValue: string,
+	rules?: ColumnRules,
+): Promise<boolean> {
+	if (!table) {
+		dispatch({
+			type: ActionType.SetError,
+			error: "No table selected for editing.",
+		});
+		return false;
+	}
+
+	if (!state.activeConnection || !state.dbType) {
+		dispatch({
+			type: ActionType.SetError,
+			error: "No active database connection.",
+		});
+		return false;
+	}
+
+	const identity = getRowIdentity(state.dbType, table, state.columns);
+	if (!identity) {
+		dispatch({
+			type: ActionType.SetError,
+			error: "Editing requires a primary key to identify the row.",
+		});
+		return false;
+	}
+
+	const edited = interpretEditedInput(inputValue, column, rules, state.dbType);
+	if (!edited.ok) {
+		dispatch({ type: ActionType.SetError, error: edited.error });
+		return false;
+	}
+
+	const originalValue = row[column.name];
+	const parsedValue = edited.value;
+	if (valuesAreEqual(originalValue, parsedValue)) {
+		dispatch({
+			type: ActionType.SetInfo,
+			message: `No changes made to ${column.name}.`,
+		});
+		return false;
+	}
+
+	if (!state.dbType) {
+		dispatch({
+			type: ActionType.SetError,
+			error: "Database type not set.",
+		});
+		return false;
+	}
+
+	const key = buildRowIdentityKey(identity, row);
+	if (typeof key === "string") {
+		dispatch({ type: ActionType.SetError, error: key });
+		return false;
+	}
+	const change: PendingChange = {
+		kind: "update",
+		table,
+		key,
+		column: column.name,
+		previous: originalValue,
+		value: parsedValue,
+	};
+
+	if (state.stagingEnabled) {
+		return stageFieldEdit(dispatch, state, change, column, identity);
+	}
+
+	return writeFieldEdit(
+		dispatch,
+		state,
+		change,
+		column,
+		rowIndex,
+		identity,
+		row,
+	);
+}
+
+/**
+ * The values that find the row again, or why the row can't be found. Only
+ * MySQL tables without any key match on every loaded value; JSON values
+ * are left out of that match as they don't compare as parameters.
+ */
+function buildRowIdentityKey(
+	identity: RowIdentity,
+	row: DataRow,
+): RowFilter | string {
+	const key: RowFilter = {};
+	for (const name of identity.columns) {
+		const value = row[name];
+		if (identity.strategy === "all-columns") {
+			if (
+				isComparableValue(value) ||
+				value instanceof Date ||
+				value instanceof Uint8Array
+			) {
+				key[name] = value;
+			}
+			continue;
+		}
+		if (value === undefined) {
+			switch (identity.strategy) {
+				case "primary-key":
+					return `Missing primary key value for column ${name}. Unable to update row.`;
+				case "unique-index":
+					return `Missing unique key value for column ${name}. Unable to update row.`;
+				default:
+					return `The row was loaded without its ${name}; refresh the table (r) to edit it.`;
+			}
+		}
+		key[name] = value;
+	}
+	if (Object.keys(key).length === 0) {
+		return "None of the row's values can be matched to find it again. Unable to update row.";
+	}
+	return key;
+}
+
+/**
+ * Run a cell edit now. With a concurrency check on, the row must still
+ * hold the values `loaded` had; when it doesn't, nothing is written and
+ * the conflict is kept for the user to resolve. Without `loaded` the
+ * edit is written by key alone.
+ */
+async function writeFieldEdit(
+	dispatch: AppDispatch,
+	state: AppState,
+	change: CellEdit,
+	column: ColumnInfo,
+	rowIndex: number | null,
+	identity: RowIdentity,
+	loaded: DataRow | null,
+): Promise<boolean> {
+	if (!state.activeConnection || !state.dbType) {
+		dispatch({
+			type: ActionType.SetError,
+			error: "No active database connection.",
+		});
+		return false;
+	}
+
+	const dbType = state.dbType;
+	// A ctid or a match on every value already fails once the row changes
+	const isLooseIdentity =
+		identity.strategy === "ctid" || identity.strategy === "all-columns";
+	const expected =
+		loaded && !isLooseIdentity
+			? expectedRowValues(state.concurrencyCheck, loaded, change)
+			: null;
+	const config: DatabaseConfig = {
+		type: dbType,
+		connectionString: state.activeConnection.connectionString,
+		tls: state.activeConnection.tls,
+	};
+
+	let connection: DatabaseConnection | null = null;
+
+	try {
+		connection = await connectionManager.acquire(config);
+
+		if (isLooseIdentity) {
+			const outcome = await connection.transaction(async (tx) => {
+				if (identity.strategy === "ctid") {
+					const { sql, params } = buildPendingChangeStatement(dbType, change);
+					// The update moves the row; its new ctid keeps it editable
+					const result = await tx.query(`${sql} RETURNING ctid`, params);
+					return { matched: result.rows.length, rowId: result.rows[0]?.ctid };
+				}
+				const { sql, params } = buildCheckedUpdateStatement(
+					dbType,
+					{ ...change, key: {} },
+					change.key,
+				);
+				return {
+					matched: await runCountingRows(tx, dbType, `${sql} LIMIT 1`, params),
+				};
+			});
+			if (outcome.matched === 0) {
+				dispatch({
+					type: ActionType.SetError,
+					error:
+						"Nothing was saved: the row changed or was deleted since it was loaded. Refresh the table (r) to edit it.",
+				});
+				return false;
+			}
+			if (outcome.rowId !== undefined) {
+				dispatch({
+					type: ActionType.UpdateDataRowValue,
+					columnName: "ctid",
+					value: outcome.rowId,
+					rowIndex,
+					table: change.table,
+				});
+			}
+		} else if (loaded && expected) {
+			const checked = buildCheckedUpdateStatement(dbType, change, expected);
+			const outcome = await connection.transaction(async (tx) => {
+				const updated = await runCountingRows(
+					tx,
+					dbType,
+					checked.sql,
+					checked.params,
+				);
+				if (updated > 0) {
+					return { updated: true as const };
+				}
+				const where = buildRowFilterClause(dbType, change.key);
+				const read = parameterize(
+					`SELECT * FROM ${buildTableReference(dbType, change.table)}${where.clause}`,
+					dbType,
+					where.params,
+				);
+				const current = (await tx.query(read.sql, read.params)).rows[0];
+				return { updated: false as const, current: current ?? null };
+			});
+			if (!outcome.updated) {
+				dispatch({
+					type: ActionType.SetEditConflict,
+					conflict: {
+						table: change.table,
+						key: change.key,
+						column,
+						rowIndex,
+						loaded,
+						current: outcome.current,
+						value: change.value,
+					},
+				});
+				return false;
+			}
+		} else {
+			const { sql, params } = buildPendingChangeStatement(dbType, change);
+			await connection.transaction((tx) => tx.execute(sql, params));
+		}
+
+		dispatch({
+			type: ActionType.UpdateDataRowValue,
+			columnName: column.name,
+			value: change.value,
+			rowIndex,
+			table: change.table,
+		});
+		dispatch({
+			type: ActionType.SetInfo,
+			message:
+				identity.strategy === "all-columns"
+					? `Updated ${column.name} in the first row holding every loaded value.`
+					: `Updated ${column.name}.`,
+		});
+		// Neither key finds the row again, so such edits can't be undone
+		if (!isLooseIdentity) {
+			await recordEdits(
+				dispatch,
+				state.editJournal,
+				state.activeConnection.id,
+				[change],
+			);
+		}
+		return true;
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error: describeEditFailure(error, column),
+		});
+		return false;
+	} finally {
+		if (connection) {
+			connectionManager.release(connection);
+		}
+	}
+}
+
+/**
+ * The loaded values a checked edit expects to still be stored, other than
+ * the key. Values that don't compare reliably as parameters (JSON, binary,
+ * timestamps read as Dates) are left out; the row must still exist.
+ */
+function expectedRowValues(
+	check: ConcurrencyCheck,
+	loaded: DataRow,
+	change: CellEdit,
+): RowFilter | null {
+	if (check === "off") {
+		return null;
+	}
+	const names =
+		check === "cell"
+			? [change.column]
+			: Object.keys(loaded).filter((name) => !(name in change.key));
+	const expected: RowFilter = {};
+	for (const name of names) {
+		const value = loaded[name];
+		if (isComparableValue(value)) {
+			expected[name] = value;
+		}
+	}
+	return expected;
+}
+
+function isComparableValue(value: unknown): boolean {
+	return (
+		value === null ||
+		["string", "number", "bigint", "boolean"].includes(typeof value)
+	);
+}
+
+/**
+ * Settle a checked edit that found the row changed: reload shows the row
+ * as it is now, overwrite writes the edit over it and cancel only drops
+ * the conflict, leaving the edit open or staged.
+ */
+export async function resolveEditConflict(
+	dispatch: AppDispatch,
+	state: AppState,
+	resolution: "reload" | "overwrite" | "cancel",
+): Promise<boolean> {
+	const conflict = state.editConflict;
+	if (!conflict) {
+		return false;
+	}
+	dispatch({ type: ActionType.SetEditConflict, conflict: null });
+	if (resolution === "cancel") {
+		return false;
+	}
+	if (conflict.staged) {
+		return settleStagedEditConflict(dispatch, state, conflict, resolution);
+	}
+
+	const current = conflict.current;
+	if (!current) {
+		dispatch({
+			type: ActionType.RemoveDataRows,
+			keys: [conflict.key],
+			table: conflict.table,
+		});
+		dispatch({ type: ActionType.SetView, view: ViewState.DataPreview });
+		dispatch({
+			type: ActionType.SetInfo,
+			message: "The row was deleted since it was loaded.",
+		});
+		return false;
+	}
+
+	showCurrentRow(dispatch, conflict, current);
+	if (resolution === "reload") {
+		dispatch({
+			type: ActionType.SetInfo,
+			message: `Reloaded the row; the edit to ${conflict.column.name} was not saved.`,
+		});
+		return false;
+	}
+
+	const identity =
+		state.dbType && getRowIdentity(state.dbType, conflict.table, state.columns);
+	if (!identity) {
+		dispatch({
+			type: ActionType.SetError,
+			error: "Editing requires a primary key to identify the row.",
+		});
+		return false;
+	}
+	return writeFieldEdit(
+		dispatch,
+		state,
+		{
+			kind: "update",
+			table: conflict.table,
+			key: conflict.key,
+			column: conflict.column.name,
+			previous: current[conflict.column.name],
+			value: conflict.value,
+		},
+		conflict.column,
+		conflict.rowIndex,
+		identity,
+		null,
+	);
+}
+
+function showCurrentRow(
+	dispatch: AppDispatch,
+	conflict: EditConflict,
+	current: DataRow,
+): void {
+	for (const [columnName, value] of Object.entries(current)) {
+		dispatch({
+			type: ActionType.UpdateDataRowValue,
+			columnName,
+			value,
+			rowIndex: conflict.rowIndex,
+			table: conflict.table,
+		});
+	}
+}
+
+/**
+ * Stage a cell edit. The row is found again by its key on commit, so key
+ * columns can't be staged; an edit back to the stored value unstages.
+ */
+function stageFieldEdit(
+	dispatch: AppDispatch,
+	state: AppState,
+	change: CellEdit,
+	column: ColumnInfo,
+	identity: RowIdentity,
+): boolean {
+	if (identity.strategy === "ctid" || identity.strategy === "all-columns") {
+		dispatch({
+			type: ActionType.SetError,
+			error: `Rows identified by ${
+				identity.strategy === "ctid" ? "ctid" : "all their values"
+			} change identity when edited, so edits can't be staged; turn staging off to edit them.`,
+		});
+		return false;
+	}
+	if (identity.columns.includes(column.name)) {
+		dispatch({
+			type: ActionType.SetError,
+			error: `${
+				identity.strategy === "primary-key" ? "Primary key" : "Unique key"
+			} column ${column.name} cannot be staged; turn staging off to edit it.`,
+		});
+		return false;
+	}
+
+	const stagedIndex = state.pendingChanges.findIndex(
+		(staged) =>
+			staged.kind === "update" &&
+			isSameTable(staged.table, change.table) &&
+			staged.column === change.column &&
+			rowMatchesKey(staged.key, change.key),
+	);
+	const staged = state.pendingChanges[stagedIndex];
+	if (
+		staged?.kind === "update" &&
+		valuesAreEqual(staged.previous, change.value)
+	) {
+		dispatch({ type: ActionType.DropPendingChange, index: stagedIndex });
+		if (state.expandedRow) {
+			dispatch({
+				type: ActionType.SetExpandedRow,
+				row: { ...state.expandedRow, [change.column]: staged.previous },
+			});
+		}
+		dispatch({
+			type: ActionType.SetInfo,
+			message: `Unstaged the edit to ${column.name}.`,
+		});
+		return true;
+	}
+
+	dispatch({ type: ActionType.StagePendingChange, change });
+	dispatch({
+		type: ActionType.SetInfo,
+		message: `Staged the edit to ${column.name}.`,
+	});
+	return true;
+}
+
+/**
+ * Run all staged changes in one transaction, in the order they were
+ * staged, and return to the grid. Nothing is applied if any statement
+ * fails, and the changes stay staged to be fixed or discarded; an edit
+ * whose row changed since staging is raised as an edit conflict.
+ */
+export async function commitPendingChanges(
+	dispatch: AppDispatch,
+	state: AppState,
+): Promise<boolean> {
+	if (!state.activeConnection || !state.dbType) {
+		dispatch({
+			type: ActionType.SetError,
+			error: "No active database connection.",
+		});
+		return false;
+	}
+	if (state.pendingChanges.length === 0) {
+		dispatch({ type: ActionType.SetInfo, message: "No staged changes." });
+		return false;
+	}
+
+	const dbType = state.dbType;
+	const config: DatabaseConfig = {
+		type: dbType,
+		connectionString: state.activeConnection.connectionString,
+		tls: state.activeConnection.tls,
+	};
+
+	let connection: DatabaseConnection | null = null;
+	let written: Array<CellEdit | RowChange> = [];
+
+	try {
+		connection = await connectionManager.acquire(config);
+		const columnsByTable = await loadStagedTableColumns(
+			dispatch,
+			state,
+			connection,
+			dbType,
+		);
+
+		written = await connection.transaction(async (tx) => {
+			const journalled: Array<CellEdit | RowChange> = [];
+			for (const change of state.pendingChanges) {
+				const columns = columnsByTable.get(tableCacheKey(change.table)) ?? [];
+				if (change.kind === "insert") {
+					const row = await insertReturningRow(
+						tx,
+						dbType,
+						change.table,
+						columns,
+						change.values,
+					);
+					const entry =
+						row && journalledRow(dbType, change.table, columns, "insert", row);
+					if (entry) {
+						journalled.push(entry);
+					}
+					continue;
+				}
+				if (change.kind === "update") {
+					const [{ sql, params }] = buildCommitStatements(
+						dbType,
+						change,
+						columns,
+						state.concurrencyCheck,
+					);
+					if ((await runCountingRows(tx, dbType, sql, params)) === 0) {
+						const [current] = await selectRowsForUpdate(
+							tx,
+							dbType,
+							change.table,
+							[change.key],
+						);
+						throw new StagedEditConflict(change, current ?? null);
+					}
+					journalled.push(change);
+					continue;
+				}
+				// Read the row first so the journal can put it back
+				const [select, remove] = buildCommitStatements(dbType, change, columns);
+				const [row] = (await tx.query(select.sql, select.params)).rows;
+				const entry =
+					row && journalledRow(dbType, change.table, columns, "delete", row);
+				if (entry) {
+					journalled.push(entry);
+				}
+				await tx.execute(remove.sql, remove.params);
+			}
+			return journalled;
+		});
+	} catch (error) {
+		if (error instanceof StagedEditConflict) {
+			raiseStagedEditConflict(dispatch, state, error);
+			return false;
+		}
+		dispatch({
+			type: ActionType.SetError,
+			error:
+				error instanceof Error
+					? `Nothing was committed: ${error.message}`
+					: "Failed to commit the staged changes.",
+		});
+		return false;
+	} finally {
+		if (connection) {
+			connectionManager.release(connection);
+		}
+	}
+
+	const count = state.pendingChanges.length;
+	await recordEdits(
+		dispatch,
+		state.editJournal,
+		state.activeConnection.id,
+		written,
+	);
+	dispatch({ type: ActionType.ClearPendingChanges });
+	dispatch({ type: ActionType.SetView, view: ViewState.DataPreview });
+	dispatch({
+		type: ActionType.SetInfo,
+		message: `Committed ${count} ${count === 1 ? "change" : "changes"}.`,
+	});
+
+	// Generated keys and defaults of inserted rows come from the database
+	const table = state.selectedTable;
+	if (
+		table &&
+		state.pendingChanges.some((change) => isSameTable(change.table, table))
+	) {
+		await fetchTableData(dispatch, state, config, table, {
+			offset: state.currentOffset,
+		});
+	}
+	return true;
+}
+
+/** A table's columns as already loaded: from the grid or the table cache. */
+export function knownTableColumns(
+	state: AppState,
+	table: TableInfo,
+): ColumnInfo[] {
+	if (isSameTable(table, state.selectedTable)) {
+		return state.columns;
+	}
+	const key = tableCacheKey(table);
+	return (key && state.tableCache[key]?.columns) || [];
+}
+
+/**
+ * The columns of each table with staged changes, which need not be the
+ * open one: from the grid, the table cache or else the database.
+ */
+async function loadStagedTableColumns(
+	dispatch: AppDispatch,
+	state: AppState,
+	connection: DatabaseConnection,
+	dbType: DBType,
+): Promise<Map<string | null, ColumnInfo[]>> {
+	const columnsByTable = new Map<string | null, ColumnInfo[]>();
+	for (const { table } of state.pendingChanges) {
+		const key = tableCacheKey(table);
+		if (columnsByTable.has(key)) {
+			continue;
+		}
+		const cached = knownTableColumns(state, table);
+		columnsByTable.set(
+			key,
+			cached.length > 0
+				? cached
+				: await loadColumnInfo(
+						getSchemaIntrospector(connection, dbType),
+						table,
+						retryNotifier(dispatch),
+					),
+		);
+	}
+	return columnsByTable;
+}
+
+/**
+ * Show a staged edit that found its row changed as an edit conflict. Of
+ * the row as loaded, staging only kept the edited cell.
+ */
+function raiseStagedEditConflict(
+	dispatch: AppDispatch,
+	state: AppState,
+	{ change, current }: StagedEditConflict,
+): void {
+	const column = state.columns.find((info) => info.name === change.column);
+	const rowIndex = state.dataRows.findIndex((row) =>
+		rowMatchesKey(row, change.key),
+	);
+	dispatch({
+		type: ActionType.SetEditConflict,
+		conflict: {
+			table: change.table,
+			key: change.key,
+			column: column ?? {
+				name: change.column,
+				dataType: "unknown",
+				nullable: true,
+			},
+			rowIndex: rowIndex === -1 ? null : rowIndex,
+			loaded: { ...(current ?? change.key), [change.column]: change.previous },
+			current,
+			value: change.value,
+			staged: true,
+		},
+	});
+}
+
+/**
+ * Settle a conflict found on commit: reload drops the staged edit, or all
+ * staged edits of a deleted row, and overwrite stages it again over the
+ * value stored now. The grid then shows the rows as they are.
+ */
+async function settleStagedEditConflict(
+	dispatch: AppDispatch,
+	state: AppState,
+	conflict: EditConflict,
+	resolution: "reload" | "overwrite",
+): Promise<boolean> {
+	const column = conflict.column.name;
+	const dropped = state.pendingChanges.flatMap((change, index) =>
+		change.kind === "update" &&
+		isSameTable(change.table, conflict.table) &&
+		rowMatchesKey(change.key, conflict.key) &&
+		(!conflict.current || change.column === column)
+			? [index]
+			: [],
+	);
+	// Later indexes first, so the earlier ones still point at their change
+	for (const index of dropped.reverse()) {
+		dispatch({ type: ActionType.DropPendingChange, index });
+	}
+
+	const restaged = resolution === "overwrite" && conflict.current !== null;
+	if (restaged && conflict.current) {
+		dispatch({
+			type: ActionType.StagePendingChange,
+			change: {
+				kind: "update",
+				table: conflict.table,
+				key: conflict.key,
+				column,
+				previous: conflict.current[column],
+				value: conflict.value,
+			},
+		});
+	}
+	dispatch({
+		type: ActionType.SetInfo,
+		message: !conflict.current
+			? "The row was deleted since it was staged; dropped its staged edits."
+			: restaged
+				? `Staged the edit to ${column} again over the stored value; commit to write it.`
+				: `Dropped the staged edit to ${column}; the row changed since it was staged.`,
+	});
+
+	const table = state.selectedTable;
+	if (
+		state.activeConnection &&
+		state.dbType &&
+		table &&
+		isSameTable(conflict.table, table)
+	) {
+		await fetchTableData(
+			dispatch,
+			state,
+			{
+				type: state.dbType,
+				connectionString: state.activeConnection.connectionString,
+				tls: state.activeConnection.tls,
+			},
+			table,
+			{ offset: state.currentOffset },
+		);
+	}
+	return restaged;
+}
+
+/** Add written edits to the journal, on top of `journal`, and save it. */
+async function recordEdits(
+	dispatch: AppDispatch,
+	journal: EditJournalEntry[],
+	connectionId: string,
+	edits: Array<CellEdit | RowChange>,
+	undoes?: string,
+): Promise<void> {
+	if (edits.length === 0) {
+		return;
+	}
+	// JSON has no bigint; the journal keeps those as text
+	const storable = (value: unknown) =>
+		typeof value === "bigint" ? value.toString() : value;
+	const storableRow = (row: DataRow) =>
+		Object.fromEntries(
+			Object.entries(row).map(([name, value]) => [name, storable(value)]),
+		);
+	const changedAt = new Date().toISOString();
+	const entries = edits.map((edit): EditJournalEntry => {
+		const base = {
+			id: nanoid(),
+			connectionId,
+			table: edit.table,
+			key: storableRow(edit.key),
+			changedAt,
+			...(undoes ? { undoes } : {}),
+		};
+		if (edit.kind === "update") {
+			return {
+				...base,
+				column: edit.column,
+				oldValue: storable(edit.previous),
+				newValue: storable(edit.value),
+			};
+		}
+		return edit.kind === "insert"
+			? { ...base, kind: "insert", row: storableRow(edit.row) }
+			: { ...base, kind: "delete", row: storableRow(edit.row) };
+	});
+	dispatch({ type: ActionType.AddEditJournalEntries, entries });
+	// The edit itself went through; a journal that fails to save only warns
+	try {
+		await saveEditJournal(
+			[...[...entries].reverse(), ...journal].slice(0, EDIT_JOURNAL_LIMIT),
+		);
+	} catch (error) {
+		enqueueNotification(
+			dispatch,
+			`Could not save the edit journal: ${
+				error instanceof Error ? error.message : String(error)
+			}`,
+			"warning",
+		);
+	}
+}
+
+/**
+ * Undo a journalled edit with the inverse UPDATE. Refuses when the cell no
+ * longer holds the value the edit wrote, so later changes are not lost.
+ * Inserted and deleted rows are undone by deleting or re-inserting them.
+ */
+export async function undoEditJournalEntry(
+	dispatch: AppDispatch,
+	state: AppState,
+	entry: EditJournalEntry,
+): Promise<boolean> {
+	if (!state.activeConnection || !state.dbType) {
+		dispatch({
+			type: ActionType.SetError,
+			error: "No active database connection.",
+		});
+		return false;
+	}
+	if (entry.connectionId !== state.activeConnection.id) {
+		dispatch({
+			type: ActionType.SetError,
+			error: "This edit was made on another connection.",
+		});
+		return false;
+	}
+	if (entry.undoneAt) {
+		dispatch({
+			type: ActionType.SetError,
+			error: "This edit was already undone.",
+		});
+		return false;
+	}
+
+	if (entry.kind === "insert" || entry.kind === "delete") {
+		return undoRowJournalEntry(
+			dispatch,
+			state,
+			state.dbType,
+			{
+				type: state.dbType,
+				connectionString: state.activeConnection.connectionString,
+				tls: state.activeConnection.tls,
+			},
+			entry,
+		);
+	}
+
+	const dbType = state.dbType;
+	const connectionId = state.activeConnection.id;
+	const label = `${entry.table.name}.${entry.column}`;
+	const inverse: CellEdit = {
+		kind: "update",
+		table: entry.table,
+		key: entry.key,
+		column: entry.column,
+		previous: entry.newValue,
+		value: entry.oldValue,
+	};
+	const where = buildRowFilterClause(dbType, entry.key);
+	// Lock the row so nothing changes it between the check and the update
+	const select = parameterize(
+		`SELECT ${quoteIdentifier(dbType, entry.column)} AS current_value FROM ${buildTableReference(
+			dbType,
+			entry.table,
+		)}${where.clause}${dbType === DBType.SQLite ? "" : " FOR UPDATE"}`,
+		dbType,
+		where.params,
+	);
+	const update = buildPendingChangeStatement(dbType, inverse);
+
+	let connection: DatabaseConnection | null = null;
+
+	try {
+		connection = await connectionManager.acquire({
+			type: dbType,
+			connectionString: state.activeConnection.connectionString,
+			tls: state.activeConnection.tls,
+		});
+
+		const refusal = await connection.transaction(async (tx) => {
+			const current = (await tx.query(select.sql, select.params)).rows[0];
+			if (!current) {
+				return "the row no longer exists";
+			}
+			if (!matchesWrittenValue(current.current_value, entry.newValue)) {
+				return `${label} is now ${formatValueForDisplay(
+					current.current_value,
+				)}, not the ${formatValueForDisplay(entry.newValue)} this edit wrote`;
+			}
+			await tx.execute(update.sql, update.params);
+			return null;
+		});
+		if (refusal) {
+			dispatch({
+				type: ActionType.SetError,
+				error: `Refusing to undo: ${refusal}.`,
+			});
+			return false;
+		}
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error:
+				error instanceof Error ? error.message : "Failed to undo the edit.",
+		});
+		return false;
+	} finally {
+		if (connection) {
+			connectionManager.release(connection);
+		}
+	}
+
+	const undoneAt = new Date().toISOString();
+	dispatch({ type: ActionType.MarkEditUndone, id: entry.id, undoneAt });
+	const rowIndex = isSameTable(entry.table, state.selectedTable)
+		? state.dataRows.findIndex((row) => rowMatchesKey(row, entry.key))
+		: -1;
+	if (rowIndex !== -1) {
+		dispatch({
+			type: ActionType.UpdateDataRowValue,
+			columnName: entry.column,
+			value: entry.oldValue,
+			rowIndex,
+			table: entry.table,
+		});
+	}
+	await recordEdits(
+		dispatch,
+		state.editJournal.map((journalled) =>
+			journalled.id === entry.id ? { ...journalled, undoneAt } : journalled,
+		),
+		connectionId,
+		[inverse],
+		entry.id,
+	);
+	dispatch({
+		type: ActionType.SetInfo,
+		message: `Undid the edit to ${label}.`,
+	});
+	return true;
+}
+
+/**
+ * Delete a journalled inserted row, or insert a journalled deleted row
+ * again. An insert is only undone while the row still holds what was
+ * inserted, and a delete only while no row has taken its key since.
+ */
+async function undoRowJournalEntry(
+	dispatch: AppDispatch,
+	state: AppState,
+	dbType: DBType,
+	config: DatabaseConfig,
+	entry: RowJournalEntry,
+): Promise<boolean> {
+	const inverse: RowChange = {
+		kind: entry.kind === "insert" ? "delete" : "insert",
+		table: entry.table,
+		key: entry.key,
+		row: entry.row,
+	};
+	const statement = buildPendingChangeStatement(
+		dbType,
+		inverse.kind === "delete"
+			? { kind: "delete", table: entry.table, key: entry.key }
+			: { kind: "insert", table: entry.table, values: entry.row },
+	);
+	const label = `the ${entry.kind === "insert" ? "insert into" : "delete from"} ${entry.table.name}`;
+
+	let connection: DatabaseConnection | null = null;
+
+	try {
+		connection = await connectionManager.acquire(config);
+
+		const refusal = await connection.transaction(async (tx) => {
+			const [current] = await selectRowsForUpdate(tx, dbType, entry.table, [
+				entry.key,
+			]);
+			if (entry.kind === "delete" && current) {
+				return "a row with the same key exists again";
+			}
+			if (entry.kind === "insert") {
+				if (!current) {
+					return "the row no longer exists";
+				}
+				const changed = Object.keys(entry.row).find(
+					(name) =>
+						name in current &&
+						!matchesWrittenValue(current[name], entry.row[name]),
+				);
+				if (changed) {
+					return `${entry.table.name}.${changed} is now ${formatValueForDisplay(
+						current[changed],
+					)}, not the ${formatValueForDisplay(entry.row[changed])} the insert wrote`;
+				}
+			}
+			await tx.execute(statement.sql, statement.params);
+			return null;
+		});
+		if (refusal) {
+			dispatch({
+				type: ActionType.SetError,
+				error: `Refusing to undo: ${refusal}.`,
+			});
+			return false;
+		}
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error:
+				error instanceof Error ? error.message : "Failed to undo the edit.",
+		});
+		return false;
+	} finally {
+		if (connection) {
+			connectionManager.release(connection);
+		}
+	}
+
+	const undoneAt = new Date().toISOString();
+	dispatch({ type: ActionType.MarkEditUndone, id: entry.id, undoneAt });
+	dispatch(
+		inverse.kind === "delete"
+			? {
+					type: ActionType.RemoveDataRows,
+					keys: [entry.key],
+					table: entry.table,
+				}
+			: { type: ActionType.InsertDataRow, row: entry.row, table: entry.table },
+	);
+	await recordEdits(
+		dispatch,
+		state.editJournal.map((journalled) =>
+			journalled.id === entry.id ? { ...journalled, undoneAt } : journalled,
+		),
+		entry.connectionId,
+		[inverse],
+		entry.id,
+	);
+	dispatch({ type: ActionType.SetInfo, message: `Undid ${label}.` });
+	return true;
+}
+
+/** Undo the newest edit on the connection that is not yet undone. */
+export async function undoLastEdit(
+	dispatch: AppDispatch,
+	state: AppState,
+): Promise<boolean> {
+	const entry = state.editJournal.find(
+		(journalled) =>
+			journalled.connectionId === state.activeConnection?.id &&
+			!journalled.undoneAt &&
+			!journalled.undoes,
+	);
+	if (!entry) {
+		dispatch({ type: ActionType.SetInfo, message: "Nothing to undo." });
+		return false;
+	}
+	return undoEditJournalEntry(dispatch, state, entry);
+}
+
+/** Save the connection's journal as a SQL script of its edits. */
+export async function exportEditJournal(
+	dispatch: AppDispatch,
+	state: AppState,
+): Promise<void> {
+	const connection = state.activeConnection;
+	if (!connection || !state.dbType) {
+		dispatch({
+			type: ActionType.SetError,
+			error: "No active database connection.",
+		});
+		return;
+	}
+	const entries = state.editJournal.filter(
+		(entry) => entry.connectionId === connection.id,
+	);
+	if (entries.length === 0) {
+		dispatch({
+			type: ActionType.SetInfo,
+			message: "No edits journalled on this connection.",
+		});
+		return;
+	}
+
+	try {
+		const filepath = await exportJournalScript(
+			journalScript(
+				state.dbType,
+				entries,
+				`Edit journal of ${connection.name}, exported ${new Date().toISOString()}`,
+			),
+		);
+		dispatch({
+			type: ActionType.SetInfo,
+			message: `Saved edit journal to ${filepath}`,
+		});
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error: error instanceof Error ? error.message : "Export failed.",
+		});
+	}
+}
+
+/** How many foreign keys deep a deletion preview follows ON DELETE CASCADE. */
+const MAX_CASCADE_DEPTH = 5;
+
+/** What deleting rows would take with it, shown before anything is deleted. */
+export interface RowDeletionPreview {
+	/** Primary key values of the rows to delete. */
+	keys: RowFilter[];
+	/**
+	 * Rows in other tables that point at them, per foreign key. The key's
+	 * ON DELETE action decides whether they go too, are cleared or stop the
+	 * delete. Rows a cascade deletes are followed in turn, so each entry is
+	 * listed right after the one whose rows it references; depth 1 points
+	 * straight at the deleted rows.
+	 */
+	dependents: Array<{
+		foreignKey: ReferencingKeySchema;
+		count: number;
+		depth: number;
+	}>;
+	/** Whether cascades went deeper than the preview follows. */
+	truncated: boolean;
+}
+
+/**
+ * Rows a delete takes: the selected rows themselves, or a condition on
+ * their table matching the rows a cascade takes with them.
+ */
+type DeletedRows =
+	| { kind: "rows"; rows: DataRow[]; primaryKey: string[] }
+	| { kind: "cascade"; clause: string; params: unknown[] };
+
+interface DependentsContext {
+	connection: DatabaseConnection;
+	introspector: SchemaIntrospector;
+	dbType: DBType;
+	tables: TableInfo[];
+	options: QueryOptions;
+}
+
+/** Primary key values of rows, or an explanation of why there are none. */
+function primaryKeysOf(
+	columns: ColumnInfo[],
+	rows: DataRow[],
+): RowFilter[] | string {
+	const primaryKeys = columns.filter((column) => column.isPrimaryKey);
+	if (primaryKeys.length === 0) {
+		return "Deleting requires a primary key to identify the rows.";
+	}
+	const keys: RowFilter[] = [];
+	for (const row of rows) {
+		const key: RowFilter = {};
+		for (const column of primaryKeys) {
+			if (row[column.name] === undefined || row[column.name] === null) {
+				return `Missing primary key value for column ${column.name}.`;
+			}
+			key[column.name] = row[column.name];
+		}
+		keys.push(key);
+	}
+	return keys;
+}
+
+/**
+ * The primary keys of the rows and how many rows of other tables
+ * reference them, for the confirmation before deleting.
+ */
+export async function previewRowDeletion(
+	dispatch: AppDispatch,
+	state: AppState,
+	dbConfig: DatabaseConfig,
+	table: TableInfo,
+	rows: DataRow[],
+): Promise<RowDeletionPreview | null> {
+	const keys = primaryKeysOf(state.columns, rows);
+	if (typeof keys === "string") {
+		dispatch({ type: ActionType.SetError, error: keys });
+		return null;
+	}
+
+	let connection: DatabaseConnection | null = null;
+
+	try {
+		connection = await connectionManager.acquire(dbConfig);
+
+		const context: DependentsContext = {
+			connection,
+			introspector: getSchemaIntrospector(connection, dbConfig.type),
+			dbType: dbConfig.type,
+			tables: state.tables,
+			options: retryNotifier(dispatch),
+		};
+		const preview: RowDeletionPreview = {
+			keys,
+			dependents: [],
+			truncated: false,
+		};
+		await addDependents(
+			context,
+			table,
+			{ kind: "rows", rows, primaryKey: Object.keys(keys[0] ?? {}) },
+			1,
+			preview,
+		);
+		return preview;
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error:
+				error instanceof Error
+					? error.message
+					: "Failed to check the rows to delete.",
+		});
+		return null;
+	} finally {
+		if (connection) {
+			connectionManager.release(connection);
+		}
+	}
+}
+
+/**
+ * Count the rows that reference `deleted` rows of `table`, per foreign key,
+ * and follow the keys that cascade the delete down to MAX_CASCADE_DEPTH.
+ */
+async function addDependents(
+	context: DependentsContext,
+	table: TableInfo,
+	deleted: DeletedRows,
+	depth: number,
+	preview: RowDeletionPreview,
+): Promise<void> {
+	const { connection, introspector, dbType, options } = context;
+	for (const foreignKey of await introspector.getReferencingKeys(
+		table,
+		options,
+	)) {
+		const referencingTable = resolveListedTable(
+			context.tables,
+			foreignKey.table.schema,
+			foreignKey.table.name,
+		);
+		// Without listed columns the key points at the primary key
+		const referencedColumns =
+			foreignKey.referencedColumns.length > 0
+				? foreignKey.referencedColumns
+				: deleted.kind === "rows"
+					? deleted.primaryKey
+					: ((await introspector.getConstraints(table, options)).primaryKey
+							?.columns ?? []);
+		const where = referencingClause(
+			dbType,
+			table,
+			deleted,
+			foreignKey.columns,
+			referencedColumns,
+		);
+		if (!where) {
+			continue;
+		}
+
+		const { sql, params } = parameterize(
+			`SELECT COUNT(*) AS total_count FROM ${buildTableReference(
+				dbType,
+				referencingTable,
+			)} WHERE ${where.clause}`,
+			dbType,
+			where.params,
+		);
+		const result = await connection.query(sql, params, options);
+		const count = extractCount(result.rows[0]);
+		if (count === 0) {
+			continue;
+		}
+		preview.dependents.push({
+			foreignKey: { ...foreignKey, table: referencingTable },
+			count,
+			depth,
+		});
+		if (foreignKey.onDelete !== "CASCADE") {
+			continue;
+		}
+		if (depth >= MAX_CASCADE_DEPTH) {
+			preview.truncated = true;
+			continue;
+		}
+		await addDependents(
+			context,
+			referencingTable,
+			{ kind: "cascade", ...where },
+			depth + 1,
+			preview,
+		);
+	}
+}
+
+/**
+ * The condition on a referencing table's `columns` that matches rows
+ * pointing at `deleted` rows of `table`, or null when no row can.
+ * Placeholders start at `$1`.
+ */
+function referencingClause(
+	dbType: DBType,
+	table: TableInfo,
+	deleted: DeletedRows,
+	columns: string[],
+	referencedColumns: string[],
+): { clause: string; params: unknown[] } | null {
+	if (deleted.kind === "rows") {
+		const references = deleted.rows
+			.map((row) => {
+				const reference: RowFilter = {};
+				for (const [index, name] of columns.entries()) {
+					reference[name] = row[referencedColumns[index] ?? name];
+				}
+				return reference;
+			})
+			.filter((reference) =>
+				Object.values(reference).every(
+					(value) => value !== null && value !== undefined,
+				),
+			);
+		return references.length > 0
+			? buildRowKeysClause(dbType, references)
+			: null;
+	}
+	if (referencedColumns.length !== columns.length) {
+		return null;
+	}
+	const quoted = (names: string[]) =>
+		names.map((name) => quoteIdentifier(dbType, name)).join(", ");
+	const target =
+		columns.length === 1 ? quoted(columns) : `(${quoted(columns)})`;
+	return {
+		clause: `${target} IN (SELECT ${quoted(referencedColumns)} FROM ${buildTableReference(
+			dbType,
+			table,
+		)} WHERE ${deleted.clause})`,
+		params: deleted.params,
+	};
+}
+
+/**
+ * Delete rows by primary key in one transaction. Returns how many rows the
+ * database reports deleted, or null when nothing was deleted.
+ */
+export async function deleteTableRows(
+	dispatch: AppDispatch,
+	state: AppState,
+	table: TableInfo,
+	rows: DataRow[],
+): Promise<number | null> {
+	if (!state.activeConnection || !state.dbType) {
+		dispatch({
+			type: ActionType.SetError,
+			error: "No active database connection.",
+		});
+		return null;
+	}
+
+	const keys = primaryKeysOf(state.columns, rows);
+	if (typeof keys === "string") {
+		dispatch({ type: ActionType.SetError, error: keys });
+		return null;
+	}
+	if (keys.length === 0) {
+		return null;
+	}
+
+	if (state.stagingEnabled) {
+		for (const key of keys) {
+			dispatch({
+				type: ActionType.StagePendingChange,
+				change: { kind: "delete", table, key },
+			});
+		}
+		dispatch({
+			type: ActionType.SetInfo,
+			message: `Staged the deletion of ${keys.length} ${keys.length === 1 ? "row" : "rows"} from ${table.name}.`,
+		});
+		return keys.length;
+	}
+
+	const dbType = state.dbType;
+	const where = buildRowKeysClause(dbType, keys);
+	const { sql, params } = parameterize(
+		`DELETE FROM ${buildTableReference(dbType, table)} WHERE ${where.clause}`,
+		dbType,
+		where.params,
+	);
+
+	let connection: DatabaseConnection | null = null;
+
+	try {
+		connection = await connectionManager.acquire({
+			type: dbType,
+			connectionString: state.activeConnection.connectionString,
+			tls: state.activeConnection.tls,
+		});
+
+		const { deleted, removed } = await connection.transaction(async (tx) => {
+			// Read the rows first so the journal can put them back
+			const removed = await selectRowsForUpdate(tx, dbType, table, keys);
+			return {
+				deleted: await runCountingRows(tx, dbType, sql, params),
+				removed,
+			};
+		});
+
+		dispatch({ type: ActionType.RemoveDataRows, keys, table });
+		await recordEdits(
+			dispatch,
+			state.editJournal,
+			state.activeConnection.id,
+			removed.flatMap(
+				(row) =>
+					journalledRow(dbType, table, state.columns, "delete", row) ?? [],
+			),
+		);
+		dispatch({
+			type: ActionType.SetInfo,
+			message:
+				deleted === keys.length
+					? `Deleted ${deleted} ${deleted === 1 ? "row" : "rows"} from ${table.name}.`
+					: `Deleted ${deleted} of ${keys.length} rows from ${table.name}; the others were already gone.`,
+		});
+		return deleted;
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error:
+				error instanceof Error ? error.message : "Failed to delete the rows.",
+		});
+		return null;
+	} finally {
+		if (connection) {
+			connectionManager.release(connection);
+		}
+	}
+}
+
+/**
+ * Query options that surface automatic reconnect attempts in the TUI. The
+ * status clears when the effect stops loading or reports an error.
+ */
+function retryNotifier(dispatch: AppDispatch): QueryOptions {
+	return {
+		onRetry: ({ attempt, maxAttempts }) =>
+			dispatch({
+				type: ActionType.SetReconnecting,
+				status: { attempt, maxAttempts },
+			}),
+	};
+}
+
+/**
+ * Explain a rejected edit in terms of the constraint that refused it,
+ * falling back to the driver message for anything else.
+ */
+function describeEditFailure(error: unknown, column: ColumnInfo): string {
+	const constraint =
+		error instanceof DatabaseError && error.constraint
+			? ` "${error.constraint}"`
+			: "";
+	if (error instanceof UniqueViolationError) {
+		return `Cannot save ${column.name}: the value already exists (unique constraint${constraint}).`;
+	}
+	if (error instanceof ForeignKeyViolationError) {
+		return `Cannot save ${column.name}: rejected by foreign key constraint${constraint}; the referenced row does not exist or is still referenced.`;
+	}
+	if (error instanceof NotNullViolationError) {
+		return `Cannot save ${column.name}: the column does not accept NULL.`;
+	}
+	return error instanceof Error ? error.message : "Failed to update value.";
+}
+
+export interface SearchTableOptions {
+	term: string;
+	offset?: number;
+	limit?: number;
+}
+
+export async function searchTableRows(
+	dispatch: AppDispatch,
+	state: AppState,
+	dbConfig: DatabaseConfig,
+	table: TableInfo,
+	columns: ColumnInfo[],
+	options: SearchTableOptions,
+): Promise<void> {
+	const normalizedTerm = options.term.trim();
+	dispatch({ type: ActionType.SetSearchTerm, term: normalizedTerm });
+
+	if (!normalizedTerm) {
+		dispatch({ type: ActionType.ClearSearch });
+		dispatch({
+			type: ActionType.SetInfo,
+			message: "Enter a search term to find matching rows.",
+		});
+		return;
+	}
+
+	if (columns.length === 0) {
+		dispatch({
+			type: ActionType.SetError,
+			error: "Column metadata is required before searching.",
+		});
+		return;
+	}
+
+	const offset = Math.max(options.offset ?? 0, 0);
+	const limit = Math.min(
+		Math.max(options.limit ?? DEFAULT_SEARCH_PAGE_SIZE, 1),
+		DEFAULT_SEARCH_PAGE_SIZE,
+	);
+	const likeTerm = `%${normalizedTerm}%`;
+
+	const whereClause = buildSearchWhereClause(dbConfig.type, columns);
+	const orderColumn = selectSearchOrderColumn(dbConfig.type, columns);
+	const queries = buildSearchQueries(
+		dbConfig.type,
+		table,
+		whereClause,
+		orderColumn,
+		limit,
+		offset,
+	);
+
+	let connection: DatabaseConnection | null = null;
+
+	dispatch({ type: ActionType.StartLoading });
+
+	try {
+		connection = await connectionManager.acquire(dbConfig);
+
+		const { sql: countSql, params: countParams } = parameterize(
+			queries.countQuery,
+			dbConfig.type,
+			[likeTerm],
+		);
+		const countResult = await connection.query(
+			countSql,
+			countParams,
+			retryNotifier(dispatch),
+		);
+		const totalCount = extractCount(countResult.rows[0]);
+
+		const { sql: dataSql, params: dataParams } = parameterize(
+			queries.dataQuery,
+			dbConfig.type,
+			[likeTerm],
+		);
+		const dataResult = await connection.query(
+			dataSql,
+			dataParams,
+			retryNotifier(dispatch),
+		);
+
+		const hasMore = offset + dataResult.rows.length < totalCount;
+		dispatch({
+			type: ActionType.SetSearchResultsPage,
+			rows: dataResult.rows as DataRow[],
+			totalCount,
+			offset,
+			hasMore,
+		});
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error:
+				error instanceof Error ? error.message : "Search execution failed.",
+		});
+	} finally {
+		if (connection) {
+			connectionManager.release(connection);
+		}
+		dispatch({ type: ActionType.StopLoading });
+	}
+}
+
+export async function clearTableCacheEntry(
+	dispatch: AppDispatch,
+	state: AppState,
+	dbConfig: DatabaseConfig,
+	table: TableInfo,
+): Promise<void> {
+	const connectionId = state.activeConnection?.id;
+	const cacheKey = tableCacheKey(table);
+
+	if (!connectionId || !cacheKey) {
 		return;
 	}
 
@@ -863,6 +2788,7 @@ export async function updateSavedConnection(
 			{
 				type: updatedConnection.type,
 				connectionString: updatedConnection.connectionString,
+				tls: updatedConnection.tls,
 			},
 		);
 	}
@@ -921,76 +2847,133 @@ export async function executeQuery(
 	dbConfig: DatabaseConfig,
 	sql: string,
 	params: unknown[] = [],
-): Promise<void> {
+	options: ScriptOptions = {},
+): Promise<ScriptResult | null> {
 	if (!state.activeConnection || !state.dbType) {
 		dispatch({ type: ActionType.SetError, error: "No active connection." });
-		return;
+		return null;
 	}
 
 	dispatch({ type: ActionType.StartLoading });
 
-	const { sql: parameterizedSql, params: parameterizedParams } = parameterize(
-		sql,
-		state.dbType,
-		params,
-	);
-
-	let connection: DatabaseConnection | null = null;
-
-	try {
-		connection = createDatabaseConnection(dbConfig);
-		await connection.connect();
-
-		const start = performance.now();
-		const result = await connection.query(
-			parameterizedSql,
-			parameterizedParams,
-		);
-		const duration = performance.now() - start;
-
+	const connectionId = state.activeConnection.id;
+	const recordHistory = async (
+		entry: Pick<
+			QueryHistoryItem,
+			"durationMs" | "rowCount" | "error" | "errorPosition"
+		>,
+	) => {
 		const historyItem: QueryHistoryItem = {
 			id: nanoid(),
-			connectionId: state.activeConnection.id,
+			connectionId,
 			query: sql,
 			executedAt: new Date().toISOString(),
-			durationMs: Math.round(duration),
-			rowCount: result.rowCount,
-			error: undefined,
+			...entry,
 		};
-
 		const updatedHistory = [historyItem, ...state.queryHistory].slice(0, 100);
 		dispatch({ type: ActionType.AddQueryHistoryItem, item: historyItem });
 		await saveQueryHistory(updatedHistory);
-	} catch (error) {
+	};
+	const reportFailure = (error: unknown, label = "") => {
 		const message =
 			error instanceof Error ? error.message : "Query execution failed.";
-		dispatch({ type: ActionType.SetError, error: message });
+		if (error instanceof QueryCancelledError) {
+			dispatch({ type: ActionType.SetInfo, message });
+		} else {
+			dispatch({ type: ActionType.SetError, error: `${label}${message}` });
+		}
+		return message;
+	};
 
-		const historyItem: QueryHistoryItem = {
-			id: nanoid(),
-			connectionId: state.activeConnection.id,
-			query: sql,
-			executedAt: new Date().toISOString(),
+	let connection: DatabaseConnection | null = null;
+
+	try {
+		// Bound parameters only make sense for a single statement; scripts are
+		// split and sent statement by statement
+		const statements: ScriptStatement[] =
+			params.length > 0
+				? [{ ...parameterize(sql, state.dbType, params), offset: 0 }]
+				: splitStatements(sql, state.dbType);
+		connection = await connectionManager.acquire(dbConfig);
+
+		const script = await runStatements(connection, statements, {
+			...options,
+			...retryNotifier(dispatch),
+		});
+
+		if (
+			script.statements.some(
+				(statement) => !statement.error && isSchemaChange(statement.sql),
+			)
+		) {
+			getSchemaIntrospector(connection, state.dbType).invalidate();
+		}
+		if (script.rolledBack) {
+			enqueueNotification(
+				dispatch,
+				"The script left its transaction open; it was rolled back and its changes discarded.",
+				"warning",
+			);
+		}
+
+		const failedIndex = script.statements.findIndex(
+			(statement) => statement.error,
+		);
+		const failed = script.statements[failedIndex];
+		const label =
+			statements.length > 1
+				? `Statement ${failedIndex + 1} of ${statements.length} failed: `
+				: "";
+
+		await recordHistory({
+			durationMs: script.durationMs,
+			rowCount: script.statements.reduce(
+				(total, statement) => total + statement.rowCount,
+				0,
+			),
+			error: failed ? reportFailure(failed.error, label) : undefined,
+			errorPosition: failed
+				? positionInScript(sql, failed.error, failed)
+				: undefined,
+		});
+		return script;
+	} catch (error) {
+		await recordHistory({
 			durationMs: 0,
 			rowCount: 0,
-			error: message,
-		};
-
-		const updatedHistory = [historyItem, ...state.queryHistory].slice(0, 100);
-		dispatch({ type: ActionType.AddQueryHistoryItem, item: historyItem });
-		await saveQueryHistory(updatedHistory);
+			error: reportFailure(error),
+		});
+		return null;
 	} finally {
 		if (connection) {
-			try {
-				await connection.close();
-			} catch {
-				// ignore close errors to avoid masking original failures
-			}
+			connectionManager.release(connection);
 		}
 		dispatch({ type: ActionType.StopLoading });
 	}
 }
 
+/**
+ * Map a driver's error position onto the submitted script. Positions refer
+ * to the text sent to the driver, which only lines up with what the user
+ * typed when the statement was not rewritten for placeholders.
+ */
+function positionInScript(
+	script: string,
+	error: unknown,
+	statement: { sql: string; offset: number },
+): number | undefined {
+	if (!(error instanceof DatabaseError) || error.position === undefined) {
+		return undefined;
+	}
+	const original = script.slice(
+		statement.offset,
+		statement.offset + statement.sql.length,
+	);
+	return original === statement.sql
+		? statement.offset + error.position
+		: undefined;
+}
+
 export async function persistConnections(
 	dispatch: AppDispatch,
 	connections: ConnectionInfo[],
@@ -1006,122 +2989,329 @@ export async function persistConnections(
 	}
 }
 
-function buildColumnQuery(
+function buildTableDataQuery(
 	dbType: DBType,
 	table: TableInfo,
-): { query: string; params?: unknown[] } {
-	const schema = table.schema;
-	if (dbType === DBType.SQLite) {
-		const tableName = quoteIdentifier(dbType, table.name);
+	limit: number,
+	offset: number,
+	sortConfig?: { column: string | null; direction: "asc" | "desc" | "off" },
+	whereClause = "",
+	rowIdColumn: string | null = null,
+): string {
+	const tableRef = buildTableReference(dbType, table);
+	const selectList = rowIdColumn ? `${rowIdColumn}, *` : "*";
+
+	// Build ORDER BY clause if sorting is active
+	let orderByClause = "";
+	if (sortConfig && sortConfig.column && sortConfig.direction !== "off") {
+		const sortColumn = quoteIdentifier(dbType, sortConfig.column);
+		const sortDirection = sortConfig.direction === "asc" ? "ASC" : "DESC";
+		orderByClause = ` ORDER BY ${sortColumn} ${sortDirection}`;
+	}
+
+	switch (dbType) {
+		case DBType.SQLite:
+			return `SELECT ${selectList} FROM ${tableRef}${whereClause}${orderByClause} LIMIT ${limit} OFFSET ${offset}`;
+		case DBType.MySQL:
+			return `SELECT ${selectList} FROM ${tableRef}${whereClause}${orderByClause} LIMIT ${offset}, ${limit}`;
+		case DBType.PostgreSQL:
+		default:
+			return `SELECT ${selectList} FROM ${tableRef}${whereClause}${orderByClause} LIMIT ${limit} OFFSET ${offset}`;
+	}
+}
+
+/** ` WHERE` clause matching every column of a row filter, with `$N` placeholders. */
+function buildRowFilterClause(
+	dbType: DBType,
+	filter: RowFilter | null,
+	firstIndex = 1,
+): { clause: string; params: unknown[] } {
+	const entries = Object.entries(filter ?? {});
+	if (entries.length === 0) {
+		return { clause: "", params: [] };
+	}
+	const predicates = entries.map(
+		([column], index) =>
+			`${quoteIdentifier(dbType, column)} = $${index + firstIndex}`,
+	);
+	return {
+		clause: ` WHERE ${predicates.join(" AND ")}`,
+		params: entries.map(([, value]) => value),
+	};
+}
+
+/**
+ * Match any of several keys: `id IN (...)` for one column, OR-ed
+ * conjunctions for composite keys. Placeholders start at `$1`.
+ */
+function buildRowKeysClause(
+	dbType: DBType,
+	keys: RowFilter[],
+): { clause: string; params: unknown[] } {
+	const columns = Object.keys(keys[0] ?? {});
+	const params: unknown[] = [];
+	if (columns.length === 1) {
+		const placeholders = keys.map((key) => {
+			params.push(key[columns[0]]);
+			return `$${params.length}`;
+		});
 		return {
-			query: `PRAGMA table_info(${tableName});`,
+			clause: `${quoteIdentifier(dbType, columns[0])} IN (${placeholders.join(", ")})`,
+			params,
 		};
 	}
-
-	if (dbType === DBType.MySQL) {
-		return {
-			query: `
-          SELECT
-            COLUMN_NAME AS column_name,
-            DATA_TYPE AS data_type,
-            IS_NULLABLE AS is_nullable,
-            COLUMN_DEFAULT AS column_default,
-            COLUMN_KEY AS column_key
-          FROM information_schema.columns
-          WHERE table_schema = ?
-            AND table_name = ?
-          ORDER BY ORDINAL_POSITION
-        `,
-			params: [schema ?? "", table.name],
-		};
+	const predicates = keys.map((key) => {
+		const conditions = columns.map((column) => {
+			params.push(key[column]);
+			return `${quoteIdentifier(dbType, column)} = $${params.length}`;
+		});
+		return `(${conditions.join(" AND ")})`;
+	});
+	return { clause: predicates.join(" OR "), params };
+}
+
+/**
+ * The statement that makes a staged change; buildCommitStatements adds
+ * what commit runs around it. Unless `check` is off, an edit only matches
+ * while the cell still holds the value it had when staged; staging keeps
+ * no more of the row.
+ */
+function buildPendingChangeStatement(
+	dbType: DBType,
+	change: PendingChange,
+	check: ConcurrencyCheck = "off",
+): ParameterizedQuery {
+	const tableRef = buildTableReference(dbType, change.table);
+
+	if (change.kind === "insert") {
+		const names = Object.keys(change.values);
+		const sql =
+			names.length === 0
+				? dbType === DBType.MySQL
+					? `INSERT INTO ${tableRef} () VALUES ()`
+					: `INSERT INTO ${tableRef} DEFAULT VALUES`
+				: `INSERT INTO ${tableRef} (${names
+						.map((name) => quoteIdentifier(dbType, name))
+						.join(", ")}) VALUES (${names
+						.map((_, index) => `$${index + 1}`)
+						.join(", ")})`;
+		return parameterize(sql, dbType, Object.values(change.values));
+	}
+
+	if (change.kind === "delete") {
+		const where = buildRowFilterClause(dbType, change.key);
+		return parameterize(
+			`DELETE FROM ${tableRef}${where.clause}`,
+			dbType,
+			where.params,
+		);
+	}
+
+	if (check !== "off" && isComparableValue(change.previous)) {
+		return buildCheckedUpdateStatement(dbType, change, {
+			[change.column]: change.previous,
+		});
+	}
+	const where = buildRowFilterClause(dbType, change.key, 2);
+	return parameterize(
+		`UPDATE ${tableRef} SET ${quoteIdentifier(dbType, change.column)} = $1${where.clause}`,
+		dbType,
+		[change.value, ...where.params],
+	);
+}
+
+/**
+ * The statements commit runs for a staged change, in order, as shown for
+ * review. Inserts read the new row back and deletes read and lock the row
+ * first, both for the journal; MySQL has no RETURNING, so after an insert
+ * it reads the row back by its key instead.
+ */
+export function buildCommitStatements(
+	dbType: DBType,
+	change: PendingChange,
+	columns: ColumnInfo[],
+	check: ConcurrencyCheck = "off",
+): ParameterizedQuery[] {
+	if (change.kind === "insert") {
+		const insert = buildPendingChangeStatement(dbType, change);
+		if (dbType === DBType.MySQL) {
+			return [insert];
+		}
+		// Tables edited by rowid or ctid need it on the new row as well
+		const rowIdColumn = getPhysicalRowIdColumn(
+			getRowIdentity(dbType, change.table, columns),
+		);
+		// SQLite has RETURNING too, and unlike last_insert_rowid() it also
+		// works for WITHOUT ROWID tables
+		return [
+			{
+				sql: `${insert.sql} RETURNING ${rowIdColumn ? `${rowIdColumn}, *` : "*"}`,
+				params: insert.params,
+			},
+		];
+	}
+	if (change.kind === "delete") {
+		return [
+			buildSelectForUpdate(dbType, change.table, [change.key]),
+			buildPendingChangeStatement(dbType, change),
+		];
 	}
+	return [buildPendingChangeStatement(dbType, change, check)];
+}
 
-	const params = schema ? [table.name, schema] : [table.name, "public"];
-	return {
-		query: `
-          SELECT
-            cols.column_name,
-            cols.data_type,
-            cols.is_nullable,
-            cols.column_default,
-            cols.ordinal_position,
-            EXISTS (
-              SELECT 1
-              FROM information_schema.table_constraints tc
-              JOIN information_schema.key_column_usage kcu
-                ON tc.constraint_name = kcu.constraint_name
-               AND tc.table_schema = kcu.table_schema
-               AND tc.table_name = kcu.table_name
-              WHERE tc.constraint_type = 'PRIMARY KEY'
-                AND kcu.table_schema = cols.table_schema
-                AND kcu.table_name = cols.table_name
-                AND kcu.column_name = cols.column_name
-            ) AS is_primary_key
-          FROM information_schema.columns cols
-          WHERE cols.table_name = $1
-            AND cols.table_schema = $2
-          ORDER BY cols.ordinal_position
-        `,
-		params,
-	};
+/**
+ * The UPDATE of a cell that only matches while the row still holds the
+ * expected values, NULLs included.
+ */
+function buildCheckedUpdateStatement(
+	dbType: DBType,
+	change: CellEdit,
+	expected: RowFilter,
+): ParameterizedQuery {
+	const keyNames = Object.keys(change.key);
+	const predicates = [
+		...keyNames.map(
+			(name, index) => `${quoteIdentifier(dbType, name)} = $${index + 2}`,
+		),
+		...Object.keys(expected).map(
+			(name, index) =>
+				`${quoteIdentifier(dbType, name)} ${nullSafeEquals(dbType)} $${
+					keyNames.length + index + 2
+				}`,
+		),
+	];
+	return parameterize(
+		`UPDATE ${buildTableReference(dbType, change.table)} SET ${quoteIdentifier(
+			dbType,
+			change.column,
+		)} = $1 WHERE ${predicates.join(" AND ")}`,
+		dbType,
+		[change.value, ...Object.values(change.key), ...Object.values(expected)],
+	);
 }
 
-function mapColumnRow(dbType: DBType, row: QueryRow): ColumnInfo {
+function nullSafeEquals(dbType: DBType): string {
 	switch (dbType) {
-		case DBType.SQLite:
-			return {
-				name: String(row.name),
-				dataType: String(row.type ?? "text"),
-				nullable: row.notnull === 0,
-				defaultValue: row.dflt_value ? String(row.dflt_value) : null,
-				isPrimaryKey: row.pk === 1,
-			};
-		case DBType.MySQL:
-			return {
-				name: String(row.column_name),
-				dataType: String(row.data_type ?? ""),
-				nullable: String(row.is_nullable ?? "").toUpperCase() !== "NO",
-				defaultValue: row.column_default ? String(row.column_default) : null,
-				isPrimaryKey: String(row.column_key ?? "").toUpperCase() === "PRI",
-			};
 		case DBType.PostgreSQL:
+			return "IS NOT DISTINCT FROM";
+		case DBType.MySQL:
+			return "<=>";
 		default:
-			return {
-				name: String(row.column_name),
-				dataType: String(row.data_type ?? ""),
-				nullable: String(row.is_nullable ?? "").toUpperCase() !== "NO",
-				defaultValue: row.column_default ? String(row.column_default) : null,
-				isPrimaryKey: Boolean(row.is_primary_key),
-			};
+			return "IS";
 	}
 }
 
-function buildTableDataQuery(
+/** Run a write and count the rows it changed. */
+async function runCountingRows(
+	tx: Transaction,
+	dbType: DBType,
+	sql: string,
+	params: unknown[],
+): Promise<number> {
+	const result = await tx.query(sql, params);
+	// bun:sqlite returns no row count for statements without results
+	if (dbType === DBType.SQLite) {
+		const changes = await tx.query("SELECT changes() AS total_count");
+		return extractCount(changes.rows[0]);
+	}
+	return result.rowCount;
+}
+
+/**
+ * Insert a row and read it back as stored, generated keys and defaults
+ * included. Null when MySQL leaves no key to find the new row by.
+ */
+async function insertReturningRow(
+	tx: Transaction,
 	dbType: DBType,
 	table: TableInfo,
-	limit: number,
-	offset: number,
-	sortConfig?: { column: string | null; direction: "asc" | "desc" | "off" },
-): string {
-	const tableRef = buildTableReference(dbType, table);
+	columns: ColumnInfo[],
+	values: DataRow,
+): Promise<DataRow | null> {
+	const [insert] = buildCommitStatements(
+		dbType,
+		{ kind: "insert", table, values },
+		columns,
+	);
+	if (dbType !== DBType.MySQL) {
+		const result = await tx.query(insert.sql, insert.params);
+		return result.rows[0] ?? null;
+	}
 
-	// Build ORDER BY clause if sorting is active
-	let orderByClause = "";
-	if (sortConfig && sortConfig.column && sortConfig.direction !== "off") {
-		const sortColumn = quoteIdentifier(dbType, sortConfig.column);
-		const sortDirection = sortConfig.direction === "asc" ? "ASC" : "DESC";
-		orderByClause = ` ORDER BY ${sortColumn} ${sortDirection}`;
+	// MySQL has no RETURNING; find the row by its key instead
+	const result = await tx.query(insert.sql, insert.params);
+	const key: RowFilter = {};
+	for (const column of columns.filter((col) => col.isPrimaryKey)) {
+		key[column.name] =
+			column.isAutoIncrement && result.insertId !== undefined
+				? result.insertId
+				: values[column.name];
+	}
+	if (
+		Object.keys(key).length === 0 ||
+		Object.values(key).some((value) => value === undefined)
+	) {
+		return null;
 	}
+	const where = buildRowFilterClause(dbType, key);
+	const readBack = parameterize(
+		`SELECT * FROM ${buildTableReference(dbType, table)}${where.clause}`,
+		dbType,
+		where.params,
+	);
+	return (await tx.query(readBack.sql, readBack.params)).rows[0] ?? null;
+}
 
-	switch (dbType) {
-		case DBType.SQLite:
-			return `SELECT * FROM ${tableRef}${orderByClause} LIMIT ${limit} OFFSET ${offset}`;
-		case DBType.MySQL:
-			return `SELECT * FROM ${tableRef}${orderByClause} LIMIT ${offset}, ${limit}`;
-		case DBType.PostgreSQL:
-		default:
-			return `SELECT * FROM ${tableRef}${orderByClause} LIMIT ${limit} OFFSET ${offset}`;
+/**
+ * Read and lock the whole rows with the keys, so a delete can journal what
+ * it removes. SQLite has no FOR UPDATE; its write lock covers the read.
+ */
+async function selectRowsForUpdate(
+	tx: Transaction,
+	dbType: DBType,
+	table: TableInfo,
+	keys: RowFilter[],
+): Promise<DataRow[]> {
+	const { sql, params } = buildSelectForUpdate(dbType, table, keys);
+	return (await tx.query(sql, params)).rows;
+}
+
+function buildSelectForUpdate(
+	dbType: DBType,
+	table: TableInfo,
+	keys: RowFilter[],
+): ParameterizedQuery {
+	const where = buildRowKeysClause(dbType, keys);
+	return parameterize(
+		`SELECT * FROM ${buildTableReference(dbType, table)} WHERE ${where.clause}${
+			dbType === DBType.SQLite ? "" : " FOR UPDATE"
+		}`,
+		dbType,
+		where.params,
+	);
+}
+
+/**
+ * An inserted or deleted row for the journal, keyed the way edits find
+ * rows. Null when its identity is not stable enough to undo it by.
+ */
+function journalledRow(
+	dbType: DBType,
+	table: TableInfo,
+	columns: ColumnInfo[],
+	kind: RowChange["kind"],
+	row: DataRow,
+): RowChange | null {
+	const identity = getRowIdentity(dbType, table, columns);
+	if (
+		!identity ||
+		identity.strategy === "ctid" ||
+		identity.strategy === "all-columns"
+	) {
+		return null;
 	}
+	const key = buildRowIdentityKey(identity, row);
+	return typeof key === "string" ? null : { kind, table, key, row };
 }
 
 function buildTableReference(dbType: DBType, table: TableInfo): string {
@@ -1192,12 +3382,21 @@ function selectSearchOrderColumn(
 	return quoteIdentifier(dbType, chosen.name);
 }
 
-function interpretEditedInput(value: string, _column: ColumnInfo): unknown {
-	const trimmed = value.trim();
-	if (trimmed.toUpperCase() === "NULL") {
-		return null;
+/**
+ * Whether a cell still holds a journalled value. Drivers return some types
+ * as text, so primitives also match on their text.
+ */
+function matchesWrittenValue(current: unknown, written: unknown): boolean {
+	if (valuesAreEqual(current, written)) {
+		return true;
 	}
-	return value;
+	const isPrimitive = (value: unknown) =>
+		value !== null && value !== undefined && typeof value !== "object";
+	return (
+		isPrimitive(current) &&
+		isPrimitive(written) &&
+		String(current) === String(written)
+	);
 }
 
 function valuesAreEqual(a: unknown, b: unknown): boolean {
@@ -1292,21 +3491,311 @@ export async function exportTableData(
 	}
 }
 
-function quoteIdentifier(dbType: DBType, identifier: string): string {
-	switch (dbType) {
-		case DBType.MySQL:
-			return `\`${identifier.replace(/`/g, "``")}\``;
-		case DBType.SQLite:
-		case DBType.PostgreSQL:
-		default:
-			return `"${identifier.replace(/"/g, '""')}"`;
+/**
+ * Export every row of a table (not just the loaded page) by streaming it
+ * from the database straight to the export file.
+ */
+export async function exportFullTable(
+	dispatch: AppDispatch,
+	state: AppState,
+	dbConfig: DatabaseConfig,
+	table: TableInfo,
+	format: "csv" | "json",
+	includeHeaders: boolean,
+): Promise<void> {
+	if (state.columns.length === 0) {
+		dispatch({
+			type: ActionType.SetError,
+			error: "Column metadata is required before exporting.",
+		});
+		return;
+	}
+
+	dispatch({ type: ActionType.StartLoading });
+
+	let connection: DatabaseConnection | null = null;
+
+	try {
+		connection = await connectionManager.acquire(dbConfig);
+
+		const tableRef = buildTableReference(dbConfig.type, table);
+		const { column, direction } = state.sortConfig;
+		const orderByClause =
+			column && direction !== "off"
+				? ` ORDER BY ${quoteIdentifier(dbConfig.type, column)} ${direction === "asc" ? "ASC" : "DESC"}`
+				: "";
+		const batches = streamQuery<DataRow>(
+			connection,
+			`SELECT * FROM ${tableRef}${orderByClause}`,
+		);
+
+		const { filepath, rowCount } = await exportDataStream(
+			batches,
+			state.columns,
+			{
+				format,
+				includeHeaders,
+				filename: undefined,
+				outputDir: undefined,
+			},
+		);
+
+		const summary = formatExportSummary(
+			filepath,
+			rowCount,
+			format,
+			state.columns.length,
+		);
+		dispatch({ type: ActionType.SetInfo, message: summary });
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error: error instanceof Error ? error.message : "Export failed.",
+		});
+	} finally {
+		if (connection) {
+			connectionManager.release(connection);
+		}
+		dispatch({ type: ActionType.StopLoading });
+	}
+}
+
+/**
+ * Draw the connected database as an ER diagram and save it to the exports
+ * folder. `tables` narrows the diagram to the named tables.
+ */
+export async function exportErDiagramFile(
+	dispatch: AppDispatch,
+	dbConfig: DatabaseConfig,
+	format: ErDiagramFormat,
+	tables?: string[],
+): Promise<void> {
+	dispatch({ type: ActionType.StartLoading });
+
+	let connection: DatabaseConnection | null = null;
+
+	try {
+		connection = await connectionManager.acquire(dbConfig);
+
+		const schema = await getSchemaIntrospector(
+			connection,
+			dbConfig.type,
+		).getSchema(retryNotifier(dispatch));
+		const filepath = await exportErDiagram(schema, { format, tables });
+		dispatch({
+			type: ActionType.SetInfo,
+			message: `Saved ${format} ER diagram to ${filepath}`,
+		});
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error: error instanceof Error ? error.message : "Export failed.",
+		});
+	} finally {
+		if (connection) {
+			connectionManager.release(connection);
+		}
+		dispatch({ type: ActionType.StopLoading });
+	}
+}
+
+/**
+ * The CREATE statements of a table or view, with its indexes, as the
+ * database reports or reconstructs them.
+ */
+export async function fetchTableDdl(
+	dispatch: AppDispatch,
+	dbConfig: DatabaseConfig,
+	table: TableInfo,
+): Promise<string | null> {
+	dispatch({ type: ActionType.StartLoading });
+
+	let connection: DatabaseConnection | null = null;
+
+	try {
+		connection = await connectionManager.acquire(dbConfig);
+		return await getSchemaIntrospector(connection, dbConfig.type).getDdl(
+			table,
+			retryNotifier(dispatch),
+		);
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error:
+				error instanceof Error ? error.message : "Failed to load table DDL.",
+		});
+		return null;
+	} finally {
+		if (connection) {
+			connectionManager.release(connection);
+		}
+		dispatch({ type: ActionType.StopLoading });
+	}
+}
+
+/** Routines, triggers, sequences or enum types of the connected database. */
+export async function fetchDatabaseObjects<K extends DatabaseObjectKind>(
+	dispatch: AppDispatch,
+	dbConfig: DatabaseConfig,
+	kind: K,
+): Promise<DatabaseObjectsByKind[K][] | null> {
+	dispatch({ type: ActionType.StartLoading });
+
+	let connection: DatabaseConnection | null = null;
+
+	try {
+		connection = await connectionManager.acquire(dbConfig);
+		return await getSchemaIntrospector(connection, dbConfig.type).listObjects(
+			kind,
+			retryNotifier(dispatch),
+		);
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error: error instanceof Error ? error.message : `Failed to load ${kind}.`,
+		});
+		return null;
+	} finally {
+		if (connection) {
+			connectionManager.release(connection);
+		}
+		dispatch({ type: ActionType.StopLoading });
+	}
+}
+
+/** Save a table's DDL to the exports folder. */
+export async function exportTableDdl(
+	dispatch: AppDispatch,
+	table: TableInfo,
+	ddl: string,
+): Promise<void> {
+	try {
+		const filepath = await exportDdl(ddl, { table });
+		dispatch({
+			type: ActionType.SetInfo,
+			message: `Saved DDL to ${filepath}`,
+		});
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error: error instanceof Error ? error.message : "Export failed.",
+		});
+	}
+}
+
+/** The schema a live database is compared with. */
+export type SchemaSource =
+	| { kind: "connection"; connection: ConnectionInfo }
+	| { kind: "snapshot"; path: string };
+
+export interface SchemaComparison {
+	diff: SchemaDiff;
+	/** Statements that make the connected database match the other side. */
+	statements: string[];
+	/** What to check before running them. */
+	warnings: string[];
+}
+
+/**
+ * Compare the connected database with another saved connection or a
+ * schema snapshot, and work out the migration that reconciles them.
+ */
+export async function compareSchemas(
+	dispatch: AppDispatch,
+	dbConfig: DatabaseConfig,
+	target: SchemaSource,
+): Promise<SchemaComparison | null> {
+	dispatch({ type: ActionType.StartLoading });
+
+	try {
+		const current = await loadSchema(dispatch, dbConfig);
+		const other =
+			target.kind === "snapshot"
+				? await readSchemaSnapshot(target.path)
+				: await loadOtherSchema(dispatch, dbConfig, target.connection);
+		const diff = diffSchemas(current, other);
+		return {
+			diff,
+			statements: generateMigration(diff),
+			warnings: migrationWarnings(diff),
+		};
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error:
+				error instanceof Error ? error.message : "Failed to compare schemas.",
+		});
+		return null;
+	} finally {
+		dispatch({ type: ActionType.StopLoading });
+	}
+}
+
+/**
+ * Save the connected database's schema model as a snapshot that later
+ * comparisons can be made against.
+ */
+export async function saveSchemaSnapshot(
+	dispatch: AppDispatch,
+	dbConfig: DatabaseConfig,
+): Promise<string | null> {
+	dispatch({ type: ActionType.StartLoading });
+
+	try {
+		const filepath = await exportSchema(await loadSchema(dispatch, dbConfig));
+		dispatch({
+			type: ActionType.SetInfo,
+			message: `Saved schema snapshot to ${filepath}`,
+		});
+		return filepath;
+	} catch (error) {
+		dispatch({
+			type: ActionType.SetError,
+			error: error instanceof Error ? error.message : "Export failed.",
+		});
+		return null;
+	} finally {
+		dispatch({ type: ActionType.StopLoading });
+	}
+}
+
+/** Schema of another saved connection, closing it again afterwards. */
+async function loadOtherSchema(
+	dispatch: AppDispatch,
+	dbConfig: DatabaseConfig,
+	connection: ConnectionInfo,
+): Promise<DatabaseSchema> {
+	const otherConfig: DatabaseConfig = {
+		type: connection.type,
+		connectionString: connection.connectionString,
+		tls: connection.tls,
+	};
+	try {
+		return await loadSchema(dispatch, otherConfig);
+	} finally {
+		if (sessionKey(otherConfig) !== sessionKey(dbConfig)) {
+			await connectionManager.dispose(otherConfig);
+		}
+	}
+}
+
+async function loadSchema(
+	dispatch: AppDispatch,
+	dbConfig: DatabaseConfig,
+): Promise<DatabaseSchema> {
+	const connection = await connectionManager.acquire(dbConfig);
+	try {
+		return await getSchemaIntrospector(connection, dbConfig.type).getSchema(
+			retryNotifier(dispatch),
+		);
+	} finally {
+		connectionManager.release(connection);
 	}
 }
 
 export const __internal = {
-	buildColumnQuery,
-	mapColumnRow,
 	buildTableDataQuery,
+	buildRowFilterClause,
 	buildTableReference,
 	extractCount,
 	buildSearchWhereClause,
@@ -1314,6 +3803,5 @@ export const __internal = {
 	selectSearchOrderColumn,
 	buildSearchQueries,
 	quoteIdentifier,
-	interpretEditedInput,
 	valuesAreEqual,
 } as const;
@@ -0,0 +1,120 @@
+import type {
+	DataRow,
+	PendingChange,
+	RowFilter,
+	TableInfo,
+} from "../types/state.js";
+import { tableCacheKey } from "./cache.js";
+
+/** How a row shown in the grid differs from the database. */
+export interface StagedRowState {
+	kind: PendingChange["kind"];
+	/** Columns whose shown value is staged rather than stored. */
+	columns: Set<string>;
+}
+
+export function isSameTable(a: TableInfo, b: TableInfo | null): boolean {
+	return tableCacheKey(a) === tableCacheKey(b);
+}
+
+/** Whether a row carries the key, compared as text like the grid shows them. */
+export function rowMatchesKey(row: DataRow, key: RowFilter): boolean {
+	return Object.entries(key).every(
+		([column, value]) => String(row[column]) === String(value),
+	);
+}
+
+function sameKey(a: RowFilter, b: RowFilter): boolean {
+	return Object.keys(a).length === Object.keys(b).length && rowMatchesKey(a, b);
+}
+
+/**
+ * Add a change to the staged ones. Another edit of the same cell replaces
+ * the staged value but keeps the database value; deleting a row drops its
+ * staged edits.
+ */
+export function stageChange(
+	changes: PendingChange[],
+	change: PendingChange,
+): PendingChange[] {
+	if (change.kind === "update") {
+		const index = changes.findIndex(
+			(staged) =>
+				staged.kind === "update" &&
+				isSameTable(staged.table, change.table) &&
+				staged.column === change.column &&
+				sameKey(staged.key, change.key),
+		);
+		if (index === -1) {
+			return [...changes, change];
+		}
+		return changes.map((staged, position) =>
+			position === index && staged.kind === "update"
+				? { ...change, previous: staged.previous }
+				: staged,
+		);
+	}
+
+	if (change.kind === "delete") {
+		const remaining = changes.filter(
+			(staged) =>
+				staged.kind === "insert" ||
+				!isSameTable(staged.table, change.table) ||
+				!sameKey(staged.key, change.key),
+		);
+		return [...remaining, change];
+	}
+
+	return [...changes, change];
+}
+
+/**
+ * The rows as they will be once the staged changes for the table are
+ * committed: edits applied, deletes kept but flagged, inserts appended.
+ * Rows without staged changes are passed through unchanged.
+ */
+export function overlayPendingChanges(
+	rows: DataRow[],
+	table: TableInfo | null,
+	changes: PendingChange[],
+): { rows: DataRow[]; states: Map<DataRow, StagedRowState> } {
+	const states = new Map<DataRow, StagedRowState>();
+	const relevant = table
+		? changes.filter((change) => isSameTable(change.table, table))
+		: [];
+	if (relevant.length === 0) {
+		return { rows, states };
+	}
+
+	const overlaid = rows.map((row) => {
+		let shown = row;
+		let kind: StagedRowState["kind"] | null = null;
+		const columns = new Set<string>();
+		for (const change of relevant) {
+			if (change.kind === "insert" || !rowMatchesKey(row, change.key)) {
+				continue;
+			}
+			if (change.kind === "update") {
+				shown = { ...shown, [change.column]: change.value };
+				columns.add(change.column);
+				kind = kind ?? "update";
+			} else {
+				kind = "delete";
+			}
+		}
+		if (kind) {
+			states.set(shown, { kind, columns });
+		}
+		return shown;
+	});
+
+	for (const change of relevant) {
+		if (change.kind === "insert") {
+			const row = { ...change.values };
+			states.set(row, { kind: "insert", columns: new Set(Object.keys(row)) });
+			overlaid.push(row);
+		}
+	}
+
+	return { rows: overlaid, states };
+}
@@ -1,7 +1,14 @@
 import { produce } from "immer";
-import { type AppState, initialAppState, ViewState } from "../types/state.js";
+import {
+	type AppState,
+	type DataRow,
+	initialAppState,
+	type RowFilter,
+	ViewState,
+} from "../types/state.js";
 import { ActionType, type AppAction } from "./actions.js";
 import { tableCacheKey } from "./cache.js";
+import { isSameTable, rowMatchesKey, stageChange } from "./pending.js";
 
 function resetSearchState(draft: AppState): void {
 	draft.searchTerm = "";
@@ -12,6 +19,22 @@ function resetSearchState(draft: AppState): void {
 	draft.searchSelectedIndex = null;
 }
 
+function matchesAnyKey(row: DataRow, keys: RowFilter[]): boolean {
+	return keys.some((key) => rowMatchesKey(row, key));
+}
+
+function clampIndex(index: number | null, length: number): number | null {
+	if (index === null || length === 0) {
+		return null;
+	}
+	return Math.min(index, length - 1);
+}
+
+function resetForeignKeyTrail(draft: AppState): void {
+	draft.rowFilter = null;
+	draft.foreignKeyTrail = [];
+}
+
 export function appReducer(
 	state: AppState = initialAppState,
 	action: AppAction,
@@ -39,6 +62,11 @@ export function appReducer(
 
 			case ActionType.StopLoading:
 				draft.loading = false;
+				draft.reconnecting = null;
+				break;
+
+			case ActionType.SetReconnecting:
+				draft.reconnecting = action.status;
 				break;
 
 			case ActionType.SetError:
@@ -47,6 +75,7 @@ export function appReducer(
 						? action.error
 						: action.error.message;
 				draft.loading = false;
+				draft.reconnecting = null;
 				break;
 
 			case ActionType.ClearError:
@@ -81,6 +110,9 @@ export function appReducer(
 				draft.refreshingTableKey = null;
 				draft.refreshTimestamps = {};
 				draft.notifications = [];
+				draft.stagingEnabled = false;
+				draft.pendingChanges = [];
+				draft.editConflict = null;
 				resetSearchState(draft);
 				break;
 
@@ -134,6 +166,22 @@ export function appReducer(
 				draft.refreshingTableKey = null;
 				break;
 
+			case ActionType.SetTableProfile:
+				{
+					const key = tableCacheKey(action.table);
+					if (key) {
+						const cache = draft.tableCache[key] ?? {
+							columns: [],
+							rows: [],
+							hasMore: false,
+							offset: 0,
+						};
+						cache.profile = action.profile;
+						draft.tableCache[key] = cache;
+					}
+				}
+				break;
+
 			case ActionType.RemoveTableCacheEntry:
 				if (action.key in draft.tableCache) {
 					delete draft.tableCache[action.key];
@@ -150,6 +198,7 @@ export function appReducer(
 			case ActionType.SetSelectedTable:
 				draft.selectedTable = action.table;
 				resetSearchState(draft);
+				resetForeignKeyTrail(draft);
 				{
 					const key = tableCacheKey(action.table);
 					const cache = key ? draft.tableCache[key] : undefined;
@@ -211,6 +260,108 @@ export function appReducer(
 				break;
 			}
 
+			case ActionType.InsertDataRow: {
+				const cacheKey = tableCacheKey(action.table);
+				if (!cacheKey || cacheKey !== tableCacheKey(draft.selectedTable)) {
+					break;
+				}
+				// The new row joins the loaded page and becomes the selected row
+				draft.dataRows.push(action.row);
+				draft.selectedRowIndex = draft.dataRows.length - 1;
+				draft.expandedRow = action.row;
+				const cache = draft.tableCache[cacheKey];
+				if (cache && !draft.rowFilter) {
+					cache.rows.push(action.row);
+				}
+				break;
+			}
+
+			case ActionType.RemoveDataRows: {
+				const cacheKey = tableCacheKey(action.table);
+				if (!cacheKey || cacheKey !== tableCacheKey(draft.selectedTable)) {
+					break;
+				}
+				const keep = (row: DataRow) => !matchesAnyKey(row, action.keys);
+				draft.dataRows = draft.dataRows.filter(keep);
+				draft.selectedRowIndex = clampIndex(
+					draft.selectedRowIndex,
+					draft.dataRows.length,
+				);
+				if (draft.expandedRow && !keep(draft.expandedRow)) {
+					draft.expandedRow = null;
+				}
+				const cache = draft.tableCache[cacheKey];
+				if (cache) {
+					cache.rows = cache.rows.filter(keep);
+				}
+				const searchResults = draft.searchResults.filter(keep);
+				draft.searchTotalCount -=
+					draft.searchResults.length - searchResults.length;
+				draft.searchResults = searchResults;
+				draft.searchSelectedIndex = clampIndex(
+					draft.searchSelectedIndex,
+					searchResults.length,
+				);
+				break;
+			}
+
+			case ActionType.SetStagingEnabled:
+				draft.stagingEnabled = action.enabled;
+				break;
+
+			case ActionType.StagePendingChange: {
+				const { change } = action;
+				draft.pendingChanges = stageChange(draft.pendingChanges, change);
+				// The open row shows what was just staged
+				if (
+					change.kind === "update" &&
+					draft.expandedRow &&
+					isSameTable(change.table, draft.selectedTable) &&
+					rowMatchesKey(draft.expandedRow, change.key)
+				) {
+					draft.expandedRow = {
+						...draft.expandedRow,
+						[change.column]: change.value,
+					};
+				}
+				break;
+			}
+
+			case ActionType.DropPendingChange:
+				draft.pendingChanges.splice(action.index, 1);
+				break;
+
+			case ActionType.ClearPendingChanges:
+				draft.pendingChanges = [];
+				break;
+
+			case ActionType.SetEditJournal:
+				draft.editJournal = action.entries;
+				break;
+
+			case ActionType.AddEditJournalEntries:
+				// Entries arrive oldest first; the journal keeps the newest first
+				draft.editJournal.unshift(...[...action.entries].reverse());
+				break;
+
+			case ActionType.MarkEditUndone: {
+				const entry = draft.editJournal.find(
+					(candidate) => candidate.id === action.id,
+				);
+				if (entry) {
+					entry.undoneAt = action.undoneAt;
+				}
+				break;
+			}
+
+			case ActionType.SetConcurrencyCheck:
+				draft.concurrencyCheck = action.check;
+				break;
+
+			case ActionType.SetEditConflict:
+				draft.editConflict = action.conflict;
+				break;
+
 			case ActionType.ClearSelectedTable:
 				draft.selectedTable = null;
 				draft.dataRows = [];
@@ -218,21 +369,71 @@ export function appReducer(
 				draft.currentOffset = 0;
 				draft.refreshingTableKey = null;
 				resetSearchState(draft);
+				resetForeignKeyTrail(draft);
+				break;
+
+			case ActionType.FollowForeignKey:
+				if (draft.selectedTable) {
+					draft.foreignKeyTrail.push({
+						table: draft.selectedTable,
+						rowFilter: draft.rowFilter,
+						columns: draft.columns,
+						rows: draft.dataRows,
+						hasMore: draft.hasMoreRows,
+						offset: draft.currentOffset,
+						selectedRowIndex: draft.selectedRowIndex,
+						sortConfig: draft.sortConfig,
+					});
+				}
+				draft.selectedTable = action.table;
+				draft.rowFilter = action.filter;
+				draft.columns =
+					draft.tableCache[tableCacheKey(action.table) ?? ""]?.columns ?? [];
+				draft.dataRows = [];
+				draft.hasMoreRows = false;
+				draft.currentOffset = 0;
+				draft.selectedRowIndex = null;
+				draft.expandedRow = null;
+				draft.sortConfig = { column: null, direction: "off" };
+				draft.refreshingTableKey = null;
+				resetSearchState(draft);
+				break;
+
+			case ActionType.ReturnFromForeignKey: {
+				const previous = draft.foreignKeyTrail.pop();
+				if (!previous) {
+					break;
+				}
+				draft.selectedTable = previous.table;
+				draft.rowFilter = previous.rowFilter;
+				draft.columns = previous.columns;
+				draft.dataRows = previous.rows;
+				draft.hasMoreRows = previous.hasMore;
+				draft.currentOffset = previous.offset;
+				draft.selectedRowIndex = previous.selectedRowIndex;
+				draft.expandedRow = null;
+				draft.sortConfig = previous.sortConfig;
+				draft.refreshingTableKey = null;
+				resetSearchState(draft);
 				break;
+			}
 
 			case ActionType.SetDataRows:
 				draft.dataRows = action.rows;
 				{
 					const key = tableCacheKey(draft.selectedTable);
 					if (key) {
-						const cache = draft.tableCache[key] ?? {
-							columns: draft.columns,
-							rows: [],
-							hasMore: draft.hasMoreRows,
-							offset: draft.currentOffset,
-						};
-						cache.rows = action.rows;
-						draft.tableCache[key] = cache;
+						// A filtered page is not the table's page; keep it out of the cache
+						if (!draft.rowFilter) {
+							const cache = draft.tableCache[key] ?? {
+								columns: draft.columns,
+								rows: [],
+								hasMore: draft.hasMoreRows,
+								offset: draft.currentOffset,
+							};
+							cache.rows = action.rows;
+							draft.tableCache[key] = cache;
+						}
 						if (draft.refreshingTableKey === key) {
 							draft.refreshingTableKey = null;
 						}
@@ -249,14 +450,16 @@ export function appReducer(
 				{
 					const key = tableCacheKey(draft.selectedTable);
 					if (key) {
-						const cache = draft.tableCache[key] ?? {
-							columns: draft.columns,
-							rows: draft.dataRows,
-							hasMore: false,
-							offset: draft.currentOffset,
-						};
-						cache.hasMore = action.hasMore;
-						draft.tableCache[key] = cache;
+						if (!draft.rowFilter) {
+							const cache = draft.tableCache[key] ?? {
+								columns: draft.columns,
+								rows: draft.dataRows,
+								hasMore: false,
+								offset: draft.currentOffset,
+							};
+							cache.hasMore = action.hasMore;
+							draft.tableCache[key] = cache;
+						}
 						if (draft.refreshingTableKey === key && !draft.loading) {
 							draft.refreshingTableKey = null;
 						}
@@ -270,7 +473,7 @@ export function appReducer(
 				draft.expandedRow = null;
 				{
 					const key = tableCacheKey(draft.selectedTable);
-					if (key) {
+					if (key && !draft.rowFilter) {
 						const cache = draft.tableCache[key] ?? {
 							columns: draft.columns,
 							rows: draft.dataRows,
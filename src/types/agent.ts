@@ -1,4 +1,10 @@
+import type {
+	DatabaseObjectKind,
+	DatabaseObjectsByKind,
+	DatabaseSchema,
+} from "../database/introspection/index.js";
 import type { DBType } from "../types/state.js";
+import type { ErDiagramFormat } from "../utils/er-diagram.js";
 
 /**
  * Core interfaces for AI agent integration with SeerDB
@@ -32,6 +38,13 @@ export interface AgentQueryResult {
 	columns?: Array<{
 		name: string;
 		type: string;
+		/** Driver-native type id (pg OID / MySQL column type) */
+		nativeTypeId?: number;
+		/** Whether the column accepts NULL, when known */
+		nullable?: boolean;
+		/** Source table and column, when known */
+		table?: string;
+		column?: string;
 	}>;
 	/** Query execution time in milliseconds */
 	duration: number;
@@ -138,6 +151,73 @@ export interface AgentStatus {
 export interface AgentQueryOptions {
 	/** Skip the LIMIT warning for queries that intentionally return many results */
 	skipLimitWarning?: boolean;
+	/** Cancel the query on the server if it runs longer than this */
+	timeoutMs?: number;
+	/** Cancel the query on the server when this signal aborts */
+	signal?: AbortSignal;
+}
+
+/**
+ * Options for running a multi-statement script
+ */
+export interface AgentScriptOptions
+	extends Omit<AgentQueryOptions, "skipLimitWarning"> {
+	/** Keep running later statements after one fails */
+	continueOnError?: boolean;
+}
+
+// Outcome of one statement in a script
+export interface AgentStatementResult {
+	/** Statement text as sent to the database */
+	sql: string;
+	rows: Record<string, any>[];
+	rowCount: number;
+	/** Statement execution time in milliseconds */
+	duration: number;
+	/** Error message if the statement failed */
+	error?: string;
+}
+
+// Script execution result
+export interface AgentScriptResult {
+	/** Results for every statement that ran, in order */
+	statements: AgentStatementResult[];
+	/** Statements not run because an earlier one failed */
+	skipped: number;
+	/** The script left its transaction open, so its changes were rolled back */
+	rolledBack: boolean;
+	/** Total execution time in milliseconds */
+	duration: number;
+}
+
+/**
+ * Options for drawing an entity-relationship diagram
+ */
+export interface AgentErDiagramOptions {
+	/** Diagram language, defaults to Mermaid */
+	format?: ErDiagramFormat;
+	/** Tables to include, as `table` or `schema.table`; defaults to all */
+	tables?: string[];
+	/** Re-read the schema instead of using cached metadata */
+	refresh?: boolean;
+}
+
+/**
+ * Options for reading a table's DDL
+ */
+export interface AgentTableDdlOptions {
+	/** Schema holding the table, when the name alone is ambiguous */
+	schema?: string;
+	/** Re-read the definition instead of using cached metadata */
+	refresh?: boolean;
+}
+
+/**
+ * Options for listing routines, triggers, sequences or enum types
+ */
+export interface AgentDatabaseObjectsOptions {
+	/** Re-read the catalogs instead of using cached metadata */
+	refresh?: boolean;
 }
 
 /**
@@ -164,6 +244,32 @@ export interface SeerDBAgentInterface {
 	 */
 	getSchema(): Promise<AgentSchemaInfo>;
 
+	/**
+	 * Get the full schema model: keys, indexes, constraints, views, comments
+	 */
+	getSchemaModel(options?: { refresh?: boolean }): Promise<DatabaseSchema>;
+
+	/**
+	 * Draw the schema, or selected tables, as a Mermaid, DOT or PlantUML ER diagram
+	 */
+	getErDiagram(options?: AgentErDiagramOptions): Promise<string>;
+
+	/**
+	 * Get the CREATE statements of a table or view, with its indexes
+	 */
+	getTableDdl(
+		tableName: string,
+		options?: AgentTableDdlOptions,
+	): Promise<string>;
+
+	/**
+	 * List the database's routines, triggers, sequences or enum types
+	 */
+	getDatabaseObjects<K extends DatabaseObjectKind>(
+		kind: K,
+		options?: AgentDatabaseObjectsOptions,
+	): Promise<DatabaseObjectsByKind[K][]>;
+
 	/**
 	 * Safely get a sample of users (limited to prevent exhaustion)
 	 */
@@ -182,6 +288,14 @@ export interface SeerDBAgentInterface {
 	 */
 	transaction(queries: string[]): Promise<AgentQueryResult[]>;
 
+	/**
+	 * Split a SQL script into statements and run them in order
+	 */
+	executeScript(
+		sql: string,
+		options?: AgentScriptOptions,
+	): Promise<AgentScriptResult>;
+
 	/**
 	 * Get agent capabilities
 	 */
@@ -1,3 +1,5 @@
+import type { TlsOptions } from "../database/types.js";
+
 export enum ViewState {
 	DBType = "DB_TYPE",
 	Connection = "CONNECTION",
@@ -12,6 +14,13 @@ export enum ViewState {
 	Indexes = "INDEXES",
 	Search = "SEARCH",
 	Context = "CONTEXT",
+	SchemaDiff = "SCHEMA_DIFF",
+	Ddl = "DDL",
+	Objects = "OBJECTS",
+	Profile = "PROFILE",
+	InsertRow = "INSERT_ROW",
+	PendingChanges = "PENDING_CHANGES",
+	EditJournal = "EDIT_JOURNAL",
 }
 
 export enum DBType {
@@ -25,10 +34,18 @@ export interface ConnectionInfo {
 	name: string;
 	type: DBType;
 	connectionString: string;
+	/** TLS mode and certificate paths, over any sslmode etc. in the string. */
+	tls?: TlsOptions;
 	createdAt: string;
 	updatedAt: string;
 }
 
+/** Progress of an automatic reconnect after a transient failure. */
+export interface ReconnectStatus {
+	attempt: number;
+	maxAttempts: number;
+}
+
 export interface QueryHistoryItem {
 	id: string;
 	connectionId: string;
@@ -37,6 +54,8 @@ export interface QueryHistoryItem {
 	durationMs: number;
 	rowCount: number;
 	error?: string;
+	/** Zero-based offset of the failing token when the driver reports one. */
+	errorPosition?: number;
 }
 
 export interface TableInfo {
@@ -51,18 +70,158 @@ export interface ColumnInfo {
 	nullable: boolean;
 	defaultValue?: string | null;
 	isPrimaryKey?: boolean;
+	/** Part of the unique index that identifies rows of a table without a primary key. */
+	isUniqueKey?: boolean;
+	/** The database numbers new rows itself; inserts leave it out. */
+	isAutoIncrement?: boolean;
 	isForeignKey?: boolean;
+	foreignSchema?: string;
 	foreignTable?: string;
 	foreignColumn?: string;
 }
 
 export type DataRow = Record<string, unknown>;
 
+/** Column values the data preview is narrowed to, keyed by column name. */
+export type RowFilter = Record<string, unknown>;
+
+/**
+ * A data change held back while staging, applied with the others in one
+ * transaction on commit. Rows are identified by their primary key.
+ */
+export type PendingChange =
+	| {
+			kind: "update";
+			table: TableInfo;
+			key: RowFilter;
+			column: string;
+			/** The value in the database, restored in the grid on discard. */
+			previous: unknown;
+			value: unknown;
+	  }
+	| { kind: "insert"; table: TableInfo; values: DataRow }
+	| { kind: "delete"; table: TableInfo; key: RowFilter };
+
+/** A change written from the TUI, kept for audit and undo. */
+export type EditJournalEntry =
+	| CellEditJournalEntry
+	| RowJournalEntry<"insert">
+	| RowJournalEntry<"delete">;
+
+interface JournalEntryBase {
+	id: string;
+	connectionId: string;
+	table: TableInfo;
+	/** Primary key values of the edited row. */
+	key: RowFilter;
+	changedAt: string;
+	undoneAt?: string;
+	/** Set on the edit that undid another, to that edit's id. */
+	undoes?: string;
+}
+
+/** A cell edit. Its kind is left out, as it was before rows were journalled. */
+export interface CellEditJournalEntry extends JournalEntryBase {
+	kind?: "update";
+	column: string;
+	oldValue: unknown;
+	newValue: unknown;
+}
+
+/**
+ * An inserted or deleted row, with every column as it was written or as it
+ * was just before the delete, so undo can delete or re-insert it.
+ */
+export interface RowJournalEntry<
+	Kind extends "insert" | "delete" = "insert" | "delete",
+> extends JournalEntryBase {
+	kind: Kind;
+	row: DataRow;
+}
+
+/**
+ * What an immediate cell edit expects to find before it writes: nothing,
+ * the edited cell as loaded, or every loaded column of the row.
+ */
+export type ConcurrencyCheck = "off" | "cell" | "row";
+
+/** A checked edit that found the row changed since it was loaded. */
+export interface EditConflict {
+	table: TableInfo;
+	key: RowFilter;
+	column: ColumnInfo;
+	rowIndex: number | null;
+	/** The row as loaded, which the edit expected to find. */
+	loaded: DataRow;
+	/** The row as it is now, or null when it was deleted. */
+	current: DataRow | null;
+	value: unknown;
+	/** Found on commit; the edit is still staged. */
+	staged?: boolean;
+}
+
+/** A grid left by following a foreign key, restored when going back. */
+export interface ForeignKeyTrailEntry {
+	table: TableInfo;
+	rowFilter: RowFilter | null;
+	columns: ColumnInfo[];
+	rows: DataRow[];
+	hasMore: boolean;
+	offset: number;
+	selectedRowIndex: number | null;
+	sortConfig: SortConfig;
+}
+
+/** How a column is profiled, from its declared type. */
+export type ColumnCategory =
+	| "numeric"
+	| "text"
+	| "temporal"
+	| "binary"
+	| "other";
+
+export interface ValueFrequency {
+	value: unknown;
+	count: number;
+}
+
+export interface ColumnProfile {
+	name: string;
+	dataType: string;
+	category: ColumnCategory;
+	nullCount: number;
+	/** Share of profiled rows that are NULL, from 0 to 1. */
+	nullFraction: number;
+	distinctCount: number;
+	/** Smallest and largest value, for numbers, text and dates. */
+	min?: unknown;
+	max?: unknown;
+	/** Mean and population standard deviation, for numbers. */
+	mean?: number;
+	stddev?: number;
+	/** Average and longest length in characters, for text. */
+	averageLength?: number;
+	maxLength?: number;
+	/** Most frequent values, most frequent first. */
+	topValues: ValueFrequency[];
+}
+
+export interface TableProfile {
+	/** Rows in the table; an estimate when the profile is sampled. */
+	rowCount: number;
+	/** Rows the statistics were computed from. */
+	profiledRows: number;
+	sampled: boolean;
+	profiledAt: string;
+	columns: ColumnProfile[];
+}
+
 export interface TableCacheEntry {
 	columns: ColumnInfo[];
 	rows: DataRow[];
 	hasMore: boolean;
 	offset: number;
+	profile?: TableProfile;
 }
 
 export type NotificationLevel = "info" | "warning" | "error";
@@ -121,7 +280,10 @@ export interface AppState {
 	refreshTimestamps: Record<string, number>;
 	notifications: Notification[];
 	queryHistory: QueryHistoryItem[];
+	/** Newest first, across connections. */
+	editJournal: EditJournalEntry[];
 	loading: boolean;
+	reconnecting: ReconnectStatus | null;
 	errorMessage: string | null;
 	infoMessage: string | null;
 	showCommandHints: boolean;
@@ -129,12 +291,19 @@ export interface AppState {
 	sortPickerMode: boolean;
 	sortPickerColumnIndex: number;
 	filterValue: string;
+	rowFilter: RowFilter | null;
+	foreignKeyTrail: ForeignKeyTrailEntry[];
 	searchTerm: string;
 	searchResults: DataRow[];
 	searchTotalCount: number;
 	searchOffset: number;
 	searchHasMore: boolean;
 	searchSelectedIndex: number | null;
+	/** Edits, inserts and deletes are staged instead of run. */
+	stagingEnabled: boolean;
+	pendingChanges: PendingChange[];
+	concurrencyCheck: ConcurrencyCheck;
+	editConflict: EditConflict | null;
 	viewHistory: ViewHistoryEntry[];
 	breadcrumbs: BreadcrumbSegment[];
 }
@@ -158,7 +327,9 @@ export const initialAppState: AppState = {
 	refreshTimestamps: {},
 	notifications: [],
 	queryHistory: [],
+	editJournal: [],
 	loading: false,
+	reconnecting: null,
 	errorMessage: null,
 	infoMessage: null,
 	showCommandHints: false,
@@ -166,12 +337,18 @@ export const initialAppState: AppState = {
 	sortPickerMode: false,
 	sortPickerColumnIndex: 0,
 	filterValue: "",
+	rowFilter: null,
+	foreignKeyTrail: [],
 	searchTerm: "",
 	searchResults: [],
 	searchTotalCount: 0,
 	searchOffset: 0,
 	searchHasMore: false,
 	searchSelectedIndex: null,
+	stagingEnabled: false,
+	pendingChanges: [],
+	concurrencyCheck: "off",
+	editConflict: null,
 	viewHistory: [],
 	breadcrumbs: [],
 };
@@ -30,7 +30,10 @@ export function getColumnDisplayWidth(column: ColumnInfo): number {
 	const type = column.dataType.toLowerCase();
 
 	// Calculate minimum width based on column name length (including PK indicator)
-	const headerLength = column.name.length + (column.isPrimaryKey ? 2 : 0); // +2 for 🔑 emoji
+	const headerLength =
+		column.name.length +
+		(column.isPrimaryKey ? 2 : 0) + // +2 for 🔑 emoji
+		(column.isForeignKey ? 2 : 0); // +2 for 🔗 emoji
 	const minHeaderWidth = Math.max(headerLength + 2, 6); // +2 padding, minimum 6
 
 	// Get base width from data type
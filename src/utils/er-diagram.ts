@@ -0,0 +1,275 @@
+import type {
+	ColumnSchema,
+	DatabaseSchema,
+	ForeignKeySchema,
+	TableSchema,
+} from "../database/introspection/index.js";
+
+export type ErDiagramFormat = "mermaid" | "dot" | "plantuml";
+
+export const ER_DIAGRAM_FORMATS: readonly ErDiagramFormat[] = [
+	"mermaid",
+	"dot",
+	"plantuml",
+];
+
+/** File extension conventionally used for each diagram format. */
+export const ER_DIAGRAM_EXTENSIONS: Record<ErDiagramFormat, string> = {
+	mermaid: "mmd",
+	dot: "dot",
+	plantuml: "puml",
+};
+
+export interface ErDiagramOptions {
+	/**
+	 * Tables to draw, as `table` or `schema.table`. Defaults to every table;
+	 * keys pointing outside the selection are left out.
+	 */
+	tables?: string[];
+}
+
+interface Entity {
+	table: TableSchema;
+	/** Name shown in the diagram; schema-qualified when schemas are mixed. */
+	label: string;
+	/** Label reduced to an identifier Mermaid and PlantUML accept. */
+	id: string;
+}
+
+interface Relationship {
+	parent: Entity;
+	child: Entity;
+	foreignKey: ForeignKeySchema;
+	/** A nullable key column means the child may reference nothing. */
+	parentOptional: boolean;
+	/** A key that is also unique makes the relationship one-to-one. */
+	childUnique: boolean;
+}
+
+export function isErDiagramFormat(value: unknown): value is ErDiagramFormat {
+	return ER_DIAGRAM_FORMATS.includes(value as ErDiagramFormat);
+}
+
+/**
+ * Draw the tables of a schema model and the foreign keys between them as an
+ * entity-relationship diagram, with columns, PK/FK markers and cardinality.
+ */
+export function renderErDiagram(
+	schema: DatabaseSchema,
+	format: ErDiagramFormat,
+	options: ErDiagramOptions = {},
+): string {
+	const entities = selectEntities(schema, options.tables);
+	const relationships = findRelationships(entities);
+	switch (format) {
+		case "mermaid":
+			return renderMermaid(entities, relationships);
+		case "dot":
+			return renderDot(entities, relationships);
+		case "plantuml":
+			return renderPlantUml(entities, relationships);
+		default:
+			throw new Error(`Unsupported ER diagram format: ${String(format)}`);
+	}
+}
+
+function selectEntities(
+	schema: DatabaseSchema,
+	selection: string[] | undefined,
+): Entity[] {
+	const wanted = selection?.length ? new Set(selection) : null;
+	const tables = schema.tables.filter(
+		(table) =>
+			table.type === "table" &&
+			(!wanted ||
+				wanted.has(table.name) ||
+				wanted.has(`${table.schema}.${table.name}`)),
+	);
+	const qualify = new Set(tables.map((table) => table.schema)).size > 1;
+	return tables.map((table) => {
+		const label =
+			qualify && table.schema ? `${table.schema}.${table.name}` : table.name;
+		return { table, label, id: label.replace(/[^A-Za-z0-9_]/g, "_") };
+	});
+}
+
+function findRelationships(entities: Entity[]): Relationship[] {
+	const relationships: Relationship[] = [];
+	for (const child of entities) {
+		for (const foreignKey of child.table.foreignKeys) {
+			const referencedSchema =
+				foreignKey.referencedSchema ?? child.table.schema;
+			const parent = entities.find(
+				(candidate) =>
+					candidate.table.name === foreignKey.referencedTable &&
+					candidate.table.schema === referencedSchema,
+			);
+			if (!parent) {
+				continue;
+			}
+			relationships.push({
+				parent,
+				child,
+				foreignKey,
+				parentOptional: foreignKey.columns.some(
+					(name) => findColumn(child.table, name)?.nullable ?? true,
+				),
+				childUnique: hasUniqueKey(child.table, foreignKey.columns),
+			});
+		}
+	}
+	return relationships;
+}
+
+function findColumn(
+	table: TableSchema,
+	name: string,
+): ColumnSchema | undefined {
+	return table.columns.find((column) => column.name === name);
+}
+
+/** Whether exactly these columns are the primary key or a unique key. */
+function hasUniqueKey(table: TableSchema, columns: string[]): boolean {
+	const sameColumns = (candidate: string[]) =>
+		candidate.length === columns.length &&
+		candidate.every((name) => columns.includes(name));
+	return (
+		(table.primaryKey !== null && sameColumns(table.primaryKey.columns)) ||
+		table.uniqueConstraints.some((unique) => sameColumns(unique.columns)) ||
+		table.indexes.some((index) => index.unique && sameColumns(index.columns))
+	);
+}
+
+function foreignKeyColumns(table: TableSchema): Set<string> {
+	return new Set(table.foreignKeys.flatMap((foreignKey) => foreignKey.columns));
+}
+
+/** Crow's foot notation shared by Mermaid and PlantUML. */
+function crowsFoot(relationship: Relationship): string {
+	const parent = relationship.parentOptional ? "|o" : "||";
+	const child = relationship.childUnique ? "o|" : "o{";
+	return `${parent}--${child}`;
+}
+
+function renderMermaid(
+	entities: Entity[],
+	relationships: Relationship[],
+): string {
+	const lines = ["erDiagram"];
+	for (const { table, id } of entities) {
+		const foreign = foreignKeyColumns(table);
+		lines.push(`    ${id} {`);
+		for (const column of table.columns) {
+			const keys = [
+				column.isPrimaryKey ? "PK" : null,
+				foreign.has(column.name) ? "FK" : null,
+			].filter(Boolean);
+			const attribute = [
+				mermaidWord(column.dataType),
+				mermaidWord(column.name),
+				keys.join(", "),
+				column.comment ? `"${column.comment.replace(/"/g, "'")}"` : "",
+			]
+				.filter(Boolean)
+				.join(" ");
+			lines.push(`        ${attribute}`);
+		}
+		lines.push("    }");
+	}
+	for (const relationship of relationships) {
+		lines.push(
+			`    ${relationship.parent.id} ${crowsFoot(relationship)} ${relationship.child.id} : "${relationship.foreignKey.name}"`,
+		);
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+/** Mermaid attribute types and names may not contain spaces or commas. */
+function mermaidWord(value: string): string {
+	return value.replace(/[^\w()[\]-]+/g, "_");
+}
+
+function renderDot(entities: Entity[], relationships: Relationship[]): string {
+	const lines = [
+		"digraph er {",
+		"    graph [rankdir=LR];",
+		"    node [shape=plaintext];",
+		"    edge [arrowhead=none];",
+	];
+	for (const { table, label } of entities) {
+		const foreign = foreignKeyColumns(table);
+		const rows = table.columns.map((column) => {
+			const keys = [
+				column.isPrimaryKey ? "PK" : null,
+				foreign.has(column.name) ? "FK" : null,
+			]
+				.filter(Boolean)
+				.join(",");
+			const name = column.isPrimaryKey
+				? `<B>${html(column.name)}</B>`
+				: html(column.name);
+			return `<TR><TD ALIGN="LEFT" PORT="${html(column.name)}">${name} ${html(column.dataType)}${keys ? ` [${keys}]` : ""}</TD></TR>`;
+		});
+		lines.push(
+			`    "${dotString(label)}" [label=<<TABLE BORDER="0" CELLBORDER="1" CELLSPACING="0"><TR><TD BGCOLOR="lightgrey"><B>${html(label)}</B></TD></TR>${rows.join("")}</TABLE>>];`,
+		);
+	}
+	for (const relationship of relationships) {
+		const { parent, child, foreignKey } = relationship;
+		const childPort = `"${dotString(foreignKey.columns[0] ?? "")}"`;
+		const parentColumn = foreignKey.referencedColumns[0];
+		const parentPort = parentColumn ? `:"${dotString(parentColumn)}"` : "";
+		lines.push(
+			`    "${dotString(child.label)}":${childPort} -> "${dotString(parent.label)}"${parentPort} [label="${dotString(foreignKey.name)}", taillabel="${relationship.childUnique ? "0..1" : "0..*"}", headlabel="${relationship.parentOptional ? "0..1" : "1"}"];`,
+		);
+	}
+	lines.push("}");
+	return `${lines.join("\n")}\n`;
+}
+
+function html(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+function dotString(value: string): string {
+	return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+function renderPlantUml(
+	entities: Entity[],
+	relationships: Relationship[],
+): string {
+	const lines = ["@startuml", "hide circle", "skinparam linetype ortho", ""];
+	for (const { table, label, id } of entities) {
+		const foreign = foreignKeyColumns(table);
+		// Key columns go above the separator, the way PlantUML draws entities
+		const keyColumns = table.columns.filter((column) => column.isPrimaryKey);
+		const otherColumns = table.columns.filter((column) => !column.isPrimaryKey);
+		const attribute = (column: ColumnSchema) => {
+			const stereotypes = [
+				column.isPrimaryKey ? "<<PK>>" : null,
+				foreign.has(column.name) ? "<<FK>>" : null,
+			]
+				.filter(Boolean)
+				.join(" ");
+			// `*` marks a mandatory (NOT NULL) attribute
+			return `    ${column.nullable ? "" : "* "}${column.name} : ${column.dataType}${stereotypes ? ` ${stereotypes}` : ""}`;
+		};
+		lines.push(`entity "${label}" as ${id} {`);
+		lines.push(...keyColumns.map(attribute));
+		lines.push("    --");
+		lines.push(...otherColumns.map(attribute));
+		lines.push("}", "");
+	}
+	for (const relationship of relationships) {
+		lines.push(
+			`${relationship.parent.id} ${crowsFoot(relationship)} ${relationship.child.id} : ${relationship.foreignKey.name}`,
+		);
+	}
+	lines.push("@enduml");
+	return `${lines.join("\n")}\n`;
+}
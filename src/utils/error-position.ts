@@ -0,0 +1,39 @@
+export interface ErrorTokenSpan {
+	/** Text on the failing line before the token. */
+	before: string;
+	/** The token the driver pointed at; a single space past the end of input. */
+	token: string;
+	/** Remainder of the failing line. */
+	after: string;
+	/** 1-based line number within the statement. */
+	line: number;
+}
+
+/**
+ * Split the line containing a zero-based error offset around the token that
+ * starts there, so a view can underline exactly the failing token.
+ */
+export function locateErrorToken(
+	sql: string,
+	position: number,
+): ErrorTokenSpan | null {
+	if (!Number.isInteger(position) || position < 0 || position > sql.length) {
+		return null;
+	}
+
+	const lineStart = sql.lastIndexOf("\n", position - 1) + 1;
+	const lineEndIndex = sql.indexOf("\n", position);
+	const lineEnd = lineEndIndex === -1 ? sql.length : lineEndIndex;
+	const line = sql.slice(0, lineStart).split("\n").length;
+
+	const rest = sql.slice(position, lineEnd);
+	const tokenLength =
+		/^(?:\w+|'(?:[^']|'')*'?|"(?:[^"]|"")*"?|\S)/.exec(rest)?.[0].length ?? 0;
+
+	return {
+		before: sql.slice(lineStart, position),
+		token: tokenLength > 0 ? rest.slice(0, tokenLength) : " ",
+		after: rest.slice(tokenLength),
+		line,
+	};
+}
@@ -1,8 +1,23 @@
-import { mkdir, writeFile } from "fs/promises";
+import { once } from "events";
+import { createWriteStream } from "fs";
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
 import { homedir } from "os";
 import { join } from "path";
-import type { ColumnInfo, DataRow, TableInfo } from "../types/state.js";
+import type { DatabaseSchema } from "../database/introspection/index.js";
+import type { QueryField } from "../database/types.js";
+import {
+	type ColumnInfo,
+	type DataRow,
+	DBType,
+	type TableInfo,
+} from "../types/state.js";
 import { formatValueForDisplay } from "./data-processing.js";
+import {
+	ER_DIAGRAM_EXTENSIONS,
+	type ErDiagramFormat,
+	type ErDiagramOptions,
+	renderErDiagram,
+} from "./er-diagram.js";
 
 export interface ExportOptions {
 	format: "csv" | "json";
@@ -37,6 +52,114 @@ export async function exportData(
 	return filepath;
 }
 
+export interface StreamExportResult {
+	filepath: string;
+	rowCount: number;
+}
+
+/**
+ * Export rows chunk by chunk straight to disk so that memory use stays
+ * bounded by the chunk size rather than the size of the table.
+ */
+export async function exportDataStream(
+	batches: AsyncIterable<DataRow[]>,
+	columns: ColumnInfo[],
+	options: ExportOptions,
+): Promise<StreamExportResult> {
+	const outputDir = options.outputDir || join(homedir(), ".mirador", "exports");
+	const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+	const defaultFilename = `export-${timestamp}.${options.format}`;
+	const filename = options.filename || defaultFilename;
+	const filepath = join(outputDir, filename);
+
+	await mkdir(outputDir, { recursive: true });
+
+	const output = createWriteStream(filepath, { encoding: "utf-8" });
+	let writeError: Error | null = null;
+	output.on("error", (error) => {
+		writeError = error;
+	});
+	const write = async (chunk: string): Promise<void> => {
+		if (writeError) {
+			throw writeError;
+		}
+		if (!output.write(chunk)) {
+			await once(output, "drain");
+		}
+	};
+
+	let rowCount = 0;
+	try {
+		if (options.format === "csv") {
+			if (options.includeHeaders) {
+				await write(formatCSVHeader(columns));
+			}
+			for await (const batch of batches) {
+				if (batch.length === 0) continue;
+				const lines = batch.map((row) => formatCSVRow(row, columns));
+				await write(
+					`${rowCount > 0 || options.includeHeaders ? "\n" : ""}${lines.join("\n")}`,
+				);
+				rowCount += batch.length;
+			}
+		} else {
+			if (options.includeHeaders) {
+				const metadata = {
+					exportedAt: new Date().toISOString(),
+					columns: columns.map((col) => ({
+						name: col.name,
+						dataType: col.dataType,
+						nullable: col.nullable,
+						isPrimaryKey: col.isPrimaryKey,
+						isForeignKey: col.isForeignKey,
+					})),
+				};
+				// Open the metadata object and leave the data array for streaming
+				await write(
+					`${JSON.stringify(metadata, null, 2).slice(0, -2)},\n  "data": [`,
+				);
+			} else {
+				await write("[");
+			}
+			for await (const batch of batches) {
+				for (const row of batch) {
+					await write(`${rowCount > 0 ? "," : ""}\n${JSON.stringify(row)}`);
+					rowCount += 1;
+				}
+			}
+			if (options.includeHeaders) {
+				await write(`\n  ],\n  "rowCount": ${rowCount}\n}`);
+			} else {
+				await write("\n]");
+			}
+		}
+	} finally {
+		if (!output.closed) {
+			output.end();
+			await once(output, "close");
+		}
+	}
+
+	if (writeError) {
+		throw writeError;
+	}
+	return { filepath, rowCount };
+}
+
+function formatCSVHeader(columns: ColumnInfo[]): string {
+	return columns.map((col) => `"${escapeCSVValue(col.name)}"`).join(",");
+}
+
+function formatCSVRow(row: DataRow, columns: ColumnInfo[]): string {
+	return columns
+		.map((col) => {
+			const value = row[col.name];
+			const formattedValue = formatValueForDisplay(value);
+			return `"${escapeCSVValue(formattedValue)}"`;
+		})
+		.join(",");
+}
+
 function generateCSV(
 	data: DataRow[],
 	columns: ColumnInfo[],
@@ -45,21 +168,11 @@ function generateCSV(
 	const lines: string[] = [];
 
 	if (includeHeaders) {
-		const headers = columns
-			.map((col) => `"${escapeCSVValue(col.name)}"`)
-			.join(",");
-		lines.push(headers);
+		lines.push(formatCSVHeader(columns));
 	}
 
 	for (const row of data) {
-		const values = columns
-			.map((col) => {
-				const value = row[col.name];
-				const formattedValue = formatValueForDisplay(value);
-				return `"${escapeCSVValue(formattedValue)}"`;
-			})
-			.join(",");
-		lines.push(values);
+		lines.push(formatCSVRow(row, columns));
 	}
 
 	return lines.join("\n");
@@ -117,11 +230,10 @@ export function validateExportOptions(
 }
 
 /**
- * Export schema information to JSON
+ * Export a schema model (as read by a SchemaIntrospector) to JSON
  */
 export async function exportSchema(
-	tables: TableInfo[],
-	columns: Record<string, ColumnInfo[]>,
+	schema: DatabaseSchema,
 	options: {
 		filename?: string;
 		outputDir?: string;
@@ -137,14 +249,7 @@ export async function exportSchema(
 
 	const schemaData = {
 		exportedAt: new Date().toISOString(),
-		tables: tables.map((table) => ({
-			name: table.name,
-			schema: table.schema,
-			type: table.type,
-			columns:
-				columns[table.schema ? `${table.schema}.${table.name}` : table.name] ||
-				[],
-		})),
+		...schema,
 	};
 
 	const content = JSON.stringify(schemaData, null, 2);
@@ -152,6 +257,132 @@ export async function exportSchema(
 	return filepath;
 }
 
+/**
+ * Export the CREATE statements of a table as a .sql file
+ */
+export async function exportDdl(
+	ddl: string,
+	options: {
+		table: TableInfo;
+		filename?: string;
+		outputDir?: string;
+	},
+): Promise<string> {
+	const outputDir = options.outputDir || join(homedir(), ".mirador", "exports");
+	const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+	const tableName = [options.table.schema, options.table.name]
+		.filter(Boolean)
+		.join(".")
+		.replace(/[^\w.-]+/g, "_");
+	const defaultFilename = `${tableName}-ddl-${timestamp}.sql`;
+	const filename = options.filename || defaultFilename;
+	const filepath = join(outputDir, filename);
+
+	await mkdir(outputDir, { recursive: true });
+	await writeFile(filepath, ddl, "utf-8");
+	return filepath;
+}
+
+/**
+ * Export the edit journal as a .sql file
+ */
+export async function exportJournalScript(
+	script: string,
+	options: {
+		filename?: string;
+		outputDir?: string;
+	} = {},
+): Promise<string> {
+	const outputDir = options.outputDir || join(homedir(), ".mirador", "exports");
+	const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+	const defaultFilename = `edit-journal-${timestamp}.sql`;
+	const filename = options.filename || defaultFilename;
+	const filepath = join(outputDir, filename);
+
+	await mkdir(outputDir, { recursive: true });
+	await writeFile(filepath, script, "utf-8");
+	return filepath;
+}
+
+/**
+ * Read a schema snapshot written by `exportSchema`
+ */
+export async function readSchemaSnapshot(
+	filepath: string,
+): Promise<DatabaseSchema> {
+	const data = JSON.parse(await readFile(filepath, "utf-8"));
+	if (
+		!data ||
+		!Object.values(DBType).includes(data.dbType) ||
+		!Array.isArray(data.tables)
+	) {
+		throw new Error(`Not a schema snapshot: ${filepath}`);
+	}
+	return {
+		dbType: data.dbType,
+		schemas: Array.isArray(data.schemas) ? data.schemas : [],
+		tables: data.tables,
+	};
+}
+
+/**
+ * Schema snapshots in the exports folder, newest first
+ */
+export async function listSchemaSnapshots(
+	outputDir: string = join(homedir(), ".mirador", "exports"),
+): Promise<string[]> {
+	let entries: string[];
+	try {
+		entries = await readdir(outputDir);
+	} catch {
+		return [];
+	}
+	// Timestamped names sort chronologically
+	return entries
+		.filter((entry) => /^schema-.*\.json$/.test(entry))
+		.sort()
+		.reverse()
+		.map((entry) => join(outputDir, entry));
+}
+
+/**
+ * Export a schema model as an entity-relationship diagram
+ */
+export async function exportErDiagram(
+	schema: DatabaseSchema,
+	options: ErDiagramOptions & {
+		format: ErDiagramFormat;
+		filename?: string;
+		outputDir?: string;
+	},
+): Promise<string> {
+	const outputDir = options.outputDir || join(homedir(), ".mirador", "exports");
+	const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+	const defaultFilename = `er-${timestamp}.${ER_DIAGRAM_EXTENSIONS[options.format]}`;
+	const filename = options.filename || defaultFilename;
+	const filepath = join(outputDir, filename);
+
+	await mkdir(outputDir, { recursive: true });
+
+	const content = renderErDiagram(schema, options.format, {
+		tables: options.tables,
+	});
+	await writeFile(filepath, content, "utf-8");
+	return filepath;
+}
+
+/**
+ * Column metadata for an ad-hoc query result, built from the driver's
+ * result-set fields so exports keep declared types without introspection.
+ */
+export function columnsFromFields(fields: QueryField[]): ColumnInfo[] {
+	return fields.map((field) => ({
+		name: field.name,
+		dataType: field.dataType,
+		nullable: field.nullable ?? true,
+	}));
+}
+
 /**
  * Programmatic JSON export for AI agents
  * Returns data as JSON string without writing to file
@@ -6,9 +6,13 @@ import path from "node:path";
 import { z } from "zod";
 import type {
 	ColumnInfo,
+	ColumnProfile,
 	ConnectionInfo,
+	EditJournalEntry,
 	QueryHistoryItem,
 	TableCacheEntry,
+	TableProfile,
+	ValueFrequency,
 } from "../types/state.js";
 import { DBType } from "../types/state.js";
 import { DebouncedWriter } from "./debounced-writer.js";
@@ -56,12 +60,24 @@ const queryHistoryWriter = new DebouncedWriter<QueryHistoryItem[]>(
 	500,
 );
 
+const editJournalWriter = new DebouncedWriter<EditJournalEntry[]>(
+	async (data) => {
+		await writeFile(
+			resolveDataPath("edit-journal.json"),
+			JSON.stringify(data, null, 2),
+			"utf-8",
+		);
+	},
+	500,
+);
+
 // Flush all pending writes on process exit
 process.on("beforeExit", () => {
 	void Promise.all([
 		tableCacheWriter.flush(),
 		connectionsWriter.flush(),
 		queryHistoryWriter.flush(),
+		editJournalWriter.flush(),
 	]);
 });
 
@@ -70,6 +86,16 @@ const connectionSchema: z.ZodType<ConnectionInfo> = z.object({
 	name: z.string(),
 	type: z.nativeEnum(DBType),
 	connectionString: z.string(),
+	tls: z
+		.object({
+			mode: z
+				.enum(["disable", "prefer", "require", "verify-ca", "verify-full"])
+				.optional(),
+			caFile: z.string().optional(),
+			certFile: z.string().optional(),
+			keyFile: z.string().optional(),
+		})
+		.optional(),
 	createdAt: z.string(),
 	updatedAt: z.string(),
 });
@@ -84,22 +110,85 @@ const queryHistoryItemSchema: z.ZodType<QueryHistoryItem> = z.object({
 	error: z.string().optional(),
 });
 
+const journalEntryBase = {
+	id: z.string(),
+	connectionId: z.string(),
+	table: z.object({
+		schema: z.string().optional(),
+		name: z.string(),
+		type: z.enum(["table", "view", "materialized-view"]),
+	}),
+	key: z.record(z.unknown()),
+	changedAt: z.string(),
+	undoneAt: z.string().optional(),
+	undoes: z.string().optional(),
+};
+
+// As with value frequencies, NULL old and new values are still recorded
+const editJournalEntrySchema = z.union([
+	z.object({
+		...journalEntryBase,
+		kind: z.literal("update").optional(),
+		column: z.string(),
+		oldValue: z.unknown(),
+		newValue: z.unknown(),
+	}),
+	z.object({
+		...journalEntryBase,
+		kind: z.enum(["insert", "delete"]),
+		row: z.record(z.unknown()),
+	}),
+]) as z.ZodType<EditJournalEntry>;
+
 const columnSchema: z.ZodType<ColumnInfo> = z.object({
 	name: z.string(),
 	dataType: z.string(),
 	nullable: z.boolean(),
 	defaultValue: z.string().nullable().optional(),
 	isPrimaryKey: z.boolean().optional(),
+	isAutoIncrement: z.boolean().optional(),
 	isForeignKey: z.boolean().optional(),
+	foreignSchema: z.string().optional(),
 	foreignTable: z.string().optional(),
 	foreignColumn: z.string().optional(),
 });
 
+// z.unknown() makes `value` optional, but a NULL value is still recorded
+const valueFrequencySchema = z.object({
+	value: z.unknown(),
+	count: z.number(),
+}) as z.ZodType<ValueFrequency>;
+
+const columnProfileSchema: z.ZodType<ColumnProfile> = z.object({
+	name: z.string(),
+	dataType: z.string(),
+	category: z.enum(["numeric", "text", "temporal", "binary", "other"]),
+	nullCount: z.number(),
+	nullFraction: z.number(),
+	distinctCount: z.number(),
+	min: z.unknown().optional(),
+	max: z.unknown().optional(),
+	mean: z.number().optional(),
+	stddev: z.number().optional(),
+	averageLength: z.number().optional(),
+	maxLength: z.number().optional(),
+	topValues: z.array(valueFrequencySchema),
+});
+
+const tableProfileSchema: z.ZodType<TableProfile> = z.object({
+	rowCount: z.number(),
+	profiledRows: z.number(),
+	sampled: z.boolean(),
+	profiledAt: z.string(),
+	columns: z.array(columnProfileSchema),
+});
+
 const tableCacheEntrySchema: z.ZodType<TableCacheEntry> = z.object({
 	columns: z.array(columnSchema),
 	rows: z.array(z.record(z.string(), z.unknown())),
 	hasMore: z.boolean(),
 	offset: z.number(),
+	profile: tableProfileSchema.optional(),
 });
 
 async function ensureDataDirectory(): Promise<void> {
@@ -249,6 +338,38 @@ export async function saveQueryHistory(
 	}
 }
 
+export async function loadEditJournal(): Promise<EditJournalEntry[]> {
+	await ensureDataDirectory();
+	const targetPath = resolveDataPath("edit-journal.json");
+	if (!(await fileExists(targetPath))) {
+		return [];
+	}
+
+	const content = await readFile(targetPath, "utf-8");
+	if (!content.trim()) {
+		return [];
+	}
+
+	return parseArray(JSON.parse(content), editJournalEntrySchema);
+}
+
+export async function saveEditJournal(
+	journal: EditJournalEntry[],
+	flush = false,
+): Promise<void> {
+	await ensureDataDirectory();
+	if (flush) {
+		// For testing: write immediately to catch errors
+		await writeFile(
+			resolveDataPath("edit-journal.json"),
+			JSON.stringify(journal, null, 2),
+			"utf-8",
+		);
+	} else {
+		editJournalWriter.write(journal);
+	}
+}
+
 async function readTableCacheFile(): Promise<
 	Record<string, Record<string, TableCacheEntry>>
 > {
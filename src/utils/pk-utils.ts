@@ -1,4 +1,22 @@
-import type { ColumnInfo } from "../types/state.js";
+import { type ColumnInfo, DBType, type TableInfo } from "../types/state.js";
+
+/**
+ * How edits find their row again: by the primary key, by a unique index,
+ * by the dialect's physical row id, or, failing all of those, by every
+ * loaded value.
+ */
+export type RowIdentityStrategy =
+	| "primary-key"
+	| "unique-index"
+	| "rowid"
+	| "ctid"
+	| "all-columns";
+
+export interface RowIdentity {
+	strategy: RowIdentityStrategy;
+	/** The columns whose values find the row; `rowid` or `ctid` for physical ids. */
+	columns: string[];
+}
 
 /**
  * Get all primary key columns from a list of columns
@@ -80,3 +98,71 @@ export function getPKDisplayLabel(pkColumns: ColumnInfo[]): string {
 	}
 	return `PKs: ${pkColumns.map((col) => col.name).join(", ")}`;
 }
+
+/**
+ * How rows of the table are identified for editing, or null when they
+ * can't be (views without a primary key)
+ */
+export function getRowIdentity(
+	dbType: DBType,
+	table: TableInfo,
+	columns: ColumnInfo[],
+): RowIdentity | null {
+	const pkColumns = getPrimaryKeyColumns(columns);
+	if (pkColumns.length > 0) {
+		return {
+			strategy: "primary-key",
+			columns: pkColumns.map((column) => column.name),
+		};
+	}
+	if (table.type !== "table" || columns.length === 0) {
+		return null;
+	}
+	const uniqueColumns = columns.filter((column) => column.isUniqueKey);
+	if (uniqueColumns.length > 0) {
+		return {
+			strategy: "unique-index",
+			columns: uniqueColumns.map((column) => column.name),
+		};
+	}
+	switch (dbType) {
+		case DBType.SQLite:
+			return { strategy: "rowid", columns: ["rowid"] };
+		case DBType.PostgreSQL:
+			return { strategy: "ctid", columns: ["ctid"] };
+		default:
+			return {
+				strategy: "all-columns",
+				columns: columns.map((column) => column.name),
+			};
+	}
+}
+
+/**
+ * The hidden column to load with each row for the identity, if any
+ */
+export function getPhysicalRowIdColumn(
+	identity: RowIdentity | null,
+): string | null {
+	return identity?.strategy === "rowid" || identity?.strategy === "ctid"
+		? identity.columns[0]
+		: null;
+}
+
+/**
+ * Get a display label for how rows are identified
+ */
+export function describeRowIdentity(identity: RowIdentity): string {
+	switch (identity.strategy) {
+		case "primary-key":
+			return `${identity.columns.length === 1 ? "PK" : "PKs"}: ${identity.columns.join(", ")}`;
+		case "unique-index":
+			return `Unique: ${identity.columns.join(", ")}`;
+		case "rowid":
+			return "Row id: rowid";
+		case "ctid":
+			return "Row id: ctid";
+		case "all-columns":
+			return "No key: all column values";
+	}
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from "bun:test";
+import { runCancellable } from "../../src/database/cancellation.js";
+import {
+	QueryCancelledError,
+	QueryTimeoutError,
+} from "../../src/database/errors.js";
+
+/** A statement that only settles when the server-side cancel arrives. */
+function createRunningStatement() {
+	let rejectRun: (error: Error) => void = () => {};
+	const run = vi.fn(
+		() =>
+			new Promise<string>((_, reject) => {
+				rejectRun = reject;
+			}),
+	);
+	const cancel = vi.fn(async () => {
+		rejectRun(new Error("canceling statement due to user request"));
+	});
+	return { run, cancel };
+}
+
+describe("runCancellable", () => {
+	it("runs directly when no timeout or signal is given", async () => {
+		const cancel = vi.fn();
+
+		await expect(runCancellable({}, async () => "ok", cancel)).resolves.toBe(
+			"ok",
+		);
+		expect(cancel).not.toHaveBeenCalled();
+	});
+
+	it("cancels on the server and throws QueryTimeoutError after the timeout", async () => {
+		const { run, cancel } = createRunningStatement();
+
+		const promise = runCancellable({ timeoutMs: 10 }, run, cancel);
+
+		await expect(promise).rejects.toThrow(QueryTimeoutError);
+		await expect(promise).rejects.toThrow("Query timed out after 10ms.");
+		expect(cancel).toHaveBeenCalledTimes(1);
+	});
+
+	it("cancels on the server and throws QueryCancelledError on abort", async () => {
+		const { run, cancel } = createRunningStatement();
+		const controller = new AbortController();
+
+		const promise = runCancellable({ signal: controller.signal }, run, cancel);
+		controller.abort();
+
+		await expect(promise).rejects.toThrow(QueryCancelledError);
+		expect(cancel).toHaveBeenCalledTimes(1);
+	});
+
+	it("does not start the statement when the signal is already aborted", async () => {
+		const run = vi.fn(async () => "ok");
+		const controller = new AbortController();
+		controller.abort();
+
+		await expect(
+			runCancellable({ signal: controller.signal }, run, vi.fn()),
+		).rejects.toThrow(QueryCancelledError);
+		expect(run).not.toHaveBeenCalled();
+	});
+
+	it("keeps driver errors that happen before any cancel", async () => {
+		const cancel = vi.fn();
+
+		await expect(
+			runCancellable(
+				{ timeoutMs: 1_000 },
+				async () => {
+					throw new Error("syntax error");
+				},
+				cancel,
+			),
+		).rejects.toThrow("syntax error");
+		expect(cancel).not.toHaveBeenCalled();
+	});
+
+	it("waits for the cancel request before returning", async () => {
+		const events: string[] = [];
+		let rejectRun: (error: Error) => void = () => {};
+		const run = () =>
+			new Promise<string>((_, reject) => {
+				rejectRun = reject;
+			});
+		const cancel = async () => {
+			rejectRun(new Error("interrupted"));
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			events.push("cancel settled");
+		};
+
+		await runCancellable({ timeoutMs: 1 }, run, cancel).catch(() => {
+			events.push("returned");
+		});
+
+		expect(events).toEqual(["cancel settled", "returned"]);
+	});
+});
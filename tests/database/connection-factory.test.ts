@@ -9,6 +9,7 @@ import type {
 	DatabaseConfig,
 	DatabaseConnection,
 	QueryResult,
+	Transaction,
 } from "../../src/database/types.js";
 import { DBType } from "../../src/types/state.js";
 
@@ -38,6 +39,14 @@ class MockConnection implements DatabaseConnection {
 		// no-op for testing
 	}
 
+	async begin(): Promise<Transaction> {
+		throw new Error("Transactions are not supported by the mock connection");
+	}
+
+	async transaction<T>(fn: (tx: Transaction) => Promise<T>): Promise<T> {
+		return fn(await this.begin());
+	}
+
 	async close(): Promise<void> {
 		// no-op for testing
 	}
@@ -7,6 +7,7 @@ vi.mock("pg", () => ({
 	Pool: class {
 		query = vi.fn();
 		end = vi.fn();
+		on = vi.fn();
 		constructor() {}
 	},
 }));
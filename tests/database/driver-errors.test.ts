@@ -0,0 +1,256 @@
+import { describe, expect, it } from "bun:test";
+import {
+	translateMysqlError,
+	translatePostgresError,
+	translateSqliteError,
+} from "../../src/database/driver-errors.js";
+import {
+	ConnectionError,
+	ConnectionLostError,
+	DatabaseError,
+	DeadlockError,
+	ForeignKeyViolationError,
+	NotNullViolationError,
+	PermissionDeniedError,
+	SerializationFailureError,
+	SqlSyntaxError,
+	UniqueViolationError,
+} from "../../src/database/errors.js";
+
+function driverError(message: string, fields: Record<string, unknown>) {
+	return Object.assign(new Error(message), fields);
+}
+
+describe("translatePostgresError", () => {
+	it("maps unique violations with constraint, table and key column", () => {
+		const error = translatePostgresError(
+			driverError("duplicate key value violates unique constraint", {
+				code: "23505",
+				constraint: "users_email_key",
+				table: "users",
+				detail: "Key (email)=(a@b.c) already exists.",
+			}),
+			"PostgreSQL query failed.",
+		);
+
+		expect(error).toBeInstanceOf(UniqueViolationError);
+		expect(error.constraint).toBe("users_email_key");
+		expect(error.table).toBe("users");
+		expect(error.column).toBe("email");
+		expect(error.code).toBe("23505");
+		expect(error.detail).toBe("duplicate key value violates unique constraint");
+		expect(error.message).toContain('"users_email_key"');
+	});
+
+	it("converts the 1-based position into a statement offset", () => {
+		const error = translatePostgresError(
+			driverError('syntax error at or near "FORM"', {
+				code: "42601",
+				position: "10",
+			}),
+			"PostgreSQL query failed.",
+		);
+
+		expect(error).toBeInstanceOf(SqlSyntaxError);
+		expect(error.position).toBe(9);
+	});
+
+	it("subtracts a wrapper prefix from the position", () => {
+		const error = translatePostgresError(
+			driverError("syntax error", { code: "42601", position: "30" }),
+			"PostgreSQL stream failed.",
+			20,
+		);
+
+		expect(error.position).toBe(9);
+	});
+
+	it.each([
+		["23503", ForeignKeyViolationError],
+		["23502", NotNullViolationError],
+		["42501", PermissionDeniedError],
+		["40P01", DeadlockError],
+		["40001", SerializationFailureError],
+		["57P01", ConnectionLostError],
+		["08006", ConnectionLostError],
+	])("maps SQLSTATE %s", (code, type) => {
+		expect(
+			translatePostgresError(driverError("failed", { code }), "failed"),
+		).toBeInstanceOf(type);
+	});
+
+	it("treats unexpected termination as a lost connection", () => {
+		const error = translatePostgresError(
+			new Error("Connection terminated unexpectedly"),
+			"PostgreSQL query failed.",
+		);
+
+		expect(error).toBeInstanceOf(ConnectionLostError);
+		expect(error).toBeInstanceOf(ConnectionError);
+	});
+
+	it("keeps unknown failures as plain DatabaseError", () => {
+		const error = translatePostgresError(
+			driverError("division by zero", { code: "22012" }),
+			"PostgreSQL query failed.",
+		);
+
+		expect(error.constructor).toBe(DatabaseError);
+		expect(error.message).toBe("PostgreSQL query failed.");
+		expect(error.code).toBe("22012");
+	});
+
+	it("passes DatabaseError instances through", () => {
+		const original = new DatabaseError("already typed");
+		expect(translatePostgresError(original, "ignored")).toBe(original);
+	});
+});
+
+describe("translateMysqlError", () => {
+	it("parses the key of a duplicate entry", () => {
+		const error = translateMysqlError(
+			driverError("Duplicate entry 'a@b.c' for key 'users.email_unique'", {
+				code: "ER_DUP_ENTRY",
+			}),
+			"MySQL query failed.",
+		);
+
+		expect(error).toBeInstanceOf(UniqueViolationError);
+		expect(error.constraint).toBe("email_unique");
+		expect(error.table).toBe("users");
+	});
+
+	it("parses the constraint of a foreign key failure", () => {
+		const error = translateMysqlError(
+			driverError(
+				"Cannot add or update a child row: a foreign key constraint fails (`app`.`orders`, CONSTRAINT `orders_user_fk` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`))",
+				{ code: "ER_NO_REFERENCED_ROW_2" },
+			),
+			"MySQL query failed.",
+		);
+
+		expect(error).toBeInstanceOf(ForeignKeyViolationError);
+		expect(error.table).toBe("orders");
+		expect(error.constraint).toBe("orders_user_fk");
+		expect(error.column).toBe("user_id");
+	});
+
+	it("reads the column of a not-null failure", () => {
+		const error = translateMysqlError(
+			driverError("Column 'name' cannot be null", {
+				code: "ER_BAD_NULL_ERROR",
+			}),
+			"MySQL query failed.",
+		);
+
+		expect(error).toBeInstanceOf(NotNullViolationError);
+		expect(error.column).toBe("name");
+	});
+
+	it("locates the near text of a syntax error on the reported line", () => {
+		const sql = "SELECT id\nFROM users\nWHERE id = = 1";
+		const error = translateMysqlError(
+			driverError(
+				"You have an error in your SQL syntax; check the manual that corresponds to your MySQL server version for the right syntax to use near '= 1' at line 3",
+				{ code: "ER_PARSE_ERROR" },
+			),
+			"MySQL query failed.",
+			sql,
+		);
+
+		expect(error).toBeInstanceOf(SqlSyntaxError);
+		expect(error.position).toBe(sql.indexOf("= 1"));
+	});
+
+	it("maps deadlocks, denials and lost connections", () => {
+		expect(
+			translateMysqlError(
+				driverError("Deadlock found", { code: "ER_LOCK_DEADLOCK" }),
+				"failed",
+			),
+		).toBeInstanceOf(DeadlockError);
+
+		const denied = translateMysqlError(
+			driverError(
+				"SELECT command denied to user 'app'@'localhost' for table 'secrets'",
+				{ code: "ER_TABLEACCESS_DENIED_ERROR" },
+			),
+			"failed",
+		);
+		expect(denied).toBeInstanceOf(PermissionDeniedError);
+		expect(denied.table).toBe("secrets");
+
+		expect(
+			translateMysqlError(
+				driverError("Connection lost", { code: "PROTOCOL_CONNECTION_LOST" }),
+				"failed",
+			),
+		).toBeInstanceOf(ConnectionLostError);
+	});
+});
+
+describe("translateSqliteError", () => {
+	it("reads table and column from constraint failures", () => {
+		const unique = translateSqliteError(
+			driverError("UNIQUE constraint failed: users.email", {
+				code: "SQLITE_CONSTRAINT_UNIQUE",
+			}),
+			"SQLite query failed.",
+		);
+		expect(unique).toBeInstanceOf(UniqueViolationError);
+		expect(unique.table).toBe("users");
+		expect(unique.column).toBe("email");
+
+		const notNull = translateSqliteError(
+			driverError("NOT NULL constraint failed: users.name", {
+				code: "SQLITE_CONSTRAINT_NOTNULL",
+			}),
+			"SQLite query failed.",
+		);
+		expect(notNull).toBeInstanceOf(NotNullViolationError);
+		expect(notNull.message).toBe('Column "users.name" does not accept NULL.');
+
+		expect(
+			translateSqliteError(
+				driverError("FOREIGN KEY constraint failed", {
+					code: "SQLITE_CONSTRAINT_FOREIGNKEY",
+				}),
+				"SQLite query failed.",
+			),
+		).toBeInstanceOf(ForeignKeyViolationError);
+	});
+
+	it("finds the token a syntax error points at", () => {
+		const sql = "SELECT * FORM users";
+		const error = translateSqliteError(
+			driverError('near "FORM": syntax error', { code: "SQLITE_ERROR" }),
+			"SQLite query failed.",
+			sql,
+		);
+
+		expect(error).toBeInstanceOf(SqlSyntaxError);
+		expect(error.position).toBe(9);
+	});
+
+	it("points incomplete input at the end of the statement", () => {
+		const error = translateSqliteError(
+			driverError("incomplete input", { code: "SQLITE_ERROR" }),
+			"SQLite query failed.",
+			"SELECT (1  ",
+		);
+
+		expect(error).toBeInstanceOf(SqlSyntaxError);
+		expect(error.position).toBe(9);
+	});
+
+	it("maps read-only databases to permission errors", () => {
+		expect(
+			translateSqliteError(
+				driverError("attempt to write a readonly database", {
+					code: "SQLITE_READONLY_DBMOVED",
+				}),
+				"SQLite query failed.",
+			),
+		).toBeInstanceOf(PermissionDeniedError);
+	});
+});
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "bun:test";
+import {
+	checkConditions,
+	interpretEditedInput,
+} from "../../src/database/edit-validation.js";
+import { type ColumnInfo, DBType } from "../../src/types/state.js";
+
+const column = (dataType: string, nullable = true): ColumnInfo => ({
+	name: "value",
+	dataType,
+	nullable,
+});
+
+describe("interpretEditedInput", () => {
+	it("returns null for the NULL literal unless the column is NOT NULL", () => {
+		expect(interpretEditedInput(" null ", column("text"))).toEqual({
+			ok: true,
+			value: null,
+		});
+		expect(interpretEditedInput("NULL", column("text", false))).toEqual({
+			ok: false,
+			error: "value does not accept NULL.",
+		});
+	});
+
+	it("keeps text exactly as typed", () => {
+		expect(interpretEditedInput(" hello ", column("text"))).toEqual({
+			ok: true,
+			value: " hello ",
+		});
+	});
+
+	it("parses integers within the range of the declared type", () => {
+		expect(interpretEditedInput(" 42 ", column("integer"))).toEqual({
+			ok: true,
+			value: 42,
+		});
+		expect(interpretEditedInput("4.2", column("integer")).ok).toBe(false);
+		expect(interpretEditedInput("300", column("tinyint"))).toEqual({
+			ok: false,
+			error: "value must be between -128 and 127.",
+		});
+		expect(interpretEditedInput("-1", column("int unsigned")).ok).toBe(false);
+		// Past 2^53 the digits travel as text
+		expect(interpretEditedInput("9007199254740993", column("bigint"))).toEqual({
+			ok: true,
+			value: "9007199254740993",
+		});
+	});
+
+	it("checks decimals against their precision", () => {
+		expect(interpretEditedInput("123.45", column("numeric(5,2)"))).toEqual({
+			ok: true,
+			value: "123.45",
+		});
+		expect(interpretEditedInput("1234.5", column("numeric(5,2)"))).toEqual({
+			ok: false,
+			error: "value allows at most 3 digits before the decimal point.",
+		});
+		expect(interpretEditedInput("1.5e3", column("double precision"))).toEqual({
+			ok: true,
+			value: 1500,
+		});
+		expect(interpretEditedInput("abc", column("real")).ok).toBe(false);
+	});
+
+	it("accepts the usual spellings of booleans", () => {
+		expect(interpretEditedInput("Yes", column("boolean"))).toEqual({
+			ok: true,
+			value: true,
+		});
+		expect(interpretEditedInput("f", column("bool"))).toEqual({
+			ok: true,
+			value: false,
+		});
+		expect(interpretEditedInput("maybe", column("boolean")).ok).toBe(false);
+	});
+
+	it("rejects dates and times that do not exist", () => {
+		expect(interpretEditedInput("2024-02-29", column("date")).ok).toBe(true);
+		expect(interpretEditedInput("2023-02-29", column("date")).ok).toBe(false);
+		expect(
+			interpretEditedInput(
+				"2024-01-31T23:59:59Z",
+				column("timestamp with time zone"),
+			).ok,
+		).toBe(true);
+		expect(
+			interpretEditedInput("2024-01-31 24:00", column("datetime")).ok,
+		).toBe(false);
+		expect(interpretEditedInput("12:61", column("time")).ok).toBe(false);
+	});
+
+	it("requires valid JSON and measures lengths in characters", () => {
+		expect(interpretEditedInput('{"a": 1}', column("jsonb")).ok).toBe(true);
+		expect(interpretEditedInput("{a: 1}", column("json")).ok).toBe(false);
+		expect(interpretEditedInput("héllo", column("varchar(5)")).ok).toBe(true);
+		expect(
+			interpretEditedInput("héllo!", column("character varying(5)")),
+		).toEqual({
+			ok: false,
+			error: "value allows at most 5 characters (got 6).",
+		});
+	});
+
+	it("leaves declared lengths to SQLite, which does not enforce them", () => {
+		expect(
+			interpretEditedInput("héllo!", column("varchar(5)"), {}, DBType.SQLite),
+		).toEqual({ ok: true, value: "héllo!" });
+		expect(
+			interpretEditedInput("héllo!", column("varchar(5)"), {}, DBType.MySQL).ok,
+		).toBe(false);
+	});
+
+	it("passes array literals through instead of parsing the element type", () => {
+		expect(interpretEditedInput("{1,2,3}", column("integer[]"))).toEqual({
+			ok: true,
+			value: "{1,2,3}",
+		});
+		expect(interpretEditedInput('{a,"b c"}', column("text[]"))).toEqual({
+			ok: true,
+			value: '{a,"b c"}',
+		});
+		expect(interpretEditedInput("{t,f}", column("boolean[]")).ok).toBe(true);
+		expect(
+			interpretEditedInput("{toolong}", column("character varying(3)[]")).ok,
+		).toBe(true);
+		expect(interpretEditedInput("{1}", column("ARRAY")).ok).toBe(true);
+	});
+
+	it("limits enums to their labels", () => {
+		expect(
+			interpretEditedInput("sad", column("mood"), {
+				enumLabels: ["happy", "ok"],
+			}),
+		).toEqual({ ok: false, error: "value must be one of: happy, ok." });
+		expect(interpretEditedInput("it's", column("enum('a','it''s')")).ok).toBe(
+			true,
+		);
+		expect(interpretEditedInput("b", column("enum('a','it''s')")).ok).toBe(
+			false,
+		);
+	});
+
+	it("evaluates simple check constraints on the column", () => {
+		const checks = [
+			{ name: "value_positive", expression: "(value > (0)::numeric)" },
+			{ expression: "(other_column < 5)" },
+		];
+		expect(interpretEditedInput("-1", column("numeric"), { checks })).toEqual({
+			ok: false,
+			error:
+				'Violates check constraint "value_positive": (value > (0)::numeric)',
+		});
+		expect(interpretEditedInput("1", column("numeric"), { checks }).ok).toBe(
+			true,
+		);
+		// NULL leaves a CHECK unknown, which passes
+		expect(interpretEditedInput("NULL", column("numeric"), { checks }).ok).toBe(
+			true,
+		);
+	});
+});
+
+describe("checkConditions", () => {
+	it("reads the conditions Postgres writes back out", () => {
+		expect(
+			checkConditions(
+				"((value)::text = ANY ((ARRAY['a'::character varying, 'b'::character varying])::text[]))",
+				"value",
+			),
+		).toEqual([{ kind: "in", negated: false, values: ["a", "b"] }]);
+		expect(checkConditions("(length((value)::text) <= 5)", "value")).toEqual([
+			{ kind: "compare", length: true, operator: "<=", operand: 5 },
+		]);
+	});
+
+	it("splits BETWEEN into bounds and skips other columns", () => {
+		expect(
+			checkConditions("`value` BETWEEN 1 AND 10 AND other > 0", "value"),
+		).toEqual([
+			{ kind: "compare", length: false, operator: ">=", operand: 1 },
+			{ kind: "compare", length: false, operator: "<=", operand: 10 },
+		]);
+	});
+
+	it("leaves disjunctions to the database", () => {
+		expect(checkConditions("value > 0 OR value IS NULL", "value")).toBeNull();
+	});
+});
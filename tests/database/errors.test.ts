@@ -1,8 +1,10 @@
 import { describe, expect, it } from "bun:test";
 import {
 	ConnectionError,
+	ConnectionLostError,
 	DatabaseError,
 	QueryTimeoutError,
+	UniqueViolationError,
 } from "../../src/database/errors.js";
 
 describe("DatabaseError", () => {
@@ -323,3 +325,28 @@ describe("Error message edge cases", () => {
 		expect(error.code).toBe(1234);
 	});
 });
+
+describe("typed driver errors", () => {
+	it("carry constraint, table, column and position", () => {
+		const error = new UniqueViolationError(
+			"Duplicate value",
+			"23505",
+			"duplicate key",
+			{ constraint: "users_email_key", table: "users", column: "email" },
+		);
+
+		expect(error).toBeInstanceOf(DatabaseError);
+		expect(error.name).toBe("UniqueViolationError");
+		expect(error.constraint).toBe("users_email_key");
+		expect(error.table).toBe("users");
+		expect(error.column).toBe("email");
+		expect(error.position).toBeUndefined();
+	});
+
+	it("treats a lost connection as a connection error", () => {
+		const error = new ConnectionLostError("Connection lost");
+
+		expect(error).toBeInstanceOf(ConnectionError);
+		expect(error.name).toBe("ConnectionLostError");
+	});
+});
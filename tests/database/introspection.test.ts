@@ -0,0 +1,877 @@
+import { describe, expect, it, vi } from "bun:test";
+import { DatabaseError } from "../../src/database/errors.js";
+import {
+	createSchemaIntrospector,
+	getSchemaIntrospector,
+	isSchemaChange,
+	parseCheckConstraints,
+} from "../../src/database/introspection/index.js";
+import type { DatabaseConnection, QueryRow } from "../../src/database/types.js";
+import { DBType, type TableInfo } from "../../src/types/state.js";
+
+type Route = [RegExp, QueryRow[] | Error];
+
+/** A connection answering each statement from the first matching route. */
+function stubConnection(type: DBType, routes: Route[]) {
+	const query = vi.fn(async (sql: string) => {
+		const route = routes.find(([pattern]) => pattern.test(sql));
+		if (!route) {
+			throw new Error(`Unexpected query: ${sql}`);
+		}
+		if (route[1] instanceof Error) {
+			throw route[1];
+		}
+		return { rows: route[1], rowCount: route[1].length };
+	});
+	return { type, query } as unknown as DatabaseConnection & {
+		query: typeof query;
+	};
+}
+
+const users: TableInfo = { name: "users", schema: "public", type: "table" };
+
+describe("SQLiteIntrospector", () => {
+	const orders: TableInfo = { name: "orders", type: "table" };
+
+	it("maps pragma column metadata", async () => {
+		const connection = stubConnection(DBType.SQLite, [
+			[
+				/pragma_table_info/,
+				[
+					{
+						cid: 0,
+						name: "id",
+						type: "integer",
+						notnull: 0,
+						dflt_value: "0",
+						pk: 1,
+					},
+					{
+						cid: 1,
+						name: "line",
+						type: "",
+						notnull: 1,
+						dflt_value: null,
+						pk: 2,
+					},
+				],
+			],
+		]);
+
+		const columns =
+			await createSchemaIntrospector(connection).getColumns(orders);
+
+		expect(connection.query).toHaveBeenCalledWith(
+			"SELECT * FROM pragma_table_info(?)",
+			["orders"],
+			undefined,
+		);
+		expect(columns).toEqual([
+			{
+				name: "id",
+				dataType: "integer",
+				nullable: true,
+				defaultValue: "0",
+				isPrimaryKey: true,
+				autoIncrement: false,
+				ordinal: 1,
+			},
+			{
+				name: "line",
+				dataType: "text",
+				nullable: false,
+				defaultValue: null,
+				isPrimaryKey: true,
+				autoIncrement: false,
+				ordinal: 2,
+			},
+		]);
+	});
+
+	it("groups multi-column foreign keys and keeps referential actions", async () => {
+		const connection = stubConnection(DBType.SQLite, [
+			[
+				/pragma_foreign_key_list/,
+				[
+					{
+						id: 0,
+						seq: 0,
+						table: "products",
+						from: "sku",
+						to: "sku",
+						on_update: "NO ACTION",
+						on_delete: "CASCADE",
+					},
+					{
+						id: 0,
+						seq: 1,
+						table: "products",
+						from: "region",
+						to: "region",
+						on_update: "NO ACTION",
+						on_delete: "CASCADE",
+					},
+					{
+						id: 1,
+						seq: 0,
+						table: "customers",
+						from: "customer_id",
+						to: null,
+						on_update: "NO ACTION",
+						on_delete: "SET NULL",
+					},
+				],
+			],
+		]);
+
+		const foreignKeys =
+			await createSchemaIntrospector(connection).getForeignKeys(orders);
+
+		expect(foreignKeys).toEqual([
+			{
+				name: "fk_orders_0",
+				columns: ["sku", "region"],
+				referencedTable: "products",
+				referencedColumns: ["sku", "region"],
+				onUpdate: "NO ACTION",
+				onDelete: "CASCADE",
+			},
+			{
+				name: "fk_orders_1",
+				columns: ["customer_id"],
+				referencedTable: "customers",
+				referencedColumns: [],
+				onUpdate: "NO ACTION",
+				onDelete: "SET NULL",
+			},
+		]);
+	});
+
+	it("finds foreign keys in other tables that reference a table", async () => {
+		const connection = stubConnection(DBType.SQLite, [
+			[
+				/JOIN pragma_foreign_key_list/,
+				[
+					{
+						table_name: "invoices",
+						id: 0,
+						seq: 0,
+						from: "order_id",
+						to: null,
+						on_update: "NO ACTION",
+						on_delete: "NO ACTION",
+					},
+					{
+						table_name: "order_items",
+						id: 0,
+						seq: 0,
+						from: "order_id",
+						to: "id",
+						on_update: "NO ACTION",
+						on_delete: "CASCADE",
+					},
+				],
+			],
+		]);
+
+		const keys =
+			await createSchemaIntrospector(connection).getReferencingKeys(orders);
+
+		expect(connection.query.mock.calls[0][1]).toEqual(["orders"]);
+		expect(
+			keys.map((key) => [key.table.name, key.columns, key.referencedColumns]),
+		).toEqual([
+			["invoices", ["order_id"], []],
+			["order_items", ["order_id"], ["id"]],
+		]);
+		expect(keys[1].onDelete).toBe("CASCADE");
+	});
+
+	it("reads keys, unique indexes and CHECK constraints", async () => {
+		const connection = stubConnection(DBType.SQLite, [
+			[/pk > 0/, [{ name: "id" }]],
+			[/origin = 'u'/, [{ name: "sqlite_autoindex_orders_1" }]],
+			[/pragma_index_info/, [{ seqno: 0, name: "code" }]],
+			[
+				/sqlite_master/,
+				[
+					{
+						sql: 'CREATE TABLE orders (id INTEGER PRIMARY KEY, code TEXT UNIQUE, total REAL CHECK (total >= 0), CONSTRAINT "code length" CHECK (length(code) > 2))',
+					},
+				],
+			],
+		]);
+
+		const constraints =
+			await createSchemaIntrospector(connection).getConstraints(orders);
+
+		expect(constraints).toEqual({
+			primaryKey: { columns: ["id"] },
+			unique: [{ name: "sqlite_autoindex_orders_1", columns: ["code"] }],
+			checks: [
+				{ name: undefined, expression: "total >= 0" },
+				{ name: "code length", expression: "length(code) > 2" },
+			],
+		});
+	});
+
+	it("returns the stored CREATE text of a table and its indexes", async () => {
+		const connection = stubConnection(DBType.SQLite, [
+			[
+				/FROM sqlite_master\s+WHERE tbl_name = \?/,
+				[
+					{ sql: "CREATE TABLE orders (id INTEGER PRIMARY KEY, code TEXT)" },
+					{ sql: "CREATE INDEX orders_code ON orders (code)" },
+				],
+			],
+		]);
+
+		const ddl = await createSchemaIntrospector(connection).getDdl(orders);
+
+		expect(connection.query.mock.calls[0][1]).toEqual(["orders"]);
+		expect(ddl).toBe(
+			"CREATE TABLE orders (id INTEGER PRIMARY KEY, code TEXT);\nCREATE INDEX orders_code ON orders (code);\n",
+		);
+	});
+
+	it("reads trigger timing and events from the stored CREATE TRIGGER", async () => {
+		const connection = stubConnection(DBType.SQLite, [
+			[
+				/WHERE t.type = 'trigger'/,
+				[
+					{
+						name: "orders_touch",
+						tbl_name: "orders",
+						table_type: "table",
+						sql: "CREATE TRIGGER orders_touch AFTER UPDATE OF total, code ON orders BEGIN UPDATE orders SET updated = 1; END",
+					},
+					{
+						name: "orders_view_insert",
+						tbl_name: "order_view",
+						table_type: "view",
+						sql: "CREATE TRIGGER orders_view_insert INSTEAD  OF INSERT ON order_view BEGIN SELECT 1; END",
+					},
+					{
+						name: "orders_guard",
+						tbl_name: "orders",
+						table_type: "table",
+						sql: "CREATE TRIGGER orders_guard DELETE ON orders BEGIN SELECT RAISE(ABORT, 'no'); END",
+					},
+				],
+			],
+		]);
+
+		const triggers = await createSchemaIntrospector(connection).listTriggers();
+
+		expect(
+			triggers.map(({ name, table, timing, events }) => ({
+				name,
+				table: table.type,
+				timing,
+				events,
+			})),
+		).toEqual([
+			{
+				name: "orders_touch",
+				table: "table",
+				timing: "AFTER",
+				events: ["UPDATE"],
+			},
+			{
+				name: "orders_view_insert",
+				table: "view",
+				timing: "INSTEAD OF",
+				events: ["INSERT"],
+			},
+			{
+				name: "orders_guard",
+				table: "table",
+				timing: "BEFORE",
+				events: ["DELETE"],
+			},
+		]);
+	});
+
+	it("lists AUTOINCREMENT counters as sequences once SQLite keeps any", async () => {
+		const empty = stubConnection(DBType.SQLite, [[/sqlite_master/, []]]);
+		expect(await createSchemaIntrospector(empty).listSequences()).toEqual([]);
+		expect(empty.query).toHaveBeenCalledTimes(1);
+
+		const connection = stubConnection(DBType.SQLite, [
+			[/FROM sqlite_master/, [{ 1: 1 }]],
+			[/FROM sqlite_sequence/, [{ name: "orders", seq: 42 }]],
+		]);
+		const [sequence] =
+			await createSchemaIntrospector(connection).listSequences();
+
+		expect(sequence).toMatchObject({ name: "orders", lastValue: "42" });
+	});
+});
+
+describe("parseCheckConstraints", () => {
+	it("ignores CHECK inside literals and comments and handles nesting", () => {
+		const sql = `CREATE TABLE t (
+			note TEXT DEFAULT 'CHECK (1)', -- CHECK (2)
+			qty INT CONSTRAINT qty_range CHECK (qty BETWEEN 1 AND (10 * 2))
+		)`;
+		expect(parseCheckConstraints(sql)).toEqual([
+			{ name: "qty_range", expression: "qty BETWEEN 1 AND (10 * 2)" },
+		]);
+	});
+});
+
+describe("PostgresIntrospector", () => {
+	it("queries the catalog with the table name and schema", async () => {
+		const connection = stubConnection(DBType.PostgreSQL, [
+			[
+				/FROM pg_attribute/,
+				[
+					{
+						column_name: "id",
+						data_type: "integer",
+						is_nullable: false,
+						column_default: "nextval('users_id_seq'::regclass)",
+						ordinal_position: 1,
+						is_primary_key: true,
+						column_comment: "Surrogate key",
+					},
+				],
+			],
+		]);
+
+		const columns =
+			await createSchemaIntrospector(connection).getColumns(users);
+
+		expect(connection.query.mock.calls[0][1]).toEqual(["users", "public"]);
+		expect(columns[0]).toEqual({
+			name: "id",
+			dataType: "integer",
+			nullable: false,
+			defaultValue: "nextval('users_id_seq'::regclass)",
+			isPrimaryKey: true,
+			autoIncrement: true,
+			ordinal: 1,
+			comment: "Surrogate key",
+		});
+	});
+
+	it("splits constraints by type and unwraps CHECK definitions", async () => {
+		const connection = stubConnection(DBType.PostgreSQL, [
+			[
+				/FROM pg_constraint/,
+				[
+					{
+						constraint_name: "users_pkey",
+						constraint_type: "p",
+						columns: ["id"],
+					},
+					{
+						constraint_name: "users_email_key",
+						constraint_type: "u",
+						columns: "{email,tenant_id}",
+					},
+					{
+						constraint_name: "users_age_check",
+						constraint_type: "c",
+						definition: "CHECK (age >= 0)",
+						columns: ["age"],
+					},
+				],
+			],
+		]);
+
+		const constraints =
+			await createSchemaIntrospector(connection).getConstraints(users);
+
+		expect(constraints).toEqual({
+			primaryKey: { name: "users_pkey", columns: ["id"] },
+			unique: [{ name: "users_email_key", columns: ["email", "tenant_id"] }],
+			checks: [{ name: "users_age_check", expression: "age >= 0" }],
+		});
+	});
+
+	it("translates referential action codes", async () => {
+		const connection = stubConnection(DBType.PostgreSQL, [
+			[
+				/contype = 'f'/,
+				[
+					{
+						constraint_name: "users_org_fk",
+						column_name: "org_id",
+						referenced_schema: "public",
+						referenced_table: "orgs",
+						referenced_column: "id",
+						update_rule: "a",
+						delete_rule: "c",
+					},
+				],
+			],
+		]);
+
+		const [foreignKey] =
+			await createSchemaIntrospector(connection).getForeignKeys(users);
+
+		expect(foreignKey).toEqual(
+			expect.objectContaining({
+				referencedSchema: "public",
+				onUpdate: "NO ACTION",
+				onDelete: "CASCADE",
+			}),
+		);
+	});
+
+	it("assembles a view with its definition and no key metadata", async () => {
+		const view: TableInfo = {
+			name: "active_users",
+			schema: "public",
+			type: "view",
+		};
+		const connection = stubConnection(DBType.PostgreSQL, [
+			[
+				/FROM pg_class c\s+JOIN pg_namespace n ON n.oid = c.relnamespace\s+WHERE c.relkind IN \('r'/,
+				[
+					{
+						table_schema: "public",
+						table_name: "active_users",
+						table_type: "VIEW",
+						table_comment: "Users seen this month",
+					},
+				],
+			],
+			[
+				/FROM pg_attribute/,
+				[{ column_name: "id", data_type: "integer", is_nullable: true }],
+			],
+			[/FROM pg_index ix/, []],
+			[/pg_get_viewdef/, [{ definition: " SELECT id FROM users;" }]],
+		]);
+
+		const table = await createSchemaIntrospector(connection).getTable(view);
+
+		expect(table).toEqual(
+			expect.objectContaining({
+				comment: "Users seen this month",
+				foreignKeys: [],
+				primaryKey: null,
+				viewDefinition: "SELECT id FROM users;",
+			}),
+		);
+		expect(table.columns).toHaveLength(1);
+	});
+
+	it("rebuilds table DDL from the catalogs, with sequences, indexes and comments", async () => {
+		const connection = stubConnection(DBType.PostgreSQL, [
+			[
+				/WHERE c.relkind IN \('r'/,
+				[
+					{
+						table_schema: "public",
+						table_name: "users",
+						table_type: "BASE TABLE",
+						table_comment: "People who sign in",
+					},
+				],
+			],
+			[
+				/FROM pg_attribute/,
+				[
+					{
+						column_name: "id",
+						data_type: "integer",
+						is_nullable: false,
+						column_default: "nextval('users_id_seq'::regclass)",
+						is_primary_key: true,
+					},
+					{
+						column_name: "badge_no",
+						data_type: "bigint",
+						is_nullable: false,
+						identity: "a",
+					},
+					{
+						column_name: "email",
+						data_type: "text",
+						is_nullable: false,
+						column_comment: "Login name",
+					},
+				],
+			],
+			[/con.contype = 'f'/, []],
+			[
+				/FROM pg_index ix/,
+				[
+					{
+						index_name: "users_pkey",
+						is_unique: true,
+						is_primary: true,
+						index_type: "btree",
+						columns: ["id"],
+					},
+					{
+						index_name: "users_email_lower",
+						is_unique: false,
+						is_primary: false,
+						index_type: "hash",
+						columns: ["lower(email)"],
+					},
+				],
+			],
+			[
+				/con.contype IN \('p', 'u', 'c'\)/,
+				[
+					{
+						constraint_name: "users_pkey",
+						constraint_type: "p",
+						columns: ["id"],
+					},
+				],
+			],
+		]);
+
+		const ddl = await createSchemaIntrospector(connection).getDdl(users);
+
+		expect(ddl).toBe(
+			[
+				"CREATE SEQUENCE IF NOT EXISTS users_id_seq AS integer;",
+				'CREATE TABLE "public"."users" (',
+				"  \"id\" integer NOT NULL DEFAULT nextval('users_id_seq'::regclass),",
+				'  "badge_no" bigint NOT NULL GENERATED ALWAYS AS IDENTITY,',
+				'  "email" text NOT NULL,',
+				'  CONSTRAINT "users_pkey" PRIMARY KEY ("id")',
+				");",
+				'ALTER SEQUENCE users_id_seq OWNED BY "public"."users"."id";',
+				'CREATE INDEX "users_email_lower" ON "public"."users" USING hash (lower(email));',
+				'COMMENT ON TABLE "public"."users" IS \'People who sign in\';',
+				'COMMENT ON COLUMN "public"."users"."email" IS \'Login name\';',
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("decodes trigger timing, events and level from tgtype", async () => {
+		const connection = stubConnection(DBType.PostgreSQL, [
+			[
+				/FROM pg_trigger/,
+				[
+					{
+						trigger_schema: "public",
+						trigger_name: "users_audit",
+						table_name: "users",
+						table_kind: "r",
+						// ROW | BEFORE | INSERT | UPDATE
+						trigger_type: 1 | 2 | 4 | 16,
+						enabled: "O",
+					},
+					{
+						trigger_schema: "public",
+						trigger_name: "users_truncate",
+						table_name: "users",
+						table_kind: "r",
+						trigger_type: 32,
+						enabled: "D",
+					},
+				],
+			],
+		]);
+
+		const triggers = await createSchemaIntrospector(connection).listTriggers();
+
+		expect(
+			triggers.map(({ name, timing, events, level, enabled }) => ({
+				name,
+				timing,
+				events,
+				level,
+				enabled,
+			})),
+		).toEqual([
+			{
+				name: "users_audit",
+				timing: "BEFORE",
+				events: ["INSERT", "UPDATE"],
+				level: "ROW",
+				enabled: true,
+			},
+			{
+				name: "users_truncate",
+				timing: "AFTER",
+				events: ["TRUNCATE"],
+				level: "STATEMENT",
+				enabled: false,
+			},
+		]);
+	});
+
+	it("lists routines with signatures and enum labels in sort order", async () => {
+		const connection = stubConnection(DBType.PostgreSQL, [
+			[
+				/FROM pg_proc/,
+				[
+					{
+						routine_schema: "public",
+						routine_name: "order_total",
+						routine_kind: "f",
+						arguments: "order_id integer",
+						return_type: "numeric",
+						language: "sql",
+						definition: "CREATE OR REPLACE FUNCTION ...\n",
+					},
+					{
+						routine_schema: "public",
+						routine_name: "archive_orders",
+						routine_kind: "p",
+						arguments: "",
+						return_type: null,
+						language: "plpgsql",
+						definition: "CREATE OR REPLACE PROCEDURE ...",
+					},
+				],
+			],
+			[
+				/WHERE t.typtype = 'e'/,
+				[
+					{
+						enum_schema: "public",
+						enum_name: "order_status",
+						labels: '{pending,shipped,"on hold"}',
+					},
+				],
+			],
+		]);
+		const introspector = createSchemaIntrospector(connection);
+
+		expect(await introspector.listObjects("routines")).toEqual([
+			{
+				schema: "public",
+				name: "order_total",
+				kind: "function",
+				arguments: "order_id integer",
+				returnType: "numeric",
+				language: "sql",
+				definition: "CREATE OR REPLACE FUNCTION ...",
+			},
+			{
+				schema: "public",
+				name: "archive_orders",
+				kind: "procedure",
+				arguments: "",
+				returnType: undefined,
+				language: "plpgsql",
+				definition: "CREATE OR REPLACE PROCEDURE ...",
+			},
+		]);
+		expect(await introspector.listObjects("enums")).toEqual([
+			{
+				schema: "public",
+				name: "order_status",
+				labels: ["pending", "shipped", "on hold"],
+			},
+		]);
+	});
+});
+
+describe("MySQLIntrospector", () => {
+	it("falls back to the session database and reads keys", async () => {
+		const connection = stubConnection(DBType.MySQL, [
+			[
+				/CONSTRAINT_TYPE IN \('PRIMARY KEY', 'UNIQUE'\)/,
+				[
+					{
+						constraint_name: "PRIMARY",
+						constraint_type: "PRIMARY KEY",
+						column_name: "id",
+					},
+					{
+						constraint_name: "users_email",
+						constraint_type: "UNIQUE",
+						column_name: "email",
+					},
+				],
+			],
+			[
+				/CHECK_CONSTRAINTS/,
+				[{ constraint_name: "age_ok", check_clause: "(`age` >= 0)" }],
+			],
+		]);
+
+		const constraints = await createSchemaIntrospector(
+			connection,
+		).getConstraints({ name: "users", type: "table" });
+
+		expect(connection.query.mock.calls[0][1]).toEqual([null, "users"]);
+		expect(constraints).toEqual({
+			primaryKey: { name: "PRIMARY", columns: ["id"] },
+			unique: [{ name: "users_email", columns: ["email"] }],
+			checks: [{ name: "age_ok", expression: "(`age` >= 0)" }],
+		});
+	});
+
+	it("reports no checks on servers without CHECK_CONSTRAINTS", async () => {
+		const connection = stubConnection(DBType.MySQL, [
+			[/CONSTRAINT_TYPE IN/, []],
+			[
+				/CHECK_CONSTRAINTS/,
+				new DatabaseError("Unknown table", "ER_UNKNOWN_TABLE"),
+			],
+		]);
+
+		const constraints =
+			await createSchemaIntrospector(connection).getConstraints(users);
+
+		expect(constraints.checks).toEqual([]);
+	});
+
+	it("maps column keys and types", async () => {
+		const connection = stubConnection(DBType.MySQL, [
+			[
+				/information_schema.COLUMNS/,
+				[
+					{
+						column_name: "id",
+						data_type: "int unsigned",
+						is_nullable: "NO",
+						column_default: null,
+						column_key: "PRI",
+						extra: "auto_increment",
+						ordinal_position: 1,
+						column_comment: "",
+					},
+				],
+			],
+		]);
+
+		const [column] =
+			await createSchemaIntrospector(connection).getColumns(users);
+
+		expect(column).toEqual({
+			name: "id",
+			dataType: "int unsigned",
+			nullable: false,
+			defaultValue: null,
+			isPrimaryKey: true,
+			autoIncrement: true,
+			ordinal: 1,
+			comment: undefined,
+		});
+	});
+
+	it("reads DDL with SHOW CREATE TABLE", async () => {
+		const connection = stubConnection(DBType.MySQL, [
+			[
+				/^SHOW CREATE TABLE `shop`\.`users`$/,
+				[
+					{
+						Table: "users",
+						"Create Table": "CREATE TABLE `users` (\n  `id` int NOT NULL\n)",
+					},
+				],
+			],
+		]);
+
+		const ddl = await createSchemaIntrospector(connection).getDdl({
+			name: "users",
+			schema: "shop",
+			type: "table",
+		});
+
+		expect(ddl).toBe("CREATE TABLE `users` (\n  `id` int NOT NULL\n);\n");
+	});
+
+	it("lists ENUM columns with their labels and has no sequences", async () => {
+		const connection = stubConnection(DBType.MySQL, [
+			[
+				/DATA_TYPE = 'enum'/,
+				[
+					{
+						table_schema: "shop",
+						table_name: "orders",
+						column_name: "status",
+						column_type: "enum('new','it''s late','done')",
+					},
+				],
+			],
+		]);
+		const introspector = createSchemaIntrospector(connection);
+
+		expect(await introspector.listEnums()).toEqual([
+			{
+				schema: "shop",
+				name: "orders.status",
+				labels: ["new", "it's late", "done"],
+			},
+		]);
+		expect(await introspector.listSequences()).toEqual([]);
+	});
+});
+
+describe("SchemaIntrospector cache", () => {
+	const columnRows = [
+		{
+			cid: 0,
+			name: "id",
+			type: "integer",
+			notnull: 1,
+			dflt_value: null,
+			pk: 1,
+		},
+	];
+
+	it("answers repeat lookups from the cache until invalidated", async () => {
+		const connection = stubConnection(DBType.SQLite, [
+			[/pragma_table_info/, columnRows],
+		]);
+		const introspector = createSchemaIntrospector(connection);
+
+		await introspector.getColumns(users);
+		await introspector.getColumns(users);
+		expect(connection.query).toHaveBeenCalledTimes(1);
+
+		introspector.invalidate({ name: "other", type: "table" });
+		await introspector.getColumns(users);
+		expect(connection.query).toHaveBeenCalledTimes(1);
+
+		introspector.invalidate(users);
+		await introspector.getColumns(users);
+		expect(connection.query).toHaveBeenCalledTimes(2);
+	});
+
+	it("does not remember failures", async () => {
+		const connection = stubConnection(DBType.SQLite, [
+			[/pragma_table_info/, columnRows],
+		]);
+		connection.query.mockRejectedValueOnce(new Error("busy"));
+		const introspector = createSchemaIntrospector(connection);
+
+		await expect(introspector.getColumns(users)).rejects.toThrow("busy");
+		await expect(introspector.getColumns(users)).resolves.toHaveLength(1);
+	});
+
+	it("shares one introspector per connection", () => {
+		const connection = stubConnection(DBType.SQLite, []);
+		expect(getSchemaIntrospector(connection)).toBe(
+			getSchemaIntrospector(connection),
+		);
+		expect(getSchemaIntrospector(stubConnection(DBType.SQLite, []))).not.toBe(
+			getSchemaIntrospector(connection),
+		);
+	});
+});
+
+describe("isSchemaChange", () => {
+	it.each([
+		"CREATE TABLE t (id int)",
+		"  alter table t add column x int",
+		"-- migrate\nDROP VIEW v",
+		"/* note */ COMMENT ON TABLE t IS 'x'",
+	])("treats %p as DDL", (sql) => {
+		expect(isSchemaChange(sql)).toBe(true);
+	});
+
+	it.each([
+		"SELECT 'create'",
+		"UPDATE created SET x = 1",
+		"INSERT INTO t VALUES (1)",
+	])("treats %p as data access", (sql) => {
+		expect(isSchemaChange(sql)).toBe(false);
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "bun:test";
+import {
+	journalScript,
+	sqlLiteral,
+} from "../../src/database/journal-script.js";
+import { DBType, type EditJournalEntry } from "../../src/types/state.js";
+
+describe("sqlLiteral", () => {
+	it("writes NULL, numbers and booleans bare", () => {
+		expect(sqlLiteral(DBType.PostgreSQL, null)).toBe("NULL");
+		expect(sqlLiteral(DBType.PostgreSQL, 42)).toBe("42");
+		expect(sqlLiteral(DBType.PostgreSQL, 10n)).toBe("10");
+		expect(sqlLiteral(DBType.PostgreSQL, true)).toBe("TRUE");
+		expect(sqlLiteral(DBType.SQLite, false)).toBe("0");
+	});
+
+	it("quotes text and escapes quotes for the dialect", () => {
+		expect(sqlLiteral(DBType.PostgreSQL, "it's \\n")).toBe("'it''s \\n'");
+		expect(sqlLiteral(DBType.MySQL, "it's \\n")).toBe("'it''s \\\\n'");
+	});
+
+	it("writes objects as JSON text", () => {
+		expect(sqlLiteral(DBType.PostgreSQL, { a: 1 })).toBe(`'{"a":1}'`);
+	});
+});
+
+describe("journalScript", () => {
+	const base = {
+		connectionId: "conn-1",
+		table: { name: "orders", schema: "public", type: "table" as const },
+		key: { id: 1 },
+		column: "note",
+	};
+	const edit: EditJournalEntry = {
+		...base,
+		id: "edit-1",
+		oldValue: "old",
+		newValue: "new",
+		changedAt: "2024-01-01T00:00:00.000Z",
+		undoneAt: "2024-01-02T00:00:00.000Z",
+	};
+	const undo: EditJournalEntry = {
+		...base,
+		id: "edit-2",
+		oldValue: "new",
+		newValue: "old",
+		changedAt: "2024-01-02T00:00:00.000Z",
+		undoes: "edit-1",
+	};
+
+	it("replays the edits oldest first with their history", () => {
+		expect(journalScript(DBType.PostgreSQL, [undo, edit], "Local")).toBe(
+			[
+				"-- Local",
+				"-- 2 edits, oldest first",
+				"",
+				"-- 2024-01-01T00:00:00.000Z note: was 'old'; undone 2024-01-02T00:00:00.000Z",
+				`UPDATE "public"."orders" SET "note" = 'new' WHERE "id" = 1;`,
+				"-- 2024-01-02T00:00:00.000Z note: was 'new'; undoes the edit of 2024-01-01T00:00:00.000Z",
+				`UPDATE "public"."orders" SET "note" = 'old' WHERE "id" = 1;`,
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("replays inserted rows as INSERTs and deleted rows as DELETEs", () => {
+		const row = { id: 2, note: "it's" };
+		const inserted: EditJournalEntry = {
+			id: "insert-1",
+			connectionId: "conn-1",
+			table: base.table,
+			key: { id: 2 },
+			kind: "insert",
+			row,
+			changedAt: "2024-01-03T00:00:00.000Z",
+		};
+		const deleted: EditJournalEntry = {
+			...inserted,
+			id: "delete-1",
+			kind: "delete",
+			changedAt: "2024-01-04T00:00:00.000Z",
+			undoes: "insert-1",
+		};
+
+		expect(journalScript(DBType.MySQL, [deleted, inserted], "Local")).toBe(
+			[
+				"-- Local",
+				"-- 2 edits, oldest first",
+				"",
+				"-- 2024-01-03T00:00:00.000Z inserted row",
+				"INSERT INTO `public`.`orders` (`id`, `note`) VALUES (2, 'it''s');",
+				"-- 2024-01-04T00:00:00.000Z deleted row: undoes the edit of 2024-01-03T00:00:00.000Z",
+				"DELETE FROM `public`.`orders` WHERE `id` = 2;",
+				"",
+			].join("\n"),
+		);
+	});
+});
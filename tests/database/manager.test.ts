@@ -0,0 +1,195 @@
+import { describe, expect, it, vi } from "bun:test";
+import { ConnectionError } from "../../src/database/errors.js";
+import { ConnectionManager } from "../../src/database/manager.js";
+import type {
+	DatabaseConfig,
+	DatabaseConnection,
+} from "../../src/database/types.js";
+import { DBType } from "../../src/types/state.js";
+
+const pgConfig: DatabaseConfig = {
+	type: DBType.PostgreSQL,
+	connectionString: "postgres://localhost/app",
+};
+
+const sqliteConfig: DatabaseConfig = {
+	type: DBType.SQLite,
+	connectionString: "/tmp/app.sqlite",
+};
+
+function createStub(type: DBType = DBType.PostgreSQL) {
+	return {
+		type,
+		connect: vi.fn(async () => {}),
+		query: vi.fn(async () => ({ rows: [], rowCount: 0 })),
+		execute: vi.fn(async () => {}),
+		close: vi.fn(async () => {}),
+	};
+}
+
+function createManager(idleTimeoutMillis = 60_000) {
+	const stubs: ReturnType<typeof createStub>[] = [];
+	const factory = vi.fn((config: DatabaseConfig) => {
+		const stub = createStub(config.type);
+		stubs.push(stub);
+		return stub as unknown as DatabaseConnection;
+	});
+	const manager = new ConnectionManager({
+		idleTimeoutMillis,
+		createConnection: factory,
+	});
+	return { manager, factory, stubs };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("ConnectionManager", () => {
+	it("connects lazily and reuses one session per configuration", async () => {
+		const { manager, factory, stubs } = createManager();
+
+		expect(factory).not.toHaveBeenCalled();
+
+		const first = await manager.acquire(pgConfig);
+		manager.release(first);
+		const second = await manager.acquire({ ...pgConfig });
+		manager.release(second);
+
+		expect(first).toBe(second);
+		expect(factory).toHaveBeenCalledTimes(1);
+		expect(stubs[0].connect).toHaveBeenCalledTimes(1);
+		expect(stubs[0].close).not.toHaveBeenCalled();
+		expect(manager.size).toBe(1);
+
+		await manager.disposeAll();
+	});
+
+	it("shares a pending connect between concurrent callers", async () => {
+		const { manager, stubs } = createManager();
+
+		const [a, b] = await Promise.all([
+			manager.acquire(pgConfig),
+			manager.acquire(pgConfig),
+		]);
+
+		expect(a).toBe(b);
+		expect(stubs).toHaveLength(1);
+		expect(stubs[0].connect).toHaveBeenCalledTimes(1);
+
+		await manager.disposeAll();
+	});
+
+	it("keeps separate sessions for different configurations", async () => {
+		const { manager, stubs } = createManager();
+
+		await manager.withConnection(pgConfig, async () => {});
+		await manager.withConnection(sqliteConfig, async () => {});
+
+		expect(stubs).toHaveLength(2);
+		expect(manager.has(pgConfig)).toBe(true);
+		expect(manager.has(sqliteConfig)).toBe(true);
+
+		await manager.disposeAll();
+		expect(manager.size).toBe(0);
+		expect(stubs[0].close).toHaveBeenCalledTimes(1);
+		expect(stubs[1].close).toHaveBeenCalledTimes(1);
+	});
+
+	it("keeps separate sessions when only TLS or pool settings differ", async () => {
+		const { manager, stubs } = createManager();
+		const verified: DatabaseConfig = {
+			...pgConfig,
+			tls: { mode: "verify-full", caFile: "/etc/ca.pem" },
+		};
+		const pooled: DatabaseConfig = { ...pgConfig, pool: { max: 2 } };
+
+		await manager.withConnection(pgConfig, async () => {});
+		await manager.withConnection(verified, async () => {});
+		await manager.withConnection(pooled, async () => {});
+
+		expect(stubs).toHaveLength(3);
+		expect(
+			manager.has({
+				...pgConfig,
+				tls: { caFile: "/etc/ca.pem", mode: "verify-full" },
+			}),
+		).toBe(true);
+		expect(manager.has({ ...pgConfig, tls: {}, pool: undefined })).toBe(true);
+		await manager.disposeAll();
+	});
+
+	it("drops the session when connecting fails", async () => {
+		const { manager, factory, stubs } = createManager();
+		factory.mockImplementationOnce(() => {
+			const stub = createStub();
+			stub.connect.mockRejectedValueOnce(new ConnectionError("unreachable"));
+			stubs.push(stub);
+			return stub as unknown as DatabaseConnection;
+		});
+
+		await expect(manager.acquire(pgConfig)).rejects.toThrow(ConnectionError);
+		expect(manager.has(pgConfig)).toBe(false);
+		expect(stubs[0].close).toHaveBeenCalledTimes(1);
+
+		const connection = await manager.acquire(pgConfig);
+		expect(connection).toBe(stubs[1] as unknown as DatabaseConnection);
+
+		await manager.disposeAll();
+	});
+
+	it("closes sessions after sitting idle", async () => {
+		const { manager, stubs } = createManager(10);
+
+		const connection = await manager.acquire(pgConfig);
+		await sleep(25);
+		// Still leased, so the idle timer has not started yet
+		expect(stubs[0].close).not.toHaveBeenCalled();
+
+		manager.release(connection);
+		await sleep(25);
+
+		expect(stubs[0].close).toHaveBeenCalledTimes(1);
+		expect(manager.has(pgConfig)).toBe(false);
+	});
+
+	it("honours a per-connection idle timeout from the pool config", async () => {
+		const { manager, stubs } = createManager(10);
+
+		await manager.withConnection(
+			{ ...pgConfig, pool: { sessionIdleTimeoutMillis: 0 } },
+			async () => {},
+		);
+		await sleep(25);
+
+		expect(stubs[0].close).not.toHaveBeenCalled();
+
+		await manager.disposeAll();
+	});
+
+	it("disposes a single session on demand", async () => {
+		const { manager, stubs } = createManager();
+
+		await manager.withConnection(pgConfig, async () => {});
+		await manager.withConnection(sqliteConfig, async () => {});
+		await manager.dispose(pgConfig);
+
+		expect(stubs[0].close).toHaveBeenCalledTimes(1);
+		expect(stubs[1].close).not.toHaveBeenCalled();
+		expect(manager.has(pgConfig)).toBe(false);
+		expect(manager.has(sqliteConfig)).toBe(true);
+
+		await manager.disposeAll();
+	});
+
+	it("releases the lease even when the callback throws", async () => {
+		const { manager, stubs } = createManager(10);
+
+		await expect(
+			manager.withConnection(pgConfig, async () => {
+				throw new Error("boom");
+			}),
+		).rejects.toThrow("boom");
+		await sleep(25);
+
+		expect(stubs[0].close).toHaveBeenCalledTimes(1);
+	});
+});
@@ -1,5 +1,11 @@
 import { beforeEach, describe, expect, it, vi } from "bun:test";
-import { ConnectionError, DatabaseError } from "../../src/database/errors.js";
+import mysql from "mysql2/promise";
+import { Readable } from "stream";
+import {
+	ConnectionError,
+	DatabaseError,
+	QueryTimeoutError,
+} from "../../src/database/errors.js";
 import { MySQLConnection } from "../../src/database/mysql.js";
 
 // Mock the mysql2/promise module
@@ -7,9 +13,12 @@ const mockMysqlQuery = vi.fn();
 const mockMysqlEnd = vi.fn();
 let mockPool: any;
 
+const poolOptions: any[] = [];
+
 vi.mock("mysql2/promise", () => ({
 	default: {
-		createPool: vi.fn(() => {
+		createPool: vi.fn((options: any) => {
+			poolOptions.push(options);
 			mockPool = {
 				getConnection: vi.fn(),
 				query: mockMysqlQuery,
@@ -70,7 +79,10 @@ describe("MySQLConnection", () => {
 		expect(result).toEqual({
 			rows: mockRows,
 			rowCount: 1,
-			fields: ["id", "name"],
+			fields: [
+				{ name: "id", dataType: "unknown" },
+				{ name: "name", dataType: "unknown" },
+			],
 		});
 	});
 
@@ -175,7 +187,7 @@ describe("MySQLConnection", () => {
 
 		const result = await connection.query("SELECT * FROM users");
 
-		expect(result.fields).toEqual([""]);
+		expect(result.fields).toEqual([{ name: "", dataType: "unknown" }]);
 	});
 
 	it("handles fields with name property", async () => {
@@ -186,7 +198,57 @@ describe("MySQLConnection", () => {
 
 		const result = await connection.query("SELECT * FROM users");
 
-		expect(result.fields).toEqual(["id"]);
+		expect(result.fields).toEqual([{ name: "id", dataType: "unknown" }]);
+	});
+
+	it("reports column type, nullability and source for each field", async () => {
+		(connection as any).connected = true;
+		mockMysqlQuery.mockResolvedValue([
+			[],
+			[
+				{
+					name: "id",
+					orgName: "id",
+					orgTable: "users",
+					columnType: 3,
+					flags: 1 | 2,
+					characterSet: 63,
+				},
+				{
+					name: "bio",
+					orgName: "biography",
+					orgTable: "users",
+					columnType: 252,
+					flags: 0,
+					characterSet: 224,
+				},
+				{ name: "total", orgName: "", orgTable: "", columnType: 246, flags: 0 },
+			],
+		]);
+
+		const result = await connection.query(
+			"SELECT id, biography AS bio, 1.5 AS total FROM users",
+		);
+
+		expect(result.fields).toEqual([
+			{
+				name: "id",
+				dataType: "int",
+				nativeTypeId: 3,
+				nullable: false,
+				table: "users",
+				column: "id",
+			},
+			{
+				name: "bio",
+				dataType: "text",
+				nativeTypeId: 252,
+				nullable: true,
+				table: "users",
+				column: "biography",
+			},
+			{ name: "total", dataType: "decimal", nativeTypeId: 246, nullable: true },
+		]);
 	});
 
 	it("handles missing fields gracefully", async () => {
@@ -263,6 +325,15 @@ describe("MySQLConnection", () => {
 		expect(result.rowCount).toBe(0);
 	});
 
+	it("reports the AUTO_INCREMENT value an INSERT generated", async () => {
+		(connection as any).connected = true;
+		mockMysqlQuery.mockResolvedValue([{ affectedRows: 1, insertId: 42 }]);
+
+		const result = await connection.query("INSERT INTO users () VALUES ()");
+
+		expect(result).toEqual({ rows: [], rowCount: 1, insertId: 42 });
+	});
+
 	it("handles large row count", async () => {
 		(connection as any).connected = true;
 		const mockRows = Array.from({ length: 1000 }, (_, i) => ({ id: i + 1 }));
@@ -272,4 +343,249 @@ describe("MySQLConnection", () => {
 
 		expect(result.rowCount).toBe(1000);
 	});
+
+	describe("stream", () => {
+		function createPoolConnection(rows: Record<string, unknown>[]) {
+			const rowStream = Readable.from(rows);
+			const destroySpy = vi.spyOn(rowStream, "destroy");
+			const streamFactory = vi.fn(() => rowStream);
+			return {
+				release: vi.fn(),
+				destroy: vi.fn(),
+				connection: {
+					query: vi.fn(() => ({ stream: streamFactory })),
+				},
+				streamFactory,
+				destroySpy,
+			};
+		}
+
+		it("groups streamed rows into batches and releases the connection", async () => {
+			(connection as any).connected = true;
+			const poolConnection = createPoolConnection([
+				{ id: 1 },
+				{ id: 2 },
+				{ id: 3 },
+			]);
+			mockPool.getConnection.mockResolvedValue(poolConnection);
+
+			const batches: unknown[] = [];
+			for await (const batch of connection.stream(
+				"SELECT * FROM users WHERE id > ?",
+				[0],
+				{ batchSize: 2 },
+			)) {
+				batches.push(batch);
+			}
+
+			expect(batches).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+			expect(poolConnection.connection.query).toHaveBeenCalledWith(
+				"SELECT * FROM users WHERE id > ?",
+				[0],
+			);
+			expect(poolConnection.streamFactory).toHaveBeenCalledWith({
+				highWaterMark: 2,
+			});
+			expect(poolConnection.release).toHaveBeenCalledTimes(1);
+			expect(poolConnection.destroy).not.toHaveBeenCalled();
+		});
+
+		it("destroys a connection abandoned mid-result", async () => {
+			(connection as any).connected = true;
+			const poolConnection = createPoolConnection([
+				{ id: 1 },
+				{ id: 2 },
+				{ id: 3 },
+			]);
+			mockPool.getConnection.mockResolvedValue(poolConnection);
+
+			for await (const _batch of connection.stream("SELECT * FROM users", [], {
+				batchSize: 1,
+			})) {
+				break;
+			}
+
+			expect(poolConnection.destroy).toHaveBeenCalledTimes(1);
+			expect(poolConnection.release).not.toHaveBeenCalled();
+		});
+
+		it("throws ConnectionError when no connection can be acquired", async () => {
+			(connection as any).connected = true;
+			mockPool.getConnection.mockRejectedValue(new Error("pool exhausted"));
+
+			const consume = async () => {
+				for await (const _batch of connection.stream("SELECT 1")) {
+					// drain
+				}
+			};
+
+			await expect(consume()).rejects.toThrow(ConnectionError);
+		});
+	});
+
+	describe("transactions", () => {
+		function createPoolConnection() {
+			return {
+				query: vi.fn(async (sql: string) =>
+					sql.startsWith("SELECT")
+						? [[{ id: 1 }], [{ name: "id" }]]
+						: [{ affectedRows: 2 }, undefined],
+				),
+				release: vi.fn(),
+				destroy: vi.fn(),
+			};
+		}
+
+		it("runs statements on one pinned connection and commits", async () => {
+			(connection as any).connected = true;
+			const poolConnection = createPoolConnection();
+			mockPool.getConnection.mockResolvedValue(poolConnection);
+
+			const updated = await connection.transaction(async (tx) => {
+				const result = await tx.query("UPDATE users SET active = ?", [1]);
+				await tx.query("SELECT id FROM users");
+				return result.rowCount;
+			});
+
+			expect(updated).toBe(2);
+			expect(mockMysqlQuery).not.toHaveBeenCalled();
+			expect(poolConnection.query.mock.calls.map((call) => call[0])).toEqual([
+				"START TRANSACTION",
+				"UPDATE users SET active = ?",
+				"SELECT id FROM users",
+				"COMMIT",
+			]);
+			expect(poolConnection.release).toHaveBeenCalledTimes(1);
+			expect(poolConnection.destroy).not.toHaveBeenCalled();
+		});
+
+		it("maps nested transactions onto savepoints", async () => {
+			(connection as any).connected = true;
+			const poolConnection = createPoolConnection();
+			mockPool.getConnection.mockResolvedValue(poolConnection);
+
+			await connection.transaction(async (tx) => {
+				await expect(
+					tx.transaction(async (inner) => {
+						await inner.execute("DELETE FROM users");
+						throw new Error("undo");
+					}),
+				).rejects.toThrow("undo");
+			});
+
+			const statements = poolConnection.query.mock.calls.map((call) => call[0]);
+			expect(statements[1]).toMatch(/^SAVEPOINT seerdb_sp_\d+$/);
+			expect(statements[3]).toMatch(/^ROLLBACK TO SAVEPOINT seerdb_sp_\d+$/);
+			expect(statements.at(-1)).toBe("COMMIT");
+		});
+
+		it("destroys the connection when COMMIT fails", async () => {
+			(connection as any).connected = true;
+			const poolConnection = createPoolConnection();
+			poolConnection.query.mockImplementation(async (sql: string) => {
+				if (sql === "COMMIT") {
+					throw new Error("connection lost");
+				}
+				return [{ affectedRows: 0 }, undefined];
+			});
+			mockPool.getConnection.mockResolvedValue(poolConnection);
+
+			await expect(
+				connection.transaction(async (tx) => tx.execute("SELECT 1")),
+			).rejects.toThrow(DatabaseError);
+			expect(poolConnection.destroy).toHaveBeenCalledTimes(1);
+			expect(poolConnection.release).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("cancellation", () => {
+		beforeEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("stops the statement with KILL QUERY when the timeout elapses", async () => {
+			(connection as any).connected = true;
+			let rejectQuery: (error: Error) => void = () => {};
+			const poolConnection = {
+				threadId: 77,
+				query: vi.fn(
+					() =>
+						new Promise((_, reject) => {
+							rejectQuery = reject;
+						}),
+				),
+				release: vi.fn(),
+			};
+			mockPool.getConnection.mockResolvedValue(poolConnection);
+			mockMysqlQuery.mockImplementation(async () => {
+				const error = new Error("Query execution was interrupted");
+				(error as any).code = "ER_QUERY_INTERRUPTED";
+				rejectQuery(error);
+				return [[], []];
+			});
+
+			await expect(
+				connection.query("SELECT SLEEP(60)", [], { timeoutMs: 10 }),
+			).rejects.toThrow(QueryTimeoutError);
+
+			expect(mockMysqlQuery).toHaveBeenCalledWith("KILL QUERY 77");
+			expect(poolConnection.release).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("tls", () => {
+		it("verifies the chain and host name for verify-full", () => {
+			poolOptions.length = 0;
+			new MySQLConnection({
+				type: "MySQL" as any,
+				connectionString: "mysql://db.example.com/app?ssl-mode=VERIFY_IDENTITY",
+			});
+
+			expect(poolOptions[0].uri).toBe("mysql://db.example.com/app");
+			expect(poolOptions[0].ssl).toMatchObject({
+				rejectUnauthorized: true,
+				verifyIdentity: true,
+			});
+		});
+
+		it("sends no TLS options when disabled", () => {
+			poolOptions.length = 0;
+			new MySQLConnection({
+				type: "MySQL" as any,
+				connectionString: "mysql://db.example.com/app",
+				tls: { mode: "disable" },
+			});
+
+			expect(poolOptions[0].ssl).toBeUndefined();
+		});
+
+		it("falls back to plaintext under prefer when the server has no TLS", async () => {
+			poolOptions.length = 0;
+			const local = new MySQLConnection({
+				type: "MySQL" as any,
+				connectionString: "mysql://localhost/app",
+			});
+			const tlsPool = mockPool;
+			const noTls = new Error("Server does not support secure connection");
+			(noTls as any).code = "HANDSHAKE_NO_SSL_SUPPORT";
+			tlsPool.getConnection.mockRejectedValue(noTls);
+			mockMysqlEnd.mockResolvedValue(undefined);
+
+			const connection = { release: vi.fn() };
+			(mysql.createPool as any).mockImplementationOnce((options: any) => {
+				poolOptions.push(options);
+				return {
+					getConnection: vi.fn(async () => connection),
+					end: mockMysqlEnd,
+				} as any;
+			});
+
+			await local.connect();
+
+			expect(poolOptions).toHaveLength(2);
+			expect(poolOptions[0].ssl).toMatchObject({ rejectUnauthorized: false });
+			expect(poolOptions[1].ssl).toBeUndefined();
+			expect(connection.release).toHaveBeenCalledTimes(1);
+		});
+	});
 });
@@ -1,4 +1,5 @@
 import { describe, expect, it } from "bun:test";
+import { DatabaseError } from "../../src/database/errors.js";
 import { parameterize } from "../../src/database/parameterize.js";
 import { DBType } from "../../src/types/state.js";
 
@@ -44,4 +45,97 @@ describe("parameterize", () => {
 		expect(query.sql).toBe("SELECT * FROM dual");
 		expect(query.params).toEqual([]);
 	});
+
+	it("reorders and repeats values to follow placeholders", () => {
+		const query = parameterize(
+			"SELECT * FROM t WHERE a = $2 AND b = $1 OR c = $2",
+			DBType.MySQL,
+			["first", "second"],
+		);
+		expect(query.sql).toBe("SELECT * FROM t WHERE a = ? AND b = ? OR c = ?");
+		expect(query.params).toEqual(["second", "first", "second"]);
+	});
+
+	it("leaves placeholders in literals and comments untouched", () => {
+		const query = parameterize(
+			"SELECT '$1', 'it''s $2', \"$3\" -- $4\nFROM t /* $5 */ WHERE id = $1",
+			DBType.SQLite,
+			[7],
+		);
+		expect(query.sql).toBe(
+			"SELECT '$1', 'it''s $2', \"$3\" -- $4\nFROM t /* $5 */ WHERE id = ?",
+		);
+		expect(query.params).toEqual([7]);
+	});
+
+	it("skips MySQL backslash escapes and hash comments", () => {
+		const query = parameterize(
+			"SELECT 'a\\' $2' # $3\nWHERE id = $1",
+			DBType.MySQL,
+			[1],
+		);
+		expect(query.sql).toBe("SELECT 'a\\' $2' # $3\nWHERE id = ?");
+		expect(query.params).toEqual([1]);
+	});
+
+	it("keeps native question-mark placeholders as-is", () => {
+		const query = parameterize(
+			"SELECT * FROM t WHERE id = ?",
+			DBType.MySQL,
+			[3],
+		);
+		expect(query.sql).toBe("SELECT * FROM t WHERE id = ?");
+		expect(query.params).toEqual([3]);
+	});
+
+	it("throws when a positional placeholder has no value", () => {
+		expect(() =>
+			parameterize("SELECT $1, $2", DBType.SQLite, ["only"]),
+		).toThrow(DatabaseError);
+	});
+
+	it("translates named parameters for PostgreSQL, reusing repeated names", () => {
+		const query = parameterize(
+			"SELECT :id::text, $body$ :ignored $body$ FROM t WHERE id = :id AND owner = @owner",
+			DBType.PostgreSQL,
+			{ id: 5, owner: "ada", ignored: "nope" },
+		);
+		expect(query.sql).toBe(
+			"SELECT $1::text, $body$ :ignored $body$ FROM t WHERE id = $1 AND owner = $2",
+		);
+		expect(query.params).toEqual([5, "ada"]);
+	});
+
+	it("expands named parameters into question marks for MySQL", () => {
+		const query = parameterize(
+			"UPDATE t SET a = :value, b = :value WHERE id = @id AND @@autocommit = 1",
+			DBType.MySQL,
+			{ value: "x", id: 9 },
+		);
+		expect(query.sql).toBe(
+			"UPDATE t SET a = ?, b = ? WHERE id = ? AND @@autocommit = 1",
+		);
+		expect(query.params).toEqual(["x", "x", 9]);
+	});
+
+	it("ignores named markers in literals and nested comments", () => {
+		const query = parameterize(
+			"SELECT ':skip' /* outer /* :inner */ :still */ , :keep",
+			DBType.PostgreSQL,
+			{ keep: 1 },
+		);
+		expect(query.sql).toBe(
+			"SELECT ':skip' /* outer /* :inner */ :still */ , $1",
+		);
+		expect(query.params).toEqual([1]);
+	});
+
+	it("rejects missing named values and mixed placeholder styles", () => {
+		expect(() => parameterize("SELECT :missing", DBType.SQLite, {})).toThrow(
+			"Missing value for named parameter :missing.",
+		);
+		expect(() =>
+			parameterize("SELECT :a, $1", DBType.PostgreSQL, { a: 1 }),
+		).toThrow(DatabaseError);
+	});
 });
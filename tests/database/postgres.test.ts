@@ -1,17 +1,31 @@
 import { beforeEach, describe, expect, it, vi } from "bun:test";
-import { ConnectionError, DatabaseError } from "../../src/database/errors.js";
+import {
+	ConnectionError,
+	ConnectionLostError,
+	DatabaseError,
+	QueryCancelledError,
+	QueryTimeoutError,
+} from "../../src/database/errors.js";
 import { PostgresConnection } from "../../src/database/postgres.js";
+import { runScript } from "../../src/database/script.js";
 
 // Mock the pg module
 const mockQuery = vi.fn();
 const mockEnd = vi.fn();
+const mockConnect = vi.fn();
+const poolConfigs: any[] = [];
 
 vi.mock("pg", () => ({
 	Pool: class {
 		query = mockQuery;
 		end = mockEnd;
-		constructor(config: any) {}
+		connect = mockConnect;
+		on = vi.fn();
+		constructor(config: any) {
+			poolConfigs.push(config);
+		}
 	},
+	types: { builtins: { INT4: 23, TEXT: 25 } },
 }));
 
 describe("PostgresConnection", () => {
@@ -22,6 +36,7 @@ describe("PostgresConnection", () => {
 		vi.clearAllMocks();
 		mockQuery.mockReset();
 		mockEnd.mockReset();
+		mockConnect.mockReset();
 		connection = new PostgresConnection({
 			type: "PostgreSQL" as any,
 			connectionString: "postgres://test",
@@ -54,7 +69,10 @@ describe("PostgresConnection", () => {
 		const mockResult = {
 			rows: [{ id: 1, name: "test" }],
 			rowCount: 1,
-			fields: [{ name: "id" }, { name: "name" }],
+			fields: [
+				{ name: "id", tableID: 16384, columnID: 1, dataTypeID: 23 },
+				{ name: "name", tableID: 16384, columnID: 2, dataTypeID: 25 },
+			],
 		};
 		mockQuery.mockResolvedValue(mockResult);
 
@@ -64,8 +82,106 @@ describe("PostgresConnection", () => {
 		expect(result).toEqual({
 			rows: [{ id: 1, name: "test" }],
 			rowCount: 1,
-			fields: ["id", "name"],
+			fields: [
+				{
+					name: "id",
+					dataType: "int4",
+					nativeTypeId: 23,
+					tableId: 16384,
+					columnId: 1,
+				},
+				{
+					name: "name",
+					dataType: "text",
+					nativeTypeId: 25,
+					tableId: 16384,
+					columnId: 2,
+				},
+			],
+		});
+	});
+
+	it("names the source columns of a result once per table", async () => {
+		(connection as any).connected = true;
+		const users = {
+			rows: [{ id: 1, name: "test" }],
+			rowCount: 1,
+			fields: [
+				{ name: "id", tableID: 16384, columnID: 1, dataTypeID: 23 },
+				{ name: "name", tableID: 16384, columnID: 2, dataTypeID: 25 },
+			],
+		};
+		mockQuery
+			.mockResolvedValueOnce(users)
+			.mockResolvedValueOnce({
+				rows: [
+					{
+						table_id: 16384,
+						column_id: 1,
+						table_schema: "public",
+						table_name: "users",
+						column_name: "id",
+						not_null: true,
+					},
+					{
+						table_id: 16384,
+						column_id: 2,
+						table_schema: "public",
+						table_name: "users",
+						column_name: "name",
+						not_null: false,
+					},
+				],
+				rowCount: 2,
+				fields: [],
+			})
+			.mockResolvedValueOnce(users);
+
+		const result = await connection.query("SELECT * FROM users");
+		await connection.query("SELECT * FROM users");
+
+		expect(mockQuery).toHaveBeenCalledTimes(3);
+		expect(mockQuery.mock.calls[1][0]).toContain("FROM pg_attribute");
+		expect(mockQuery.mock.calls[1][1]).toEqual([[16384]]);
+		expect(result.fields).toEqual([
+			{
+				name: "id",
+				dataType: "int4",
+				nativeTypeId: 23,
+				tableId: 16384,
+				columnId: 1,
+				schema: "public",
+				table: "users",
+				column: "id",
+				nullable: false,
+			},
+			{
+				name: "name",
+				dataType: "text",
+				nativeTypeId: 25,
+				tableId: 16384,
+				columnId: 2,
+				schema: "public",
+				table: "users",
+				column: "name",
+				nullable: true,
+			},
+		]);
+	});
+
+	it("reports unknown types and omits the source for computed columns", async () => {
+		(connection as any).connected = true;
+		mockQuery.mockResolvedValue({
+			rows: [],
+			rowCount: 0,
+			fields: [{ name: "mood", tableID: 0, columnID: 0, dataTypeID: 90210 }],
 		});
+
+		const result = await connection.query("SELECT 'happy'::mood AS mood");
+
+		expect(result.fields).toEqual([
+			{ name: "mood", dataType: "unknown", nativeTypeId: 90210 },
+		]);
 	});
 
 	it("auto-connects when querying while not connected", async () => {
@@ -240,4 +356,440 @@ describe("PostgresConnection", () => {
 			}
 		}
 	});
+
+	describe("stream", () => {
+		function createClient(batches: Array<Record<string, unknown>[]>) {
+			const queue = [...batches];
+			return {
+				query: vi.fn(async (sql: string) => {
+					if (sql.startsWith("FETCH")) {
+						return { rows: queue.shift() ?? [] };
+					}
+					return { rows: [] };
+				}),
+				release: vi.fn(),
+			};
+		}
+
+		it("reads rows through a server-side cursor in batches", async () => {
+			(connection as any).connected = true;
+			const client = createClient([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+			mockConnect.mockResolvedValue(client);
+
+			const batches: unknown[] = [];
+			for await (const batch of connection.stream(
+				"SELECT * FROM users WHERE id > $1;",
+				[0],
+				{ batchSize: 2 },
+			)) {
+				batches.push(batch);
+			}
+
+			expect(batches).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+			const statements = client.query.mock.calls.map((call) => call[0]);
+			expect(statements[0]).toBe("BEGIN");
+			expect(statements[1]).toMatch(
+				/^DECLARE seerdb_cursor_\d+ NO SCROLL CURSOR FOR SELECT \* FROM users WHERE id > \$1$/,
+			);
+			expect(client.query.mock.calls[1][1]).toEqual([0]);
+			expect(statements[2]).toMatch(/^FETCH FORWARD 2 FROM seerdb_cursor_\d+$/);
+			expect(statements.at(-1)).toBe("COMMIT");
+			expect(client.release).toHaveBeenCalledTimes(1);
+		});
+
+		it("rolls back and releases the client when the consumer stops early", async () => {
+			(connection as any).connected = true;
+			const client = createClient([[{ id: 1 }], [{ id: 2 }]]);
+			mockConnect.mockResolvedValue(client);
+
+			for await (const _batch of connection.stream("SELECT * FROM users", [], {
+				batchSize: 1,
+			})) {
+				break;
+			}
+
+			const statements = client.query.mock.calls.map((call) => call[0]);
+			expect(statements).not.toContain("COMMIT");
+			expect(statements.at(-1)).toBe("ROLLBACK");
+			expect(client.release).toHaveBeenCalledTimes(1);
+		});
+
+		it("wraps cursor failures in DatabaseError", async () => {
+			(connection as any).connected = true;
+			const client = {
+				query: vi.fn(async (sql: string) => {
+					if (sql.startsWith("DECLARE")) {
+						const error = new Error("syntax error");
+						(error as any).code = "42601";
+						throw error;
+					}
+					return { rows: [] };
+				}),
+				release: vi.fn(),
+			};
+			mockConnect.mockResolvedValue(client);
+
+			const consume = async () => {
+				for await (const _batch of connection.stream("SELEC 1")) {
+					// drain
+				}
+			};
+
+			await expect(consume()).rejects.toThrow(DatabaseError);
+			expect(client.query).toHaveBeenLastCalledWith("ROLLBACK");
+			expect(client.release).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("transactions", () => {
+		function createClient() {
+			return {
+				query: vi.fn(async (sql: string) =>
+					sql.startsWith("SELECT")
+						? { rows: [{ id: 1 }], rowCount: 1 }
+						: { rows: [] },
+				),
+				release: vi.fn(),
+			};
+		}
+
+		it("runs every statement on one pinned client and commits", async () => {
+			(connection as any).connected = true;
+			const client = createClient();
+			mockConnect.mockResolvedValue(client);
+
+			const result = await connection.transaction(async (tx) => {
+				await tx.execute("UPDATE users SET name = $1", ["a"]);
+				return tx.query("SELECT id FROM users");
+			});
+
+			expect(result.rows).toEqual([{ id: 1 }]);
+			expect(mockConnect).toHaveBeenCalledTimes(1);
+			expect(mockQuery).not.toHaveBeenCalled();
+			expect(client.query.mock.calls.map((call) => call[0])).toEqual([
+				"BEGIN",
+				"UPDATE users SET name = $1",
+				"SELECT id FROM users",
+				"COMMIT",
+			]);
+			expect(client.release).toHaveBeenCalledWith(false);
+		});
+
+		it("rolls back and rethrows when the callback fails", async () => {
+			(connection as any).connected = true;
+			const client = createClient();
+			mockConnect.mockResolvedValue(client);
+
+			await expect(
+				connection.transaction(async () => {
+					throw new Error("boom");
+				}),
+			).rejects.toThrow("boom");
+
+			expect(client.query).toHaveBeenLastCalledWith("ROLLBACK", []);
+			expect(client.release).toHaveBeenCalledTimes(1);
+		});
+
+		it("wraps statement failures in DatabaseError", async () => {
+			(connection as any).connected = true;
+			const client = createClient();
+			client.query.mockImplementation(async (sql: string) => {
+				if (sql.startsWith("INSERT")) {
+					throw new Error("duplicate key");
+				}
+				return { rows: [] };
+			});
+			mockConnect.mockResolvedValue(client);
+
+			const tx = await connection.begin();
+			await expect(tx.execute("INSERT INTO users VALUES (1)")).rejects.toThrow(
+				DatabaseError,
+			);
+			await tx.rollback();
+			expect(tx.active).toBe(false);
+		});
+
+		it("throws ConnectionError when no client can be acquired", async () => {
+			(connection as any).connected = true;
+			mockConnect.mockRejectedValue(new Error("too many clients"));
+
+			await expect(connection.begin()).rejects.toThrow(ConnectionError);
+		});
+	});
+
+	describe("pinned client", () => {
+		it("runs a whole script on one client and releases it", async () => {
+			(connection as any).connected = true;
+			const client = {
+				query: vi.fn(async () => ({ rows: [], rowCount: 0 })),
+				release: vi.fn(),
+			};
+			mockConnect.mockResolvedValue(client);
+
+			const result = await runScript(
+				connection,
+				"BEGIN; UPDATE users SET name = 'a'; COMMIT;",
+			);
+
+			expect(result.error).toBeUndefined();
+			expect(mockConnect).toHaveBeenCalledTimes(1);
+			expect(mockQuery).not.toHaveBeenCalled();
+			expect(client.query.mock.calls.map((call) => call[0])).toEqual([
+				"BEGIN",
+				"UPDATE users SET name = 'a'",
+				"COMMIT",
+				"ROLLBACK",
+			]);
+			expect(client.release).toHaveBeenCalledWith(false);
+		});
+
+		it("rolls back a transaction the failing script left open", async () => {
+			(connection as any).connected = true;
+			const client = {
+				query: vi.fn(async (sql: string) => {
+					if (sql.startsWith("INSERT")) {
+						throw new Error("duplicate key");
+					}
+					return { rows: [], rowCount: 0 };
+				}),
+				release: vi.fn(),
+			};
+			mockConnect.mockResolvedValue(client);
+
+			const result = await runScript(
+				connection,
+				"BEGIN; INSERT INTO users VALUES (1); COMMIT;",
+			);
+
+			expect(result.error).toBeInstanceOf(DatabaseError);
+			expect(result.skipped).toBe(1);
+			expect(client.query).toHaveBeenLastCalledWith("ROLLBACK");
+			expect(client.release).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("cancellation", () => {
+		beforeEach(() => {
+			// the close-timeout test above leaves fake timers installed
+			vi.useRealTimers();
+		});
+
+		function createBlockedClient() {
+			let rejectQuery: (error: Error) => void = () => {};
+			return {
+				processID: 4242,
+				query: vi.fn(
+					() =>
+						new Promise((_, reject) => {
+							rejectQuery = reject;
+						}),
+				),
+				release: vi.fn(),
+				interrupt: () => {
+					const error = new Error("canceling statement due to user request");
+					(error as any).code = "57014";
+					rejectQuery(error);
+				},
+			};
+		}
+
+		it("cancels the backend with pg_cancel_backend when the timeout elapses", async () => {
+			(connection as any).connected = true;
+			const client = createBlockedClient();
+			mockConnect.mockResolvedValue(client);
+			mockQuery.mockImplementation(async () => {
+				client.interrupt();
+				return { rows: [{ pg_cancel_backend: true }] };
+			});
+
+			await expect(
+				connection.query("SELECT pg_sleep(60)", [], { timeoutMs: 10 }),
+			).rejects.toThrow(QueryTimeoutError);
+
+			expect(client.query).toHaveBeenCalledWith("SELECT pg_sleep(60)", []);
+			expect(mockQuery).toHaveBeenCalledWith(
+				"SELECT pg_cancel_backend($1)",
+				[4242],
+			);
+			expect(client.release).toHaveBeenCalledTimes(1);
+		});
+
+		it("cancels the backend when the signal aborts", async () => {
+			(connection as any).connected = true;
+			const client = createBlockedClient();
+			mockConnect.mockResolvedValue(client);
+			mockQuery.mockImplementation(async () => {
+				client.interrupt();
+				return { rows: [] };
+			});
+			const controller = new AbortController();
+
+			const pending = connection.query("SELECT pg_sleep(60)", [], {
+				signal: controller.signal,
+			});
+			await Promise.resolve();
+			await Promise.resolve();
+			controller.abort();
+
+			await expect(pending).rejects.toThrow(QueryCancelledError);
+			expect(client.release).toHaveBeenCalledTimes(1);
+		});
+
+		it("keeps the pooled fast path when no cancellation is requested", async () => {
+			(connection as any).connected = true;
+			mockQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+			await connection.query("SELECT 1", [], {});
+
+			expect(mockConnect).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("reconnect", () => {
+		const retrying = () =>
+			new PostgresConnection({
+				type: "PostgreSQL" as any,
+				connectionString: "postgres://test",
+				pool: { retry: { initialDelayMillis: 1, maxDelayMillis: 2 } },
+			});
+
+		beforeEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("retries a read after the server drops the connection", async () => {
+			const conn = retrying();
+			(conn as any).connected = true;
+			const onRetry = vi.fn();
+			mockQuery
+				.mockRejectedValueOnce(new Error("Connection terminated unexpectedly"))
+				.mockResolvedValueOnce({ rows: [{ id: 1 }], rowCount: 1, fields: [] });
+
+			const result = await conn.query("SELECT id FROM users", [], { onRetry });
+
+			expect(result.rows).toEqual([{ id: 1 }]);
+			expect(mockQuery).toHaveBeenCalledTimes(2);
+			expect(onRetry).toHaveBeenCalledWith(
+				expect.objectContaining({ attempt: 2, maxAttempts: 4 }),
+			);
+		});
+
+		it("does not replay a write after the connection drops", async () => {
+			const conn = retrying();
+			(conn as any).connected = true;
+			mockQuery.mockRejectedValue(
+				new Error("Connection terminated unexpectedly"),
+			);
+
+			await expect(
+				conn.query("UPDATE users SET name = 'x'"),
+			).rejects.toBeInstanceOf(ConnectionLostError);
+			expect(mockQuery).toHaveBeenCalledTimes(1);
+		});
+
+		it("can be switched off in the pool config", async () => {
+			const conn = new PostgresConnection({
+				type: "PostgreSQL" as any,
+				connectionString: "postgres://test",
+				pool: { retry: false },
+			});
+			(conn as any).connected = true;
+			const refused = Object.assign(new Error("connect ECONNREFUSED"), {
+				code: "ECONNREFUSED",
+			});
+			mockQuery.mockRejectedValue(refused);
+
+			await expect(conn.query("SELECT 1")).rejects.toBeInstanceOf(
+				DatabaseError,
+			);
+			expect(mockQuery).toHaveBeenCalledTimes(1);
+		});
+
+		it("keeps idle client errors from crashing the process", () => {
+			const pool = (retrying() as any).pool;
+			expect(pool.on).toHaveBeenCalledWith("error", expect.any(Function));
+		});
+	});
+
+	describe("tls", () => {
+		it("verifies certificates and host names for remote hosts by default", () => {
+			poolConfigs.length = 0;
+			new PostgresConnection({
+				type: "PostgreSQL" as any,
+				connectionString: "postgres://app@db.example.com/app",
+			});
+
+			expect(poolConfigs[0].ssl).toEqual({
+				rejectUnauthorized: true,
+				ca: undefined,
+				cert: undefined,
+				key: undefined,
+			});
+		});
+
+		it("passes sslmode=disable through and strips it from the URL", () => {
+			poolConfigs.length = 0;
+			new PostgresConnection({
+				type: "PostgreSQL" as any,
+				connectionString: "postgres://db.example.com/app?sslmode=disable",
+			});
+
+			expect(poolConfigs[0].ssl).toBe(false);
+			expect(poolConfigs[0].connectionString).toBe(
+				"postgres://db.example.com/app",
+			);
+		});
+
+		it("skips host name checks for verify-ca", () => {
+			poolConfigs.length = 0;
+			new PostgresConnection({
+				type: "PostgreSQL" as any,
+				connectionString: "postgres://db.example.com/app?sslmode=verify-ca",
+			});
+
+			expect(poolConfigs[0].ssl.rejectUnauthorized).toBe(true);
+			expect(poolConfigs[0].ssl.checkServerIdentity()).toBeUndefined();
+		});
+
+		it("falls back to plaintext under prefer when the server has no TLS", async () => {
+			poolConfigs.length = 0;
+			const local = new PostgresConnection({
+				type: "PostgreSQL" as any,
+				connectionString: "postgres://localhost/app",
+			});
+			mockEnd.mockResolvedValue(undefined);
+			mockQuery
+				.mockRejectedValueOnce(
+					new Error("The server does not support SSL connections"),
+				)
+				.mockResolvedValueOnce({ rows: [] });
+
+			await local.connect();
+
+			expect(poolConfigs.map((config) => config.ssl)).toEqual([
+				{
+					rejectUnauthorized: false,
+					ca: undefined,
+					cert: undefined,
+					key: undefined,
+				},
+				false,
+			]);
+			expect(mockEnd).toHaveBeenCalledTimes(1);
+			expect((local as any).connected).toBe(true);
+		});
+
+		it("does not fall back when TLS is required", async () => {
+			const remote = new PostgresConnection({
+				type: "PostgreSQL" as any,
+				connectionString: "postgres://db.example.com/app?sslmode=require",
+			});
+			mockQuery.mockRejectedValueOnce(
+				new Error("The server does not support SSL connections"),
+			);
+
+			await expect(remote.connect()).rejects.toThrow(ConnectionError);
+			expect(mockQuery).toHaveBeenCalledTimes(1);
+		});
+	});
 });
@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from "bun:test";
+import { columnCategory, profileTable } from "../../src/database/profile.js";
+import type { DatabaseConnection, QueryRow } from "../../src/database/types.js";
+import {
+	type ColumnInfo,
+	DBType,
+	type TableInfo,
+} from "../../src/types/state.js";
+
+type Route = [RegExp, QueryRow[]];
+
+/** A connection answering each statement from the first matching route. */
+function stubConnection(type: DBType, routes: Route[]) {
+	const query = vi.fn(async (sql: string) => {
+		const route = routes.find(([pattern]) => pattern.test(sql));
+		if (!route) {
+			throw new Error(`Unexpected query: ${sql}`);
+		}
+		return { rows: route[1], rowCount: route[1].length };
+	});
+	return { type, query } as unknown as DatabaseConnection & {
+		query: typeof query;
+	};
+}
+
+const orders: TableInfo = { name: "orders", schema: "shop", type: "table" };
+
+const columns: ColumnInfo[] = [
+	{ name: "total", dataType: "numeric(10,2)", nullable: true },
+	{ name: "note", dataType: "character varying(200)", nullable: true },
+	{ name: "payload", dataType: "jsonb", nullable: true },
+];
+
+describe("columnCategory", () => {
+	it("sorts declared types into what can be averaged, measured or ranged", () => {
+		expect(
+			[
+				"integer",
+				"int unsigned",
+				"double precision",
+				"varchar(20)",
+				"enum('a','b')",
+				"timestamp with time zone",
+				"bytea",
+				"integer[]",
+				"point",
+				"boolean",
+			].map(columnCategory),
+		).toEqual([
+			"numeric",
+			"numeric",
+			"numeric",
+			"text",
+			"text",
+			"temporal",
+			"binary",
+			"other",
+			"other",
+			"other",
+		]);
+	});
+});
+
+describe("profileTable", () => {
+	it("samples large Postgres tables and compares catch-all types as text", async () => {
+		const connection = stubConnection(DBType.PostgreSQL, [
+			[/reltuples/, [{ estimate: "4000000" }]],
+			[
+				/COUNT\(\*\) AS row_count/,
+				[
+					{
+						row_count: "100000",
+						c0_count: "90000",
+						c0_distinct: "512",
+						c0_min: "0.50",
+						c0_max: "999.00",
+						c0_mean: "42.125",
+						c0_stddev: "12.5",
+						c1_count: "0",
+						c1_distinct: "0",
+						c2_count: "100000",
+						c2_distinct: "3",
+					},
+				],
+			],
+			[
+				/GROUP BY "payload"::text/,
+				[
+					{ value: '{"a": 1}', frequency: "70000" },
+					{ value: "{}", frequency: "30000" },
+				],
+			],
+			[/GROUP BY "total"/, [{ value: "9.99", frequency: "800" }]],
+		]);
+
+		const profile = await profileTable(
+			connection,
+			DBType.PostgreSQL,
+			orders,
+			columns,
+		);
+
+		const statsSql = String(connection.query.mock.calls[1][0]);
+		expect(statsSql).toContain(
+			'FROM (SELECT * FROM "shop"."orders" TABLESAMPLE SYSTEM (2.5)) profile_sample',
+		);
+		expect(statsSql).toContain(
+			'COUNT(DISTINCT "payload"::text) AS c2_distinct',
+		);
+		expect(statsSql).toContain('STDDEV_POP("total") AS c0_stddev');
+		expect(statsSql).not.toContain('MIN("payload")');
+
+		expect(profile).toMatchObject({
+			rowCount: 4_000_000,
+			profiledRows: 100_000,
+			sampled: true,
+		});
+		expect(profile.columns[0]).toMatchObject({
+			nullCount: 10_000,
+			nullFraction: 0.1,
+			distinctCount: 512,
+			min: "0.50",
+			max: "999.00",
+			mean: 42.125,
+			stddev: 12.5,
+			topValues: [{ value: "9.99", count: 800 }],
+		});
+		// An all-NULL column has no averages and no frequent values to ask for
+		expect(profile.columns[1]).toMatchObject({
+			nullFraction: 1,
+			topValues: [],
+		});
+		expect(profile.columns[1].averageLength).toBeUndefined();
+		expect(profile.columns[2].topValues).toEqual([
+			{ value: '{"a": 1}', count: 70_000 },
+			{ value: "{}", count: 30_000 },
+		]);
+		expect(connection.query).toHaveBeenCalledTimes(4);
+	});
+
+	it("reads small MySQL tables whole and measures text in characters", async () => {
+		const connection = stubConnection(DBType.MySQL, [
+			[/TABLE_ROWS/, [{ estimate: 20 }]],
+			[
+				/COUNT\(\*\) AS row_count/,
+				[
+					{
+						row_count: 20,
+						c0_count: 0,
+						c1_count: 20,
+						c1_distinct: 4,
+						c1_avg_length: "11.5000",
+						c1_max_length: 18,
+						c2_count: 0,
+					},
+				],
+			],
+			[/GROUP BY `note`/, [{ value: "gift", frequency: 8 }]],
+		]);
+
+		const profile = await profileTable(
+			connection,
+			DBType.MySQL,
+			orders,
+			columns,
+		);
+
+		const statsSql = String(connection.query.mock.calls[1][0]);
+		expect(statsSql).toContain(
+			"FROM (SELECT * FROM `shop`.`orders`) profile_sample",
+		);
+		expect(statsSql).toContain("CHAR_LENGTH(`note`)");
+		expect(profile).toMatchObject({ rowCount: 20, sampled: false });
+		expect(profile.columns[1]).toMatchObject({
+			averageLength: 11.5,
+			maxLength: 18,
+			topValues: [{ value: "gift", count: 8 }],
+		});
+	});
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from "bun:test";
+import {
+	ConnectionError,
+	ConnectionLostError,
+	DatabaseError,
+	QueryCancelledError,
+	UniqueViolationError,
+} from "../../src/database/errors.js";
+import {
+	DEFAULT_RETRY_POLICY,
+	isIdempotentRead,
+	isRetryable,
+	type RetryPolicy,
+	resolveRetryPolicy,
+	retryDelay,
+	withRetry,
+} from "../../src/database/retry.js";
+
+const fastPolicy: RetryPolicy = {
+	maxAttempts: 3,
+	initialDelayMillis: 1,
+	maxDelayMillis: 2,
+};
+
+describe("isIdempotentRead", () => {
+	it.each([
+		"SELECT 1",
+		"  -- leading comment\n select * from users",
+		"/* hint */ (SELECT 1) UNION (SELECT 2)",
+		"WITH t AS (SELECT 1) SELECT * FROM t",
+		"SHOW TABLES",
+		"EXPLAIN SELECT 1",
+		"SELECT 'insert into' AS label",
+	])("treats %p as a read", (sql) => {
+		expect(isIdempotentRead(sql)).toBe(true);
+	});
+
+	it.each([
+		"UPDATE users SET name = 'x'",
+		"INSERT INTO users VALUES (1)",
+		"SELECT * INTO backup FROM users",
+		"EXPLAIN ANALYZE DELETE FROM users",
+		"WITH gone AS (DELETE FROM users RETURNING *) SELECT * FROM gone",
+		"PRAGMA journal_mode = WAL",
+	])("treats %p as a write", (sql) => {
+		expect(isIdempotentRead(sql)).toBe(false);
+	});
+});
+
+describe("isRetryable", () => {
+	it("retries anything that never reached the server", () => {
+		const refused = new ConnectionError("refused", "ECONNREFUSED");
+		expect(isRetryable(refused, "UPDATE users SET name = 'x'")).toBe(true);
+	});
+
+	it("retries dropped connections only for reads", () => {
+		const lost = new ConnectionLostError("lost", "ECONNRESET");
+		expect(isRetryable(lost, "SELECT 1")).toBe(true);
+		expect(isRetryable(lost, "DELETE FROM users")).toBe(false);
+	});
+
+	it("never retries statement errors", () => {
+		expect(
+			isRetryable(new UniqueViolationError("dup", "23505"), "SELECT 1"),
+		).toBe(false);
+		expect(isRetryable(new Error("boom"), "SELECT 1")).toBe(false);
+	});
+});
+
+describe("retry policy", () => {
+	it("fills defaults and can be disabled", () => {
+		expect(resolveRetryPolicy(undefined)).toEqual(DEFAULT_RETRY_POLICY);
+		expect(resolveRetryPolicy({ maxAttempts: 6 })?.maxAttempts).toBe(6);
+		expect(resolveRetryPolicy(false)).toBeNull();
+		expect(resolveRetryPolicy({ maxAttempts: 1 })).toBeNull();
+	});
+
+	it("backs off exponentially within the jitter band and the cap", () => {
+		const policy = {
+			maxAttempts: 5,
+			initialDelayMillis: 100,
+			maxDelayMillis: 300,
+		};
+		expect(retryDelay(policy, 1, () => 0)).toBe(50);
+		expect(retryDelay(policy, 1, () => 1)).toBe(100);
+		expect(retryDelay(policy, 2, () => 1)).toBe(200);
+		expect(retryDelay(policy, 4, () => 1)).toBe(300);
+		expect(retryDelay(policy, 4, () => 0)).toBe(150);
+	});
+});
+
+describe("withRetry", () => {
+	it("retries transient failures and reports each attempt", async () => {
+		const onRetry = vi.fn();
+		const run = vi
+			.fn()
+			.mockRejectedValueOnce(new ConnectionLostError("lost", "ECONNRESET"))
+			.mockResolvedValueOnce("rows");
+
+		await expect(
+			withRetry(fastPolicy, "SELECT 1", { onRetry }, run),
+		).resolves.toBe("rows");
+		expect(run).toHaveBeenCalledTimes(2);
+		expect(onRetry).toHaveBeenCalledWith(
+			expect.objectContaining({ attempt: 2, maxAttempts: 3 }),
+		);
+	});
+
+	it("gives up after the last attempt", async () => {
+		const error = new DatabaseError("refused", "ECONNREFUSED");
+		const run = vi.fn(async () => {
+			throw error;
+		});
+
+		await expect(withRetry(fastPolicy, "SELECT 1", {}, run)).rejects.toBe(
+			error,
+		);
+		expect(run).toHaveBeenCalledTimes(3);
+	});
+
+	it("does not retry writes whose connection dropped", async () => {
+		const run = vi.fn(async () => {
+			throw new ConnectionLostError("lost", "EPIPE");
+		});
+
+		await expect(
+			withRetry(fastPolicy, "UPDATE t SET a = 1", {}, run),
+		).rejects.toBeInstanceOf(ConnectionLostError);
+		expect(run).toHaveBeenCalledTimes(1);
+	});
+
+	it("stops waiting when the signal aborts", async () => {
+		const controller = new AbortController();
+		const run = vi.fn(async () => {
+			throw new DatabaseError("refused", "ECONNREFUSED");
+		});
+		const policy = { ...fastPolicy, initialDelayMillis: 10_000 };
+
+		const pending = withRetry(
+			policy,
+			"SELECT 1",
+			{ signal: controller.signal, onRetry: () => controller.abort() },
+			run,
+		);
+
+		await expect(pending).rejects.toBeInstanceOf(QueryCancelledError);
+		expect(run).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,551 @@
+import { describe, expect, it } from "bun:test";
+import type {
+	ColumnSchema,
+	DatabaseSchema,
+	TableSchema,
+} from "../../src/database/introspection/index.js";
+import {
+	describeDiff,
+	diffSchemas,
+	generateMigration,
+	isEmptyDiff,
+	migrationWarnings,
+} from "../../src/database/schema-diff.js";
+import { DBType } from "../../src/types/state.js";
+
+const column = (
+	name: string,
+	dataType: string,
+	overrides: Partial<ColumnSchema> = {},
+): ColumnSchema => ({
+	name,
+	dataType,
+	nullable: true,
+	defaultValue: null,
+	isPrimaryKey: false,
+	ordinal: 1,
+	...overrides,
+});
+
+const table = (
+	name: string,
+	columns: ColumnSchema[],
+	overrides: Partial<TableSchema> = {},
+): TableSchema => ({
+	schema: "public",
+	name,
+	type: "table",
+	columns: [
+		column("id", "integer", { nullable: false, isPrimaryKey: true }),
+		...columns,
+	],
+	primaryKey: { name: `${name}_pkey`, columns: ["id"] },
+	foreignKeys: [],
+	indexes: [],
+	uniqueConstraints: [],
+	checkConstraints: [],
+	...overrides,
+});
+
+const schema = (dbType: DBType, tables: TableSchema[]): DatabaseSchema => ({
+	dbType,
+	schemas: ["public"],
+	tables,
+});
+
+const emptyMySQL: DatabaseSchema = {
+	dbType: DBType.MySQL,
+	schemas: ["shop"],
+	tables: [],
+};
+
+const production = schema(DBType.PostgreSQL, [
+	table(
+		"users",
+		[
+			column("email", "character varying(255)"),
+			column("status", "text", { defaultValue: "'active'::text" }),
+			column("legacy_flag", "bool"),
+		],
+		{
+			indexes: [
+				{
+					name: "users_email_idx",
+					columns: ["email"],
+					unique: false,
+					primary: false,
+				},
+			],
+		},
+	),
+	table("orders", [column("user_id", "integer")], {
+		foreignKeys: [
+			{
+				name: "orders_user_id_fkey",
+				columns: ["user_id"],
+				referencedSchema: "public",
+				referencedTable: "users",
+				referencedColumns: ["id"],
+				onUpdate: "NO ACTION",
+				onDelete: "NO ACTION",
+			},
+		],
+	}),
+	table("audit_log", []),
+]);
+
+const staging = schema(DBType.PostgreSQL, [
+	table(
+		"users",
+		[
+			column("email", "varchar(255)", { nullable: false }),
+			column("status", "text", { defaultValue: "'pending'::text" }),
+			column("created_at", "timestamp with time zone", {
+				nullable: false,
+				defaultValue: "now()",
+			}),
+		],
+		{
+			indexes: [
+				// Same key under another name: not a change
+				{
+					name: "idx_users_email",
+					columns: ["email"],
+					unique: false,
+					primary: false,
+				},
+			],
+			uniqueConstraints: [{ name: "users_email_key", columns: ["email"] }],
+		},
+	),
+	table("orders", [column("user_id", "integer")], {
+		foreignKeys: [
+			{
+				name: "orders_user_id_fkey",
+				columns: ["user_id"],
+				referencedSchema: "public",
+				referencedTable: "users",
+				referencedColumns: ["id"],
+				onUpdate: "NO ACTION",
+				onDelete: "CASCADE",
+			},
+		],
+	}),
+	table("invoices", [column("order_id", "integer", { nullable: false })], {
+		foreignKeys: [
+			{
+				name: "invoices_order_id_fkey",
+				columns: ["order_id"],
+				referencedSchema: "public",
+				referencedTable: "orders",
+				referencedColumns: ["id"],
+				onUpdate: "NO ACTION",
+				onDelete: "NO ACTION",
+			},
+		],
+	}),
+	table("order_totals", [], { type: "view" }),
+]);
+
+describe("diffSchemas", () => {
+	it("reports added, removed and changed tables", () => {
+		const diff = diffSchemas(production, staging);
+
+		expect(diff.tables.added.map((t) => t.name)).toEqual(["invoices"]);
+		expect(diff.tables.removed.map((t) => t.name)).toEqual(["audit_log"]);
+		expect(diff.tables.changed.map((t) => t.from.name)).toEqual([
+			"users",
+			"orders",
+		]);
+	});
+
+	it("compares columns, keys and constraints but not spellings or names", () => {
+		const [users, orders] = diffSchemas(production, staging).tables.changed;
+
+		expect(users.columns.added.map((c) => c.name)).toEqual(["created_at"]);
+		expect(users.columns.removed.map((c) => c.name)).toEqual(["legacy_flag"]);
+		// character varying(255) and varchar(255) are the same type
+		expect(
+			users.columns.changed.map(({ name, changes }) => ({ name, changes })),
+		).toEqual([
+			{ name: "email", changes: ["nullable"] },
+			{ name: "status", changes: ["default"] },
+		]);
+		expect(users.indexes).toEqual({ added: [], removed: [] });
+		expect(users.uniqueConstraints.added).toEqual([
+			{ name: "users_email_key", columns: ["email"] },
+		]);
+		expect(orders.foreignKeys.added[0].onDelete).toBe("CASCADE");
+		expect(orders.foreignKeys.removed[0].onDelete).toBe("NO ACTION");
+	});
+
+	it("matches a schema-less SQLite fixture against Postgres by table name", () => {
+		const fixture = schema(
+			DBType.SQLite,
+			production.tables.map((t) => ({ ...t, schema: undefined })),
+		);
+
+		expect(isEmptyDiff(diffSchemas(fixture, production))).toBe(true);
+		expect(describeDiff(diffSchemas(production, production))).toEqual([]);
+	});
+});
+
+describe("generateMigration", () => {
+	it("orders Postgres statements so keys never point at missing objects", () => {
+		const statements = generateMigration(diffSchemas(production, staging));
+
+		expect(statements).toEqual([
+			'DROP TABLE "public"."audit_log"',
+			'ALTER TABLE "public"."orders" DROP CONSTRAINT "orders_user_id_fkey"',
+			'CREATE TABLE "public"."invoices" (\n  "id" integer NOT NULL,\n  "order_id" integer NOT NULL,\n  CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")\n)',
+			'ALTER TABLE "public"."users" ADD COLUMN "created_at" timestamp with time zone NOT NULL DEFAULT now()',
+			'ALTER TABLE "public"."users" ALTER COLUMN "email" SET NOT NULL',
+			'ALTER TABLE "public"."users" ALTER COLUMN "status" SET DEFAULT \'pending\'::text',
+			'ALTER TABLE "public"."users" DROP COLUMN "legacy_flag"',
+			'ALTER TABLE "public"."users" ADD CONSTRAINT "users_email_key" UNIQUE ("email")',
+			'ALTER TABLE "public"."invoices" ADD CONSTRAINT "invoices_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "public"."orders" ("id")',
+			'ALTER TABLE "public"."orders" ADD CONSTRAINT "orders_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users" ("id") ON DELETE CASCADE',
+		]);
+	});
+
+	it("restates changed MySQL columns and drops keys the MySQL way", () => {
+		const toMySQL = (source: DatabaseSchema) =>
+			schema(
+				DBType.MySQL,
+				source.tables.map((t) => ({ ...t, schema: "shop" })),
+			);
+		const statements = generateMigration(
+			diffSchemas(toMySQL(production), toMySQL(staging)),
+		);
+
+		expect(statements).toContain(
+			"ALTER TABLE `shop`.`orders` DROP FOREIGN KEY `orders_user_id_fkey`",
+		);
+		expect(statements).toContain(
+			"ALTER TABLE `shop`.`users` MODIFY COLUMN `email` varchar(255) NOT NULL",
+		);
+		expect(statements).toContain(
+			"ALTER TABLE `shop`.`users` ADD CONSTRAINT `users_email_key` UNIQUE (`email`)",
+		);
+	});
+
+	it("quotes the bare literal defaults MySQL reports", () => {
+		const orders = (columns: ColumnSchema[]) =>
+			schema(DBType.MySQL, [table("orders", columns, { schema: "shop" })]);
+		const statements = generateMigration(
+			diffSchemas(
+				orders([column("status", "varchar(16)")]),
+				orders([
+					column("status", "varchar(16)", { defaultValue: "draft" }),
+					column("note", "varchar(64)", { defaultValue: "it's" }),
+					column("quantity", "int", { defaultValue: "1" }),
+					column("code", "varchar(8)", { defaultValue: "1" }),
+					column("token", "varchar(36)", { defaultValue: "uuid()" }),
+					column("created_at", "datetime", {
+						defaultValue: "CURRENT_TIMESTAMP",
+					}),
+				]),
+			),
+		);
+
+		expect(statements).toEqual([
+			"ALTER TABLE `shop`.`orders` ADD COLUMN `note` varchar(64) DEFAULT 'it''s'",
+			"ALTER TABLE `shop`.`orders` ADD COLUMN `quantity` int DEFAULT 1",
+			"ALTER TABLE `shop`.`orders` ADD COLUMN `code` varchar(8) DEFAULT '1'",
+			"ALTER TABLE `shop`.`orders` ADD COLUMN `token` varchar(36) DEFAULT (uuid())",
+			"ALTER TABLE `shop`.`orders` ADD COLUMN `created_at` datetime DEFAULT CURRENT_TIMESTAMP",
+			"ALTER TABLE `shop`.`orders` MODIFY COLUMN `status` varchar(16) DEFAULT 'draft'",
+		]);
+	});
+
+	it("drops Postgres casts from defaults migrated to another dialect", () => {
+		const statements = generateMigration(diffSchemas(emptyMySQL, production));
+
+		expect(
+			statements.find((statement) =>
+				statement.startsWith("CREATE TABLE `shop`.`users`"),
+			),
+		).toContain("`status` text DEFAULT 'active',");
+	});
+
+	it("keeps MySQL AUTO_INCREMENT on created and restated columns", () => {
+		const counters = (dataType: string) =>
+			schema(DBType.MySQL, [
+				table("counters", [], {
+					schema: "shop",
+					columns: [
+						column("id", dataType, {
+							nullable: false,
+							isPrimaryKey: true,
+							autoIncrement: true,
+						}),
+					],
+				}),
+			]);
+
+		expect(generateMigration(diffSchemas(emptyMySQL, counters("int")))).toEqual(
+			[
+				"CREATE TABLE `shop`.`counters` (\n  `id` int NOT NULL AUTO_INCREMENT,\n  PRIMARY KEY (`id`)\n)",
+			],
+		);
+		expect(
+			generateMigration(diffSchemas(counters("int"), counters("bigint"))),
+		).toEqual([
+			"ALTER TABLE `shop`.`counters` MODIFY COLUMN `id` bigint NOT NULL AUTO_INCREMENT",
+		]);
+		expect(
+			generateMigration(
+				diffSchemas(schema(DBType.PostgreSQL, []), counters("int")),
+			)[0],
+		).toContain('"id" int NOT NULL GENERATED BY DEFAULT AS IDENTITY');
+	});
+
+	it("creates Postgres identity columns and serial sequences", () => {
+		const keyed = (name: string, overrides: Partial<ColumnSchema>) =>
+			table(name, [], {
+				columns: [
+					column("id", "integer", {
+						nullable: false,
+						isPrimaryKey: true,
+						autoIncrement: true,
+						...overrides,
+					}),
+				],
+			});
+		const target = schema(DBType.PostgreSQL, [
+			keyed("events", { identity: "always" }),
+			keyed("tickets", {
+				defaultValue: "nextval('tickets_id_seq'::regclass)",
+			}),
+		]);
+
+		expect(
+			generateMigration(diffSchemas(schema(DBType.PostgreSQL, []), target)),
+		).toEqual([
+			'CREATE TABLE "public"."events" (\n  "id" integer NOT NULL GENERATED ALWAYS AS IDENTITY,\n  CONSTRAINT "events_pkey" PRIMARY KEY ("id")\n)',
+			"CREATE SEQUENCE IF NOT EXISTS tickets_id_seq AS integer",
+			'CREATE TABLE "public"."tickets" (\n  "id" integer NOT NULL DEFAULT nextval(\'tickets_id_seq\'::regclass),\n  CONSTRAINT "tickets_pkey" PRIMARY KEY ("id")\n)',
+			'ALTER SEQUENCE tickets_id_seq OWNED BY "public"."tickets"."id"',
+		]);
+		// Elsewhere a serial column is numbered the target's own way
+		expect(generateMigration(diffSchemas(emptyMySQL, target))).toContain(
+			"CREATE TABLE `shop`.`tickets` (\n  `id` integer NOT NULL AUTO_INCREMENT,\n  PRIMARY KEY (`id`)\n)",
+		);
+	});
+
+	it("rebuilds SQLite tables for changes ALTER TABLE cannot make", () => {
+		const sqlite = (source: DatabaseSchema) =>
+			schema(
+				DBType.SQLite,
+				source.tables.map((t) => ({ ...t, schema: undefined })),
+			);
+		const statements = generateMigration(
+			diffSchemas(sqlite(production), sqlite(staging)),
+		);
+
+		expect(statements).toContain(
+			'INSERT INTO "users__new" ("id", "email", "status") SELECT "id", "email", "status" FROM "users"',
+		);
+		expect(statements).toContain('DROP TABLE "users"');
+		expect(statements).toContain('ALTER TABLE "users__new" RENAME TO "users"');
+		expect(statements).toContain(
+			'CREATE INDEX "idx_users_email" ON "users" ("email")',
+		);
+		// Foreign keys stay inside CREATE TABLE, which is all SQLite allows
+		expect(
+			statements.find((statement) =>
+				statement.startsWith('CREATE TABLE "invoices"'),
+			),
+		).toContain('FOREIGN KEY ("order_id") REFERENCES "orders" ("id")');
+		expect(statements.some((s) => s.includes("ADD CONSTRAINT"))).toBe(false);
+	});
+
+	it("rebuilds a referenced SQLite table with foreign key enforcement off", () => {
+		const sqlite = (users: TableSchema) =>
+			schema(DBType.SQLite, [
+				{ ...users, schema: undefined },
+				{ ...production.tables[1], schema: undefined },
+			]);
+		const users = production.tables[0];
+		const statements = generateMigration(
+			diffSchemas(
+				sqlite(users),
+				sqlite({
+					...users,
+					columns: users.columns.map((c) =>
+						c.name === "email" ? { ...c, nullable: false } : c,
+					),
+				}),
+			),
+		);
+
+		expect(statements.slice(0, 2)).toEqual([
+			"PRAGMA foreign_keys = OFF",
+			"BEGIN",
+		]);
+		expect(statements[2]).toStartWith('CREATE TABLE "users__new"');
+		expect(statements.indexOf('DROP TABLE "users"')).toBeGreaterThan(2);
+		expect(statements.slice(-3)).toEqual([
+			"PRAGMA foreign_key_check",
+			"COMMIT",
+			"PRAGMA foreign_keys = ON",
+		]);
+	});
+
+	it("recreates the views and triggers a SQLite rebuild drops", () => {
+		const users = { ...production.tables[0], schema: undefined };
+		const sqlite = (source: TableSchema): DatabaseSchema => ({
+			...schema(DBType.SQLite, [
+				source,
+				{ ...production.tables[2], schema: undefined },
+				table("active_users", [], {
+					schema: undefined,
+					type: "view",
+					viewDefinition: "SELECT * FROM users WHERE email IS NOT NULL",
+				}),
+				table("active_emails", [], {
+					schema: undefined,
+					type: "view",
+					viewDefinition: 'SELECT email FROM "active_users"',
+				}),
+				table("recent_audit", [], {
+					schema: undefined,
+					type: "view",
+					viewDefinition: "SELECT * FROM audit_log",
+				}),
+			]),
+			triggers: [
+				{
+					name: "users_audit",
+					table: { name: "users", type: "table" },
+					timing: "AFTER",
+					events: ["INSERT"],
+					level: "ROW",
+					enabled: true,
+					definition:
+						"CREATE TRIGGER users_audit AFTER INSERT ON users BEGIN INSERT INTO audit_log (id) VALUES (NEW.id); END",
+				},
+				{
+					name: "audit_stamp",
+					table: { name: "audit_log", type: "table" },
+					timing: "AFTER",
+					events: ["INSERT"],
+					level: "ROW",
+					enabled: true,
+					definition:
+						"CREATE TRIGGER audit_stamp AFTER INSERT ON audit_log BEGIN SELECT 1; END",
+				},
+			],
+		});
+		const statements = generateMigration(
+			diffSchemas(
+				sqlite(users),
+				sqlite({
+					...users,
+					columns: users.columns.map((c) =>
+						c.name === "email" ? { ...c, nullable: false } : c,
+					),
+				}),
+			),
+		);
+
+		expect(statements.slice(0, 5)).toEqual([
+			"PRAGMA foreign_keys = OFF",
+			"BEGIN",
+			'DROP TRIGGER IF EXISTS "users_audit"',
+			'DROP VIEW IF EXISTS "active_emails"',
+			'DROP VIEW IF EXISTS "active_users"',
+		]);
+		expect(statements.slice(-6)).toEqual([
+			'CREATE VIEW "active_users" AS SELECT * FROM users WHERE email IS NOT NULL',
+			'CREATE VIEW "active_emails" AS SELECT email FROM "active_users"',
+			"CREATE TRIGGER users_audit AFTER INSERT ON users BEGIN INSERT INTO audit_log (id) VALUES (NEW.id); END",
+			"PRAGMA foreign_key_check",
+			"COMMIT",
+			"PRAGMA foreign_keys = ON",
+		]);
+		expect(statements.some((s) => s.includes("recent_audit"))).toBe(false);
+		expect(statements.some((s) => s.includes("audit_stamp"))).toBe(false);
+	});
+
+	it("leaves SQLite migrations without a rebuild unwrapped", () => {
+		const sqlite = (source: TableSchema) =>
+			schema(DBType.SQLite, [{ ...source, schema: undefined }]);
+		const auditLog = production.tables[2];
+		const statements = generateMigration(
+			diffSchemas(
+				sqlite(auditLog),
+				sqlite({
+					...auditLog,
+					columns: [...auditLog.columns, column("note", "text")],
+				}),
+			),
+		);
+
+		expect(statements).toEqual([
+			'ALTER TABLE "audit_log" ADD COLUMN "note" text',
+		]);
+	});
+
+	it("points out where a Postgres type change may need USING", () => {
+		const orders = production.tables[1];
+		const diff = diffSchemas(
+			schema(DBType.PostgreSQL, [orders]),
+			schema(DBType.PostgreSQL, [
+				{
+					...orders,
+					columns: orders.columns.map((c) =>
+						c.name === "user_id" ? { ...c, dataType: "bigint" } : c,
+					),
+				},
+			]),
+		);
+
+		expect(generateMigration(diff)).toEqual([
+			'ALTER TABLE "public"."orders" ALTER COLUMN "user_id" TYPE bigint',
+		]);
+		expect(migrationWarnings(diff)).toEqual([
+			'public.orders.user_id: integer → bigint may need USING "user_id"::bigint if existing values do not cast automatically',
+		]);
+	});
+
+	it("creates tables matched by name in the migrated database's schema", () => {
+		const inDatabase = (name: string, tables: TableSchema[]) =>
+			schema(
+				DBType.MySQL,
+				tables.map((t) => ({
+					...t,
+					schema: name,
+					foreignKeys: t.foreignKeys.map((foreignKey) => ({
+						...foreignKey,
+						referencedSchema: name,
+					})),
+				})),
+			);
+		const statements = generateMigration(
+			diffSchemas(
+				inDatabase("app_staging", [production.tables[0]]),
+				inDatabase("app_prod", [production.tables[0], production.tables[1]]),
+			),
+		);
+
+		expect(statements).toEqual([
+			"CREATE TABLE `app_staging`.`orders` (\n  `id` integer NOT NULL,\n  `user_id` integer,\n  PRIMARY KEY (`id`)\n)",
+			"ALTER TABLE `app_staging`.`orders` ADD CONSTRAINT `orders_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `app_staging`.`users` (`id`)",
+		]);
+	});
+
+	it("creates tables from another dialect in the migrated database's schema", () => {
+		const fixture = schema(DBType.SQLite, [
+			{ ...production.tables[0], schema: undefined },
+		]);
+		const statements = generateMigration(
+			diffSchemas(fixture, {
+				...staging,
+				tables: [production.tables[0], staging.tables[2]],
+			}),
+		);
+
+		expect(statements[0]).toStartWith('CREATE TABLE "invoices" (');
+	});
+});
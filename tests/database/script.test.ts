@@ -0,0 +1,244 @@
+import { describe, expect, it, vi } from "bun:test";
+import {
+	DatabaseError,
+	QueryCancelledError,
+} from "../../src/database/errors.js";
+import {
+	runScript,
+	runStatements,
+	splitStatements,
+} from "../../src/database/script.js";
+import type { DatabaseConnection } from "../../src/database/types.js";
+import { DBType } from "../../src/types/state.js";
+
+const sqlOf = (script: string, dbType: DBType) =>
+	splitStatements(script, dbType).map((statement) => statement.sql);
+
+describe("splitStatements", () => {
+	it("splits on semicolons and records each statement's offset", () => {
+		const script = "SELECT 1;\n  SELECT 2 ;SELECT 3";
+		expect(splitStatements(script, DBType.PostgreSQL)).toEqual([
+			{ sql: "SELECT 1", offset: 0 },
+			{ sql: "SELECT 2", offset: 12 },
+			{ sql: "SELECT 3", offset: 22 },
+		]);
+	});
+
+	it("ignores semicolons inside literals, identifiers and comments", () => {
+		const script = [
+			"SELECT 'a;b', \"c;d\" FROM t; -- trailing; comment",
+			"/* block; comment */ SELECT 2;",
+		].join("\n");
+		expect(sqlOf(script, DBType.PostgreSQL)).toEqual([
+			"SELECT 'a;b', \"c;d\" FROM t",
+			"-- trailing; comment\n/* block; comment */ SELECT 2",
+		]);
+	});
+
+	it("drops statements that hold nothing but comments", () => {
+		expect(sqlOf("SELECT 1; -- done\n/* nothing */;", DBType.SQLite)).toEqual([
+			"SELECT 1",
+		]);
+	});
+
+	it("keeps PostgreSQL dollar-quoted function bodies together", () => {
+		const body =
+			"CREATE FUNCTION touch() RETURNS trigger AS $fn$\nBEGIN\n  NEW.updated_at := now();\n  RETURN NEW;\nEND;\n$fn$ LANGUAGE plpgsql";
+		expect(sqlOf(`${body};\nSELECT 1;`, DBType.PostgreSQL)).toEqual([
+			body,
+			"SELECT 1",
+		]);
+	});
+
+	it("honours MySQL backslash escapes, backticks and # comments", () => {
+		const script = "SELECT 'it\\'s;', `a;b` FROM t; # note;\nSELECT 2";
+		expect(sqlOf(script, DBType.MySQL)).toEqual([
+			"SELECT 'it\\'s;', `a;b` FROM t",
+			"# note;\nSELECT 2",
+		]);
+	});
+
+	it("switches delimiters on MySQL DELIMITER lines", () => {
+		const body =
+			"CREATE PROCEDURE bump()\nBEGIN\n  UPDATE counters SET n = n + 1;\nEND";
+		const script = `DELIMITER //\n${body} //\nDELIMITER ;\nCALL bump();`;
+		const statements = splitStatements(script, DBType.MySQL);
+		expect(statements.map((statement) => statement.sql)).toEqual([
+			body,
+			"CALL bump()",
+		]);
+		expect(statements[0].offset).toBe(script.indexOf("CREATE"));
+	});
+
+	it("keeps trigger BEGIN ... END bodies together without DELIMITER", () => {
+		const trigger = [
+			"CREATE TRIGGER audit AFTER INSERT ON users",
+			"BEGIN",
+			"  INSERT INTO log VALUES (NEW.id);",
+			"  UPDATE stats SET n = CASE WHEN n IS NULL THEN 1 ELSE n + 1 END;",
+			"END",
+		].join("\n");
+		expect(
+			sqlOf(`${trigger};\nINSERT INTO users VALUES (1);`, DBType.SQLite),
+		).toEqual([trigger, "INSERT INTO users VALUES (1)"]);
+	});
+
+	it("does not treat BEGIN as a block outside routine bodies", () => {
+		expect(
+			sqlOf("BEGIN; UPDATE t SET a = 1; COMMIT;", DBType.PostgreSQL),
+		).toEqual(["BEGIN", "UPDATE t SET a = 1", "COMMIT"]);
+	});
+});
+
+function fakeConnection(
+	query: (sql: string) => Promise<{ rows: unknown[]; rowCount: number }>,
+): DatabaseConnection {
+	return {
+		type: DBType.SQLite,
+		query: vi.fn(query),
+	} as unknown as DatabaseConnection;
+}
+
+function fakePinnedConnection(
+	query: (sql: string) => Promise<{ rows: unknown[]; rowCount: number }>,
+) {
+	const clients: {
+		query: ReturnType<typeof vi.fn>;
+		rollback: ReturnType<typeof vi.fn>;
+	}[] = [];
+	const connection = {
+		type: DBType.PostgreSQL,
+		query: vi.fn(query),
+		withPinnedClient: vi.fn(
+			async (fn: (client: unknown) => Promise<unknown>) => {
+				const client = {
+					type: DBType.PostgreSQL,
+					query: vi.fn(query),
+					rollback: vi.fn(async () => {}),
+				};
+				clients.push(client);
+				return fn(client);
+			},
+		),
+	};
+	return {
+		connection: connection as unknown as DatabaseConnection,
+		query: connection.query,
+		clients,
+	};
+}
+
+describe("runStatements", () => {
+	const failing = (sql: string) =>
+		sql === "BAD"
+			? Promise.reject(new DatabaseError("boom"))
+			: Promise.resolve({ rows: [{ sql }], rowCount: 1 });
+
+	it("stops at the first failure and counts the skipped statements", async () => {
+		const connection = fakeConnection(failing);
+
+		const result = await runScript(connection, "SELECT 1; BAD; SELECT 2;");
+
+		expect(connection.query).toHaveBeenCalledTimes(2);
+		expect(
+			result.statements.map((statement) => statement.error?.message),
+		).toEqual([undefined, "boom"]);
+		expect(result.statements[0].rows).toEqual([{ sql: "SELECT 1" }]);
+		expect(result.skipped).toBe(1);
+		expect(result.error?.message).toBe("boom");
+	});
+
+	it("keeps going when continueOnError is set", async () => {
+		const connection = fakeConnection(failing);
+
+		const result = await runScript(connection, "BAD; SELECT 2;", {
+			continueOnError: true,
+			timeoutMs: 1_000,
+		});
+
+		expect(result.statements).toHaveLength(2);
+		expect(result.statements[1].rowCount).toBe(1);
+		expect(result.skipped).toBe(0);
+		expect(connection.query).toHaveBeenLastCalledWith("SELECT 2", [], {
+			timeoutMs: 1_000,
+		});
+	});
+
+	it("always stops after a cancellation", async () => {
+		const connection = fakeConnection(() =>
+			Promise.reject(new QueryCancelledError()),
+		);
+
+		const result = await runStatements(
+			connection,
+			[
+				{ sql: "SELECT pg_sleep(10)", offset: 0 },
+				{ sql: "SELECT 2", offset: 21 },
+			],
+			{ continueOnError: true },
+		);
+
+		expect(result.statements).toHaveLength(1);
+		expect(result.skipped).toBe(1);
+		expect(result.error).toBeInstanceOf(QueryCancelledError);
+	});
+
+	it("sends each statement's own parameters", async () => {
+		const connection = fakeConnection(failing);
+
+		await runStatements(connection, [
+			{ sql: "SELECT ?", offset: 0, params: [1] },
+		]);
+
+		expect(connection.query).toHaveBeenCalledWith("SELECT ?", [1], {});
+	});
+
+	describe("on a pinned client", () => {
+		it("sends every statement through the same client", async () => {
+			const { connection, query, clients } = fakePinnedConnection(failing);
+
+			await runScript(
+				connection,
+				"CREATE TEMP TABLE t (id int); INSERT INTO t VALUES (1); SELECT * FROM t;",
+			);
+
+			expect(clients).toHaveLength(1);
+			expect(clients[0].query).toHaveBeenCalledTimes(3);
+			expect(query).not.toHaveBeenCalled();
+			expect(clients[0].rollback).not.toHaveBeenCalled();
+		});
+
+		it("rolls back after a failure", async () => {
+			const { connection, clients } = fakePinnedConnection(failing);
+
+			await runScript(connection, "BEGIN; BAD; COMMIT;");
+
+			expect(clients[0].query).toHaveBeenCalledTimes(2);
+			expect(clients[0].rollback).toHaveBeenCalledTimes(1);
+		});
+
+		it("rolls back a transaction the script opened and never closed", async () => {
+			const { connection, clients } = fakePinnedConnection(failing);
+
+			const result = await runScript(
+				connection,
+				"START TRANSACTION; SELECT 1;",
+			);
+
+			expect(result.error).toBeUndefined();
+			expect(clients[0].rollback).toHaveBeenCalledTimes(1);
+			expect(result.rolledBack).toBe(true);
+		});
+
+		it("does not report a committed transaction as rolled back", async () => {
+			const { connection } = fakePinnedConnection(failing);
+
+			const result = await runScript(
+				connection,
+				"BEGIN; UPDATE t SET a = 1; COMMIT; ROLLBACK TO SAVEPOINT s;",
+			);
+
+			expect(result.rolledBack).toBe(false);
+		});
+	});
+});
@@ -1,5 +1,9 @@
 import { beforeEach, describe, expect, it, vi } from "bun:test";
-import { ConnectionError, DatabaseError } from "../../src/database/errors.js";
+import {
+	ConnectionError,
+	DatabaseError,
+	QueryCancelledError,
+} from "../../src/database/errors.js";
 import { SQLiteConnection } from "../../src/database/sqlite.js";
 import { DBType } from "../../src/types/state.js";
 
@@ -7,16 +11,22 @@ import { DBType } from "../../src/types/state.js";
 const mockSqliteExec = vi.fn();
 const mockSqliteQuery = vi.fn();
 const mockSqliteClose = vi.fn();
+const mockSqlitePrepare = vi.fn();
 const mockStatement = {
 	all: vi.fn(),
 	run: vi.fn(),
 };
+let mockInTransaction = false;
 
 vi.mock("bun:sqlite", () => ({
 	Database: class {
 		exec = mockSqliteExec;
 		query = mockSqliteQuery;
 		close = mockSqliteClose;
+		prepare = mockSqlitePrepare;
+		get inTransaction() {
+			return mockInTransaction;
+		}
 		constructor(path: string, options?: any) {}
 	},
 }));
@@ -30,9 +40,11 @@ describe("SQLiteConnection", () => {
 		mockSqliteExec.mockReset();
 		mockSqliteQuery.mockReset();
 		mockSqliteClose.mockReset();
+		mockSqlitePrepare.mockReset();
 		mockStatement.all.mockReset();
 		mockStatement.run.mockReset();
 		mockSqliteQuery.mockReturnValue(mockStatement);
+		mockInTransaction = false;
 		connection = new SQLiteConnection({
 			type: "SQLite" as any,
 			connectionString: ":memory:",
@@ -93,6 +105,29 @@ describe("SQLiteConnection", () => {
 		});
 	});
 
+	it("reports column names and declared types even for empty results", async () => {
+		const mockStatement = {
+			all: vi.fn().mockReturnValue([]),
+			columnNames: ["id", "name", "total"],
+			declaredTypes: ["INTEGER", "VARCHAR(20)", null],
+		};
+		mockSqliteQuery.mockReturnValue(mockStatement);
+
+		const result = await connection.query(
+			"SELECT id, name, count(*) AS total FROM users WHERE 0",
+		);
+
+		expect(result).toEqual({
+			rows: [],
+			rowCount: 0,
+			fields: [
+				{ name: "id", dataType: "integer" },
+				{ name: "name", dataType: "varchar(20)" },
+				{ name: "total", dataType: "unknown" },
+			],
+		});
+	});
+
 	it("auto-connects when querying while not connected", async () => {
 		const newConnection = new SQLiteConnection({
 			type: "SQLite" as any,
@@ -315,4 +350,162 @@ describe("SQLiteConnection", () => {
 
 		expect(pathConnection.type).toBe(DBType.SQLite);
 	});
+
+	describe("stream", () => {
+		it("iterates the statement in batches", async () => {
+			const iterate = vi.fn(() =>
+				[{ id: 1 }, { id: 2 }, { id: 3 }][Symbol.iterator](),
+			);
+			mockSqlitePrepare.mockReturnValue({ iterate });
+
+			const batches: unknown[] = [];
+			for await (const batch of connection.stream(
+				"SELECT * FROM users WHERE id > ?",
+				[0],
+				{ batchSize: 2 },
+			)) {
+				batches.push(batch);
+			}
+
+			expect(mockSqlitePrepare).toHaveBeenCalledWith(
+				"SELECT * FROM users WHERE id > ?",
+			);
+			expect(iterate).toHaveBeenCalledWith(0);
+			expect(batches).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+		});
+
+		it("returns the iterator when the consumer stops early", async () => {
+			const returnSpy = vi.fn(() => ({ done: true, value: undefined }));
+			const rows = [{ id: 1 }, { id: 2 }];
+			let index = 0;
+			const iterator = {
+				next: () =>
+					index < rows.length
+						? { done: false, value: rows[index++] }
+						: { done: true, value: undefined },
+				return: returnSpy,
+				[Symbol.iterator]() {
+					return this;
+				},
+			};
+			mockSqlitePrepare.mockReturnValue({ iterate: () => iterator });
+
+			for await (const _batch of connection.stream("SELECT * FROM users", [], {
+				batchSize: 1,
+			})) {
+				break;
+			}
+
+			expect(returnSpy).toHaveBeenCalledTimes(1);
+		});
+
+		it("wraps statement errors in DatabaseError", async () => {
+			mockSqlitePrepare.mockImplementation(() => {
+				throw new Error("no such table: missing");
+			});
+
+			const consume = async () => {
+				for await (const _batch of connection.stream("SELECT * FROM missing")) {
+					// drain
+				}
+			};
+
+			await expect(consume()).rejects.toThrow(DatabaseError);
+		});
+	});
+
+	describe("transactions", () => {
+		it("wraps the callback in BEGIN/COMMIT on the database handle", async () => {
+			mockStatement.all.mockReturnValue([]);
+
+			await connection.transaction(async (tx) => {
+				await tx.execute("UPDATE users SET name = ?", ["a"]);
+			});
+
+			const statements = mockSqliteQuery.mock.calls.map((call) => call[0]);
+			expect(statements).toEqual([
+				"BEGIN",
+				"UPDATE users SET name = ?",
+				"COMMIT",
+			]);
+		});
+
+		it("rolls back when the callback fails", async () => {
+			mockStatement.all.mockReturnValue([]);
+
+			await expect(
+				connection.transaction(async () => {
+					throw new Error("boom");
+				}),
+			).rejects.toThrow("boom");
+
+			expect(mockSqliteQuery).toHaveBeenLastCalledWith("ROLLBACK");
+		});
+
+		it("rolls back when COMMIT fails and leaves the transaction open", async () => {
+			mockStatement.all.mockReturnValue([]);
+			mockSqliteQuery.mockImplementation((sql: string) =>
+				sql === "COMMIT"
+					? {
+							all: () => {
+								throw new Error("FOREIGN KEY constraint failed");
+							},
+						}
+					: mockStatement,
+			);
+
+			const tx = await connection.begin();
+			mockInTransaction = true;
+			await expect(tx.commit()).rejects.toThrow();
+
+			expect(mockSqliteExec).toHaveBeenLastCalledWith("ROLLBACK");
+			expect(tx.active).toBe(false);
+		});
+
+		it("leaves the handle alone when a failed COMMIT already ended the transaction", async () => {
+			mockStatement.all.mockReturnValue([]);
+			mockSqliteQuery.mockImplementation((sql: string) =>
+				sql === "COMMIT"
+					? {
+							all: () => {
+								throw new Error("disk I/O error");
+							},
+						}
+					: mockStatement,
+			);
+
+			const tx = await connection.begin();
+			await expect(tx.commit()).rejects.toThrow();
+
+			expect(mockSqliteExec).not.toHaveBeenCalledWith("ROLLBACK");
+		});
+
+		it("rejects statements after the transaction has finished", async () => {
+			mockStatement.all.mockReturnValue([]);
+
+			const tx = await connection.begin();
+			await tx.commit();
+
+			await expect(tx.query("SELECT 1")).rejects.toThrow(
+				"Transaction is no longer active.",
+			);
+		});
+	});
+
+	describe("cancellation", () => {
+		it("does not run statements once the signal has aborted", async () => {
+			const controller = new AbortController();
+			controller.abort();
+
+			await expect(
+				connection.query("SELECT 1", [], { signal: controller.signal }),
+			).rejects.toThrow(QueryCancelledError);
+			await expect(
+				connection.execute("DELETE FROM users", [], {
+					signal: controller.signal,
+				}),
+			).rejects.toThrow(QueryCancelledError);
+			expect(mockSqliteQuery).not.toHaveBeenCalled();
+		});
+	});
 });
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "bun:test";
+import {
+	resolveBatchSize,
+	streamQuery,
+	stripTrailingSemicolons,
+} from "../../src/database/stream.js";
+import {
+	type DatabaseConnection,
+	DEFAULT_STREAM_BATCH_SIZE,
+} from "../../src/database/types.js";
+import { DBType } from "../../src/types/state.js";
+
+function createConnection(
+	overrides: Partial<DatabaseConnection> = {},
+): DatabaseConnection {
+	return {
+		type: DBType.PostgreSQL,
+		connect: vi.fn(async () => {}),
+		query: vi.fn(async () => ({
+			rows: [{ id: 1 }, { id: 2 }, { id: 3 }],
+			rowCount: 3,
+		})),
+		execute: vi.fn(async () => {}),
+		close: vi.fn(async () => {}),
+		...overrides,
+	} as DatabaseConnection;
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+	const items: T[] = [];
+	for await (const item of iterable) {
+		items.push(item);
+	}
+	return items;
+}
+
+describe("streamQuery", () => {
+	it("delegates to the driver stream when available", async () => {
+		const stream = vi.fn(async function* () {
+			yield [{ id: 1 }];
+		});
+		const connection = createConnection({ stream: stream as any });
+
+		const batches = await collect(
+			streamQuery(connection, "SELECT 1", [1], { batchSize: 5 }),
+		);
+
+		expect(batches).toEqual([[{ id: 1 }]]);
+		expect(stream).toHaveBeenCalledWith("SELECT 1", [1], { batchSize: 5 });
+		expect(connection.query).not.toHaveBeenCalled();
+	});
+
+	it("falls back to a buffered query split into batches", async () => {
+		const connection = createConnection();
+
+		const batches = await collect(
+			streamQuery(connection, "SELECT * FROM t", [], { batchSize: 2 }),
+		);
+
+		expect(batches).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+	});
+});
+
+describe("resolveBatchSize", () => {
+	it("uses the default for missing or invalid sizes", () => {
+		expect(resolveBatchSize()).toBe(DEFAULT_STREAM_BATCH_SIZE);
+		expect(resolveBatchSize({ batchSize: 0 })).toBe(DEFAULT_STREAM_BATCH_SIZE);
+		expect(resolveBatchSize({ batchSize: Number.NaN })).toBe(
+			DEFAULT_STREAM_BATCH_SIZE,
+		);
+		expect(resolveBatchSize({ batchSize: 250.7 })).toBe(250);
+	});
+});
+
+describe("stripTrailingSemicolons", () => {
+	it("removes trailing semicolons and whitespace", () => {
+		expect(stripTrailingSemicolons("SELECT 1; ;\n")).toBe("SELECT 1");
+		expect(stripTrailingSemicolons("SELECT ';'")).toBe("SELECT ';'");
+	});
+});
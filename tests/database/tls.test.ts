@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { ConnectionError } from "../../src/database/errors.js";
+import { parseSslMode, resolveTls } from "../../src/database/tls.js";
+import { DBType } from "../../src/types/state.js";
+
+const certDir = `/tmp/seerdb-tls-${process.pid}`;
+const caPath = join(certDir, "ca.pem");
+const certPath = join(certDir, "client.pem");
+const keyPath = join(certDir, "client.key");
+
+beforeAll(() => {
+	mkdirSync(certDir, { recursive: true });
+	writeFileSync(caPath, "CA PEM");
+	writeFileSync(certPath, "CERT PEM");
+	writeFileSync(keyPath, "KEY PEM");
+});
+
+afterAll(() => {
+	rmSync(certDir, { recursive: true, force: true });
+});
+
+const pg = (connectionString: string) => ({
+	type: DBType.PostgreSQL,
+	connectionString,
+});
+
+describe("resolveTls", () => {
+	it("verifies remote hosts by default", () => {
+		const { tls, connectionString } = resolveTls(
+			pg("postgres://app@db.example.com:5432/app"),
+		);
+
+		expect(tls.mode).toBe("verify-full");
+		expect(connectionString).toBe("postgres://app@db.example.com:5432/app");
+	});
+
+	it("prefers TLS without verification on loopback hosts", () => {
+		expect(resolveTls(pg("postgres://localhost/app")).tls.mode).toBe("prefer");
+		expect(resolveTls(pg("postgres://127.0.0.1/app")).tls.mode).toBe("prefer");
+		expect(resolveTls(pg("postgres://[::1]/app")).tls.mode).toBe("prefer");
+	});
+
+	it("strips the driver's own ssl parameter so it cannot override the mode", () => {
+		const verified = resolveTls(pg("postgres://db.example.com/app?ssl=true"));
+		expect(verified.tls.mode).toBe("verify-full");
+		expect(verified.connectionString).toBe("postgres://db.example.com/app");
+
+		const plain = resolveTls(pg("postgres://db.example.com/app?ssl=false"));
+		expect(plain.tls.mode).toBe("disable");
+		expect(plain.connectionString).toBe("postgres://db.example.com/app");
+
+		expect(
+			resolveTls(pg("postgres://db.example.com/app?ssl=true&sslmode=require"))
+				.tls.mode,
+		).toBe("require");
+	});
+
+	it("reads sslmode and certificate files and strips them from the URL", () => {
+		const { tls, connectionString } = resolveTls(
+			pg(
+				`postgres://db.example.com/app?sslmode=verify-ca&sslrootcert=${caPath}&sslcert=${certPath}&sslkey=${keyPath}&application_name=seerdb`,
+			),
+		);
+
+		expect(tls).toEqual({
+			mode: "verify-ca",
+			ca: "CA PEM",
+			cert: "CERT PEM",
+			key: "KEY PEM",
+		});
+		expect(connectionString).toBe(
+			"postgres://db.example.com/app?application_name=seerdb",
+		);
+	});
+
+	it("accepts MySQL ssl-mode spellings", () => {
+		const { tls } = resolveTls({
+			type: DBType.MySQL,
+			connectionString: "mysql://db.example.com/app?ssl-mode=VERIFY_IDENTITY",
+		});
+
+		expect(tls.mode).toBe("verify-full");
+	});
+
+	it("lets explicit config override connection-string parameters", () => {
+		const { tls } = resolveTls({
+			...pg("postgres://db.example.com/app?sslmode=require"),
+			tls: { mode: "disable", caFile: caPath },
+		});
+
+		expect(tls.mode).toBe("disable");
+		expect(tls.ca).toBe("CA PEM");
+	});
+
+	it("leaves non-URL connection strings untouched", () => {
+		const { tls, connectionString } = resolveTls(
+			pg("host=db.example.com dbname=app"),
+		);
+
+		expect(connectionString).toBe("host=db.example.com dbname=app");
+		expect(tls.mode).toBe("verify-full");
+	});
+
+	it("throws ConnectionError for unreadable certificate files", () => {
+		expect(() =>
+			resolveTls(
+				pg(
+					`postgres://db.example.com/app?sslrootcert=${join(certDir, "missing.pem")}`,
+				),
+			),
+		).toThrow(ConnectionError);
+	});
+});
+
+describe("parseSslMode", () => {
+	it("rejects unknown modes", () => {
+		expect(() => parseSslMode("allow-anything")).toThrow(
+			'Unsupported sslmode "allow-anything"',
+		);
+	});
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from "bun:test";
+import { DatabaseError } from "../../src/database/errors.js";
+import {
+	runInTransaction,
+	SqlTransaction,
+	type TransactionClient,
+} from "../../src/database/transaction.js";
+import { DBType } from "../../src/types/state.js";
+
+function createClient(failOn?: string) {
+	const statements: string[] = [];
+	const client = {
+		query: vi.fn(async (sql: string) => {
+			statements.push(sql);
+			if (failOn && sql.startsWith(failOn)) {
+				throw new Error(`${failOn} failed`);
+			}
+			return { rows: [], rowCount: 0 };
+		}),
+		release: vi.fn(),
+	};
+	return { client: client as TransactionClient & typeof client, statements };
+}
+
+async function openTransaction(client: TransactionClient) {
+	const tx = new SqlTransaction(DBType.PostgreSQL, client);
+	await tx.open("BEGIN");
+	return tx;
+}
+
+describe("SqlTransaction", () => {
+	it("commits and releases the client once", async () => {
+		const { client, statements } = createClient();
+		const tx = await openTransaction(client);
+
+		await tx.execute("INSERT INTO t VALUES (1)");
+		await tx.commit();
+
+		expect(statements).toEqual(["BEGIN", "INSERT INTO t VALUES (1)", "COMMIT"]);
+		expect(client.release).toHaveBeenCalledTimes(1);
+		expect(client.release).toHaveBeenCalledWith(false);
+		expect(tx.active).toBe(false);
+	});
+
+	it("uses savepoints for nested transactions", async () => {
+		const { client, statements } = createClient();
+		const tx = await openTransaction(client);
+
+		const inner = await tx.begin();
+		expect(inner.depth).toBe(1);
+		await inner.commit();
+		const rolledBack = await tx.begin();
+		await rolledBack.rollback();
+		await tx.commit();
+
+		expect(statements[1]).toMatch(/^SAVEPOINT (seerdb_sp_\d+)$/);
+		expect(statements[2]).toBe(`RELEASE ${statements[1]}`);
+		const savepoint = statements[3].replace("SAVEPOINT ", "");
+		expect(statements.slice(4)).toEqual([
+			`ROLLBACK TO SAVEPOINT ${savepoint}`,
+			`RELEASE SAVEPOINT ${savepoint}`,
+			"COMMIT",
+		]);
+		// Only the root hands the client back
+		expect(client.release).toHaveBeenCalledTimes(1);
+	});
+
+	it("deactivates open savepoints when the parent finishes", async () => {
+		const { client } = createClient();
+		const tx = await openTransaction(client);
+		const inner = await tx.begin();
+
+		await tx.rollback();
+
+		expect(inner.active).toBe(false);
+		await expect(inner.query("SELECT 1")).rejects.toThrow(DatabaseError);
+	});
+
+	it("discards the client when COMMIT fails", async () => {
+		const { client } = createClient("COMMIT");
+		const tx = await openTransaction(client);
+
+		await expect(tx.commit()).rejects.toThrow("COMMIT failed");
+
+		expect(client.release).toHaveBeenCalledWith(true);
+		expect(tx.active).toBe(false);
+	});
+});
+
+describe("runInTransaction", () => {
+	it("commits and returns the callback result", async () => {
+		const { client, statements } = createClient();
+		const tx = await openTransaction(client);
+
+		const result = await runInTransaction(tx, async () => 42);
+
+		expect(result).toBe(42);
+		expect(statements.at(-1)).toBe("COMMIT");
+	});
+
+	it("rolls back and rethrows the original error", async () => {
+		const { client, statements } = createClient("ROLLBACK");
+		const tx = await openTransaction(client);
+
+		await expect(
+			runInTransaction(tx, async () => {
+				throw new Error("boom");
+			}),
+		).rejects.toThrow("boom");
+
+		expect(statements.at(-1)).toBe("ROLLBACK");
+		expect(client.release).toHaveBeenCalledWith(true);
+	});
+
+	it("leaves a transaction the callback already finished alone", async () => {
+		const { client, statements } = createClient();
+		const tx = await openTransaction(client);
+
+		await runInTransaction(tx, async (handle) => {
+			await handle.rollback();
+		});
+
+		expect(statements).toEqual(["BEGIN", "ROLLBACK"]);
+	});
+});
@@ -11,18 +11,15 @@ vi.mock("../../src/utils/persistence.js", () => ({
 		normalized: 0,
 		skipped: 0,
 	})),
+	loadEditJournal: vi.fn(async () => []),
 	loadQueryHistory: vi.fn(async () => []),
 	loadTableCache: vi.fn(async () => ({})),
 	saveConnections: vi.fn(async () => {}),
+	saveEditJournal: vi.fn(async () => {}),
 	saveQueryHistory: vi.fn(async () => {}),
 	saveTableCache: vi.fn(async () => {}),
 }));
 
-vi.mock("../../src/utils/export.js", () => ({
-	exportData: vi.fn(async () => "/path/to/export.csv"),
-	formatExportSummary: vi.fn(() => "Export summary"),
-}));
-
 vi.mock("../../src/utils/history.ts", () => ({
 	historyHelpers: {
 		queryExecuted: vi.fn(() => ({
@@ -40,9 +37,23 @@ vi.mock("../../src/utils/history.ts", () => ({
 	},
 }));
 
-import { beforeEach, describe, expect, it } from "bun:test";
+import {
+	afterAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	mock,
+	spyOn,
+} from "bun:test";
 import { createDatabaseConnection } from "../../src/database/connection.js";
-import { ConnectionError, DatabaseError } from "../../src/database/errors.js";
+import {
+	ConnectionError,
+	DatabaseError,
+	QueryCancelledError,
+	SqlSyntaxError,
+} from "../../src/database/errors.js";
+import { connectionManager } from "../../src/database/manager.js";
 import type {
 	DatabaseConfig,
 	DatabaseConnection,
@@ -76,12 +87,29 @@ const saveQueryHistoryMock = persistence.saveQueryHistory as Mock<
 const saveTableCacheMock = persistence.saveTableCache as Mock<
 	typeof persistence.saveTableCache
 >;
-const exportDataMock = exportUtils.exportData as Mock<
-	typeof exportUtils.exportData
->;
-const formatExportSummaryMock = exportUtils.formatExportSummary as Mock<
-	typeof exportUtils.formatExportSummary
->;
+// Spies rather than a module mock, so export.test.ts still gets the real
+// module when the whole suite runs in one process
+const exportDataMock = spyOn(exportUtils, "exportData").mockImplementation(
+	async () => "/path/to/export.csv",
+);
+const exportDataStreamMock = spyOn(
+	exportUtils,
+	"exportDataStream",
+).mockImplementation(async () => ({
+	filepath: "/path/to/export.csv",
+	rowCount: 0,
+}));
+const formatExportSummaryMock = spyOn(
+	exportUtils,
+	"formatExportSummary",
+).mockImplementation(() => "Export summary");
+spyOn(exportUtils, "exportJournalScript").mockImplementation(
+	async () => "/path/to/edit-journal.sql",
+);
+
+afterAll(() => {
+	mock.restore();
+});
 const historyHelpersMock = historyHelpers as any;
 
 type Dispatch = (action: any) => void;
@@ -89,7 +117,8 @@ type Dispatch = (action: any) => void;
 describe("effects - Missing Functions", () => {
 	let dispatch: Mock<Dispatch>;
 
-	beforeEach(() => {
+	beforeEach(async () => {
+		await connectionManager.disposeAll();
 		vi.clearAllMocks();
 		dispatch = vi.fn() as Dispatch;
 	});
@@ -366,6 +395,7 @@ describe("effects - Missing Functions", () => {
 			expect(connectionStub.query).toHaveBeenCalledWith(
 				"SELECT * FROM users",
 				[],
+				{ onRetry: expect.any(Function) },
 			);
 			expect(saveQueryHistoryMock).toHaveBeenCalledWith(
 				expect.arrayContaining([
@@ -442,6 +472,177 @@ describe("effects - Missing Functions", () => {
 			);
 		});
 
+		it("records the driver's error position on the history item", async () => {
+			const connectionStub = {
+				connect: vi.fn(async () => {}),
+				query: vi.fn(async () => {
+					throw new SqlSyntaxError(
+						'SQL syntax error: near "FORM"',
+						"SQLITE_ERROR",
+						'near "FORM": syntax error',
+						{ position: 9 },
+					);
+				}),
+				close: vi.fn(async () => {}),
+			};
+
+			createDatabaseConnectionMock.mockReturnValue(connectionStub as any);
+
+			const dispatch = vi.fn();
+			const state = {
+				...initialAppState,
+				dbType: DBType.SQLite,
+				activeConnection: {
+					id: "conn1",
+					name: "Test DB",
+					type: DBType.SQLite,
+					connectionString: "/tmp/position.sqlite",
+					createdAt: "2023-01-01T00:00:00.000Z",
+					updatedAt: "2023-01-01T00:00:00.000Z",
+				},
+				queryHistory: [],
+			};
+
+			await effects.executeQuery(
+				dispatch,
+				state,
+				{ type: DBType.SQLite, connectionString: "/tmp/position.sqlite" },
+				"SELECT * FORM users",
+			);
+
+			expect(dispatch).toHaveBeenCalledWith(
+				expect.objectContaining({
+					type: ActionType.AddQueryHistoryItem,
+					item: expect.objectContaining({
+						query: "SELECT * FORM users",
+						errorPosition: 9,
+					}),
+				}),
+			);
+		});
+
+		it("runs each statement of a script and offsets the error position", async () => {
+			const connectionStub = {
+				connect: vi.fn(async () => {}),
+				query: vi.fn(async (sql: string) => {
+					if (sql.startsWith("SELECT")) {
+						throw new SqlSyntaxError(
+							'SQL syntax error: near "FORM"',
+							"SQLITE_ERROR",
+							'near "FORM": syntax error',
+							{ position: 9 },
+						);
+					}
+					return { rows: [], rowCount: 1 };
+				}),
+				close: vi.fn(async () => {}),
+			};
+
+			createDatabaseConnectionMock.mockReturnValue(connectionStub as any);
+
+			const dispatch = vi.fn();
+			const state = {
+				...initialAppState,
+				dbType: DBType.SQLite,
+				activeConnection: {
+					id: "conn1",
+					name: "Test DB",
+					type: DBType.SQLite,
+					connectionString: "/tmp/script.sqlite",
+					createdAt: "2023-01-01T00:00:00.000Z",
+					updatedAt: "2023-01-01T00:00:00.000Z",
+				},
+				queryHistory: [],
+			};
+			const script =
+				"INSERT INTO users VALUES (1);\nSELECT * FORM users;\nDELETE FROM users;";
+
+			const result = await effects.executeQuery(
+				dispatch,
+				state,
+				{ type: DBType.SQLite, connectionString: "/tmp/script.sqlite" },
+				script,
+			);
+
+			expect(connectionStub.query).toHaveBeenCalledTimes(2);
+			expect(result?.statements).toHaveLength(2);
+			expect(result?.skipped).toBe(1);
+			expect(dispatch).toHaveBeenCalledWith({
+				type: ActionType.SetError,
+				error: 'Statement 2 of 3 failed: SQL syntax error: near "FORM"',
+			});
+			expect(dispatch).toHaveBeenCalledWith(
+				expect.objectContaining({
+					type: ActionType.AddQueryHistoryItem,
+					item: expect.objectContaining({
+						query: script,
+						rowCount: 1,
+						errorPosition: script.indexOf("FORM"),
+					}),
+				}),
+			);
+		});
+
+		it("passes cancellation options through and reports a cancel as info", async () => {
+			const controller = new AbortController();
+			const connectionStub = {
+				connect: vi.fn(async () => {}),
+				query: vi.fn(async () => {
+					throw new QueryCancelledError();
+				}),
+				close: vi.fn(async () => {}),
+			};
+
+			createDatabaseConnectionMock.mockReturnValue(connectionStub as any);
+
+			const state = {
+				...initialAppState,
+				dbType: DBType.PostgreSQL,
+				activeConnection: {
+					id: "conn1",
+					name: "Test DB",
+					type: DBType.PostgreSQL,
+					connectionString: "postgres://example",
+					createdAt: "2023-01-01T00:00:00.000Z",
+					updatedAt: "2023-01-01T00:00:00.000Z",
+				},
+				queryHistory: [],
+			};
+
+			await effects.executeQuery(
+				dispatch,
+				state,
+				{ type: DBType.PostgreSQL, connectionString: "postgres://example" },
+				"SELECT pg_sleep(60)",
+				[],
+				{ signal: controller.signal, timeoutMs: 1_000 },
+			);
+
+			expect(connectionStub.query).toHaveBeenCalledWith(
+				"SELECT pg_sleep(60)",
+				[],
+				{
+					signal: controller.signal,
+					timeoutMs: 1_000,
+					onRetry: expect.any(Function),
+				},
+			);
+			const actions = dispatch.mock.calls.map((call) => call[0]);
+			expect(actions).toContainEqual({
+				type: ActionType.SetInfo,
+				message: "Query was cancelled.",
+			});
+			expect(actions).not.toContainEqual(
+				expect.objectContaining({ type: ActionType.SetError }),
+			);
+			expect(actions).toContainEqual(
+				expect.objectContaining({
+					type: ActionType.AddQueryHistoryItem,
+					item: expect.objectContaining({ error: "Query was cancelled." }),
+				}),
+			);
+		});
+
 		it("limits query history size", async () => {
 			const connectionStub = {
 				connect: vi.fn(async () => {}),
@@ -773,4 +974,90 @@ describe("effects - Missing Functions", () => {
 			);
 		});
 	});
+
+	describe("exportFullTable", () => {
+		const table: TableInfo = { name: "users", schema: "public", type: "table" };
+		const columns: ColumnInfo[] = [
+			{ name: "id", dataType: "integer", nullable: false },
+			{ name: "name", dataType: "varchar", nullable: false },
+		];
+		const dbConfig = {
+			type: DBType.PostgreSQL,
+			connectionString: "postgres://example",
+		};
+
+		it("streams every row of the table into the export file", async () => {
+			const stream = vi.fn(async function* () {
+				yield [{ id: 1, name: "Alice" }];
+				yield [{ id: 2, name: "Bob" }];
+			});
+			createDatabaseConnectionMock.mockReturnValue({
+				connect: vi.fn(async () => {}),
+				stream,
+				close: vi.fn(async () => {}),
+			} as any);
+
+			let streamedRows: DataRow[] = [];
+			exportDataStreamMock.mockImplementation(async (batches) => {
+				for await (const batch of batches) {
+					streamedRows = streamedRows.concat(batch);
+				}
+				return {
+					filepath: "/exports/users.csv",
+					rowCount: streamedRows.length,
+				};
+			});
+			formatExportSummaryMock.mockReturnValue("Exported 2 rows");
+
+			await effects.exportFullTable(
+				dispatch,
+				{
+					...initialAppState,
+					columns,
+					sortConfig: { column: "name", direction: "desc" },
+				},
+				dbConfig,
+				table,
+				"csv",
+				true,
+			);
+
+			expect(stream).toHaveBeenCalledWith(
+				'SELECT * FROM "public"."users" ORDER BY "name" DESC',
+				[],
+				{},
+			);
+			expect(streamedRows).toEqual([
+				{ id: 1, name: "Alice" },
+				{ id: 2, name: "Bob" },
+			]);
+			expect(formatExportSummaryMock).toHaveBeenCalledWith(
+				"/exports/users.csv",
+				2,
+				"csv",
+				2,
+			);
+			expect(dispatch).toHaveBeenCalledWith({
+				type: ActionType.SetInfo,
+				message: "Exported 2 rows",
+			});
+		});
+
+		it("requires column metadata", async () => {
+			await effects.exportFullTable(
+				dispatch,
+				initialAppState,
+				dbConfig,
+				table,
+				"json",
+				true,
+			);
+
+			expect(createDatabaseConnectionMock).not.toHaveBeenCalled();
+			expect(dispatch).toHaveBeenCalledWith({
+				type: ActionType.SetError,
+				error: "Column metadata is required before exporting.",
+			});
+		});
+	});
 });
@@ -1,4 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from "bun:test";
+import { connectionManager } from "../../src/database/manager.js";
 import { ActionType } from "../../src/state/actions.js";
 import * as effects from "../../src/state/effects.js";
 import type {
@@ -26,7 +27,8 @@ vi.mock("node:fs/promises", () => ({
 describe("effects - Simple Tests for Better Coverage", () => {
 	let dispatch: any;
 
-	beforeEach(() => {
+	beforeEach(async () => {
+		await connectionManager.disposeAll();
 		vi.clearAllMocks();
 		dispatch = vi.fn();
 		// Setup mock implementations
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "bun:test";
+import { overlayPendingChanges, stageChange } from "../../src/state/pending.js";
+import type { PendingChange, TableInfo } from "../../src/types/state.js";
+
+const table: TableInfo = { schema: "shop", name: "orders", type: "table" };
+
+describe("stageChange", () => {
+	it("keeps the stored value when a cell is edited again", () => {
+		const first: PendingChange = {
+			kind: "update",
+			table,
+			key: { id: 1 },
+			column: "note",
+			previous: "a",
+			value: "b",
+		};
+
+		const changes = stageChange([first], {
+			...first,
+			previous: "b",
+			value: "c",
+		});
+
+		expect(changes).toEqual([{ ...first, value: "c" }]);
+	});
+
+	it("drops staged edits of a row that is deleted", () => {
+		const changes = stageChange(
+			[
+				{
+					kind: "update",
+					table,
+					key: { id: 1 },
+					column: "note",
+					previous: "a",
+					value: "b",
+				},
+				{
+					kind: "update",
+					table,
+					key: { id: 2 },
+					column: "note",
+					previous: "a",
+					value: "b",
+				},
+			],
+			{ kind: "delete", table, key: { id: "1" } },
+		);
+
+		expect(changes.map((change) => change.kind)).toEqual(["update", "delete"]);
+		expect(changes[0]).toMatchObject({ key: { id: 2 } });
+	});
+});
+
+describe("overlayPendingChanges", () => {
+	const rows = [
+		{ id: 1, note: "a" },
+		{ id: 2, note: "b" },
+	];
+
+	it("applies edits, flags deletes and appends inserts", () => {
+		const { rows: shown, states } = overlayPendingChanges(rows, table, [
+			{
+				kind: "update",
+				table,
+				key: { id: 1 },
+				column: "note",
+				previous: "a",
+				value: "edited",
+			},
+			{ kind: "delete", table, key: { id: 2 } },
+			{ kind: "insert", table, values: { note: "new" } },
+		]);
+
+		expect(shown).toEqual([
+			{ id: 1, note: "edited" },
+			{ id: 2, note: "b" },
+			{ note: "new" },
+		]);
+		expect(states.get(shown[0])).toEqual({
+			kind: "update",
+			columns: new Set(["note"]),
+		});
+		expect(states.get(shown[1])?.kind).toBe("delete");
+		expect(states.get(shown[2])?.kind).toBe("insert");
+		// Stored rows stay untouched for a discard
+		expect(rows[0].note).toBe("a");
+	});
+
+	it("ignores changes staged for other tables", () => {
+		const result = overlayPendingChanges(rows, table, [
+			{ kind: "delete", table: { ...table, name: "items" }, key: { id: 1 } },
+		]);
+
+		expect(result.rows).toBe(rows);
+		expect(result.states.size).toBe(0);
+	});
+});
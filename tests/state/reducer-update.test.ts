@@ -95,3 +95,187 @@ describe("appReducer miscellaneous actions", () => {
 		expect(nextState.showCommandHints).toBe(false);
 	});
 });
+
+describe("appReducer InsertDataRow", () => {
+	it("appends the row to the grid and cache and selects it", () => {
+		const cacheKey = tableCacheKey(table)!;
+		const initialState = {
+			...initialAppState,
+			selectedTable: table,
+			selectedRowIndex: 0,
+			dataRows: [{ id: 1, name: "Alice" }],
+			tableCache: {
+				[cacheKey]: {
+					columns: [],
+					rows: [{ id: 1, name: "Alice" }],
+					hasMore: false,
+					offset: 0,
+				},
+			},
+		};
+
+		const nextState = appReducer(initialState, {
+			type: ActionType.InsertDataRow,
+			row: { id: 2, name: "Bob" },
+			table,
+		});
+
+		expect(nextState.dataRows).toHaveLength(2);
+		expect(nextState.selectedRowIndex).toBe(1);
+		expect(nextState.expandedRow).toEqual({ id: 2, name: "Bob" });
+		expect(nextState.tableCache[cacheKey].rows[1]).toEqual({
+			id: 2,
+			name: "Bob",
+		});
+	});
+
+	it("ignores rows inserted into another table", () => {
+		const nextState = appReducer(
+			{ ...initialAppState, selectedTable: table, dataRows: [] },
+			{
+				type: ActionType.InsertDataRow,
+				row: { id: 1 },
+				table: { ...table, name: "orders" },
+			},
+		);
+
+		expect(nextState.dataRows).toEqual([]);
+	});
+});
+
+describe("appReducer RemoveDataRows", () => {
+	it("drops deleted rows from the grid, cache and search results", () => {
+		const cacheKey = tableCacheKey(table)!;
+		const rows = [
+			{ id: 1, name: "Alice" },
+			{ id: 2, name: "Bob" },
+			{ id: 3, name: "Carol" },
+		];
+		const initialState = {
+			...initialAppState,
+			selectedTable: table,
+			selectedRowIndex: 2,
+			dataRows: rows,
+			expandedRow: rows[2],
+			searchResults: rows,
+			searchTotalCount: 3,
+			searchSelectedIndex: 2,
+			tableCache: {
+				[cacheKey]: { columns: [], rows, hasMore: false, offset: 0 },
+			},
+		};
+
+		const nextState = appReducer(initialState, {
+			type: ActionType.RemoveDataRows,
+			keys: [{ id: 2 }, { id: "3" }],
+			table,
+		});
+
+		expect(nextState.dataRows).toEqual([{ id: 1, name: "Alice" }]);
+		expect(nextState.selectedRowIndex).toBe(0);
+		expect(nextState.expandedRow).toBeNull();
+		expect(nextState.tableCache[cacheKey].rows).toEqual([
+			{ id: 1, name: "Alice" },
+		]);
+		expect(nextState.searchResults).toHaveLength(1);
+		expect(nextState.searchTotalCount).toBe(1);
+		expect(nextState.searchSelectedIndex).toBe(0);
+	});
+
+	it("ignores rows deleted from another table", () => {
+		const initialState = {
+			...initialAppState,
+			selectedTable: table,
+			dataRows: [{ id: 1 }],
+		};
+
+		const nextState = appReducer(initialState, {
+			type: ActionType.RemoveDataRows,
+			keys: [{ id: 1 }],
+			table: { ...table, name: "orders" },
+		});
+
+		expect(nextState.dataRows).toEqual([{ id: 1 }]);
+	});
+});
+
+describe("appReducer staged changes", () => {
+	it("stages an edit and shows it in the open row", () => {
+		const initialState = {
+			...initialAppState,
+			selectedTable: table,
+			expandedRow: { id: 1, name: "Alice" },
+		};
+
+		const nextState = appReducer(initialState, {
+			type: ActionType.StagePendingChange,
+			change: {
+				kind: "update",
+				table,
+				key: { id: 1 },
+				column: "name",
+				previous: "Alice",
+				value: "Bob",
+			},
+		});
+
+		expect(nextState.pendingChanges).toHaveLength(1);
+		expect(nextState.expandedRow?.name).toBe("Bob");
+	});
+
+	it("drops staged changes and staging with the connection", () => {
+		const initialState = {
+			...initialAppState,
+			stagingEnabled: true,
+			pendingChanges: [
+				{ kind: "delete" as const, table, key: { id: 1 } },
+				{ kind: "delete" as const, table, key: { id: 2 } },
+			],
+		};
+
+		const dropped = appReducer(initialState, {
+			type: ActionType.DropPendingChange,
+			index: 0,
+		});
+		expect(dropped.pendingChanges).toEqual([
+			{ kind: "delete", table, key: { id: 2 } },
+		]);
+
+		const disconnected = appReducer(initialState, {
+			type: ActionType.ClearActiveConnection,
+		});
+		expect(disconnected.stagingEnabled).toBe(false);
+		expect(disconnected.pendingChanges).toEqual([]);
+	});
+});
+
+describe("appReducer edit journal", () => {
+	const entry = (id: string) => ({
+		id,
+		connectionId: "conn-1",
+		table,
+		key: { id: 1 },
+		column: "name",
+		oldValue: "Alice",
+		newValue: "Bob",
+		changedAt: "2024-01-01T00:00:00.000Z",
+	});
+
+	it("keeps the newest entries first and marks undone ones", () => {
+		const initialState = { ...initialAppState, editJournal: [entry("a")] };
+
+		const added = appReducer(initialState, {
+			type: ActionType.AddEditJournalEntries,
+			entries: [entry("b"), entry("c")],
+		});
+		expect(added.editJournal.map(({ id }) => id)).toEqual(["c", "b", "a"]);
+
+		const undone = appReducer(added, {
+			type: ActionType.MarkEditUndone,
+			id: "b",
+			undoneAt: "2024-01-02T00:00:00.000Z",
+		});
+		expect(undone.editJournal[1].undoneAt).toBe("2024-01-02T00:00:00.000Z");
+		expect(undone.editJournal[0].undoneAt).toBeUndefined();
+	});
+});
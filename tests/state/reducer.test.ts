@@ -29,6 +29,25 @@ describe("appReducer", () => {
 		expect(result.currentView).toBe(ViewState.Connection);
 	});
 
+	it("tracks reconnect attempts until loading stops or fails", () => {
+		const reconnecting = appReducer(
+			{ ...initialAppState, loading: true },
+			{
+				type: ActionType.SetReconnecting,
+				status: { attempt: 2, maxAttempts: 4 },
+			},
+		);
+		expect(reconnecting.reconnecting).toEqual({ attempt: 2, maxAttempts: 4 });
+
+		expect(
+			appReducer(reconnecting, { type: ActionType.StopLoading }).reconnecting,
+		).toBeNull();
+		expect(
+			appReducer(reconnecting, { type: ActionType.SetError, error: "down" })
+				.reconnecting,
+		).toBeNull();
+	});
+
 	it("adds query history items to the front", () => {
 		const historyItem = {
 			id: "1",
@@ -114,6 +133,52 @@ describe("appReducer", () => {
 		expect(result.currentOffset).toBe(50);
 	});
 
+	it("follows a foreign key and returns to the previous grid", () => {
+		const orders = { name: "orders", schema: "public", type: "table" as const };
+		const customers = {
+			name: "customers",
+			schema: "public",
+			type: "table" as const,
+		};
+		const state = {
+			...initialAppState,
+			selectedTable: orders,
+			columns: [{ name: "customer_id", dataType: "int", nullable: false }],
+			dataRows: [{ customer_id: 7 }, { customer_id: 9 }],
+			currentOffset: 20,
+			selectedRowIndex: 1,
+			tableCache: {},
+		};
+
+		const followed = appReducer(state, {
+			type: ActionType.FollowForeignKey,
+			table: customers,
+			filter: { id: 9 },
+		});
+		expect(followed.selectedTable).toEqual(customers);
+		expect(followed.rowFilter).toEqual({ id: 9 });
+		expect(followed.dataRows).toEqual([]);
+		expect(followed.currentOffset).toBe(0);
+		expect(followed.foreignKeyTrail).toHaveLength(1);
+
+		// Filtered pages stay out of the table cache
+		const loaded = appReducer(followed, {
+			type: ActionType.SetDataRows,
+			rows: [{ id: 9, name: "Ada" }],
+		});
+		expect(loaded.tableCache["public|customers"]).toBeUndefined();
+
+		const returned = appReducer(loaded, {
+			type: ActionType.ReturnFromForeignKey,
+		});
+		expect(returned.selectedTable).toEqual(orders);
+		expect(returned.rowFilter).toBeNull();
+		expect(returned.dataRows).toEqual(state.dataRows);
+		expect(returned.currentOffset).toBe(20);
+		expect(returned.selectedRowIndex).toBe(1);
+		expect(returned.foreignKeyTrail).toEqual([]);
+	});
+
 	it("removes cache entry when requested", () => {
 		const cacheKey = "public|users";
 		const state = {
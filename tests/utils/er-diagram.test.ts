@@ -0,0 +1,204 @@
+import { describe, expect, it } from "bun:test";
+import type {
+	ColumnSchema,
+	DatabaseSchema,
+	ForeignKeySchema,
+	TableSchema,
+} from "../../src/database/introspection/index.js";
+import { DBType } from "../../src/types/state.js";
+import {
+	isErDiagramFormat,
+	renderErDiagram,
+} from "../../src/utils/er-diagram.js";
+
+const column = (
+	name: string,
+	dataType: string,
+	overrides: Partial<ColumnSchema> = {},
+): ColumnSchema => ({
+	name,
+	dataType,
+	nullable: false,
+	defaultValue: null,
+	isPrimaryKey: false,
+	ordinal: 1,
+	...overrides,
+});
+
+const foreignKey = (
+	name: string,
+	columns: string[],
+	referencedTable: string,
+): ForeignKeySchema => ({
+	name,
+	columns,
+	referencedSchema: "public",
+	referencedTable,
+	referencedColumns: ["id"],
+	onUpdate: "NO ACTION",
+	onDelete: "CASCADE",
+});
+
+const table = (
+	name: string,
+	columns: ColumnSchema[],
+	overrides: Partial<TableSchema> = {},
+): TableSchema => ({
+	schema: "public",
+	name,
+	type: "table",
+	columns,
+	primaryKey: { columns: ["id"] },
+	foreignKeys: [],
+	indexes: [],
+	uniqueConstraints: [],
+	checkConstraints: [],
+	...overrides,
+});
+
+const schema: DatabaseSchema = {
+	dbType: DBType.PostgreSQL,
+	schemas: ["public"],
+	tables: [
+		table("customers", [
+			column("id", "integer", { isPrimaryKey: true }),
+			column("full name", "character varying(100)", {
+				comment: 'Shown as "name"',
+			}),
+		]),
+		table(
+			"orders",
+			[
+				column("id", "integer", { isPrimaryKey: true }),
+				column("customer_id", "integer"),
+				column("coupon_id", "integer", { nullable: true }),
+			],
+			{
+				foreignKeys: [
+					foreignKey("orders_customer_id_fkey", ["customer_id"], "customers"),
+					foreignKey("orders_coupon_id_fkey", ["coupon_id"], "coupons"),
+				],
+			},
+		),
+		table("coupons", [column("id", "integer", { isPrimaryKey: true })]),
+		table(
+			"invoices",
+			[
+				column("id", "integer", { isPrimaryKey: true }),
+				column("order_id", "integer"),
+			],
+			{
+				foreignKeys: [
+					foreignKey("invoices_order_id_fkey", ["order_id"], "orders"),
+				],
+				uniqueConstraints: [
+					{ name: "invoices_order_key", columns: ["order_id"] },
+				],
+			},
+		),
+		table("order_totals", [column("total", "numeric")], {
+			type: "view",
+			primaryKey: null,
+		}),
+	],
+};
+
+describe("renderErDiagram", () => {
+	it("draws Mermaid entities with key markers and cardinality", () => {
+		const diagram = renderErDiagram(schema, "mermaid");
+
+		expect(diagram.startsWith("erDiagram\n")).toBe(true);
+		expect(diagram).toContain("    orders {\n        integer id PK\n");
+		expect(diagram).toContain("        integer customer_id FK\n");
+		expect(diagram).toContain(
+			`        character_varying(100) full_name "Shown as 'name'"`,
+		);
+		expect(diagram).toContain(
+			'    customers ||--o{ orders : "orders_customer_id_fkey"',
+		);
+		// A nullable key column makes the parent optional
+		expect(diagram).toContain(
+			'    coupons |o--o{ orders : "orders_coupon_id_fkey"',
+		);
+		// A unique key column makes the relationship one-to-one
+		expect(diagram).toContain(
+			'    orders ||--o| invoices : "invoices_order_id_fkey"',
+		);
+		expect(diagram).not.toContain("order_totals");
+	});
+
+	it("draws Graphviz DOT tables and labelled edges", () => {
+		const diagram = renderErDiagram(schema, "dot");
+
+		expect(diagram.startsWith("digraph er {\n")).toBe(true);
+		expect(diagram).toContain('    "customers" [label=<<TABLE');
+		expect(diagram).toContain(
+			'<TD ALIGN="LEFT" PORT="customer_id">customer_id integer [FK]</TD>',
+		);
+		expect(diagram).toContain(
+			'    "orders":"customer_id" -> "customers":"id" [label="orders_customer_id_fkey", taillabel="0..*", headlabel="1"];',
+		);
+		expect(diagram.trimEnd().endsWith("}")).toBe(true);
+	});
+
+	it("draws PlantUML entities with mandatory and key markers", () => {
+		const diagram = renderErDiagram(schema, "plantuml");
+
+		expect(diagram.startsWith("@startuml\n")).toBe(true);
+		expect(diagram).toContain('entity "orders" as orders {');
+		expect(diagram).toContain("    * id : integer <<PK>>\n    --\n");
+		expect(diagram).toContain("    coupon_id : integer <<FK>>");
+		expect(diagram).toContain(
+			"customers ||--o{ orders : orders_customer_id_fkey",
+		);
+		expect(diagram.trimEnd().endsWith("@enduml")).toBe(true);
+	});
+
+	it("limits the diagram to the selected tables", () => {
+		const diagram = renderErDiagram(schema, "mermaid", {
+			tables: ["orders", "public.customers"],
+		});
+
+		expect(diagram).toContain("    customers {");
+		expect(diagram).toContain("customers ||--o{ orders");
+		expect(diagram).not.toContain("invoices");
+		expect(diagram).not.toContain("coupons");
+	});
+
+	it("qualifies names when tables come from several schemas", () => {
+		const diagram = renderErDiagram(
+			{
+				...schema,
+				tables: [
+					...schema.tables.slice(0, 2),
+					table(
+						"customers",
+						[column("id", "integer", { isPrimaryKey: true })],
+						{
+							schema: "archive",
+						},
+					),
+				],
+			},
+			"plantuml",
+		);
+
+		expect(diagram).toContain(
+			'entity "public.customers" as public_customers {',
+		);
+		expect(diagram).toContain(
+			'entity "archive.customers" as archive_customers {',
+		);
+		expect(diagram).toContain("public_customers ||--o{ public_orders");
+	});
+});
+
+describe("isErDiagramFormat", () => {
+	it("accepts only the supported formats", () => {
+		expect(isErDiagramFormat("mermaid")).toBe(true);
+		expect(isErDiagramFormat("dot")).toBe(true);
+		expect(isErDiagramFormat("plantuml")).toBe(true);
+		expect(isErDiagramFormat("svg")).toBe(false);
+		expect(isErDiagramFormat(undefined)).toBe(false);
+	});
+});
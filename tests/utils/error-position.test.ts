@@ -0,0 +1,41 @@
+import { describe, expect, it } from "bun:test";
+import { locateErrorToken } from "../../src/utils/error-position.js";
+
+describe("locateErrorToken", () => {
+	it("splits the failing line around the token", () => {
+		expect(locateErrorToken("SELECT * FORM users", 9)).toEqual({
+			before: "SELECT * ",
+			token: "FORM",
+			after: " users",
+			line: 1,
+		});
+	});
+
+	it("only returns the line that contains the position", () => {
+		const sql = "SELECT id\nFROM users\nWHERE id = = 1";
+		expect(locateErrorToken(sql, sql.indexOf("= 1"))).toEqual({
+			before: "WHERE id = ",
+			token: "=",
+			after: " 1",
+			line: 3,
+		});
+	});
+
+	it("keeps quoted literals together", () => {
+		expect(locateErrorToken("SELECT 'it''s' x", 7)?.token).toBe("'it''s'");
+	});
+
+	it("marks the end of input with a blank token", () => {
+		expect(locateErrorToken("SELECT (1", 9)).toEqual({
+			before: "SELECT (1",
+			token: " ",
+			after: "",
+			line: 1,
+		});
+	});
+
+	it("rejects positions outside the statement", () => {
+		expect(locateErrorToken("SELECT 1", -1)).toBeNull();
+		expect(locateErrorToken("SELECT 1", 20)).toBeNull();
+	});
+});
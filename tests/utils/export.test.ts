@@ -1,9 +1,12 @@
 import { beforeEach, describe, expect, it, vi } from "bun:test";
+import { mkdirSync, readFileSync, rmSync } from "fs";
 import { join } from "path";
 import type { ColumnInfo, DataRow } from "../../src/types/state.js";
 import {
+	columnsFromFields,
 	type ExportOptions,
 	exportData,
+	exportDataStream,
 	formatExportSummary,
 	validateExportOptions,
 } from "../../src/utils/export.js";
@@ -395,6 +398,20 @@ describe("formatExportSummary", () => {
 	});
 });
 
+describe("columnsFromFields", () => {
+	it("maps result-set fields to export columns", () => {
+		expect(
+			columnsFromFields([
+				{ name: "id", dataType: "int4", nativeTypeId: 23, nullable: false },
+				{ name: "note", dataType: "unknown" },
+			]),
+		).toEqual([
+			{ name: "id", dataType: "int4", nullable: false },
+			{ name: "note", dataType: "unknown", nullable: true },
+		]);
+	});
+});
+
 describe("CSV generation edge cases", () => {
 	const mockColumns: ColumnInfo[] = [
 		{ name: "id", dataType: "integer", nullable: false },
@@ -464,3 +481,89 @@ describe("CSV generation edge cases", () => {
 		expect(content).toContain('"false"');
 	});
 });
+
+describe("exportDataStream", () => {
+	const outputDir = join("/tmp", `seerdb-stream-export-${process.pid}`);
+	const columns: ColumnInfo[] = [
+		{ name: "id", dataType: "integer", nullable: false, isPrimaryKey: true },
+		{ name: "name", dataType: "text", nullable: true },
+	];
+
+	async function* batches(): AsyncGenerator<DataRow[]> {
+		yield [
+			{ id: 1, name: "Alice" },
+			{ id: 2, name: 'Bob "B"' },
+		];
+		yield [];
+		yield [{ id: 3, name: null }];
+	}
+
+	beforeEach(() => {
+		rmSync(outputDir, { recursive: true, force: true });
+		mkdirSync(outputDir, { recursive: true });
+	});
+
+	it("writes CSV chunk by chunk and counts rows", async () => {
+		const result = await exportDataStream(batches(), columns, {
+			format: "csv",
+			includeHeaders: true,
+			filename: "stream.csv",
+			outputDir,
+		});
+
+		expect(result).toEqual({
+			filepath: join(outputDir, "stream.csv"),
+			rowCount: 3,
+		});
+		expect(readFileSync(result.filepath, "utf-8")).toBe(
+			['"id","name"', '"1","Alice"', '"2","Bob ""B"""', '"3","NULL"'].join(
+				"\n",
+			),
+		);
+	});
+
+	it("writes CSV without headers", async () => {
+		const result = await exportDataStream(batches(), columns, {
+			format: "csv",
+			includeHeaders: false,
+			filename: "plain.csv",
+			outputDir,
+		});
+
+		const lines = readFileSync(result.filepath, "utf-8").split("\n");
+		expect(lines).toHaveLength(3);
+		expect(lines[0]).toBe('"1","Alice"');
+	});
+
+	it("writes valid JSON with metadata and trailing row count", async () => {
+		const result = await exportDataStream(batches(), columns, {
+			format: "json",
+			includeHeaders: true,
+			filename: "stream.json",
+			outputDir,
+		});
+
+		const parsed = JSON.parse(readFileSync(result.filepath, "utf-8"));
+		expect(parsed.columns).toHaveLength(2);
+		expect(parsed.rowCount).toBe(3);
+		expect(parsed.data).toEqual([
+			{ id: 1, name: "Alice" },
+			{ id: 2, name: 'Bob "B"' },
+			{ id: 3, name: null },
+		]);
+	});
+
+	it("writes a bare JSON array without headers, even when empty", async () => {
+		async function* empty(): AsyncGenerator<DataRow[]> {}
+
+		const result = await exportDataStream(empty(), columns, {
+			format: "json",
+			includeHeaders: false,
+			filename: "empty.json",
+			outputDir,
+		});
+
+		expect(result.rowCount).toBe(0);
+		expect(JSON.parse(readFileSync(result.filepath, "utf-8"))).toEqual([]);
+	});
+});
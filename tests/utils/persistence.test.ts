@@ -100,6 +100,29 @@ describe("persistence utilities", () => {
 			expect(result.skipped).toBe(0);
 		});
 
+		it("keeps the TLS settings of saved connections", async () => {
+			const mockConnections: ConnectionInfo[] = [
+				{
+					id: "1",
+					name: "RDS",
+					type: DBType.PostgreSQL,
+					connectionString: "postgres://app@db.example.com/app",
+					tls: {
+						mode: "verify-full",
+						caFile: "/etc/ssl/rds-global-bundle.pem",
+					},
+					createdAt: "2023-01-01T00:00:00.000Z",
+					updatedAt: "2023-01-01T00:00:00.000Z",
+				},
+			];
+			mockReadFile.mockResolvedValue(JSON.stringify(mockConnections));
+
+			const result = await loadConnections();
+
+			expect(result.connections).toEqual(mockConnections);
+			expect(result.normalized).toBe(0);
+		});
+
 		it("handles malformed JSON gracefully", async () => {
 			mockReadFile.mockResolvedValue("invalid json");
 
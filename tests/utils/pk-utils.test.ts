@@ -0,0 +1,76 @@
+import { describe, expect, it } from "bun:test";
+import {
+	type ColumnInfo,
+	DBType,
+	type TableInfo,
+} from "../../src/types/state.js";
+import {
+	describeRowIdentity,
+	getPhysicalRowIdColumn,
+	getRowIdentity,
+} from "../../src/utils/pk-utils.js";
+
+const table: TableInfo = { name: "events", type: "table" };
+const id: ColumnInfo = { name: "id", dataType: "integer", nullable: false };
+const note: ColumnInfo = { name: "note", dataType: "text", nullable: true };
+
+describe("getRowIdentity", () => {
+	it("prefers the primary key", () => {
+		expect(
+			getRowIdentity(DBType.SQLite, table, [
+				{ ...id, isPrimaryKey: true },
+				note,
+			]),
+		).toEqual({ strategy: "primary-key", columns: ["id"] });
+	});
+
+	it("falls back to a unique index", () => {
+		expect(
+			getRowIdentity(DBType.PostgreSQL, table, [
+				{ ...id, isUniqueKey: true },
+				note,
+			]),
+		).toEqual({ strategy: "unique-index", columns: ["id"] });
+	});
+
+	it("uses the dialect's physical row id, or every column on MySQL", () => {
+		const columns = [id, note];
+		expect(getRowIdentity(DBType.SQLite, table, columns)?.strategy).toBe(
+			"rowid",
+		);
+		expect(getRowIdentity(DBType.PostgreSQL, table, columns)?.strategy).toBe(
+			"ctid",
+		);
+		expect(getRowIdentity(DBType.MySQL, table, columns)).toEqual({
+			strategy: "all-columns",
+			columns: ["id", "note"],
+		});
+	});
+
+	it("can't identify rows of a view without a key", () => {
+		expect(
+			getRowIdentity(DBType.PostgreSQL, { ...table, type: "view" }, [id]),
+		).toBeNull();
+	});
+});
+
+describe("row identity helpers", () => {
+	it("name the hidden row id column only for physical ids", () => {
+		expect(
+			getPhysicalRowIdColumn({ strategy: "ctid", columns: ["ctid"] }),
+		).toBe("ctid");
+		expect(
+			getPhysicalRowIdColumn({ strategy: "primary-key", columns: ["id"] }),
+		).toBeNull();
+		expect(getPhysicalRowIdColumn(null)).toBeNull();
+	});
+
+	it("describe the strategy in use", () => {
+		expect(
+			describeRowIdentity({ strategy: "primary-key", columns: ["a", "b"] }),
+		).toBe("PKs: a, b");
+		expect(
+			describeRowIdentity({ strategy: "all-columns", columns: ["a"] }),
+		).toBe("No key: all column values");
+	});
+});